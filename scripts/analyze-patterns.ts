@@ -101,6 +101,8 @@ Consider these files:
 - src/services/advice-generator.service.ts (lines 50-400): Contains intent detection, prompt building, response generation
 - src/services/conversation-analyzer.service.ts: Analyzes conversation patterns
 - src/services/personality-analyzer.service.ts: Analyzes user personality
+- src/services/parallel-llm.service.ts: Signal router prompt (classifyMessage) and keyword/safety triggers
+- src/knowledge-base/framework-registry.ts: Framework trigger keywords and classifier flags
 
 Return ONLY valid JSON:
 {
@@ -174,8 +176,10 @@ async function main() {
   console.log('║        Pattern Analyzer - GPT-4 Powered           ║');
   console.log('╚═══════════════════════════════════════════════════╝');
 
-  // Load evaluation results
-  const resultsPath = path.join(__dirname, '..', 'test', 'evaluation-results.json');
+  // Load evaluation results (evaluate-quality.ts by default, or e.g. test/router-eval-results.json)
+  const resultsPath = process.argv[2]
+    ? path.resolve(process.argv[2])
+    : path.join(__dirname, '..', 'test', 'evaluation-results.json');
   if (!fs.existsSync(resultsPath)) {
     console.error('❌ No evaluation results found. Run evaluate-quality.ts first.');
     process.exit(1);
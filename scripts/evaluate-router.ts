@@ -0,0 +1,450 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { ConfigService } from '@nestjs/config';
+import { ClassifierFlag, FRAMEWORK_REGISTRY } from '../src/knowledge-base/framework-registry';
+import { Classification, ParallelLLMService } from '../src/services/parallel-llm.service';
+import { LLMOrchestratorService } from '../src/services/llm-orchestrator.service';
+import { LLMFixtureMissingError, LLMRecorderService } from '../src/services/llm-recorder.service';
+import { LLMSchedulerService } from '../src/services/llm-scheduler.service';
+import { ProviderCircuitBreakerService } from '../src/services/provider-circuit-breaker.service';
+import { TokenCounterService } from '../src/services/token-counter.service';
+import { CreditService } from '../src/services/credit.service';
+import { LongitudinalProfileService } from '../src/services/longitudinal-profile.service';
+import { OpenAIProvider } from '../src/providers/openai.provider';
+import { ClaudeProvider } from '../src/providers/claude.provider';
+import { DeepSeekProvider } from '../src/providers/deepseek.provider';
+import { GeminiProvider } from '../src/providers/gemini.provider';
+import { OpenAICompatibleProvider } from '../src/providers/openai-compatible.provider';
+import { MockProvider } from '../src/providers/mock.provider';
+
+/**
+ * Router evaluation harness
+ *
+ * Scores the two ways a message gets its Classification flags against a labeled dataset:
+ * - keyword: registry trigger keywords (detectTriggerKeywords) plus the local safety check
+ * - llm: the production signal router (classifyMessage), replayed offline from LLM fixtures
+ *
+ * Usage:
+ *   npm run qa:router                      replay the LLM router from scripts/router-eval/fixtures
+ *   npm run qa:router -- --record          call the router live and record its fixtures
+ *   npm run qa:router -- --mock            use the mock provider (smoke test, no fixtures)
+ *   npm run qa:router -- --update-baseline store this run as the new baseline
+ *   npm run qa:router -- --import-generated  add test/generated-test-cases.json as draft cases
+ *   npm run qa:router -- --include-drafts  also score cases with needsReview
+ *
+ * Writes test/router-eval-results.json; its report.failedTests can be fed to
+ * `npm run qa:analyze -- test/router-eval-results.json`. Exits with 1 on a regression.
+ */
+
+dotenv.config();
+
+const EVAL_DIR = path.join(__dirname, 'router-eval');
+const CASES_PATH = path.join(EVAL_DIR, 'cases.json');
+const BASELINE_PATH = path.join(EVAL_DIR, 'baseline.json');
+const FIXTURES_DIR = path.join(EVAL_DIR, 'fixtures');
+const GENERATED_PATH = path.join(__dirname, '..', 'test', 'generated-test-cases.json');
+const RESULTS_PATH = path.join(__dirname, '..', 'test', 'router-eval-results.json');
+
+/** A metric below its baseline by more than this is a regression. */
+const REGRESSION_TOLERANCE = 0.02;
+
+type Urgency = Classification['urgency'];
+type EvalPath = 'keyword' | 'llm';
+
+const URGENCIES: Urgency[] = ['low', 'medium', 'high', 'critical'];
+const FLAGS: ClassifierFlag[] = ['hasCrisisIndicators', ...FRAMEWORK_REGISTRY.map((f) => f.classifierFlag)];
+
+interface RouterEvalCase {
+  id: string;
+  message: string;
+  history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Flags that should be set; every other flag should be false */
+  expectedFlags: ClassifierFlag[];
+  expectedUrgency: Urgency;
+  category?: string;
+  source?: string;
+  /** Draft label, not scored unless --include-drafts */
+  needsReview?: boolean;
+}
+
+interface Prediction {
+  flags: ClassifierFlag[];
+  /** Not predicted by the keyword path */
+  urgency?: Urgency;
+}
+
+interface FlagScore {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+interface PathScore {
+  scored: number;
+  /** Cases without an LLM fixture (replay) */
+  skipped: string[];
+  flags: Record<string, FlagScore>;
+  micro: { precision: number | null; recall: number | null; f1: number | null };
+  /** Cases where every flag matched */
+  exactMatch: number | null;
+  /** Expected → predicted counts (LLM path only) */
+  urgency: { accuracy: number | null; confusion: Record<string, Record<string, number>> } | null;
+}
+
+interface Regression {
+  path: EvalPath;
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+const ratio = (num: number, den: number) => (den > 0 ? Math.round((num / den) * 1000) / 1000 : null);
+const f1Of = (p: number | null, r: number | null) =>
+  p === null || r === null ? null : p + r > 0 ? Math.round(((2 * p * r) / (p + r)) * 1000) / 1000 : 0;
+
+function loadCases(): RouterEvalCase[] {
+  return JSON.parse(fs.readFileSync(CASES_PATH, 'utf-8')).cases;
+}
+
+/**
+ * Add generate-test-cases.ts output as draft cases. Labels come from the generator's category
+ * (and severity, via expectedBehavior) and need a human review before they count.
+ */
+function importGeneratedCases(): number {
+  if (!fs.existsSync(GENERATED_PATH)) {
+    console.error(`❌ ${GENERATED_PATH} not found. Run npm run qa:generate first.`);
+    process.exit(1);
+  }
+  const categoryFlags: Record<string, ClassifierFlag[]> = {
+    emotional_support: ['hasEmotionalContent'],
+    relationship_social: ['hasAttachment'],
+    self_improvement: ['hasSelfWorthContent'],
+    business_career: ['hasErikson'],
+    edge_cases: [],
+  };
+  const dataset = JSON.parse(fs.readFileSync(CASES_PATH, 'utf-8'));
+  const known = new Set(dataset.cases.map((c: RouterEvalCase) => c.message.trim().toLowerCase()));
+  const generated = JSON.parse(fs.readFileSync(GENERATED_PATH, 'utf-8')).testCases || [];
+  let added = 0;
+
+  for (const testCase of generated) {
+    const message = (testCase.input || '').trim();
+    if (!message || known.has(message.toLowerCase())) continue;
+    known.add(message.toLowerCase());
+    const severe = /professional help/i.test(testCase.expectedBehavior || '');
+    dataset.cases.push({
+      id: `generated-${testCase.category}-${++added}`,
+      message,
+      expectedFlags: categoryFlags[testCase.category] || [],
+      expectedUrgency: testCase.category === 'emotional_support' ? (severe ? 'high' : 'medium') : 'low',
+      category: testCase.category,
+      source: 'generate-test-cases',
+      needsReview: true,
+    });
+  }
+
+  fs.writeFileSync(CASES_PATH, JSON.stringify(dataset, null, 2) + '\n');
+  return added;
+}
+
+function buildParallelLLM(): { parallelLLM: ParallelLLMService; orchestrator: LLMOrchestratorService } {
+  const config = new ConfigService();
+  const orchestrator = new LLMOrchestratorService(
+    new OpenAIProvider(config),
+    new ClaudeProvider(config),
+    new DeepSeekProvider(config),
+    new GeminiProvider(config),
+    new OpenAICompatibleProvider(config),
+    new MockProvider(config),
+    new ProviderCircuitBreakerService(config),
+    new LLMRecorderService(),
+    new LLMSchedulerService(config),
+    new TokenCounterService(),
+  );
+  // No userId is passed, so nothing is billed or recorded
+  const parallelLLM = new ParallelLLMService(
+    config,
+    orchestrator,
+    { recordTokenUsage: async () => undefined } as unknown as CreditService,
+    { record: () => undefined } as unknown as LongitudinalProfileService,
+  );
+  return { parallelLLM, orchestrator };
+}
+
+function predictKeywords(parallelLLM: ParallelLLMService, testCase: RouterEvalCase): Prediction {
+  const { flags } = parallelLLM.detectTriggerKeywords(testCase.message);
+  const predicted = FLAGS.filter((flag) => flags[flag]);
+  if (parallelLLM.detectSafetyRisk(testCase.message).flag === 'risk') predicted.unshift('hasCrisisIndicators');
+  return { flags: predicted };
+}
+
+async function predictRouter(
+  parallelLLM: ParallelLLMService,
+  testCase: RouterEvalCase,
+): Promise<Prediction> {
+  // Same call analyze() makes (router model, recent history) without running any framework
+  const classification = await parallelLLM['classifyMessage'](
+    testCase.message,
+    testCase.history || [],
+    'gpt-4o-mini',
+    `router-eval-${testCase.id}`,
+  );
+  return { flags: FLAGS.filter((flag) => classification[flag]), urgency: classification.urgency };
+}
+
+function score(cases: RouterEvalCase[], predictions: Map<string, Prediction>, skipped: string[], withUrgency: boolean): PathScore {
+  const flags: Record<string, FlagScore> = {};
+  let exact = 0;
+  const confusion: Record<string, Record<string, number>> = {};
+  let urgencyCorrect = 0;
+
+  for (const flag of FLAGS) {
+    const counts = { tp: 0, fp: 0, fn: 0, tn: 0 };
+    for (const testCase of cases) {
+      const predicted = predictions.get(testCase.id);
+      if (!predicted) continue;
+      const expected = testCase.expectedFlags.includes(flag);
+      const actual = predicted.flags.includes(flag);
+      if (expected && actual) counts.tp++;
+      else if (!expected && actual) counts.fp++;
+      else if (expected && !actual) counts.fn++;
+      else counts.tn++;
+    }
+    const precision = ratio(counts.tp, counts.tp + counts.fp);
+    const recall = ratio(counts.tp, counts.tp + counts.fn);
+    flags[flag] = { ...counts, precision, recall, f1: f1Of(precision, recall) };
+  }
+
+  for (const testCase of cases) {
+    const predicted = predictions.get(testCase.id);
+    if (!predicted) continue;
+    if (FLAGS.every((flag) => testCase.expectedFlags.includes(flag) === predicted.flags.includes(flag))) exact++;
+    if (withUrgency && predicted.urgency) {
+      const row = (confusion[testCase.expectedUrgency] = confusion[testCase.expectedUrgency] || {});
+      row[predicted.urgency] = (row[predicted.urgency] || 0) + 1;
+      if (predicted.urgency === testCase.expectedUrgency) urgencyCorrect++;
+    }
+  }
+
+  const totals = Object.values(flags).reduce(
+    (sum, f) => ({ tp: sum.tp + f.tp, fp: sum.fp + f.fp, fn: sum.fn + f.fn }),
+    { tp: 0, fp: 0, fn: 0 },
+  );
+  const precision = ratio(totals.tp, totals.tp + totals.fp);
+  const recall = ratio(totals.tp, totals.tp + totals.fn);
+
+  return {
+    scored: predictions.size,
+    skipped,
+    flags,
+    micro: { precision, recall, f1: f1Of(precision, recall) },
+    exactMatch: ratio(exact, predictions.size),
+    urgency: withUrgency ? { accuracy: ratio(urgencyCorrect, predictions.size), confusion } : null,
+  };
+}
+
+/** Headline metrics compared against the baseline: micro F1, exact match, urgency accuracy, F1 per flag. */
+function metricsOf(result: PathScore): Record<string, number | null> {
+  const metrics: Record<string, number | null> = {
+    'micro.f1': result.micro.f1,
+    exactMatch: result.exactMatch,
+  };
+  if (result.urgency) metrics['urgency.accuracy'] = result.urgency.accuracy;
+  for (const [flag, counts] of Object.entries(result.flags)) metrics[`${flag}.f1`] = counts.f1;
+  return metrics;
+}
+
+function findRegressions(current: Record<EvalPath, PathScore | null>, baseline: any): Regression[] {
+  const regressions: Regression[] = [];
+  for (const evalPath of ['keyword', 'llm'] as EvalPath[]) {
+    const result = current[evalPath];
+    const previous = baseline?.metrics?.[evalPath];
+    // A partial replay (cases without fixtures) isn't comparable with the full-dataset baseline
+    if (!result || !previous || result.skipped.length > 0) continue;
+    for (const [metric, value] of Object.entries(metricsOf(result))) {
+      const before = previous[metric];
+      if (typeof before !== 'number' || value === null) continue;
+      if (value < before - REGRESSION_TOLERANCE) {
+        regressions.push({ path: evalPath, metric, baseline: before, current: value, delta: Math.round((value - before) * 1000) / 1000 });
+      }
+    }
+  }
+  return regressions;
+}
+
+/** Per-case misses in the shape analyze-patterns.ts reads (report.failedTests). */
+function failedTestsOf(evalPath: EvalPath, cases: RouterEvalCase[], predictions: Map<string, Prediction>) {
+  return cases.flatMap((testCase) => {
+    const predicted = predictions.get(testCase.id);
+    if (!predicted) return [];
+    const issues = [
+      ...testCase.expectedFlags.filter((f) => !predicted.flags.includes(f)).map((f) => `${evalPath} router missed ${f}`),
+      ...predicted.flags.filter((f) => !testCase.expectedFlags.includes(f)).map((f) => `${evalPath} router false positive ${f}`),
+    ];
+    if (predicted.urgency && predicted.urgency !== testCase.expectedUrgency) {
+      issues.push(`${evalPath} router urgency ${predicted.urgency} (expected ${testCase.expectedUrgency})`);
+    }
+    if (issues.length === 0) return [];
+    return [
+      {
+        id: testCase.id,
+        category: testCase.category || 'uncategorized',
+        input: testCase.message,
+        response: `flags: ${predicted.flags.join(', ') || '(none)'}${predicted.urgency ? `; urgency: ${predicted.urgency}` : ''}`,
+        issues,
+      },
+    ];
+  });
+}
+
+function printPath(name: string, result: PathScore) {
+  console.log(`\n── ${name} ── scored ${result.scored}${result.skipped.length ? `, skipped ${result.skipped.length} (no fixture)` : ''}`);
+  console.log(`   micro P/R/F1: ${result.micro.precision ?? '-'} / ${result.micro.recall ?? '-'} / ${result.micro.f1 ?? '-'}   exact match: ${result.exactMatch ?? '-'}`);
+  console.log('   flag                        TP  FP  FN  TN   precision recall  f1');
+  for (const [flag, f] of Object.entries(result.flags)) {
+    console.log(
+      `   ${flag.padEnd(27)} ${String(f.tp).padStart(3)} ${String(f.fp).padStart(3)} ${String(f.fn).padStart(3)} ${String(f.tn).padStart(3)}   ${String(f.precision ?? '-').padEnd(9)} ${String(f.recall ?? '-').padEnd(7)} ${f.f1 ?? '-'}`,
+    );
+  }
+  if (result.urgency) {
+    console.log(`   urgency accuracy: ${result.urgency.accuracy ?? '-'}  (rows: expected, columns: predicted)`);
+    console.log(`   ${''.padEnd(10)}${URGENCIES.map((u) => u.padStart(9)).join('')}`);
+    for (const expected of URGENCIES) {
+      const row = result.urgency.confusion[expected] || {};
+      console.log(`   ${expected.padEnd(10)}${URGENCIES.map((u) => String(row[u] || 0).padStart(9)).join('')}`);
+    }
+  }
+}
+
+/**
+ * Main execution
+ */
+async function main() {
+  const args = new Set(process.argv.slice(2));
+
+  console.log('╔═══════════════════════════════════════════════════╗');
+  console.log('║        Signal Router Evaluation Harness           ║');
+  console.log('╚═══════════════════════════════════════════════════╝');
+
+  if (args.has('--import-generated')) {
+    console.log(`\n📥 Imported ${importGeneratedCases()} draft cases from ${GENERATED_PATH} (needsReview)`);
+  }
+
+  // The LLM path never calls a provider unless asked to record
+  if (args.has('--mock')) {
+    process.env.LLM_MOCK_MODE = 'all';
+    process.env.LLM_RECORD_MODE = 'off';
+  } else {
+    process.env.LLM_RECORD_MODE = args.has('--record') ? 'record' : 'replay';
+  }
+  process.env.LLM_FIXTURES_DIR = process.env.LLM_FIXTURES_DIR || FIXTURES_DIR;
+
+  const cases = loadCases().filter((c) => args.has('--include-drafts') || !c.needsReview);
+  console.log(`\n📋 ${cases.length} labeled cases, LLM router mode: ${args.has('--mock') ? 'mock' : process.env.LLM_RECORD_MODE}`);
+
+  const { parallelLLM, orchestrator } = buildParallelLLM();
+
+  // classifyMessage falls back to a default classification on errors; a missing fixture must
+  // skip the case instead of being scored as that fallback
+  let fixtureMissing = false;
+  const generateResponse = orchestrator.generateResponse.bind(orchestrator);
+  orchestrator.generateResponse = async (...callArgs: Parameters<typeof generateResponse>) => {
+    try {
+      return await generateResponse(...callArgs);
+    } catch (error) {
+      if (error instanceof LLMFixtureMissingError) fixtureMissing = true;
+      throw error;
+    }
+  };
+
+  const keywordPredictions = new Map<string, Prediction>();
+  const llmPredictions = new Map<string, Prediction>();
+  const skipped: string[] = [];
+  const log = console.log;
+  for (const testCase of cases) {
+    keywordPredictions.set(testCase.id, predictKeywords(parallelLLM, testCase));
+    fixtureMissing = false;
+    console.log = () => undefined; // the router logs every call
+    console.error = console.log;
+    try {
+      const prediction = await predictRouter(parallelLLM, testCase);
+      if (fixtureMissing) skipped.push(testCase.id);
+      else llmPredictions.set(testCase.id, prediction);
+    } finally {
+      console.log = log;
+      console.error = log;
+    }
+  }
+
+  const results: Record<EvalPath, PathScore | null> = {
+    keyword: score(cases, keywordPredictions, [], false),
+    llm: llmPredictions.size > 0 ? score(cases, llmPredictions, skipped, true) : null,
+  };
+  printPath('Keyword path', results.keyword!);
+  if (results.llm) printPath('LLM router path', results.llm);
+  else console.log(`\n── LLM router path ── no fixtures for any case; record them with --record`);
+
+  const baseline = fs.existsSync(BASELINE_PATH) ? JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf-8')) : null;
+  const regressions = findRegressions(results, baseline);
+  if (!baseline) {
+    console.log('\nℹ️  No baseline yet; store one with --update-baseline');
+  } else if (regressions.length === 0) {
+    console.log(`\n✅ No regressions against the baseline from ${baseline.generatedAt}`);
+  } else {
+    console.log(`\n❌ ${regressions.length} regression(s) against the baseline from ${baseline.generatedAt}:`);
+    for (const r of regressions) console.log(`   ${r.path} ${r.metric}: ${r.baseline} → ${r.current} (${r.delta})`);
+  }
+
+  const failedTests = [
+    ...failedTestsOf('keyword', cases, keywordPredictions),
+    ...failedTestsOf('llm', cases, llmPredictions),
+  ];
+  fs.mkdirSync(path.dirname(RESULTS_PATH), { recursive: true });
+  fs.writeFileSync(
+    RESULTS_PATH,
+    JSON.stringify(
+      {
+        timestamp: new Date().toISOString(),
+        dataset: { path: CASES_PATH, cases: cases.length },
+        results,
+        regressions,
+        report: { failedTests },
+      },
+      null,
+      2,
+    ),
+  );
+  console.log(`\n💾 Results saved to: ${RESULTS_PATH}`);
+
+  if (args.has('--update-baseline')) {
+    const metrics: Record<string, Record<string, number | null>> = {};
+    for (const evalPath of ['keyword', 'llm'] as EvalPath[]) {
+      const result = results[evalPath];
+      // Keep the previous LLM baseline when this run couldn't replay every case
+      if (result && result.skipped.length === 0) metrics[evalPath] = metricsOf(result);
+      else if (baseline?.metrics?.[evalPath]) metrics[evalPath] = baseline.metrics[evalPath];
+    }
+    fs.writeFileSync(
+      BASELINE_PATH,
+      JSON.stringify({ generatedAt: new Date().toISOString(), cases: cases.length, metrics }, null, 2) + '\n',
+    );
+    console.log(`📌 Baseline updated: ${BASELINE_PATH}`);
+  } else if (regressions.length > 0) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+export { score, findRegressions };
@@ -3,16 +3,23 @@ import { ConfigModule } from '@nestjs/config';
 import { AppController } from './controllers/app.controller';
 import { ChatController } from './controllers/chat.controller';
 import { CreditsController } from './controllers/credits.controller';
+import { AdminController } from './controllers/admin.controller';
 import { ChatService } from './services/chat.service';
 import { PersonalityAnalyzerService } from './services/personality-analyzer.service';
 import { AdviceGeneratorService } from './services/advice-generator.service';
 import { ConversationAnalyzerService } from './services/conversation-analyzer.service';
 import { ParallelLLMService } from './services/parallel-llm.service';
 import { LLMOrchestratorService } from './services/llm-orchestrator.service';
+import { ProviderCircuitBreakerService } from './services/provider-circuit-breaker.service';
+import { LLMRecorderService } from './services/llm-recorder.service';
+import { LLMSchedulerService } from './services/llm-scheduler.service';
 import { OpenAIProvider } from './providers/openai.provider';
 import { ClaudeProvider } from './providers/claude.provider';
 import { DeepSeekProvider } from './providers/deepseek.provider';
 import { GeminiProvider } from './providers/gemini.provider';
+import { OpenAICompatibleProvider } from './providers/openai-compatible.provider';
+import { MockProvider } from './providers/mock.provider';
+import { ModelRegistryService } from './services/model-registry.service';
 import { CreditService } from './services/credit.service';
 import { SubscriptionService } from './services/subscription.service';
 import { IOSBackendService } from './services/ios-backend.service';
@@ -20,8 +27,17 @@ import { EdnaProfileService } from './services/edna-profile.service';
 import { ChatRepositoryAdapter } from './repositories/chat-repository.adapter';
 import { RollingSummaryService } from './services/rolling-summary.service';
 import { BudgetTrackerService } from './services/budget-tracker.service';
+import { TokenCounterService } from './services/token-counter.service';
+import { ModelRouterService } from './services/model-router.service';
+import { ExperimentService } from './services/experiment.service';
 import { UsageStoreService } from './services/usage-store.service';
+import { LongitudinalProfileService } from './services/longitudinal-profile.service';
+import { SafetyAuditService } from './services/safety-audit.service';
+import { SafetyGateService } from './services/safety-gate.service';
+import { TraceStoreService } from './services/trace-store.service';
+import { IdempotencyService } from './services/idempotency.service';
 import { GuestSessionService } from './services/guest-session.service';
+import { ChatToolRegistryService } from './services/chat-tool-registry.service';
 import { FaqChatController } from './faq-chatbot/faq-chat.controller';
 import { FaqChatService } from './faq-chatbot/faq-chat.service';
 import { FaqKnowledgeLoaderService } from './faq-chatbot/faq-knowledge-loader.service';
@@ -51,18 +67,28 @@ import { ComplianceModule } from './compliance/compliance.module';
     ComplianceModule,
     // NO DatabaseModule - all data goes to Munawar's backend
   ],
-  controllers: [AppController, ChatController, CreditsController, FaqChatController],
+  controllers: [AppController, ChatController, CreditsController, AdminController, FaqChatController],
   providers: [
     ChatService,
     PersonalityAnalyzerService,
     AdviceGeneratorService,
     ConversationAnalyzerService,
     ParallelLLMService,
+    // Model registry (model-registry.data.json; reload via POST /admin/models/reload)
+    ModelRegistryService,
     // LLM Providers
     OpenAIProvider,
     ClaudeProvider,
     DeepSeekProvider,
     GeminiProvider,
+    OpenAICompatibleProvider, // vLLM / Ollama / LM Studio / internal gateway (LLM_MODELS[id].endpoint)
+    MockProvider, // Deterministic offline provider (LLM_MOCK_MODE)
+    // Per-provider circuit breakers (orchestrator skips unhealthy providers, walks fallback chains)
+    ProviderCircuitBreakerService,
+    // Record/replay of LLM calls to fixture files (LLM_RECORD_MODE)
+    LLMRecorderService,
+    // Per-provider/per-model concurrency caps, priority queue and 429 backoff for LLM calls
+    LLMSchedulerService,
     LLMOrchestratorService,
     // Usage persistence (file-based, survives restarts)
     UsageStoreService,
@@ -75,10 +101,27 @@ import { ComplianceModule } from './compliance/compliance.module';
     IOSBackendService,
     // E-DNA Profile Service
     EdnaProfileService,
+    // Local prompt token counts per model family (input limits, pre-flight checks, history trimming)
+    TokenCounterService,
+    // Resolves the virtual `auto` model to the cheapest allowed model per message
+    ModelRouterService,
     // Rolling Summary Service (for cost-effective long conversations)
     RollingSummaryService,
     // Budget Tracker Service (for per-model monthly credit limits)
     BudgetTrackerService,
+    // Server functions the advice model may call (CHAT_TOOLS_ENABLED)
+    ChatToolRegistryService,
+    // A/B experiments: prompt version/model/temperature variants and their outcomes
+    ExperimentService,
+    // Per-user psychological signals across sessions (recency-weighted trends)
+    LongitudinalProfileService,
+    // Safety gate: crisis template + escalation webhook before generation, append-only audit log
+    SafetyAuditService,
+    SafetyGateService,
+    // Sampled per-turn traces with retention (GET /admin/traces)
+    TraceStoreService,
+    // Idempotency-Key replay for POST /chat and /chat/guest retries
+    IdempotencyService,
     // Guest chat (in-memory only; no E-DNA, no Munawar persistence)
     GuestSessionService,
     // FAQ chatbot (separate from DI agent; knowledge in faq-chatbot-knowledge/)
@@ -0,0 +1,104 @@
+/**
+ * Crisis Resources
+ *
+ * Vetted crisis reply templates and per-region crisis lines used by the safety gate
+ * (SafetyGateService). Defaults to crisis-resources.data.json; CRISIS_RESOURCES_PATH points at
+ * another file. Template and resource wording is reviewed content: change it in the file, not in code.
+ */
+
+import bundledResources from './crisis-resources.data.json';
+
+export type SafetyCategory = 'self_harm' | 'harm_others' | 'abuse' | 'medical' | 'crisis';
+
+export const SAFETY_CATEGORIES: SafetyCategory[] = ['self_harm', 'harm_others', 'abuse', 'medical', 'crisis'];
+
+export interface CrisisResource {
+  name: string;
+  contact: string;
+  /** Categories this line is listed for (omitted = all) */
+  categories?: SafetyCategory[];
+}
+
+export interface CrisisRegion {
+  name: string;
+  emergency: string;
+  resources: CrisisResource[];
+}
+
+export interface CrisisResourcesFile {
+  version: string;
+  /** Region used when the client sends none (or one without an entry) */
+  defaultRegion: string;
+  /** One reply per category; `{{resources}}` is replaced with the region's list */
+  templates: Record<SafetyCategory, string>;
+  /** Keyed by ISO 3166-1 alpha-2 code (plus INTL) */
+  regions: Record<string, CrisisRegion>;
+}
+
+/**
+ * Validate a parsed crisis resources file. Returns a list of problems (empty when valid).
+ */
+export function validateCrisisResources(raw: any): string[] {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') return ['Crisis resources must be a JSON object'];
+  if (typeof raw.version !== 'string' || !raw.version.trim()) errors.push('version must be a non-empty string');
+
+  for (const category of SAFETY_CATEGORIES) {
+    const template = raw.templates?.[category];
+    if (typeof template !== 'string' || !template.includes('{{resources}}')) {
+      errors.push(`templates.${category} must be a string containing {{resources}}`);
+    }
+  }
+
+  if (!raw.regions || typeof raw.regions !== 'object' || Object.keys(raw.regions).length === 0) {
+    errors.push('regions must be a non-empty object');
+    return errors;
+  }
+  for (const [code, region] of Object.entries<any>(raw.regions)) {
+    if (code !== code.toUpperCase()) errors.push(`regions.${code}: region codes must be upper case`);
+    if (typeof region?.emergency !== 'string' || !region.emergency.trim()) {
+      errors.push(`regions.${code}.emergency is required`);
+    }
+    if (!Array.isArray(region?.resources)) {
+      errors.push(`regions.${code}.resources must be an array`);
+      continue;
+    }
+    for (const [index, resource] of region.resources.entries()) {
+      if (typeof resource?.name !== 'string' || typeof resource?.contact !== 'string') {
+        errors.push(`regions.${code}.resources[${index}] needs name and contact`);
+      }
+      for (const category of resource?.categories || []) {
+        if (!SAFETY_CATEGORIES.includes(category)) {
+          errors.push(`regions.${code}.resources[${index}]: unknown category "${category}"`);
+        }
+      }
+    }
+  }
+  if (!raw.regions[raw.defaultRegion]) errors.push(`defaultRegion "${raw.defaultRegion}" has no regions entry`);
+  return errors;
+}
+
+export const BUNDLED_CRISIS_RESOURCES = bundledResources as CrisisResourcesFile;
+
+/**
+ * The vetted reply for a category, with the region's crisis lines filled in.
+ * Unknown regions fall back to `fallbackRegion`, then the file's defaultRegion.
+ */
+export function renderCrisisResponse(
+  resources: CrisisResourcesFile,
+  category: SafetyCategory,
+  region?: string,
+  fallbackRegion?: string,
+): { region: string; response: string } {
+  const code = [region, fallbackRegion, resources.defaultRegion]
+    .map((c) => c?.trim().toUpperCase())
+    .find((c) => c && resources.regions[c])!;
+  const entry = resources.regions[code];
+  const lines = [
+    `- Emergency services: ${entry.emergency}`,
+    ...entry.resources
+      .filter((r) => !r.categories || r.categories.includes(category))
+      .map((r) => `- ${r.name}: ${r.contact}`),
+  ];
+  return { region: code, response: resources.templates[category].replace('{{resources}}', lines.join('\n')) };
+}
@@ -1,7 +1,11 @@
+import { OPENAI_STRUCTURED_OUTPUT_MODELS } from './llm-models.config';
+
 /**
  * OpenAI Structured Outputs schema for the DI agent.
  * Guarantees valid JSON with non-empty "response" so we avoid empty-response fallbacks and loops.
- * Supported on gpt-4o, gpt-4o-mini (and later). Use with response_format when calling OpenAI.
+ * Works on every provider that supportsStructuredOutput (OpenAI via Structured Outputs, Claude via
+ * forced tool use, Gemini via responseSchema, DeepSeek via JSON mode); pair it with
+ * LLMOrchestratorService.generateStructured for validation and a retry.
  */
 export const DI_AGENT_RESPONSE_JSON_SCHEMA = {
   type: 'json_schema' as const,
@@ -26,9 +30,10 @@ export const DI_AGENT_RESPONSE_JSON_SCHEMA = {
   },
 };
 
-/** OpenAI model IDs that support Structured Outputs (json_schema). */
-export const OPENAI_STRUCTURED_OUTPUT_MODELS = ['gpt-4o', 'gpt-4o-mini'];
-
-export function useStructuredOutputForModel(selectedLLM: string): boolean {
-  return OPENAI_STRUCTURED_OUTPUT_MODELS.includes(selectedLLM);
+/** Parsed DI_AGENT_RESPONSE_JSON_SCHEMA reply. */
+export interface DIAgentResponse {
+  response: string;
+  reasoning: string;
 }
+
+export { OPENAI_STRUCTURED_OUTPUT_MODELS };
@@ -0,0 +1,80 @@
+/**
+ * A/B Experiment Configuration
+ *
+ * Each experiment splits users between variants by a hash of experiment id + user id, so a user
+ * always gets the same variant (across sessions and restarts) and changing one experiment's split
+ * doesn't reshuffle the others. Weights are relative (50/50, 90/10, 1/1/1...).
+ *
+ * Per surface (`chat` = signed-in chat, `guest` = guest chat) a user is in at most one experiment:
+ * the first enabled one listed. Anonymous users are never enrolled.
+ *
+ * A variant may set:
+ * - promptVersions: versions from knowledge-base/prompt-versions.ts (unset surfaces use the current prompt)
+ * - model: LLM_MODELS id that replaces the selected model (on `chat`, only when the user's tier can access it)
+ * - temperature: replaces the reply temperature (0.7)
+ *
+ * Outcomes per variant: GET /admin/experiments.
+ */
+
+import { PromptSurface, PROMPT_VERSIONS } from '../knowledge-base/prompt-versions';
+import { LLM_MODELS } from './llm-models.config';
+
+export type ExperimentSurface = 'chat' | 'guest';
+
+export interface ExperimentVariant {
+  id: string;
+  /** Relative share of traffic. */
+  weight: number;
+  promptVersions?: Partial<Record<PromptSurface, string>>;
+  model?: string;
+  temperature?: number;
+}
+
+export interface ExperimentDefinition {
+  id: string;
+  description?: string;
+  enabled: boolean;
+  surface: ExperimentSurface;
+  variants: ExperimentVariant[];
+}
+
+export const EXPERIMENTS: ExperimentDefinition[] = [
+  {
+    id: 'reply-temperature-2026-10',
+    description: 'Does a lower reply temperature keep users in the conversation longer?',
+    enabled: false,
+    surface: 'chat',
+    variants: [
+      { id: 'control', weight: 50 },
+      { id: 'temp-0.5', weight: 50, temperature: 0.5 },
+    ],
+  },
+];
+
+/**
+ * Problems with an experiment definition (empty when valid): duplicate or missing variants,
+ * non-positive weights, unknown prompt versions or models, out-of-range temperatures.
+ */
+export function validateExperiment(experiment: ExperimentDefinition): string[] {
+  const errors: string[] = [];
+  if (!experiment.variants || experiment.variants.length < 2) {
+    errors.push('needs at least two variants');
+  }
+  const seen = new Set<string>();
+  for (const variant of experiment.variants || []) {
+    const where = `variant "${variant.id}"`;
+    if (seen.has(variant.id)) errors.push(`${where}: duplicate id`);
+    seen.add(variant.id);
+    if (!(variant.weight > 0)) errors.push(`${where}: weight must be > 0`);
+    for (const [surface, version] of Object.entries(variant.promptVersions || {})) {
+      if (PROMPT_VERSIONS[surface as PromptSurface]?.[version as string] === undefined) {
+        errors.push(`${where}: unknown ${surface} prompt version "${version}"`);
+      }
+    }
+    if (variant.model && !LLM_MODELS[variant.model]) errors.push(`${where}: unknown model "${variant.model}"`);
+    if (variant.temperature !== undefined && !(variant.temperature >= 0 && variant.temperature <= 2)) {
+      errors.push(`${where}: temperature must be between 0 and 2`);
+    }
+  }
+  return errors;
+}
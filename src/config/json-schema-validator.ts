@@ -0,0 +1,121 @@
+import { LLMResponseFormatJsonSchema } from '../interfaces/llm-provider.interface';
+
+/**
+ * JSON Schema validation for structured LLM output.
+ *
+ * Covers the subset our response schemas use (the same subset OpenAI Structured Outputs accepts):
+ * type, properties, required, additionalProperties, items, enum, string length, array size and numeric bounds.
+ * Returns a list of problems (empty when valid), phrased so they can be sent back to the model.
+ */
+export function validateJsonSchema(value: unknown, schema: Record<string, any>, path = '$'): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed: unknown) => allowed === value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`)));
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propValue] of Object.entries(obj)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(propValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse model output as JSON, tolerating a ```json code fence around it. Returns undefined when
+ * it isn't JSON.
+ */
+export function parseJsonOutput(text: string): unknown {
+  const trimmed = (text || '').trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/);
+  try {
+    return JSON.parse(fenced ? fenced[1] : trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * System prompt for providers whose JSON mode takes no schema (DeepSeek, and models without
+ * native Structured Outputs): the schema itself, which validation will hold the reply to.
+ */
+export function buildSchemaInstruction(format: LLMResponseFormatJsonSchema): string {
+  return (
+    `Reply with a single JSON object (no prose, no code fences) that matches this JSON Schema ` +
+    `("${format.json_schema.name}"):\n${JSON.stringify(format.json_schema.schema)}`
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * Language detection
+ *
+ * Per-message language for the DI agent, the guest coach and the FAQ bot: the reply-language
+ * instruction for the response model, English-only guardrails (typo check) and the `language`
+ * stored in session metadata. Heuristic and local (no LLM call): the writing system decides for
+ * non-Latin scripts; Latin-script messages are scored on common function words and diacritics.
+ * Messages with nothing to go on (e.g. "ok", "👍") keep the conversation's previous language.
+ */
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'nl' | 'ru' | 'ar' | 'hi' | 'zh' | 'ja' | 'ko';
+
+export const SUPPORTED_LANGUAGES: Record<LanguageCode, { name: string; nativeName: string }> = {
+  en: { name: 'English', nativeName: 'English' },
+  es: { name: 'Spanish', nativeName: 'Español' },
+  fr: { name: 'French', nativeName: 'Français' },
+  de: { name: 'German', nativeName: 'Deutsch' },
+  pt: { name: 'Portuguese', nativeName: 'Português' },
+  it: { name: 'Italian', nativeName: 'Italiano' },
+  nl: { name: 'Dutch', nativeName: 'Nederlands' },
+  ru: { name: 'Russian', nativeName: 'Русский' },
+  ar: { name: 'Arabic', nativeName: 'العربية' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी' },
+  zh: { name: 'Chinese', nativeName: '中文' },
+  ja: { name: 'Japanese', nativeName: '日本語' },
+  ko: { name: 'Korean', nativeName: '한국어' },
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export interface LanguageDetection {
+  code: LanguageCode;
+  name: string;
+  /** 0-1: share of the message's letters (script) or matched function words (words) backing the choice */
+  confidence: number;
+  method: 'script' | 'words' | 'fallback';
+}
+
+/** Non-Latin scripts, checked by letter count. Kana before Han: Japanese text mixes both. */
+const SCRIPTS: Array<{ code: LanguageCode; pattern: RegExp }> = [
+  { code: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { code: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { code: 'zh', pattern: /\p{Script=Han}/gu },
+  { code: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { code: 'hi', pattern: /\p{Script=Devanagari}/gu },
+  { code: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+];
+
+/**
+ * Frequent function words and greetings of the Latin-script languages (lowercase). Words that are
+ * also English words ("no", "a", "was", "come"...) are left out of the other languages, so a short
+ * English message like "No." or "no way" is not taken for another language.
+ */
+export const FUNCTION_WORDS: Partial<Record<LanguageCode, string[]>> = {
+  en: [
+    'the', 'a', 'and', 'is', 'are', 'i', 'you', 'my', 'to', 'of', 'it', 'that', 'this', 'what', 'how', 'with',
+    'for', 'have', 'was', 'not', 'do', "don't", 'can', 'feel', 'want', 'about', 'be', 'so', 'but', 'just',
+    'really', 'why', 'hi', 'hello', 'thanks', 'should',
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'que', 'de', 'y', 'es', 'en', 'un', 'una', 'mi', 'yo', 'por', 'para', 'con',
+    'pero', 'como', 'qué', 'cómo', 'está', 'estoy', 'tengo', 'muy', 'siento', 'quiero', 'hola', 'gracias',
+    'porque', 'también', 'del', 'debo',
+  ],
+  fr: [
+    'le', 'la', 'les', 'des', 'et', 'est', 'je', 'tu', 'il', 'elle', 'nous', 'vous', 'une', 'un', 'pas', 'ne',
+    'que', 'qui', 'dans', 'pour', 'avec', 'mais', 'mon', 'ma', 'suis', 'ai', 'très', 'bonjour', 'salut',
+    'merci', 'pourquoi', 'comment', 'ça', 'du', 'dois',
+  ],
+  de: [
+    'der', 'das', 'und', 'ist', 'ich', 'du', 'nicht', 'ein', 'eine', 'zu', 'mit', 'mein', 'meine', 'wir',
+    'auf', 'für', 'aber', 'bin', 'habe', 'sehr', 'wie', 'warum', 'hallo', 'danke', 'auch', 'oder',
+    'fühle', 'kann', 'soll', 'mich',
+  ],
+  pt: [
+    'o', 'os', 'que', 'de', 'e', 'é', 'um', 'uma', 'não', 'eu', 'meu', 'minha', 'com', 'para', 'mas',
+    'como', 'estou', 'tenho', 'muito', 'você', 'olá', 'oi', 'obrigado', 'obrigada', 'porque', 'também',
+    'sinto', 'quero', 'da', 'devo',
+  ],
+  it: [
+    'il', 'lo', 'la', 'gli', 'le', 'che', 'di', 'e', 'è', 'un', 'una', 'non', 'io', 'mi', 'mio', 'mia', 'con',
+    'per', 'ma', 'sono', 'ho', 'molto', 'ciao', 'grazie', 'perché', 'anche', 'sento', 'voglio', 'sei',
+    'del', 'della', 'devo',
+  ],
+  nl: [
+    'de', 'het', 'een', 'en', 'ik', 'je', 'niet', 'van', 'met', 'mijn', 'op', 'voor', 'maar', 'hoe',
+    'wat', 'waarom', 'ben', 'heb', 'zijn', 'hallo', 'bedankt', 'dank', 'ook', 'voel', 'wil', 'moet',
+  ],
+};
+
+/** Letters (or marks) that only some Latin-script languages use; each hit counts as a function word. */
+const DIACRITIC_HINTS: Array<{ code: LanguageCode; pattern: RegExp }> = [
+  { code: 'es', pattern: /[ñ¿¡]/g },
+  { code: 'de', pattern: /[äöüß]/g },
+  { code: 'pt', pattern: /[ãõ]/g },
+  { code: 'fr', pattern: /[èêëœùûîï]/g },
+];
+
+const FUNCTION_WORD_SETS = Object.entries(FUNCTION_WORDS).map(
+  ([code, words]) => [code as LanguageCode, new Set(words)] as const,
+);
+
+export function isSupportedLanguage(code: unknown): code is LanguageCode {
+  return typeof code === 'string' && code in SUPPORTED_LANGUAGES;
+}
+
+/**
+ * Language of one message. `fallback` (usually the session's previous language) is used when the
+ * message gives no evidence or ties with it.
+ */
+export function detectLanguage(text: string, fallback?: string): LanguageDetection {
+  const fallbackCode = isSupportedLanguage(fallback) ? fallback : DEFAULT_LANGUAGE;
+  const result = (code: LanguageCode, confidence: number, method: LanguageDetection['method']) => ({
+    code,
+    name: SUPPORTED_LANGUAGES[code].name,
+    confidence: Math.round(confidence * 100) / 100,
+    method,
+  });
+  const lower = (text || '').toLowerCase();
+  const letters = lower.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return result(fallbackCode, 0, 'fallback');
+
+  // Non-Latin scripts: the script with the most letters, when it is a real share of the message
+  let bestScript: { code: LanguageCode; count: number } | null = null;
+  for (const script of SCRIPTS) {
+    const count = lower.match(script.pattern)?.length ?? 0;
+    // Any kana makes it Japanese, even when Han characters outnumber it
+    if (script.code === 'ja' && count > 0) {
+      bestScript = { code: 'ja', count: count + (lower.match(/\p{Script=Han}/gu)?.length ?? 0) };
+      break;
+    }
+    if (count > (bestScript?.count ?? 0)) bestScript = { code: script.code, count };
+  }
+  if (bestScript && bestScript.count / letters >= 0.3) {
+    return result(bestScript.code, Math.min(1, bestScript.count / letters), 'script');
+  }
+
+  // Latin script: score function words (and diacritic hints) per language
+  const words = lower.match(/[\p{L}']+/gu) || [];
+  const scores = new Map<LanguageCode, number>();
+  for (const [code, set] of FUNCTION_WORD_SETS) {
+    scores.set(code, words.filter((w) => set.has(w)).length);
+  }
+  for (const hint of DIACRITIC_HINTS) {
+    scores.set(hint.code, (scores.get(hint.code) ?? 0) + (lower.match(hint.pattern)?.length ?? 0));
+  }
+  const total = [...scores.values()].reduce((sum, n) => sum + n, 0);
+  const best = Math.max(...scores.values());
+  if (best === 0) return result(fallbackCode, 0, 'fallback');
+
+  const leaders = [...scores.entries()].filter(([, n]) => n === best).map(([code]) => code);
+  const code = leaders.includes(fallbackCode) ? fallbackCode : leaders[0];
+  return result(code, best / total, 'words');
+}
+
+/**
+ * System instruction telling the response model which language to answer in (null for English,
+ * so English prompts stay exactly as they were).
+ */
+export function buildLanguageInstruction(language?: string): string | null {
+  if (!isSupportedLanguage(language) || language === 'en') return null;
+  const { name, nativeName } = SUPPORTED_LANGUAGES[language];
+  return `LANGUAGE: The user is writing in ${name} (${nativeName}). Write your whole reply in ${name}, in a natural, native register. Keep any required output format (JSON keys, field names, tags) exactly as instructed, in English.`;
+}
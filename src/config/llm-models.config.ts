@@ -1,67 +1,152 @@
-export const LLM_MODELS = {
-  // OpenAI Models (using actual available models)
-  'gpt-4o': { provider: 'openai', model: 'gpt-4o', maxTokens: 4000, temperature: 0.7 },
-  'gpt-4o-mini': { provider: 'openai', model: 'gpt-4o-mini', maxTokens: 4000, temperature: 0.0 }, // Fast, cheap, good for classification
-  'gpt-4-turbo': { provider: 'openai', model: 'gpt-4-turbo', maxTokens: 4000, temperature: 0.7 },
-  'gpt-3.5-turbo': {
-    provider: 'openai',
-    model: 'gpt-3.5-turbo',
-    maxTokens: 2000,
-    temperature: 0.7,
-  },
+import { LLMEndpointConfig } from '../interfaces/llm-provider.interface';
+import { LLM_MODELS, ModelStatus } from './model-registry';
+import { canAccessModel, UserTier } from './tier-pricing.config';
 
-  // Claude Models (using actual available models)
-  'claude-3-5-sonnet': {
-    provider: 'claude',
-    model: 'claude-3-5-sonnet-20241022',
-    maxTokens: 4000,
-    temperature: 0.7,
-  },
-  'claude-3-opus': {
-    provider: 'claude',
-    model: 'claude-3-opus-20240229',
-    maxTokens: 4000,
-    temperature: 0.7,
-  },
-  'claude-3-haiku': {
-    provider: 'claude',
-    model: 'claude-3-haiku-20240307',
-    maxTokens: 2000,
-    temperature: 0.7,
-  },
+export interface LLMModelConfig {
+  provider: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  /** Required for provider 'openai-compatible': where to send requests (see LLMEndpointConfig). */
+  endpoint?: LLMEndpointConfig;
+  /** Server supports OpenAI Structured Outputs (json_schema response_format). */
+  structuredOutputs?: boolean;
+  /**
+   * Ordered fallback chain (LLM_MODELS keys). Tried in order when this model's provider
+   * fails or its circuit breaker is open. Prefer cross-provider fallbacks so one outage
+   * doesn't take down the whole chain.
+   */
+  fallbacks?: string[];
+  /** Alternative ids accepted in requests (resolved by resolveModelId). */
+  aliases?: string[];
+  /** deprecated: still served but flagged in GET /chat/llms; retired: requests go to replacedBy. */
+  status?: ModelStatus;
+  replacedBy?: string;
+}
 
-  // DeepSeek
-  'deepseek-chat': {
-    provider: 'deepseek',
-    model: 'deepseek-chat',
-    maxTokens: 4000,
-    temperature: 0.7,
-  },
+/**
+ * Model catalogue, loaded from model-registry.data.json (see model-registry.ts). Live: replaced in
+ * place when the registry is reloaded.
+ */
+export { LLM_MODELS };
 
-  // Gemini Models (using actual available models)
-  'gemini-1.5-pro': {
-    provider: 'gemini',
-    model: 'gemini-1.5-pro',
-    maxTokens: 4000,
-    temperature: 0.7,
-  },
-  'gemini-1.5-flash': {
-    provider: 'gemini',
-    model: 'gemini-1.5-flash',
-    maxTokens: 2000,
-    temperature: 0.7,
-  },
-};
+export type MockLLMMode = 'off' | 'available' | 'all';
+
+/**
+ * LLM_MOCK_MODE in .env:
+ * - off (default): the `mock` model is hidden and cannot be selected
+ * - available: `mock` is listed and selectable by every tier, real models still call their providers
+ * - all: every model id is served by the mock provider (no API keys or network needed, e.g. CI)
+ */
+export function getMockLLMMode(): MockLLMMode {
+  const v = process.env.LLM_MOCK_MODE?.toLowerCase().trim();
+  if (v === 'available' || v === 'all') return v;
+  return 'off';
+}
+
+export type LLMRecordMode = 'off' | 'record' | 'replay';
+
+/**
+ * LLM_RECORD_MODE in .env (see LLMRecorderService):
+ * - off (default): calls go to the providers
+ * - record: calls go to the providers and each request/response is written to a fixture file
+ * - replay: calls are served from fixture files only; a missing fixture is an error
+ */
+export function getLLMRecordMode(): LLMRecordMode {
+  const v = process.env.LLM_RECORD_MODE?.toLowerCase().trim();
+  if (v === 'record' || v === 'replay') return v;
+  return 'off';
+}
+
+/** True when no real provider will be called (mock-all or replay), so API keys are optional. */
+export function areProviderKeysOptional(): boolean {
+  return getMockLLMMode() === 'all' || getLLMRecordMode() === 'replay';
+}
 
 // Default LLM configuration
 export const DEFAULT_LLM = 'gpt-4o';
 
-// Get available LLM models for frontend dropdown
+/**
+ * Virtual model id: each message is routed to the cheapest model the user's tier allows that can
+ * handle it (see ModelRouterService). Not in LLM_MODELS; resolved before any provider call.
+ */
+export const AUTO_MODEL_ID = 'auto';
+
+/** Base URL of an openai-compatible model (env var first), or null when not configured. */
+export const resolveEndpointBaseURL = (endpoint?: LLMEndpointConfig): string | null => {
+  if (!endpoint) return null;
+  const fromEnv = endpoint.baseURLEnv ? process.env[endpoint.baseURLEnv]?.trim() : undefined;
+  return fromEnv || endpoint.baseURL || null;
+};
+
+/**
+ * Whether a model can be offered in this deployment: the mock model needs LLM_MOCK_MODE,
+ * openai-compatible models need a base URL.
+ */
+export const isModelEnabled = (modelId: string): boolean => {
+  const config = LLM_MODELS[modelId];
+  if (!config || config.status === 'retired') return false;
+  if (config.provider === 'mock') return getMockLLMMode() !== 'off';
+  if (config.provider === 'openai-compatible') {
+    return getMockLLMMode() === 'all' || resolveEndpointBaseURL(config.endpoint) !== null;
+  }
+  return true;
+};
+
+/** OpenAI model ids that support Structured Outputs (json_schema response_format). */
+export const OPENAI_STRUCTURED_OUTPUT_MODELS = ['gpt-4o', 'gpt-4o-mini'];
+
+/**
+ * Whether a json_schema response_format is enforced by the model's provider: OpenAI Structured
+ * Outputs models, openai-compatible models flagged structuredOutputs, Claude (forced tool use),
+ * Gemini (responseSchema), DeepSeek (JSON mode with the schema in the prompt) and mock.
+ * Other models are sent JSON mode instead (see LLMOrchestratorService.generateStructured).
+ */
+export const supportsStructuredOutput = (modelId: string): boolean => {
+  const config = LLM_MODELS[modelId];
+  if (!config) return false;
+  if (config.provider === 'openai') return OPENAI_STRUCTURED_OUTPUT_MODELS.includes(modelId);
+  if (config.provider === 'openai-compatible') return config.structuredOutputs === true;
+  return true;
+};
+
+/**
+ * Ordered list of models to try for a request: the selected model first, then its
+ * configured fallbacks (unknown/disabled fallbacks and duplicates dropped). With `userTier`,
+ * fallbacks the tier cannot access are dropped too, so a failure never upgrades the user
+ * to a model their plan doesn't include (the selected model was already checked by the caller).
+ */
+export const getFallbackChain = (selectedLLM: string, userTier?: UserTier): string[] => {
+  const chain = [selectedLLM, ...(LLM_MODELS[selectedLLM]?.fallbacks || [])];
+  return chain.filter(
+    (id, index) =>
+      LLM_MODELS[id] &&
+      chain.indexOf(id) === index &&
+      (index === 0 || (isModelEnabled(id) && (!userTier || canAccessModel(userTier, id)))),
+  );
+};
+
+// Get available LLM models for frontend dropdown (the virtual `auto` entry first)
 export const getAvailableLLMs = () => {
-  return Object.keys(LLM_MODELS).map((key) => ({
-    id: key,
-    name: LLM_MODELS[key].model,
-    provider: LLM_MODELS[key].provider,
-    maxTokens: LLM_MODELS[key].maxTokens,
-  }));
+  const models = Object.keys(LLM_MODELS)
+    .filter((key) => isModelEnabled(key))
+    .map((key) => ({
+      id: key,
+      name: LLM_MODELS[key].model,
+      provider: LLM_MODELS[key].provider,
+      maxTokens: LLM_MODELS[key].maxTokens,
+      status: LLM_MODELS[key].status || 'active',
+      replacedBy: LLM_MODELS[key].replacedBy,
+      aliases: LLM_MODELS[key].aliases || [],
+    }));
+  const auto = {
+    id: AUTO_MODEL_ID,
+    name: 'Auto (cheapest model that fits each message)',
+    provider: AUTO_MODEL_ID,
+    maxTokens: Math.max(0, ...models.map((m) => m.maxTokens)),
+    status: 'active' as const,
+    replacedBy: undefined,
+    aliases: [] as string[],
+  };
+  return [auto, ...models];
 };
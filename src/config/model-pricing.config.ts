@@ -0,0 +1,35 @@
+import { LLMTokenUsage } from '../interfaces/llm-provider.interface';
+import { MODEL_PRICING_PER_1M_TOKENS } from './model-registry';
+
+/**
+ * Pricing per 1M tokens (USD), keyed by LLM_MODELS id: the pricePer1M of each model in
+ * model-registry.data.json. cachedInput: price for prompt tokens served from the provider's prompt
+ * cache (defaults to the input price when the provider has no cache discount).
+ */
+export { MODEL_PRICING_PER_1M_TOKENS };
+
+/** Fallback price per 1M tokens (input and output) for models missing from the table. */
+export const DEFAULT_PRICE_PER_1M_TOKENS = 2.5;
+
+/**
+ * USD cost of one call. cachedTokens are a subset of inputTokens and billed at the
+ * cached-input rate; reasoningTokens are already included in outputTokens.
+ */
+export const calculateModelCost = (
+  modelId: string,
+  usage: Pick<LLMTokenUsage, 'inputTokens' | 'outputTokens'> & { cachedTokens?: number },
+): number => {
+  const pricing = MODEL_PRICING_PER_1M_TOKENS[modelId];
+  if (!pricing) {
+    console.warn(`⚠️ [ModelPricing] No pricing data for model ${modelId}, using default`);
+    return ((usage.inputTokens + usage.outputTokens) / 1_000_000) * DEFAULT_PRICE_PER_1M_TOKENS;
+  }
+
+  const cachedTokens = Math.min(usage.cachedTokens || 0, usage.inputTokens);
+  const uncachedInput = usage.inputTokens - cachedTokens;
+  const inputCost = (uncachedInput / 1_000_000) * pricing.input;
+  const cachedCost = (cachedTokens / 1_000_000) * (pricing.cachedInput ?? pricing.input);
+  const outputCost = (usage.outputTokens / 1_000_000) * pricing.output;
+
+  return inputCost + cachedCost + outputCost;
+};
@@ -0,0 +1,210 @@
+/**
+ * Model Registry
+ *
+ * Single source for the model catalogue: LLM_MODELS (provider, vendor model, limits, fallbacks),
+ * MODEL_PRICING_TIERS, MODEL_PRICING_PER_1M_TOKENS and TIER_MODEL_ACCESS are all built from
+ * model-registry.data.json (or MODEL_REGISTRY_PATH, see ModelRegistryService).
+ *
+ * The exported tables are live: a reload replaces their contents in place, so every module that
+ * imported them sees the new registry without restarting.
+ */
+
+import type { LLMModelConfig } from './llm-models.config';
+import type { ModelPricingTier, TierModelAccess, UserTier } from './tier-pricing.config';
+import bundledRegistry from './model-registry.data.json';
+
+export type ModelStatus = 'active' | 'deprecated' | 'retired';
+
+export interface ModelPricePer1M {
+  input: number;
+  output: number;
+  /** Price for prompt tokens served from the provider's prompt cache (defaults to input). */
+  cachedInput?: number;
+}
+
+/** One model in model-registry.data.json. */
+export interface ModelRegistryEntry extends LLMModelConfig {
+  id: string;
+  pricingTier: ModelPricingTier;
+  pricePer1M: ModelPricePer1M;
+}
+
+export interface ModelRegistryFile {
+  version: string;
+  models: ModelRegistryEntry[];
+  tiers: Record<UserTier, TierModelAccess>;
+}
+
+const KNOWN_PROVIDERS = ['openai', 'claude', 'deepseek', 'gemini', 'openai-compatible', 'mock'];
+const PRICING_TIERS = ['cheap', 'standard', 'premium', 'expensive'];
+const USER_TIERS = ['free', 'basic', 'standard', 'pro', 'elite'];
+const STATUSES = ['active', 'deprecated', 'retired'];
+
+// Live tables (contents replaced on reload)
+export const LLM_MODELS: Record<string, LLMModelConfig> = {};
+export const MODEL_PRICING_TIERS: Record<string, ModelPricingTier> = {};
+export const MODEL_PRICING_PER_1M_TOKENS: Record<string, ModelPricePer1M> = {};
+export const TIER_MODEL_ACCESS = {} as Record<UserTier, TierModelAccess>;
+const MODEL_ALIASES = new Map<string, string>();
+
+let registryInfo: { version: string; source: string; loadedAt: Date; modelCount: number } | null = null;
+
+/**
+ * Validate a parsed registry file. Returns a list of problems (empty when valid).
+ */
+export function validateModelRegistry(raw: any): string[] {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') return ['Registry must be a JSON object'];
+  if (typeof raw.version !== 'string' || !raw.version.trim()) errors.push('version must be a non-empty string');
+  if (!Array.isArray(raw.models) || raw.models.length === 0) {
+    errors.push('models must be a non-empty array');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  for (const [index, m] of raw.models.entries()) {
+    const label = `models[${index}]${m?.id ? ` (${m.id})` : ''}`;
+    if (!m || typeof m.id !== 'string' || !m.id.trim()) {
+      errors.push(`${label}: id is required`);
+      continue;
+    }
+    if (names.has(m.id)) errors.push(`${label}: duplicate id or alias "${m.id}"`);
+    ids.add(m.id);
+    names.add(m.id);
+    if (!KNOWN_PROVIDERS.includes(m.provider)) errors.push(`${label}: unknown provider "${m.provider}"`);
+    if (typeof m.model !== 'string' || !m.model.trim()) errors.push(`${label}: model (vendor model name) is required`);
+    if (!Number.isInteger(m.maxTokens) || m.maxTokens <= 0) errors.push(`${label}: maxTokens must be a positive integer`);
+    if (typeof m.temperature !== 'number' || m.temperature < 0 || m.temperature > 2) {
+      errors.push(`${label}: temperature must be a number between 0 and 2`);
+    }
+    if (!PRICING_TIERS.includes(m.pricingTier)) errors.push(`${label}: pricingTier must be one of ${PRICING_TIERS.join(', ')}`);
+    const price = m.pricePer1M;
+    if (
+      !price ||
+      typeof price.input !== 'number' || price.input < 0 ||
+      typeof price.output !== 'number' || price.output < 0 ||
+      (price.cachedInput !== undefined && (typeof price.cachedInput !== 'number' || price.cachedInput < 0))
+    ) {
+      errors.push(`${label}: pricePer1M needs non-negative input and output (and optional cachedInput)`);
+    }
+    if (m.status !== undefined && !STATUSES.includes(m.status)) errors.push(`${label}: status must be one of ${STATUSES.join(', ')}`);
+    if (m.status === 'retired' && !m.replacedBy) errors.push(`${label}: retired models need replacedBy`);
+    if (m.provider === 'openai-compatible' && !m.endpoint?.baseURL && !m.endpoint?.baseURLEnv) {
+      errors.push(`${label}: openai-compatible models need endpoint.baseURL or endpoint.baseURLEnv`);
+    }
+    for (const alias of m.aliases || []) {
+      if (typeof alias !== 'string' || !alias.trim()) errors.push(`${label}: aliases must be non-empty strings`);
+      else if (names.has(alias)) errors.push(`${label}: duplicate id or alias "${alias}"`);
+      else names.add(alias);
+    }
+  }
+
+  // Cross-references (after all ids are known)
+  const byId = new Map<string, any>(raw.models.filter((m: any) => m?.id).map((m: any) => [m.id, m]));
+  for (const m of raw.models) {
+    if (!m?.id) continue;
+    for (const fb of m.fallbacks || []) {
+      if (!ids.has(fb)) errors.push(`${m.id}: fallback "${fb}" is not a model id`);
+    }
+    if (m.replacedBy !== undefined && (!ids.has(m.replacedBy) || byId.get(m.replacedBy)?.status === 'retired')) {
+      errors.push(`${m.id}: replacedBy "${m.replacedBy}" must be a non-retired model id`);
+    }
+  }
+
+  if (!raw.tiers || typeof raw.tiers !== 'object') {
+    errors.push('tiers is required');
+    return errors;
+  }
+  for (const tier of USER_TIERS) {
+    const access = raw.tiers[tier];
+    if (!access) {
+      errors.push(`tiers.${tier} is missing`);
+      continue;
+    }
+    if (!Array.isArray(access.allowedModels) || access.allowedModels.some((t: string) => !PRICING_TIERS.includes(t))) {
+      errors.push(`tiers.${tier}.allowedModels must list pricing tiers (${PRICING_TIERS.join(', ')})`);
+    }
+    for (const blocked of access.blockedModels || []) {
+      if (!ids.has(blocked)) errors.push(`tiers.${tier}.blockedModels: "${blocked}" is not a model id`);
+    }
+    const def = byId.get(access.defaultModel);
+    if (!def) {
+      errors.push(`tiers.${tier}.defaultModel "${access.defaultModel}" is not a model id`);
+    } else if (
+      def.status === 'retired' ||
+      (access.blockedModels || []).includes(def.id) ||
+      (Array.isArray(access.allowedModels) && !access.allowedModels.includes(def.pricingTier))
+    ) {
+      errors.push(`tiers.${tier}.defaultModel "${access.defaultModel}" is not usable by that tier`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate and apply a registry. Throws (leaving the current registry untouched) when invalid.
+ */
+export function loadModelRegistry(raw: unknown, source: string): { version: string; modelCount: number } {
+  const errors = validateModelRegistry(raw);
+  if (errors.length > 0) {
+    throw new ModelRegistryValidationError(source, errors);
+  }
+  const registry = raw as ModelRegistryFile;
+
+  const models: Record<string, LLMModelConfig> = {};
+  const pricingTiers: Record<string, ModelPricingTier> = {};
+  const prices: Record<string, ModelPricePer1M> = {};
+  MODEL_ALIASES.clear();
+  for (const { id, pricingTier, pricePer1M, ...config } of registry.models) {
+    models[id] = config;
+    pricingTiers[id] = pricingTier;
+    prices[id] = pricePer1M;
+    for (const alias of config.aliases || []) MODEL_ALIASES.set(alias, id);
+  }
+
+  replaceContents(LLM_MODELS, models);
+  replaceContents(MODEL_PRICING_TIERS, pricingTiers);
+  replaceContents(MODEL_PRICING_PER_1M_TOKENS, prices);
+  replaceContents(TIER_MODEL_ACCESS, registry.tiers);
+
+  registryInfo = { version: registry.version, source, loadedAt: new Date(), modelCount: registry.models.length };
+  console.log(`📚 [ModelRegistry] Loaded ${registry.models.length} models (v${registry.version}) from ${source}`);
+  return { version: registry.version, modelCount: registry.models.length };
+}
+
+/**
+ * Canonical model id for a requested id: aliases map to their model, retired models to their
+ * replacement. Unknown ids are returned unchanged (callers reject them).
+ */
+export function resolveModelId(requested: string): string {
+  const id = MODEL_ALIASES.get(requested) || requested;
+  const config = LLM_MODELS[id];
+  if (config?.status === 'retired' && config.replacedBy) {
+    console.warn(`⚠️ [ModelRegistry] ${id} is retired, using ${config.replacedBy}`);
+    return config.replacedBy;
+  }
+  return id;
+}
+
+export function getModelRegistryInfo() {
+  return registryInfo ? { ...registryInfo, loadedAt: registryInfo.loadedAt.toISOString() } : null;
+}
+
+export class ModelRegistryValidationError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly errors: string[],
+  ) {
+    super(`Invalid model registry (${source}): ${errors.join('; ')}`);
+    this.name = 'ModelRegistryValidationError';
+  }
+}
+
+function replaceContents<T extends object>(target: T, next: T): void {
+  for (const key of Object.keys(target)) delete (target as any)[key];
+  Object.assign(target, next);
+}
+
+// The bundled registry is loaded on import so the tables are usable before Nest boots (scripts, tests)
+loadModelRegistry(bundledRegistry, 'model-registry.data.json (bundled)');
@@ -1,3 +1,7 @@
+import { FrameworkCategory, getActiveFrameworks, getFramework } from '../knowledge-base/framework-registry';
+import { MODEL_PRICING_TIERS, ModelPricingTier, UserTier } from './tier-pricing.config';
+import { resolveModelId } from './model-registry';
+
 /**
  * Subscription Tier Enum (defined locally - no database dependency)
  */
@@ -67,58 +71,94 @@ export const SUBSCRIPTION_PLANS: Record<SubscriptionTier, SubscriptionPlanConfig
   },
 };
 
-export const PREMIUM_MODELS = ['claude-3-opus', 'gpt-4-turbo'];
-export const MID_MODELS = ['gpt-4o', 'claude-3-5-sonnet', 'deepseek-chat', 'gemini-1.5-pro'];
+/** Plan behind each app tier (same monthly allowance; standard has no plan of its own and gets Pro's). */
+export const USER_TIER_PLANS: Record<UserTier, SubscriptionTier> = {
+  free: SubscriptionTier.FREE,
+  basic: SubscriptionTier.STARTER,
+  standard: SubscriptionTier.PRO,
+  pro: SubscriptionTier.PRO,
+  elite: SubscriptionTier.BUSINESS,
+};
+
+/** Most frameworks analyze() runs per message for the tier (crisis/safety analyzers not counted). */
+export function getFrameworkCapForTier(userTier: UserTier = 'free'): number {
+  return SUBSCRIPTION_PLANS[USER_TIER_PLANS[userTier] || SubscriptionTier.FREE].frameworkCap;
+}
 
+/** Registry pricing tiers whose replies count as premium replies (quota or pay-per-use). */
+export const PREMIUM_PRICING_TIERS: ModelPricingTier[] = [ModelPricingTier.EXPENSIVE];
+/** Registry pricing tiers of the mid-range models. */
+export const MID_PRICING_TIERS: ModelPricingTier[] = [ModelPricingTier.STANDARD, ModelPricingTier.PREMIUM];
+
+/** Whether the model's registry pricingTier is a premium one (aliases and retired ids resolved). */
 export function isPremiumModel(modelId: string): boolean {
-  return PREMIUM_MODELS.includes(modelId);
+  return PREMIUM_PRICING_TIERS.includes(MODEL_PRICING_TIERS[resolveModelId(modelId)]);
+}
+
+/** Whether the model's registry pricingTier is a mid-range one. */
+export function isMidModel(modelId: string): boolean {
+  return MID_PRICING_TIERS.includes(MODEL_PRICING_TIERS[resolveModelId(modelId)]);
 }
 
 export function getDefaultModelForTier(tier: SubscriptionTier): string {
   return SUBSCRIPTION_PLANS[tier].defaultModel;
 }
 
+/** Framework order for tier caps (priority and category come from the framework registry). */
 export function getFrameworkPriorityOrder(): Array<{
   name: string;
   priority: number;
-  category: 'personality' | 'emotional' | 'crisis';
+  category: FrameworkCategory;
 }> {
-  return [
-    { name: 'bigFive', priority: 1, category: 'personality' },
-    { name: 'darkTriad', priority: 2, category: 'personality' },
-    { name: 'mbti', priority: 3, category: 'personality' },
-    { name: 'enneagram', priority: 4, category: 'personality' },
-    { name: 'attachment', priority: 5, category: 'personality' },
-    { name: 'erikson', priority: 6, category: 'personality' },
-    { name: 'gestalt', priority: 7, category: 'personality' },
-    { name: 'bioPsych', priority: 8, category: 'personality' },
-    { name: 'dass', priority: 9, category: 'emotional' },
-    { name: 'rse', priority: 10, category: 'emotional' },
-    { name: 'crt', priority: 11, category: 'crisis' },
-  ];
+  return getActiveFrameworks()
+    .map((f) => ({ name: f.id, priority: f.priority, category: f.category }))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+export interface FrameworkSelection {
+  /** Frameworks that run, in rank order (exempt ones first) */
+  chosen: string[];
+  /** Triggered frameworks left out by the cap, in rank order */
+  skipped: string[];
+  /** Chosen frameworks that don't count against the cap */
+  exempt: string[];
+  cap: number;
 }
 
+/**
+ * Rank the triggered frameworks and cap them for the plan. Crisis/safety analyzers (capExempt)
+ * always run. The rest are ranked by urgency (emotional frameworks first when the router rates
+ * urgency high or critical), then relevance (frameworks whose trigger keywords appear in the
+ * message), then registry priority.
+ */
 export function selectFrameworksByPriority(
   matchedFrameworks: string[],
   tierCap: number,
-  hasCrisisIndicators: boolean = false,
-): string[] {
+  options: { urgency?: string; keywordMatches?: Record<string, string[]> } = {},
+): FrameworkSelection {
   const priorityOrder = getFrameworkPriorityOrder();
-  
+  const urgent = options.urgency === 'critical' || options.urgency === 'high';
+  const rank = (f: { name: string; priority: number; category: FrameworkCategory }) => [
+    urgent && f.category === 'emotional' ? 0 : 1,
+    options.keywordMatches?.[f.name]?.length ? 0 : 1,
+    f.priority,
+  ];
+
   const sorted = matchedFrameworks
     .map((name) => priorityOrder.find((f) => f.name === name))
     .filter((f) => f !== undefined)
-    .sort((a, b) => a!.priority - b!.priority)
-    .map((f) => f!.name);
+    .map((f) => ({ f: f!, rank: rank(f!) }))
+    .sort((a, b) => a.rank[0] - b.rank[0] || a.rank[1] - b.rank[1] || a.rank[2] - b.rank[2])
+    .map(({ f }) => f.name);
 
-  if (hasCrisisIndicators && sorted.includes('dass')) {
-    const dassIndex = sorted.indexOf('dass');
-    if (dassIndex > 0) {
-      sorted.splice(dassIndex, 1);
-      sorted.unshift('dass');
-    }
-  }
+  const exempt = sorted.filter((name) => getFramework(name)?.capExempt);
+  const capped = sorted.filter((name) => !exempt.includes(name));
+  const cap = Math.max(0, tierCap);
 
-  const maxFrameworks = Math.min(tierCap, 8);
-  return sorted.slice(0, maxFrameworks);
+  return {
+    chosen: [...exempt, ...capped.slice(0, cap)],
+    skipped: capped.slice(cap),
+    exempt,
+    cap,
+  };
 }
@@ -2,11 +2,14 @@
  * Tier-based Pricing Configuration
  * 
  * This file defines:
- * 1. Model access restrictions per tier
+ * 1. Model access restrictions per tier (rules live in model-registry.data.json)
  * 2. Output token limits per tier
  * 3. Monthly budget limits per model for premium tiers
  */
 
+import { isModelEnabled } from './llm-models.config';
+import { MODEL_PRICING_TIERS, TIER_MODEL_ACCESS, resolveModelId } from './model-registry';
+
 export type UserTier = 'free' | 'basic' | 'standard' | 'pro' | 'elite';
 
 const VALID_TIERS: UserTier[] = ['free', 'basic', 'standard', 'pro', 'elite'];
@@ -34,27 +37,9 @@ export enum ModelPricingTier {
 }
 
 /**
- * Model cost classification
+ * Model cost classification (pricingTier of each model in model-registry.data.json)
  */
-export const MODEL_PRICING_TIERS: Record<string, ModelPricingTier> = {
-  // Cheap models (~$0.15-0.50 per 1M input tokens)
-  'gpt-4o-mini': ModelPricingTier.CHEAP,
-  'gpt-3.5-turbo': ModelPricingTier.CHEAP,
-  'claude-3-haiku': ModelPricingTier.CHEAP,
-  'gemini-1.5-flash': ModelPricingTier.CHEAP,
-  
-  // Standard models (~$2.50-5 per 1M input tokens)
-  'gpt-4o': ModelPricingTier.STANDARD,
-  'deepseek-chat': ModelPricingTier.STANDARD,
-  'gemini-1.5-pro': ModelPricingTier.STANDARD,
-  
-  // Premium models (~$3-15 per 1M input tokens)
-  'claude-3-5-sonnet': ModelPricingTier.PREMIUM,
-  
-  // Expensive models (~$15-75 per 1M input tokens)
-  'claude-3-opus': ModelPricingTier.EXPENSIVE,
-  'gpt-4-turbo': ModelPricingTier.EXPENSIVE,
-};
+export { MODEL_PRICING_TIERS };
 
 /**
  * Tier-based model access control
@@ -65,29 +50,8 @@ export interface TierModelAccess {
   defaultModel: string;
 }
 
-export const TIER_MODEL_ACCESS: Record<UserTier, TierModelAccess> = {
-  free: {
-    allowedModels: [ModelPricingTier.CHEAP],
-    defaultModel: 'gpt-4o-mini',
-  },
-  basic: {
-    allowedModels: [ModelPricingTier.CHEAP, ModelPricingTier.STANDARD],
-    blockedModels: ['gpt-4o'], // Block gpt-4o for basic tier
-    defaultModel: 'gpt-4o-mini',
-  },
-  standard: {
-    allowedModels: [ModelPricingTier.CHEAP, ModelPricingTier.STANDARD],
-    defaultModel: 'gpt-4o',
-  },
-  pro: {
-    allowedModels: [ModelPricingTier.CHEAP, ModelPricingTier.STANDARD, ModelPricingTier.PREMIUM],
-    defaultModel: 'gpt-4o',
-  },
-  elite: {
-    allowedModels: [ModelPricingTier.CHEAP, ModelPricingTier.STANDARD, ModelPricingTier.PREMIUM, ModelPricingTier.EXPENSIVE],
-    defaultModel: 'gpt-4o',
-  },
-};
+/** Per-tier model access (`tiers` in model-registry.data.json) */
+export { TIER_MODEL_ACCESS };
 
 /**
  * Tier-based output token limits
@@ -120,6 +84,21 @@ export const TIER_OUTPUT_LIMITS: Record<UserTier, TierOutputLimits> = {
   },
 };
 
+/**
+ * How ParallelLLMService runs the triggered frameworks:
+ * - separate: one call per framework with its full KB prompt
+ * - batched: one structured-output call with condensed instructions for all of them (no KB prompts)
+ */
+export type FrameworkAnalysisMode = 'separate' | 'batched';
+
+export const TIER_ANALYSIS_MODE: Record<UserTier, FrameworkAnalysisMode> = {
+  free: 'batched',
+  basic: 'batched',
+  standard: 'separate',
+  pro: 'separate',
+  elite: 'separate',
+};
+
 /**
  * Monthly budget limits per model (in dollars)
  * Only applies to premium/expensive models
@@ -152,7 +131,7 @@ export function getAllowedModelsForTier(userTier: UserTier): string[] {
   
   const allowedModels = Object.entries(MODEL_PRICING_TIERS)
     .filter(([modelId, pricingTier]) => 
-      allowedPricingTiers.includes(pricingTier) && !blockedModels.includes(modelId)
+      allowedPricingTiers.includes(pricingTier) && !blockedModels.includes(modelId) && isModelEnabled(modelId)
     )
     .map(([modelId]) => modelId);
   
@@ -164,7 +143,7 @@ export function getAllowedModelsForTier(userTier: UserTier): string[] {
  */
 export function canAccessModel(userTier: UserTier, modelId: string): boolean {
   const allowedModels = getAllowedModelsForTier(userTier);
-  return allowedModels.includes(modelId);
+  return allowedModels.includes(resolveModelId(modelId));
 }
 
 /**
@@ -19,9 +19,11 @@ export const COMMON_TYPOS: Record<string, string> = {
 
 /**
  * Returns { typo, correct } if the message contains a known typo (whole-word match), else null.
+ * The list is English: messages detected as another language (language.config.ts) are not checked.
  */
-export function detectTypo(message: string): { typo: string; correct: string } | null {
+export function detectTypo(message: string, language?: string): { typo: string; correct: string } | null {
   if (!message || typeof message !== 'string') return null;
+  if (language && language !== 'en') return null;
   const lower = message.toLowerCase();
   const words = lower.split(/\s+/);
   for (const word of words) {
@@ -0,0 +1,170 @@
+import { Controller, Get, Post, Headers, HttpException, HttpStatus, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { ModelRegistryService, ModelRegistryReloadResult } from '../services/model-registry.service';
+import { LLMOrchestratorService } from '../services/llm-orchestrator.service';
+import { ExperimentService } from '../services/experiment.service';
+import { SafetyAuditService } from '../services/safety-audit.service';
+import { TraceRecord, TraceStoreService } from '../services/trace-store.service';
+
+/**
+ * Operator endpoints (server-to-server). Every route needs the x-admin-secret header to match ADMIN_SECRET.
+ */
+@ApiTags('admin')
+@Controller('admin')
+export class AdminController {
+  constructor(
+    private readonly modelRegistry: ModelRegistryService,
+    private readonly llmOrchestrator: LLMOrchestratorService,
+    private readonly configService: ConfigService,
+    private readonly experiments: ExperimentService,
+    private readonly safetyAudit: SafetyAuditService,
+    private readonly traceStore: TraceStoreService,
+  ) {}
+
+  @Get('models')
+  @ApiOperation({ summary: 'Current model registry (models, pricing, tier access, version)' })
+  @ApiResponse({ status: 401, description: 'Invalid or missing ADMIN_SECRET' })
+  getModelRegistry(@Headers('x-admin-secret') adminSecretHeader?: string) {
+    this.assertAdmin(adminSecretHeader);
+    return this.modelRegistry.getSnapshot();
+  }
+
+  @Post('models/reload')
+  @ApiOperation({ summary: 'Reload the model registry file without restarting' })
+  @ApiResponse({ status: 200, description: 'Registry reloaded; returns version and model count' })
+  @ApiResponse({ status: 400, description: 'Registry file invalid; current registry kept, errors returned' })
+  @ApiResponse({ status: 401, description: 'Invalid or missing ADMIN_SECRET' })
+  reloadModelRegistry(@Headers('x-admin-secret') adminSecretHeader?: string): ModelRegistryReloadResult {
+    this.assertAdmin(adminSecretHeader);
+    const result = this.modelRegistry.reload();
+    if (!result.success) {
+      throw new HttpException(result, HttpStatus.BAD_REQUEST);
+    }
+    return result;
+  }
+
+  @Get('llm-queue')
+  @ApiOperation({ summary: 'LLM scheduler queue depth, slot usage and rate-limit pauses, plus provider circuit state' })
+  @ApiResponse({ status: 401, description: 'Invalid or missing ADMIN_SECRET' })
+  getLLMQueue(@Headers('x-admin-secret') adminSecretHeader?: string) {
+    this.assertAdmin(adminSecretHeader);
+    return {
+      queue: this.llmOrchestrator.getQueueStats(),
+      circuits: this.llmOrchestrator.getProviderHealth(),
+    };
+  }
+
+  @Get('experiments')
+  @ApiOperation({ summary: 'A/B experiments with per-variant feedback, reply length, session continuation and credit cost' })
+  @ApiResponse({ status: 401, description: 'Invalid or missing ADMIN_SECRET' })
+  getExperiments(@Headers('x-admin-secret') adminSecretHeader?: string) {
+    this.assertAdmin(adminSecretHeader);
+    return this.experiments.getResults();
+  }
+
+  @Get('safety-audit')
+  @ApiOperation({
+    summary:
+      'Safety gate audit log, newest first, with a hash-chain integrity check. Filters: type (gate|escalation), sessionId, userId, category, since/until (ISO dates), limit (default 100, max 1000)',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid type, date or limit' })
+  @ApiResponse({ status: 401, description: 'Invalid or missing ADMIN_SECRET' })
+  getSafetyAudit(
+    @Headers('x-admin-secret') adminSecretHeader?: string,
+    @Query('type') type?: string,
+    @Query('sessionId') sessionId?: string,
+    @Query('userId') userId?: string,
+    @Query('category') category?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('limit') limit?: string,
+  ) {
+    this.assertAdmin(adminSecretHeader);
+    if (type && type !== 'gate' && type !== 'escalation') {
+      throw new HttpException('type must be gate or escalation', HttpStatus.BAD_REQUEST);
+    }
+    return {
+      integrity: this.safetyAudit.verify(),
+      ...this.safetyAudit.query({
+        type: type as 'gate' | 'escalation' | undefined,
+        sessionId,
+        userId,
+        category,
+        since: this.parseDate(since, 'since'),
+        until: this.parseDate(until, 'until'),
+        limit: this.parseLimit(limit),
+      }),
+    };
+  }
+
+  @Get('traces')
+  @ApiOperation({
+    summary:
+      'Stored traces of sampled /chat turns, newest first (classification, frameworks, tokens, prompt hashes, model, fallbacks, latency, response). Filters: userId, sessionId, since/until (ISO dates), limit (default 50, max 500)',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid date or limit' })
+  @ApiResponse({ status: 401, description: 'Invalid or missing ADMIN_SECRET' })
+  getTraces(
+    @Headers('x-admin-secret') adminSecretHeader?: string,
+    @Query('userId') userId?: string,
+    @Query('sessionId') sessionId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('limit') limit?: string,
+  ) {
+    this.assertAdmin(adminSecretHeader);
+    return {
+      sampleRate: this.traceStore.getSampleRate(),
+      retentionDays: this.traceStore.getRetentionDays(),
+      ...this.traceStore.query({
+        userId,
+        sessionId,
+        since: this.parseDate(since, 'since'),
+        until: this.parseDate(until, 'until'),
+        limit: this.parseLimit(limit),
+      }),
+    };
+  }
+
+  @Get('traces/:messageId')
+  @ApiOperation({ summary: 'Stored trace of one assistant message (by message id or trace id)' })
+  @ApiResponse({ status: 404, description: 'No trace for this message (not sampled, or past retention)' })
+  @ApiResponse({ status: 401, description: 'Invalid or missing ADMIN_SECRET' })
+  getTrace(@Param('messageId') messageId: string, @Headers('x-admin-secret') adminSecretHeader?: string): TraceRecord {
+    this.assertAdmin(adminSecretHeader);
+    const trace = this.traceStore.get(messageId);
+    if (!trace) {
+      throw new HttpException(`No trace for message ${messageId}`, HttpStatus.NOT_FOUND);
+    }
+    return trace;
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new HttpException(`${name} must be an ISO date`, HttpStatus.BAD_REQUEST);
+    return date;
+  }
+
+  private parseLimit(limit: string | undefined): number | undefined {
+    const parsedLimit = limit ? parseInt(limit, 10) : undefined;
+    if (parsedLimit !== undefined && (isNaN(parsedLimit) || parsedLimit < 1)) {
+      throw new HttpException('limit must be a positive integer', HttpStatus.BAD_REQUEST);
+    }
+    return parsedLimit;
+  }
+
+  private assertAdmin(adminSecretHeader?: string): void {
+    const secret = this.configService.get<string>('ADMIN_SECRET');
+    if (!secret || secret.length < 8) {
+      throw new HttpException(
+        'Admin endpoints are not configured (ADMIN_SECRET missing or too short)',
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+    if (adminSecretHeader?.trim() !== secret) {
+      throw new HttpException('Unauthorized', HttpStatus.UNAUTHORIZED);
+    }
+  }
+}
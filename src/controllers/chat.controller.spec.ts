@@ -5,6 +5,11 @@ import { ChatService } from '../services/chat.service';
 import { CreditService } from '../services/credit.service';
 import { EdnaProfileService } from '../services/edna-profile.service';
 import { ParallelLLMService } from '../services/parallel-llm.service';
+import { AdviceGeneratorService } from '../services/advice-generator.service';
+import { GuestSessionService } from '../services/guest-session.service';
+import { ExperimentService } from '../services/experiment.service';
+import { LongitudinalProfileService } from '../services/longitudinal-profile.service';
+import { IdempotencyService } from '../services/idempotency.service';
 
 describe('ChatController', () => {
   let controller: ChatController;
@@ -27,6 +32,7 @@ describe('ChatController', () => {
       end: jest.fn().mockReturnThis(),
       json: jest.fn().mockReturnThis(),
       status: jest.fn().mockReturnThis(),
+      on: jest.fn().mockReturnThis(),
     } as Partial<Response>;
   }
 
@@ -39,6 +45,11 @@ describe('ChatController', () => {
         { provide: CreditService, useValue: mockCreditService },
         { provide: EdnaProfileService, useValue: mockEdnaProfileService },
         { provide: ParallelLLMService, useValue: mockParallelLLMService },
+        { provide: AdviceGeneratorService, useValue: {} },
+        { provide: GuestSessionService, useValue: {} },
+        { provide: ExperimentService, useValue: {} },
+        { provide: LongitudinalProfileService, useValue: {} },
+        { provide: IdempotencyService, useValue: new IdempotencyService({ get: jest.fn() } as any) },
       ],
     }).compile();
 
@@ -72,6 +83,7 @@ describe('ChatController', () => {
         expect.any(String),
         undefined,
         true, // default ON
+        undefined, // region
       );
     });
 
@@ -137,6 +149,7 @@ describe('ChatController', () => {
         expect.any(String),
         undefined,
         true, // default ON
+        expect.any(AbortSignal),
       );
     });
 
@@ -161,6 +174,7 @@ describe('ChatController', () => {
         expect.any(String),
         undefined,
         false,
+        expect.any(AbortSignal),
       );
     });
   });
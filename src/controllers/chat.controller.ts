@@ -1,18 +1,23 @@
-import { Controller, Post, Body, Get, Param, Delete, Patch, Res, UseGuards, Query, HttpException, HttpStatus, Headers, Sse } from '@nestjs/common';
+import { Controller, Post, Body, Get, Param, Delete, Patch, Req, Res, UseGuards, Query, HttpException, HttpStatus, Headers, Sse } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
-import { Response } from 'express';
-import { ChatRequestDto, ChatResponseDto } from '../dto/chat.dto';
+import { Request, Response } from 'express';
+import { ChatRequestDto, ChatResponseDto, ChatFeedbackDto } from '../dto/chat.dto';
 import { GuestChatRequestDto } from '../dto/guest-chat.dto';
 import { GuestSessionService } from '../services/guest-session.service';
 import { ChatService } from '../services/chat.service';
 import { AdviceGeneratorService } from '../services/advice-generator.service';
 import { RateLimitGuard } from '../guards/rate-limit.guard';
 import { v4 as uuidv4 } from 'uuid';
-import { getAvailableLLMs, DEFAULT_LLM } from '../config/llm-models.config';
+import { getAvailableLLMs, DEFAULT_LLM, AUTO_MODEL_ID } from '../config/llm-models.config';
 import { CreditService } from '../services/credit.service';
 import { EdnaProfileService } from '../services/edna-profile.service';
 import { buildEdnaProfile, EdnaQuizResults, EdnaProfileFull } from '../knowledge-base/edna-traits.data';
 import { ParallelLLMService } from '../services/parallel-llm.service';
+import { getActiveFrameworks } from '../knowledge-base/framework-registry';
+import { TIER_ANALYSIS_MODE, validateUserTier } from '../config/tier-pricing.config';
+import { ExperimentService } from '../services/experiment.service';
+import { LongitudinalProfileService } from '../services/longitudinal-profile.service';
+import { IdempotencyService, IdempotentRequest } from '../services/idempotency.service';
 
 // Default anonymous user ID for non-authenticated usage
 const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000';
@@ -30,6 +35,18 @@ function extractJwtFromHeader(authHeader?: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Whose Idempotency-Key a guest request uses: the guest id, else the session, else the client IP,
+ * so two guests picking the same key never get each other's reply.
+ */
+function guestOwner(body: GuestChatRequestDto, req: Request): string {
+  const guestUserId = body.guestUserId?.trim();
+  if (guestUserId) return `guest:${guestUserId}`;
+  if (body.sessionId) return `session:${body.sessionId}`;
+  const ip = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || req.socket?.remoteAddress || req.ip;
+  return `ip:${ip || 'unknown'}`;
+}
+
 @ApiTags('chat')
 @Controller('chat')
 @UseGuards(RateLimitGuard) // Only rate limiting, no auth
@@ -41,15 +58,22 @@ export class ChatController {
     private readonly parallelLLMService: ParallelLLMService,
     private readonly adviceGenerator: AdviceGeneratorService,
     private readonly guestSessionService: GuestSessionService,
+    private readonly experiments: ExperimentService,
+    private readonly longitudinalProfiles: LongitudinalProfileService,
+    private readonly idempotency: IdempotencyService,
   ) {}
 
   @Post()
-  @ApiOperation({ summary: 'Send a message and get personalized advice (supports streaming)' })
+  @ApiOperation({
+    summary:
+      'Send a message and get personalized advice (supports streaming). Retries with the same Idempotency-Key header get the original reply (or a replay of its stream) instead of a new one',
+  })
   @ApiResponse({ status: 200, description: 'Returns advice and personality analysis' })
   async chat(
     @Body() chatRequest: ChatRequestDto,
     @Res() res: Response,
     @Headers('authorization') authHeader?: string,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
   ): Promise<void> {
     const sessionId = chatRequest.sessionId || uuidv4();
     const selectedLLM = chatRequest.selectedLLM || DEFAULT_LLM;
@@ -59,6 +83,16 @@ export class ChatController {
     const userJwt = extractJwtFromHeader(authHeader);
     // Decision Intelligence mode: always ON for all messages (client requirement)
     const decisionIntelligenceMode = true;
+    // 🔁 Retries with the same Idempotency-Key reuse the original turn (no second message, analysis or charge)
+    const idempotencyKey = this.idempotency.parseKey(idempotencyKeyHeader);
+    const idempotent: IdempotentRequest | null = idempotencyKey
+      ? {
+          scope: 'chat',
+          owner: userId,
+          key: idempotencyKey,
+          fingerprint: [chatRequest.message, chatRequest.sessionId, selectedLLM, chatRequest.region, !!chatRequest.stream],
+        }
+      : null;
 
     // Debug: FULL request logging
     console.log(`\n🚀🚀🚀 [ChatController] INCOMING REQUEST`);
@@ -71,23 +105,44 @@ export class ChatController {
 
     // If streaming is requested, use SSE
     if (chatRequest.stream) {
+      // Client closed the connection before we finished: cancel analysis and generation
+      // (not for idempotent requests: the turn finishes so the client's retry can replay it)
+      const abortController = new AbortController();
+      const runTurn = (signal?: AbortSignal) =>
+        this.chatService.processMessageWithStreaming(
+          chatRequest.message,
+          sessionId,
+          selectedLLM,
+          userId,
+          userJwt,
+          decisionIntelligenceMode,
+          signal,
+          chatRequest.region,
+        );
+      const { events, replayed } = idempotent
+        ? this.idempotency.stream(idempotent, () => runTurn())
+        : { events: runTurn(abortController.signal), replayed: false };
+
       // Set headers for SSE
+      if (replayed) res.setHeader('Idempotent-Replayed', 'true');
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
 
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          console.log(`🛑 [ChatController] Client disconnected, cancelling session ${sessionId}`);
+          abortController.abort();
+        }
+      });
+
       try {
         // Use the perfect non-streaming processMessage logic but with streaming output
-        for await (const chunk of this.chatService.processMessageWithStreaming(
-          chatRequest.message,
-          sessionId,
-          selectedLLM,
-          userId,
-          userJwt,
-          decisionIntelligenceMode,
-        )) {
+        // Keep draining after a disconnect so the partial reply is billed and saved
+        for await (const chunk of events) {
+          if (abortController.signal.aborted) continue;
           res.write(`data: ${JSON.stringify(chunk)}\n\n`);
           if (typeof (res as any).flush === 'function') {
             (res as any).flush();
@@ -96,22 +151,29 @@ export class ChatController {
         res.end();
       } catch (error: any) {
         console.error('Streaming error:', error);
-        res.write(`data: ${JSON.stringify({ type: 'error', data: { message: error.message } })}\n\n`);
+        if (!abortController.signal.aborted) {
+          res.write(`data: ${JSON.stringify({ type: 'error', data: { message: error.message } })}\n\n`);
+        }
         res.end();
       }
       return;
     }
 
     // Non-streaming: return full JSON response
-    try {
-      const result = await this.chatService.processMessage(
+    const runTurn = () =>
+      this.chatService.processMessage(
         chatRequest.message,
         sessionId,
         selectedLLM,
         userId,
         userJwt,
         decisionIntelligenceMode,
+        chatRequest.region,
       );
+    const turn = idempotent ? this.idempotency.runOnce(idempotent, runTurn) : { result: runTurn(), replayed: false };
+    try {
+      const result = await turn.result;
+      if (turn.replayed) res.setHeader('Idempotent-Replayed', 'true');
       res.json(result);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -129,27 +191,46 @@ export class ChatController {
   }
 
   @Post('guest')
-  @ApiOperation({ summary: 'Guest chat (no login). Uses in-memory session; no E-DNA, no persistence to Munawar.' })
+  @ApiOperation({
+    summary:
+      'Guest chat (no login). Uses in-memory session; no E-DNA, no persistence to Munawar. Supports the Idempotency-Key header like POST /chat',
+  })
   @ApiResponse({ status: 200, description: 'Returns response, reasoning, and optional guestUserId' })
   async guestChat(
     @Body() body: GuestChatRequestDto,
+    @Req() req: Request,
     @Res() res: Response,
+    @Headers('idempotency-key') idempotencyKeyHeader?: string,
   ): Promise<void> {
     const sessionId = body.sessionId || uuidv4();
-    const selectedLLM = body.selectedLLM || 'gpt-4o-mini';
+    // Guests have no tier or budget to route on, so `auto` means the guest default
+    const selectedLLM = body.selectedLLM && body.selectedLLM !== AUTO_MODEL_ID ? body.selectedLLM : 'gpt-4o-mini';
+    // 🔁 Retries with the same Idempotency-Key reuse the original turn (no second message towards the cap)
+    const idempotencyKey = this.idempotency.parseKey(idempotencyKeyHeader);
+    const idempotent: IdempotentRequest | null = idempotencyKey
+      ? {
+          scope: 'guest',
+          owner: guestOwner(body, req),
+          key: idempotencyKey,
+          fingerprint: [body.message, body.sessionId, selectedLLM, body.region, !!body.stream],
+        }
+      : null;
+
     if (body.stream) {
+      const runTurn = () =>
+        this.chatService.processGuestMessageWithStreaming(body.message, sessionId, body.guestUserId, selectedLLM, body.region);
+      const { events, replayed } = idempotent
+        ? this.idempotency.stream(idempotent, runTurn)
+        : { events: runTurn(), replayed: false };
+
+      if (replayed) res.setHeader('Idempotent-Replayed', 'true');
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('X-Accel-Buffering', 'no');
       try {
-        for await (const chunk of this.chatService.processGuestMessageWithStreaming(
-          body.message,
-          sessionId,
-          body.guestUserId,
-          selectedLLM,
-        )) {
+        for await (const chunk of events) {
           res.write(`data: ${JSON.stringify(chunk)}\n\n`);
           if (typeof (res as any).flush === 'function') (res as any).flush();
         }
@@ -160,13 +241,12 @@ export class ChatController {
       }
       return;
     }
+    const runTurn = () =>
+      this.chatService.processGuestMessage(body.message, sessionId, body.guestUserId, selectedLLM, body.region);
+    const turn = idempotent ? this.idempotency.runOnce(idempotent, runTurn) : { result: runTurn(), replayed: false };
     try {
-      const result = await this.chatService.processGuestMessage(
-        body.message,
-        sessionId,
-        body.guestUserId,
-        selectedLLM,
-      );
+      const result = await turn.result;
+      if (turn.replayed) res.setHeader('Idempotent-Replayed', 'true');
       res.json(result);
     } catch (error: any) {
       const status = error?.getStatus?.() ?? error?.status;
@@ -213,6 +293,7 @@ export class ChatController {
         userId,
         userJwt,
         decisionIntelligenceMode,
+        chatRequest.region,
       )) {
         // Send SSE formatted data and flush immediately
         const data = `data: ${JSON.stringify(chunk)}\n\n`;
@@ -302,6 +383,14 @@ export class ChatController {
     }
   }
 
+  @Post('feedback')
+  @ApiOperation({ summary: 'Rate the replies of a session (thumbs up/down); counted against its experiment variant' })
+  @ApiResponse({ status: 200, description: 'Returns the experiment variant the feedback was counted for, if any' })
+  async submitFeedback(@Body() body: ChatFeedbackDto) {
+    const variant = this.experiments.recordFeedback(body.sessionId, body.rating);
+    return { recorded: true, experiment: variant };
+  }
+
   @Get('sessions')
   @ApiOperation({ summary: 'Get all chat sessions for a user' })
   async getAllSessions(
@@ -343,6 +432,18 @@ export class ChatController {
     };
   }
 
+  @Get('frameworks')
+  @ApiOperation({ summary: 'List the psychological frameworks the analysis can run' })
+  @ApiResponse({
+    status: 200,
+    description: 'Active frameworks (only those enabled for the tier when ?tier= is given), in priority order',
+  })
+  async getFrameworks(@Query('tier') tier?: string) {
+    const userTier = tier ? validateUserTier(tier) : undefined;
+    const frameworks = this.parallelLLMService.listFrameworks(userTier).sort((a, b) => a.priority - b.priority);
+    return { tier: userTier || null, count: frameworks.length, frameworks };
+  }
+
   @Get('tier-info/:userId')
   @ApiOperation({ summary: 'Get user tier information, limits, and allowed models' })
   @ApiResponse({ status: 200, description: 'Returns tier info, limits, allowed models, and budget status' })
@@ -418,7 +519,7 @@ export class ChatController {
     const allModels = getAvailableLLMs();
     const modelsWithAccess = allModels.map(model => ({
       ...model,
-      allowed: allowedModels.includes(model.id),
+      allowed: model.id === AUTO_MODEL_ID || allowedModels.includes(model.id),
       pricingTier: MODEL_PRICING_TIERS[model.id] || 'unknown',
       isDefault: model.id === defaultModel,
     }));
@@ -528,6 +629,18 @@ export class ChatController {
   // E-DNA PROFILE ENDPOINTS (for testing)
   // ============================================
 
+  @Get('profile/:userId/longitudinal')
+  @ApiOperation({ summary: "Get a user's psychological signals across sessions with weekly trend lines" })
+  @ApiResponse({
+    status: 200,
+    description: 'Recency-weighted current estimate, weekly trend and change per signal (Big Five, DASS, RSE, attachment, MBTI, Enneagram)',
+  })
+  async getLongitudinalProfile(@Param('userId') userId: string, @Query('weeks') weeks?: string) {
+    const parsedWeeks = parseInt(weeks || '', 10);
+    const window = Number.isFinite(parsedWeeks) && parsedWeeks > 0 ? Math.min(parsedWeeks, 52) : 12;
+    return { success: true, weeks: window, profile: this.longitudinalProfiles.getProfile(userId, window) };
+  }
+
   @Get('edna/:userId')
   @ApiOperation({ summary: 'Get E-DNA profile for a user (test endpoint)' })
   @ApiResponse({ status: 200, description: 'Returns E-DNA profile with trait definitions' })
@@ -917,6 +1030,8 @@ export class ChatController {
           frameworksTriggered: frameworksTriggered,
           frameworkCount: frameworksTriggered.length,
         },
+        // Analysis mode (separate/batched) and tokens per framework (batched calls apportioned)
+        frameworkTokens: this.parallelLLMService.getLastAnalysisTokens(response.sessionId || debugSessionId) || null,
         psychProfile: response.profile,
         // Show actual framework data
         frameworkResults: frameworksTriggered.reduce((acc: any, key: string) => {
@@ -1119,6 +1234,8 @@ export class ChatController {
         data: {
           classificationMethod: routerResult.meta.method,
           tokenCount: routerResult.meta.tokenCount,
+          usage: routerResult.meta.usage || null,
+          costUSD: routerResult.meta.costUSD ?? null,
           llmUsed: routerResult.meta.llmUsed,
           llmModel: routerResult.meta.llmModel || 'N/A (no LLM call needed)',
         },
@@ -1127,6 +1244,8 @@ export class ChatController {
         confidence: routerResult.meta.confidence || 'unknown',
         signalType: routerResult.meta.signalType || 'unknown',
         frameworksSelected: routerResult.meta.frameworksSelected || [],
+        // Keyword hints per framework (informational; the router decides)
+        keywordMatches: this.parallelLLMService.detectTriggerKeywords(message).matchedKeywords,
         llmParsed: routerResult.meta.llmParsed || null,
         // LLM call details (if used)
         llmPrompt: routerResult.meta.llmPrompt || null,
@@ -1158,6 +1277,8 @@ export class ChatController {
           frameworksTriggered: frameworksTriggered,
           frameworkCount: frameworksTriggered.length,
         },
+        // Analysis mode (separate/batched) and tokens per framework (batched calls apportioned)
+        frameworkTokens: this.parallelLLMService.getLastAnalysisTokens(response.sessionId || debugSessionId) || null,
         psychProfile: response.profile,
         // Show actual framework data
         frameworkResults: frameworksTriggered.reduce((acc: any, key: string) => {
@@ -1325,17 +1446,9 @@ CRITICAL: You MUST respond with valid JSON in this EXACT format (no other text b
           purpose: 'Quick triage to determine which frameworks should analyze this message',
           triggers: {
             hasCrisisIndicators: 'Detects self-harm, suicidal ideation, violence',
-            hasEmotionalContent: 'Detects emotional language → triggers DASS-42',
-            hasSelfWorthContent: 'Detects self-esteem issues → triggers RSE',
-            hasDarkTriadIndicators: 'Detects manipulation/exploitation → triggers Dark Triad',
-            hasPersonalityIndicators: 'Detects personality-relevant content → triggers Big Five',
-            hasCognitiveIndicators: 'Detects thinking patterns → triggers CRT',
-            hasAttachment: 'Detects relationship patterns → triggers Attachment Style',
-            hasEnneagram: 'Detects core motivations → triggers Enneagram',
-            hasMBTI: 'Detects cognitive preferences → triggers MBTI',
-            hasErikson: 'Detects life stage issues → triggers Erikson',
-            hasGestalt: 'Detects awareness/avoidance → triggers Gestalt',
-            hasBioPsych: 'Detects physical/environmental factors → triggers Bio-Psycho-Social',
+            ...Object.fromEntries(
+              getActiveFrameworks().map((f) => [f.classifierFlag, `${f.routerExplanation} → triggers ${f.name}`]),
+            ),
           },
           output: 'Classification flags + urgency level (critical/high/medium/low)',
         },
@@ -1344,19 +1457,11 @@ CRITICAL: You MUST respond with valid JSON in this EXACT format (no other text b
           name: 'Framework Analysis (Parallel LLM Calls)',
           model: 'gpt-4o-mini',
           purpose: 'Each triggered framework runs its own LLM call with specialized prompts',
-          frameworks: [
-            { name: 'Big Five (OCEAN)', trigger: 'hasPersonalityIndicators', analyzes: 'Openness, Conscientiousness, Extraversion, Agreeableness, Neuroticism' },
-            { name: 'DASS-42', trigger: 'hasEmotionalContent', analyzes: 'Depression, Anxiety, Stress levels and concerns' },
-            { name: 'RSE (Rosenberg)', trigger: 'hasSelfWorthContent', analyzes: 'Self-esteem level and indicators' },
-            { name: 'Dark Triad', trigger: 'hasDarkTriadIndicators', analyzes: 'Machiavellianism, Narcissism, Psychopathy traits' },
-            { name: 'CRT', trigger: 'hasCognitiveIndicators', analyzes: 'Thinking style, System 1 vs System 2 preference' },
-            { name: 'Attachment Style', trigger: 'hasAttachment', analyzes: 'Secure, Anxious, Avoidant, Disorganized patterns' },
-            { name: 'Enneagram', trigger: 'hasEnneagram', analyzes: 'Core type (1-9), motivations, fears' },
-            { name: 'MBTI', trigger: 'hasMBTI', analyzes: '16 personality types, cognitive functions' },
-            { name: 'Erikson', trigger: 'hasErikson', analyzes: 'Psychosocial development stage (8 stages)' },
-            { name: 'Gestalt', trigger: 'hasGestalt', analyzes: 'Present awareness, contact/resistance patterns' },
-            { name: 'Bio-Psycho-Social', trigger: 'hasBioPsych', analyzes: 'Biological, psychological, social factors' },
-          ],
+          frameworks: getActiveFrameworks().map((f) => ({
+            name: f.name,
+            trigger: f.classifierFlag,
+            analyzes: f.analyzes,
+          })),
           output: 'Structured analysis from each framework with confidence scores',
         },
         {
@@ -1393,7 +1498,7 @@ CRITICAL: You MUST respond with valid JSON in this EXACT format (no other text b
       ],
       dataFlow: {
         step1: 'User sends message → Classification LLM determines flags',
-        step2: 'Flags trigger 0-11 framework LLM calls (run in parallel)',
+        step2: `Flags trigger 0-${getActiveFrameworks().length} framework LLM calls (run in parallel; batched into one call on ${Object.entries(TIER_ANALYSIS_MODE).filter(([, mode]) => mode === 'batched').map(([tier]) => tier).join('/')} tiers)`,
         step3: 'Results merged → Summary LLM creates unified profile',
         step4: 'E-DNA + Psych profile → Advice LLM generates response',
       },
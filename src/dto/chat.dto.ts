@@ -1,5 +1,6 @@
-import { IsString, IsNotEmpty, IsOptional, IsUUID, Length, Matches } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsUUID, IsIn, Length, Matches } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { LLMFallbackReport, LLMRoutingDecision, LLMTokenUsage } from '../interfaces/llm-provider.interface';
 
 export class ChatRequestDto {
   @IsString()
@@ -29,6 +30,11 @@ export class ChatRequestDto {
 
   @IsOptional()
   decisionIntelligenceMode?: boolean;  // Use Decision Intelligence Agent flow (workbook-guided decision making)
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^([A-Za-z]{2}|INTL)$/i, { message: 'Region must be an ISO 3166-1 alpha-2 country code' })
+  region?: string;  // User's country, for crisis resources when the safety gate answers
 }
 
 export class ChatResponseDto {
@@ -39,6 +45,33 @@ export class ChatResponseDto {
   reasoning?: string; // LLM's internal reasoning (optional)
   // Cleaned psychological profile used by the responder (includes safety and per-message summary)
   profile?: any;
+  // Model that actually answered (differs from the selected model when a fallback was used)
+  model?: string;
+  fallback?: LLMFallbackReport;
+  // Set when the `auto` model was selected: the model it routed to and why
+  routing?: LLMRoutingDecision;
+  // Normalized token usage and USD cost of the reply (advice call only)
+  usage?: LLMTokenUsage;
+  costUSD?: number;
+  // Set when the safety gate answered with the vetted crisis template instead of a generated reply
+  safety?: SafetyGateResult;
+  // Detected language of the message (ISO 639-1, see language.config.ts); the reply is in it
+  language?: string;
+}
+
+export interface SafetyGateResult {
+  category: string;
+  region: string;
+  auditId: string;
+}
+
+export class ChatFeedbackDto {
+  @IsString()
+  @IsUUID('4', { message: 'Session ID must be a valid UUID' })
+  sessionId: string;
+
+  @IsIn(['up', 'down'], { message: 'Rating must be "up" or "down"' })
+  rating: 'up' | 'down';
 }
 
 export interface PersonalityAnalysis {
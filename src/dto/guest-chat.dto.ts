@@ -1,5 +1,6 @@
 import { IsString, IsNotEmpty, IsOptional, IsUUID, Length, Matches } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { SafetyGateResult } from './chat.dto';
 
 export class GuestChatRequestDto {
   @IsString()
@@ -29,6 +30,12 @@ export class GuestChatRequestDto {
 
   @IsOptional()
   stream?: boolean;
+
+  /** User's country (ISO 3166-1 alpha-2), for crisis resources when the safety gate answers */
+  @IsOptional()
+  @IsString()
+  @Matches(/^([A-Za-z]{2}|INTL)$/i, { message: 'Region must be an ISO 3166-1 alpha-2 country code' })
+  region?: string;
 }
 
 export interface GuestChatResponseDto {
@@ -41,4 +48,10 @@ export interface GuestChatResponseDto {
   messagesUsed?: number;
   /** Max messages allowed for guest */
   messagesCap?: number;
+  /** Model that actually answered (differs from selectedLLM when a fallback was used) */
+  model?: string;
+  /** Set when the safety gate answered with the vetted crisis template */
+  safety?: SafetyGateResult;
+  /** Detected language of the message (ISO 639-1); the reply is in it */
+  language?: string;
 }
@@ -43,6 +43,9 @@ export class FaqChatResponseDto {
 
   @ApiProperty({ description: 'True if this reply was served from short-lived cache.' })
   fromCache: boolean;
+
+  @ApiProperty({ description: 'Detected language of the question (ISO 639-1); the answer is in it.' })
+  language: string;
 }
 
 export class FaqChatHealthDto {
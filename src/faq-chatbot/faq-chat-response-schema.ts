@@ -1,5 +1,7 @@
+import { supportsStructuredOutput } from '../config/llm-models.config';
+
 /**
- * Structured output for FAQ chat (OpenAI gpt-4o / gpt-4o-mini).
+ * Structured output for FAQ chat (any model that supportsStructuredOutput).
  */
 export const FAQ_CHAT_RESPONSE_JSON_SCHEMA = {
   type: 'json_schema' as const,
@@ -29,6 +31,13 @@ export const FAQ_CHAT_RESPONSE_JSON_SCHEMA = {
   },
 };
 
+/** Parsed FAQ_CHAT_RESPONSE_JSON_SCHEMA reply. */
+export interface FaqChatStructuredResponse {
+  response: string;
+  outOfScope: boolean;
+  citedFaqIds: string[];
+}
+
 export function faqChatUsesStructuredOutput(model: string): boolean {
-  return model === 'gpt-4o' || model === 'gpt-4o-mini';
+  return supportsStructuredOutput(model);
 }
@@ -65,6 +65,7 @@ export class FaqChatController {
       latencyMs: r.latencyMs,
       knowledgeVersion: r.knowledgeVersion,
       fromCache: r.fromCache,
+      language: r.language,
     };
   }
 }
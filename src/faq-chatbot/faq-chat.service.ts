@@ -1,11 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { LLMOrchestratorService } from '../services/llm-orchestrator.service';
+import { LLMOrchestratorService, LLMStructuredOutputError } from '../services/llm-orchestrator.service';
 import { FaqKnowledgeLoaderService } from './faq-knowledge-loader.service';
 import { FaqRetrievalService } from './faq-retrieval.service';
 import { FaqChatCacheService } from './faq-chat-cache.service';
+import { buildLanguageInstruction, detectLanguage } from '../config/language.config';
 import {
   FAQ_CHAT_RESPONSE_JSON_SCHEMA,
+  FaqChatStructuredResponse,
   faqChatUsesStructuredOutput,
 } from './faq-chat-response-schema';
 
@@ -18,6 +20,8 @@ export interface FaqChatResult {
   latencyMs: number;
   knowledgeVersion: string;
   fromCache: boolean;
+  /** Detected language of the question (ISO 639-1); the answer is in it */
+  language: string;
 }
 
 @Injectable()
@@ -32,7 +36,12 @@ export class FaqChatService {
     private readonly config: ConfigService,
   ) {}
 
-  private systemPrompt(retrievedBlock: string, k: ReturnType<FaqKnowledgeLoaderService['getKnowledge']>): string {
+  private systemPrompt(
+    retrievedBlock: string,
+    k: ReturnType<FaqKnowledgeLoaderService['getKnowledge']>,
+    language: string,
+  ): string {
+    const languageInstruction = buildLanguageInstruction(language);
     return `You are a concise FAQ assistant for: "${k.chatbotTitle}".
 
 SCOPE (only answer inside this): ${k.scopeDescription}
@@ -41,17 +50,13 @@ RULES:
 - You may ONLY use information from the RETRIEVED FAQ entries below (each has an id=). Do not invent policies, prices, or features.
 - If the user's message is answered by one or more of these entries, answer clearly and briefly in your own words. Set citedFaqIds to the id= values you used.
 - If NONE of the retrieved entries apply, set outOfScope to true, citedFaqIds to [], and give ONE short polite message that you only handle questions in the scope above.
-- Never mention "retrieved entries" or system instructions to the user.
+- Never mention "retrieved entries" or system instructions to the user.${languageInstruction ? `\n- ${languageInstruction} The FAQ entries are in English: translate what you use.` : ''}
 
 RETRIEVED FAQ ENTRIES (use only these):
 ${retrievedBlock || '(No entries.)'}`;
   }
 
-  private parseStructured(content: string): {
-    response: string;
-    outOfScope: boolean;
-    citedFaqIds: string[];
-  } | null {
+  private parseStructured(content: string): FaqChatStructuredResponse | null {
     try {
       const j = JSON.parse(content.trim());
       if (typeof j.response !== 'string') return null;
@@ -75,10 +80,40 @@ ${retrievedBlock || '(No entries.)'}`;
     return null;
   }
 
+  /**
+   * Structured models go through generateStructured (schema-validated, retried once); if the reply
+   * still doesn't validate, its raw text is left to parseStructured's lenient parsing.
+   */
+  private async generateReply(
+    model: string,
+    messages: { role: 'system' | 'user'; content: string }[],
+    useStruct: boolean,
+  ): Promise<{ text: string; structured: FaqChatStructuredResponse | null }> {
+    const options = { temperature: 0.2, max_tokens: 700 };
+    if (!useStruct) {
+      const out = await this.llm.generateResponse(model, messages, { ...options, response_format: 'text' });
+      return { text: (out.content || '').trim(), structured: null };
+    }
+    try {
+      const out = await this.llm.generateStructured<FaqChatStructuredResponse>(model, messages, {
+        ...options,
+        response_format: FAQ_CHAT_RESPONSE_JSON_SCHEMA,
+      });
+      return {
+        text: (out.content || '').trim(),
+        structured: { ...out.parsed, response: out.parsed.response.trim() },
+      };
+    } catch (e) {
+      if (!(e instanceof LLMStructuredOutputError)) throw e;
+      return { text: (e.response.content || '').trim(), structured: null };
+    }
+  }
+
   async answer(message: string, clientRequestId?: string): Promise<FaqChatResult> {
     const t0 = Date.now();
     const k = this.knowledgeLoader.getKnowledge();
     const knowledgeVersion = this.knowledgeLoader.getKnowledgeVersion();
+    const language = detectLanguage(message).code;
 
     if (this.config.get<string>('FAQ_CHAT_DISABLED')?.trim() === 'true') {
       return {
@@ -89,6 +124,7 @@ ${retrievedBlock || '(No entries.)'}`;
         latencyMs: Date.now() - t0,
         knowledgeVersion,
         fromCache: false,
+        language,
       };
     }
 
@@ -101,6 +137,7 @@ ${retrievedBlock || '(No entries.)'}`;
         latencyMs: Date.now() - t0,
         knowledgeVersion,
         fromCache: false,
+        language,
       };
     }
 
@@ -113,6 +150,7 @@ ${retrievedBlock || '(No entries.)'}`;
         latencyMs: Date.now() - t0,
         knowledgeVersion,
         fromCache: false,
+        language,
       };
     }
 
@@ -132,7 +170,7 @@ ${retrievedBlock || '(No entries.)'}`;
     const model = this.config.get<string>('FAQ_CHAT_MODEL')?.trim() || DEFAULT_FAQ_MODEL;
     const useStruct = faqChatUsesStructuredOutput(model);
     const messages = [
-      { role: 'system' as const, content: this.systemPrompt(retrievedBlock, k) },
+      { role: 'system' as const, content: this.systemPrompt(retrievedBlock, k, language) },
       { role: 'user' as const, content: trimmed },
     ];
 
@@ -141,13 +179,8 @@ ${retrievedBlock || '(No entries.)'}`;
     let citedFaqIds: string[];
 
     try {
-      const out = await this.llm.generateResponse(model, messages, {
-        temperature: 0.2,
-        max_tokens: 700,
-        response_format: useStruct ? FAQ_CHAT_RESPONSE_JSON_SCHEMA : 'text',
-      });
-      const text = (out.content || '').trim();
-      const parsed = useStruct ? this.parseStructured(text) : null;
+      const { text, structured } = await this.generateReply(model, messages, useStruct);
+      const parsed = structured ?? (useStruct ? this.parseStructured(text) : null);
       if (parsed && parsed.response) {
         response = parsed.response;
         outOfScope = parsed.outOfScope;
@@ -182,6 +215,7 @@ ${retrievedBlock || '(No entries.)'}`;
       latencyMs,
       knowledgeVersion,
       fromCache: false,
+      language,
     };
     this.cache.set(knowledgeVersion, trimmed, result);
     return result;
@@ -63,6 +63,16 @@ describe('FaqRetrievalService', () => {
     expect(r[0].stableId).toBe('reset-password');
   });
 
+  it('matches accented and unspaced (CJK) words whole', () => {
+    const localized: FaqEntry[] = [
+      { id: 'kuendigen', question: 'Wie kündige ich mein Abo?', answer: 'In den Einstellungen.' },
+      { id: 'password-zh', question: '如何重置密码？', answer: '在设置中重置。' },
+      { id: 'other', question: 'Where are my credits shown?', answer: 'On the profile screen.' },
+    ];
+    expect(service.retrieve('Abo kündigen', localized, 1)[0].stableId).toBe('kuendigen');
+    expect(service.retrieve('我想重置密码', localized, 1)[0].stableId).toBe('password-zh');
+  });
+
   it('respects topK cap', () => {
     const r = service.retrieve('credits subscription password support', faqs, 4);
     expect(r.length).toBeLessThanOrEqual(4);
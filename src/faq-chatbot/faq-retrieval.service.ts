@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import type { FaqEntry } from './types/faq-knowledge.types';
+import { FUNCTION_WORDS } from '../config/language.config';
 
 const STOP = new Set([
   'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
@@ -13,15 +14,27 @@ const STOP = new Set([
   'because', 'until', 'while', 'about', 'against', 'between', 'into', 'through', 'this', 'that',
   'these', 'those', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'it', 'its', 'they', 'their',
   'what', 'which', 'who', 'whom', 'am', 'is', 'are', 'was', 'were', 'been', 'being',
+  // Function words of the other Latin-script languages users write in
+  ...Object.entries(FUNCTION_WORDS).flatMap(([code, words]) => (code === 'en' ? [] : words)),
 ]);
 
+/** Scripts written without spaces: indexed as overlapping character pairs. */
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
 function tokenize(text: string): string[] {
   return text
     .toLowerCase()
-    .split(/[^a-z0-9]+/g)
+    .split(/[^\p{L}\p{N}]+/gu)
+    .flatMap((w) => (UNSPACED_SCRIPT.test(w) ? bigrams(w) : [w]))
     .filter((w) => w.length > 1 && !STOP.has(w));
 }
 
+function bigrams(word: string): string[] {
+  const chars = [...word];
+  if (chars.length < 2) return chars;
+  return chars.slice(0, -1).map((c, i) => c + chars[i + 1]);
+}
+
 function uniqueTokens(texts: string[]): Set<string> {
   const s = new Set<string>();
   for (const t of texts) {
@@ -1,9 +1,47 @@
+import type { UserTier } from '../config/tier-pricing.config';
+
 export interface ILLMProvider {
   generateResponse(model: string, messages: any[], options: LLMOptions): Promise<LLMResponse>;
-  generateStream?(model: string, messages: any[], options: LLMOptions): AsyncGenerator<string, void, unknown>;
+  generateStream?(model: string, messages: any[], options: LLMOptions): AsyncGenerator<LLMStreamChunk, void, unknown>;
+}
+
+/**
+ * Token usage normalized across providers (each provider maps its own usage shape to this).
+ * - inputTokens: all prompt tokens, including cached ones
+ * - outputTokens: all completion tokens, including reasoning ones
+ * - cachedTokens: subset of inputTokens served from the provider's prompt cache
+ * - reasoningTokens: subset of outputTokens spent on hidden reasoning
+ */
+export interface LLMTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  reasoningTokens: number;
 }
 
-/** Structured output schema for OpenAI (guarantees schema adherence, e.g. non-empty response). */
+/**
+ * Normalized finish reasons across providers.
+ * 'cancelled' is set by the orchestrator when LLMOptions.signal aborted the stream (client went away).
+ */
+export type LLMFinishReason = 'stop' | 'length' | 'content_filter' | 'other' | 'cancelled';
+
+/**
+ * One event of a provider stream.
+ * - text: answer tokens
+ * - reasoning: native reasoning/thinking tokens (DeepSeek reasoner, Claude thinking)
+ * - usage: real token counts, emitted once near the end (the orchestrator adds costUSD)
+ * - finish: last chunk; the orchestrator adds modelId (who answered) and the fallback report
+ */
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'usage'; usage: LLMTokenUsage; costUSD?: number }
+  | { type: 'finish'; reason: LLMFinishReason; modelId?: string; fallback?: LLMFallbackReport };
+
+/**
+ * JSON schema response format. OpenAI enforces it natively; the other providers map it to their
+ * own mechanism (see supportsStructuredOutput) and generateStructured validates the result.
+ */
 export interface LLMResponseFormatJsonSchema {
   type: 'json_schema';
   json_schema: {
@@ -13,16 +51,112 @@ export interface LLMResponseFormatJsonSchema {
   };
 }
 
+/**
+ * Connection settings for an `openai-compatible` model (vLLM, Ollama, LM Studio, internal gateway).
+ * Secrets and per-deployment URLs are read from env vars named here, never stored in config.
+ */
+export interface LLMEndpointConfig {
+  /** Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 (Ollama). */
+  baseURL?: string;
+  /** Env var holding the base URL; wins over baseURL when set. */
+  baseURLEnv?: string;
+  /** Env var holding the API key. Optional: most self-hosted servers don't check it. */
+  apiKeyEnv?: string;
+  /** Extra headers sent with every request (e.g. gateway tenant/routing headers). */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A server function the model may call. `parameters` is a JSON Schema object; each provider
+ * maps this to its own shape (OpenAI tools, Claude input_schema, Gemini functionDeclarations).
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** A call the model asked for, normalized across providers. */
+export interface LLMToolCall {
+  /** Provider call id (Gemini has none; the provider generates one). Echo it back in the tool result. */
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Provider-neutral messages for a tool round trip, appended to the usual { role, content } messages:
+ * the assistant turn that requested the calls, then one `tool` message per call with its result.
+ */
+export type LLMToolMessage =
+  | { role: 'assistant'; content: string; toolCalls: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+/**
+ * Scheduling class of a call (see LLMSchedulerService), highest first: the user-facing reply,
+ * message classification, framework analysis, then background summaries.
+ */
+export type LLMRequestPriority = 'response' | 'classification' | 'analysis' | 'summary';
+
 export interface LLMOptions {
   temperature?: number;
   max_tokens?: number;
   top_p?: number;
   response_format?: 'json_object' | 'text' | LLMResponseFormatJsonSchema;
+  /** Set by the orchestrator from LLM_MODELS[id].endpoint for openai-compatible models. */
+  endpoint?: LLMEndpointConfig;
+  /** Aborts the provider request (e.g. the streaming client disconnected). */
+  signal?: AbortSignal;
+  /** Functions the model may call (OpenAI, Claude, Gemini; other providers ignore them). */
+  tools?: LLMToolDefinition[];
+  /** 'auto' (default when tools are given) lets the model decide; 'none' forbids calls. */
+  tool_choice?: 'auto' | 'none';
+  /** Queue priority when the provider is at its concurrency cap. Default 'response'. */
+  priority?: LLMRequestPriority;
+  /** Tier of the user the call is for: fallbacks are limited to models it can access. */
+  userTier?: UserTier;
+}
+
+/** One step of the orchestrator's fallback chain. */
+export interface LLMFallbackAttempt {
+  /** LLM_MODELS key that was tried (or skipped). */
+  model: string;
+  provider: string;
+  /** Error message when the attempt failed. */
+  error?: string;
+  /** Set when the attempt was not made, e.g. provider circuit open or paused after a 429. */
+  skipped?: 'circuit_open' | 'streaming_unsupported' | 'rate_limited';
+}
+
+/** Present on LLMResponse when a model other than the requested one answered. */
+export interface LLMFallbackReport {
+  requestedModel: string;
+  /** LLM_MODELS key that actually produced the response. */
+  servedBy: string;
+  attempts: LLMFallbackAttempt[];
+}
+
+/** Where the virtual `auto` model sent a message (see ModelRouterService), and why. */
+export interface LLMRoutingDecision {
+  /** LLM_MODELS key the message was routed to (a fallback may still answer instead). */
+  model: string;
+  complexity: 'simple' | 'moderate' | 'complex';
+  reason: string;
 }
 
 export interface LLMResponse {
   content: string;
   model: string;
-  usage?: any;
+  usage?: LLMTokenUsage;
+  /** USD cost of this call, attached by the orchestrator from the model pricing table. */
+  costUSD?: number;
   reasoning?: string;
+  /** LLM_MODELS key that answered (set by the orchestrator). Bill and display this, not the requested model. */
+  modelId?: string;
+  fallback?: LLMFallbackReport;
+  /** Calls the model requested instead of (or alongside) a final answer; run them and call again. */
+  toolCalls?: LLMToolCall[];
 }
+
+/** Result of LLMOrchestratorService.generateStructured: the response plus its schema-validated JSON. */
+export type LLMStructuredResponse<T> = LLMResponse & { parsed: T };
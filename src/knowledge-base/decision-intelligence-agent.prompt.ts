@@ -180,6 +180,10 @@ export interface DecisionIntelligencePromptOptions {
   userName?: string;
   /** Subtype or identity label, e.g. "Ultimate Architect", "Energetic Empath" */
   identityLabel?: string;
+  /** User's signals across past sessions (LongitudinalProfileService.getSummaryForAdvice) */
+  longitudinalSummary?: string;
+  /** Replaces SHARED_METHODOLOGY (an experiment's prompt version, see prompt-versions.ts) */
+  methodology?: string;
 }
 
 /**
@@ -193,7 +197,11 @@ export function getDecisionIntelligenceSystemPrompt(
   const normalizedType = coreType.toLowerCase() as DecisionCoreType;
   const typeBlock = TYPE_BLOCKS[normalizedType] ?? TYPE_BLOCKS.mixed;
 
-  const parts = [SHARED_METHODOLOGY, typeBlock];
+  const parts = [options.methodology ?? SHARED_METHODOLOGY, typeBlock];
+
+  if (options.longitudinalSummary) {
+    parts.push(`\n## OVER TIME (across their past sessions, recent ones weigh most)\n${options.longitudinalSummary}`);
+  }
 
   if (options.currentStep) {
     parts.push(`\n## CURRENT STEP\n${options.currentStep}`);
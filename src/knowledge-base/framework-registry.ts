@@ -0,0 +1,717 @@
+/**
+ * Psychological Framework Registry
+ *
+ * One descriptor per framework ParallelLLMService can run: the KB system prompt, how the router
+ * is told about it (lens), the classifier flag it maps to, keyword hints, how the analyzer prompt
+ * is built, the output fields, how results merge into the session profile, how the clean profile
+ * gates them, cost class and the tiers it runs for. The router prompt, classification, analysis,
+ * synthesis, clean profile, advice profile summary and the debug endpoints all iterate over this
+ * list, so adding a framework means adding a descriptor (and its KB file).
+ *
+ * Active frameworks: GET /chat/frameworks.
+ */
+
+import { UserTier } from '../config/tier-pricing.config';
+
+/** Router classification flag a framework is tied to (Classification['has…']). */
+export type ClassifierFlag = `has${string}`;
+
+/**
+ * Rough cost of one analyzer call: `high` sends recent conversation turns and allows a long
+ * answer, `medium` is a full KB prompt on the message alone, `low` a short KB prompt.
+ */
+export type FrameworkCostClass = 'low' | 'medium' | 'high';
+
+export type FrameworkCategory = 'personality' | 'social' | 'emotional' | 'crisis';
+
+/**
+ * How the analyzer messages are built around the KB system prompt:
+ * - conversation: user turn is the last 5 turns + `Latest: "<message>"`, then the instruction
+ * - systemAddition: instruction appended to the KB system prompt, user turn is the raw message
+ * - quotedMessage: user turn is `Message: "<message>"`, then the instruction
+ */
+export interface FrameworkPrompt {
+  style: 'conversation' | 'systemAddition' | 'quotedMessage';
+  instruction: string;
+}
+
+export interface FrameworkDescriptor {
+  /** Profile key, router lens name and token-usage framework name. */
+  id: string;
+  name: string;
+  /** What the analyzer reports (API docs). */
+  analyzes: string;
+  /** File in KB/ used as the analyzer's system prompt. */
+  kbFile: string;
+  /** Set when the router selects this framework. */
+  classifierFlag: ClassifierFlag;
+  /** Also run when the message has crisis indicators (even if the router didn't pick it). */
+  runOnCrisis?: boolean;
+  /** Crisis/safety analyzer: runs whenever selected and doesn't count against a plan's framework cap. */
+  capExempt?: boolean;
+  /** Lens heading and guidance in the router prompt. */
+  routerTitle: string;
+  routerGuidance: string;
+  /** One line for debug output: what selecting this framework means. */
+  routerExplanation: string;
+  /** Keyword hints (debug trace only; the router decides what runs). */
+  triggerKeywords: string[];
+  prompt: FrameworkPrompt;
+  maxTokens: number;
+  /** Fields the analyzer returns (name → expected values). */
+  outputSchema: Record<string, string>;
+  /**
+   * Result used when the answer can't be parsed or the call fails. Without one, failures come
+   * back as `{ module_error: true }`.
+   */
+  parseFallback?: Record<string, unknown>;
+  /** plain_english_insight for results that came back without one. */
+  describe?: (result: any) => string | undefined;
+  /** Combine this turn's result with the session's previous one (default: latest wins). */
+  merge?: (previous: any, next: any) => any;
+  /** Clean-profile gate (default: Confidence >= 0.5, with evidence when evidence is returned). */
+  gate?: { minConfidence: number; requireEvidence?: boolean };
+  /** Label in the synthesis prompt (frameworks without one are not synthesized). */
+  synthesisLabel?: string;
+  /** Label in the profile summary given to the advice model. */
+  profileLabel: string;
+  costClass: FrameworkCostClass;
+  enabledTiers: UserTier[];
+  enabled: boolean;
+  /** Order when a tier's framework cap applies (lower runs first). */
+  priority: number;
+  category: FrameworkCategory;
+}
+
+const ALL_TIERS: UserTier[] = ['free', 'basic', 'standard', 'pro', 'elite'];
+
+/** MBTI preferences are stable across a session: keep letters this message left unknown. */
+function mergeMbti(previous: any, next: any): any {
+  if (!previous || previous.module_error || !next || next.module_error) return next;
+  const merged = { ...next };
+  for (const dimension of ['EI', 'SN', 'TF', 'JP']) {
+    if ((!next[dimension] || next[dimension] === 'unknown') && previous[dimension] && previous[dimension] !== 'unknown') {
+      merged[dimension] = previous[dimension];
+    }
+  }
+  return merged;
+}
+
+export const FRAMEWORK_REGISTRY: FrameworkDescriptor[] = [
+  {
+    id: 'dass',
+    name: 'DASS-42',
+    analyzes: 'Depression, Anxiety, Stress levels and concerns',
+    kbFile: 'DASS42_Complete_Analysis.txt',
+    classifierFlag: 'hasEmotionalContent',
+    runOnCrisis: true,
+    capExempt: true,
+    routerTitle: 'Current emotional state (Depression, Anxiety, Stress)',
+    routerGuidance: `Use when the message reveals how they're feeling emotionally - whether stated directly ("I feel anxious") or indirectly through their tone, situation, or behavior. Emotional distress can show through what they say, how they say it, what they're going through, or how they're coping. Not just emotion words - the overall emotional weight of the message.`,
+    routerExplanation: 'Current emotional state detected (how they feel now)',
+    triggerKeywords: ['sad', 'depressed', 'anxious', 'stressed', 'overwhelmed', 'scared', 'angry', 'frustrated', 'hopeless', 'lonely', 'tired', 'exhausted'],
+    prompt: {
+      style: 'conversation',
+      instruction: `Analyze for Depression, Anxiety, and Stress ONLY. Return JSON:
+
+CRITICAL DISTINCTIONS:
+- DEPRESSION = sadness, hopelessness, emptiness, "nothing matters", loss of interest in life
+- NOT DEPRESSION = self-doubt, "not good enough", low confidence, fear of failure (these are SELF-ESTEEM issues, not depression)
+- ANXIETY = fear, worry, nervousness, tension, dread about future
+- STRESS = overwhelmed, pressured, can't relax, too much to do
+
+If message shows self-doubt about ability (like "I'm not good enough"), mark depression as "normal" - that's a self-esteem issue, NOT depression.
+
+{
+  "depression": "normal/mild/moderate/severe/extremely_severe",
+  "anxiety": "normal/mild/moderate/severe/extremely_severe",
+  "stress": "normal/mild/moderate/severe/extremely_severe",
+  "concerns": ["concern 1", "concern 2"],
+  "requiresCrisisResponse": true/false,
+  "plain_english_insight": "One sentence summarizing emotional state"
+}`,
+    },
+    maxTokens: 1000,
+    outputSchema: {
+      depression: 'normal/mild/moderate/severe/extremely_severe',
+      anxiety: 'normal/mild/moderate/severe/extremely_severe',
+      stress: 'normal/mild/moderate/severe/extremely_severe',
+      concerns: 'string[]',
+      requiresCrisisResponse: 'boolean',
+      plain_english_insight: 'string',
+    },
+    parseFallback: { concerns: [] },
+    synthesisLabel: 'DASS Emotional State',
+    profileLabel: 'Mental State',
+    costClass: 'high',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 14,
+    category: 'emotional',
+  },
+  {
+    id: 'bigFive',
+    name: 'Big Five (OCEAN)',
+    analyzes: 'Openness, Conscientiousness, Extraversion, Agreeableness, Neuroticism',
+    kbFile: 'BIG5_Complete_Analysis.txt',
+    classifierFlag: 'hasPersonalityIndicators',
+    routerTitle: 'Personality traits (who they ARE as a person)',
+    routerGuidance: `Detects the Big Five personality dimensions (OCEAN):
+- **Openness**: creativity, curiosity, imagination, love of learning, trying new things
+- **Conscientiousness**: self-control, organization, discipline, planning, responsibility, attention to detail
+- **Extraversion**: social energy, social interactivity, talkativeness, enjoying people, outgoing nature
+- **Agreeableness**:  helpfulness, kindness, cooperation, empathy, trust, caring about others
+- **Neuroticism**: emotional sensitivity, tendency to worry, self-doubt, mood swings, depression, irritability, and moodiness.
+
+Use when: Message reveals HOW they typically think, feel, or behave as a pattern - not just a one-time emotion.
+Example: "I always plan everything" → Conscientiousness. "I get anxious easily" → Neuroticism. "I love meeting new people" → Extraversion.`,
+    routerExplanation: 'Personality traits detected (how they typically behave)',
+    triggerKeywords: ['outgoing', 'shy', 'extroverted', 'introverted', 'organized', 'messy', 'disorganized', 'creative', 'conventional', 'anxious', 'calm', 'nervous', 'worried', 'kind', 'assertive', 'agreeable', 'competitive', 'open-minded', 'traditional'],
+    prompt: {
+      style: 'conversation',
+      instruction: `Analyze Big Five traits. Return JSON:
+{
+  "openness": "high/medium/low",
+  "conscientiousness": "high/medium/low",
+  "extraversion": "high/medium/low",
+  "agreeableness": "high/medium/low",
+  "neuroticism": "high/medium/low",
+  "plain_english_insight": "One sentence summarizing personality findings, e.g. 'This person shows high anxiety/neuroticism when discussing business decisions, suggesting emotional sensitivity to uncertainty'"
+}`,
+    },
+    maxTokens: 1000,
+    outputSchema: {
+      openness: 'high/medium/low',
+      conscientiousness: 'high/medium/low',
+      extraversion: 'high/medium/low',
+      agreeableness: 'high/medium/low',
+      neuroticism: 'high/medium/low',
+      plain_english_insight: 'string',
+    },
+    parseFallback: { insights: [] },
+    synthesisLabel: 'BigFive Personality',
+    profileLabel: 'Big Five',
+    costClass: 'high',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 1,
+    category: 'personality',
+  },
+  {
+    id: 'rse',
+    name: 'RSE (Rosenberg)',
+    analyzes: 'Self-esteem level and indicators',
+    kbFile: 'RSE_Complete_Analysis.txt',
+    classifierFlag: 'hasSelfWorthContent',
+    routerTitle: 'Self-worth and self-esteem',
+    routerGuidance: `Use when the message reveals how they see themselves - their sense of value, competence, or worth. This shows in how they talk about their abilities, achievements, failures, or place in the world. Self-esteem can be high, low, or fragile - look for the underlying belief about "am I good enough?"`,
+    routerExplanation: 'Self-worth content detected (how they value themselves)',
+    triggerKeywords: ['not good enough', 'worthless', 'failure', 'useless', 'pathetic', 'hate myself', "don't deserve", "can't do anything"],
+    prompt: {
+      style: 'conversation',
+      instruction: `Analyze self-esteem. Return JSON:
+{
+  "level": "low/medium/high",
+  "indicators": ["indicator 1", "indicator 2"],
+  "plain_english_insight": "One sentence about self-worth, e.g. 'This person shows moderate self-esteem but expresses doubt about their ability to succeed in business'"
+}`,
+    },
+    maxTokens: 1000,
+    outputSchema: { level: 'low/medium/high', indicators: 'string[]', plain_english_insight: 'string' },
+    parseFallback: { indicators: [] },
+    synthesisLabel: 'RSE Self-Esteem',
+    profileLabel: 'Self-Esteem',
+    costClass: 'high',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 15,
+    category: 'emotional',
+  },
+  {
+    id: 'enneagram',
+    name: 'Enneagram',
+    analyzes: 'Core type (1-9), motivations, fears',
+    kbFile: 'Enneagram.txt',
+    classifierFlag: 'hasEnneagram',
+    routerTitle: 'Core motivations, fears, and personality patterns',
+    routerGuidance: `Detects the 9 Enneagram personality types based on:
+- **Core fears & desires** (what they avoid vs. seek)
+- **Worldview** (how they see life and relationships)
+- **Coping patterns** (how they handle stress, conflict, decisions)
+- **Emotional habits** (anger, shame, fear patterns)
+- **Relationship dynamics** (how they connect with or withdraw from others)
+
+The 9 types: Perfectionist, Helper, Achiever, Individualist, Investigator, Loyalist, Enthusiast, Challenger, Peacemaker
+
+Use when: Message reveals patterns in how they think, relate, cope, or what drives their behavior - even if they don't explicitly state fears or desires. Any message showing personality patterns, coping mechanisms, relationship styles, or emotional tendencies can be Enneagram-relevant.`,
+    routerExplanation: 'Core motivations/fears detected (what drives them)',
+    triggerKeywords: ['be right', 'be loved', 'be admired', 'unique', 'authentic', 'understand', 'protect energy', 'safe', 'support', 'freedom', 'happiness', 'control', 'independent', 'peace', 'harmony'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing what this reveals about the person's core motivation.
+Example: "plain_english_insight": "This person appears driven by Type 3 achiever motivation - they fear being seen as worthless and are anxious about success in their new venture."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      Primary_Type: 'number 1-9',
+      Core_Motivation: 'string',
+      Core_Fear: 'string',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) =>
+      r.Primary_Type
+        ? `This person shows Type ${r.Primary_Type} patterns${r.Core_Motivation ? ` (motivated by ${r.Core_Motivation})` : ''}${r.Core_Fear ? ` with underlying fear of ${r.Core_Fear}` : ''}.`
+        : undefined,
+    // The KB returns low confidence for ambiguous messages
+    gate: { minConfidence: 0.2, requireEvidence: true },
+    synthesisLabel: 'Enneagram',
+    profileLabel: 'Enneagram Type',
+    costClass: 'medium',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 4,
+    category: 'personality',
+  },
+  {
+    id: 'crt',
+    name: 'CRT',
+    analyzes: 'Thinking style, System 1 vs System 2 preference',
+    kbFile: 'CRT_Complete_Analysis.txt',
+    classifierFlag: 'hasCognitiveIndicators',
+    routerTitle: 'How they make decisions',
+    routerGuidance: `Use when message reveals thinking patterns - do they go with gut feelings or analyze carefully? Are they impulsive or deliberate? Do they trust instincts or need to think things through?`,
+    routerExplanation: 'Thinking style detected (how they make decisions)',
+    triggerKeywords: ['gut', 'instinct', 'intuition', 'impulsive', 'spontaneous', 'overthink', 'overanalyze', 'act first', 'think later', 'rational', 'logical', 'analyze everything', 'think too much'],
+    prompt: {
+      style: 'conversation',
+      instruction: `Analyze cognitive/thinking style. Return JSON:
+{
+  "thinkingStyle": "intuitive/balanced/analytical/unknown",
+  "systemPreference": "system1/mixed/system2/unknown",
+  "plain_english_insight": "One sentence about decision-making style, e.g. 'This person tends to trust gut feelings over analytical thinking when making decisions'"
+}`,
+    },
+    maxTokens: 1000,
+    outputSchema: {
+      thinkingStyle: 'intuitive/balanced/analytical/unknown',
+      systemPreference: 'system1/mixed/system2/unknown',
+      plain_english_insight: 'string',
+    },
+    parseFallback: { insights: [] },
+    synthesisLabel: 'CRT Thinking Style',
+    profileLabel: 'Thinking Style',
+    costClass: 'high',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 16,
+    category: 'crisis',
+  },
+  {
+    id: 'darkTriad',
+    name: 'Dark Triad',
+    analyzes: 'Machiavellianism, Narcissism, Psychopathy traits',
+    kbFile: 'DarkTriad_Complete_Analysis.txt',
+    classifierFlag: 'hasDarkTriadIndicators',
+    routerTitle: 'Manipulation / superiority patterns (RARE)',
+    routerGuidance: `Use ONLY when message clearly shows: using others for personal gain, feeling superior to everyone, or lacking empathy/remorse. Most messages won't have this.`,
+    routerExplanation: 'Manipulation/superiority patterns detected',
+    triggerKeywords: ['manipulate', 'control', 'use people', 'better than', 'superior', "don't care about others", 'fake it'],
+    prompt: {
+      style: 'conversation',
+      instruction: `Analyze Dark Triad traits. Return JSON:
+{
+  "machiavellianism": "high/medium/low/unknown",
+  "narcissism": "high/medium/low/unknown",
+  "psychopathy": "high/medium/low/unknown",
+  "plain_english_insight": "One sentence about manipulation/ego traits, e.g. 'No concerning Dark Triad indicators detected in this message'"
+}`,
+    },
+    maxTokens: 1000,
+    outputSchema: {
+      machiavellianism: 'high/medium/low/unknown',
+      narcissism: 'high/medium/low/unknown',
+      psychopathy: 'high/medium/low/unknown',
+      plain_english_insight: 'string',
+    },
+    parseFallback: { insights: [] },
+    synthesisLabel: 'Dark Triad',
+    profileLabel: 'Interpersonal Style',
+    costClass: 'high',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 2,
+    category: 'personality',
+  },
+  {
+    id: 'attachment',
+    name: 'Attachment Style',
+    analyzes: 'Secure, Anxious, Avoidant, Disorganized patterns',
+    kbFile: 'AttachmentStyleClassifier.txt',
+    classifierFlag: 'hasAttachment',
+    routerTitle: 'How they connect with and trust others',
+    routerGuidance: `Use when the message reveals relationship patterns - how they approach closeness, trust, dependency, or independence with ANY people (not just romantic). Do they push people away? Cling too tightly? Struggle to trust? Feel secure in connections? This shapes how they relate to everyone.`,
+    routerExplanation: 'Relationship patterns detected (how they connect)',
+    triggerKeywords: ["please don't leave", 'leave me', 'abandon', 'need you', 'close', 'closeness', 'too close', 'space', 'independent', 'depend', 'trust', 'afraid of love', 'afraid of closeness'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the attachment pattern detected.
+Example: "plain_english_insight": "This person shows anxious attachment patterns - seeking reassurance and fearing abandonment in relationships."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      Attachment_Style: 'Secure/Anxious/Avoidant/Disorganized',
+      Key_Indicators: 'string[]',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) =>
+      r.Attachment_Style
+        ? `This person shows ${r.Attachment_Style} attachment patterns${r.Key_Indicators ? ` (indicators: ${r.Key_Indicators.slice(0, 2).join(', ')})` : ''}.`
+        : undefined,
+    synthesisLabel: 'Attachment',
+    profileLabel: 'Attachment Style',
+    costClass: 'medium',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 5,
+    category: 'personality',
+  },
+  {
+    id: 'mbti',
+    name: 'MBTI',
+    analyzes: '16 personality types, cognitive functions',
+    kbFile: 'MBTI.txt',
+    classifierFlag: 'hasMBTI',
+    routerTitle: 'How they process the world',
+    routerGuidance: `Use when message reveals: where they get energy (people vs alone), how they take in info (details vs big picture), how they decide (logic vs values), how they structure life (planned vs spontaneous).`,
+    routerExplanation: 'Cognitive preferences detected',
+    triggerKeywords: ['i am an introvert', 'i am an extrovert', 'i am introverted', 'i am extroverted', 'ambivert', 'mbti', 'personality type', 'my type is', 'sensing type', 'intuitive type', 'thinking type', 'feeling type', 'judging type', 'perceiving type'],
+    prompt: {
+      style: 'quotedMessage',
+      instruction: `Analyze for MBTI type. Return JSON only:\n{"EI": "I/E/unknown", "SN": "S/N/unknown", "TF": "T/F/unknown", "JP": "J/P/unknown", "Confidence": {"EI": 0.7}, "Evidence": ["quote here"], "plain_english_insight": "One sentence summary of MBTI indicators detected"}`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      EI: 'I/E/unknown',
+      SN: 'S/N/unknown',
+      TF: 'T/F/unknown',
+      JP: 'J/P/unknown',
+      Confidence: 'object: dimension → number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) => {
+      const mbtiType = `${r.EI || '?'}${r.SN || '?'}${r.TF || '?'}${r.JP || '?'}`;
+      return `MBTI indicators suggest ${mbtiType !== '????' ? mbtiType : 'incomplete data'} tendencies${r.Evidence?.length ? ` based on: ${r.Evidence[0]}` : ''}.`;
+    },
+    merge: mergeMbti,
+    profileLabel: 'MBTI',
+    costClass: 'medium',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 3,
+    category: 'personality',
+  },
+  {
+    id: 'erikson',
+    name: 'Erikson',
+    analyzes: 'Psychosocial development stage (8 stages)',
+    kbFile: 'EPSI_CompleteAnalysis.txt',
+    classifierFlag: 'hasErikson',
+    routerTitle: 'Life stage and developmental challenges',
+    routerGuidance: `Use when the message reveals struggles about growing, maturing, or finding one's place in life. Questions about trust, independence, identity, connection, purpose, or legacy. The big "life chapter" questions - who am I becoming, where do I belong, what am I building, did my choices matter. Developmental transitions and existential turning points.`,
+    routerExplanation: 'Life stage challenges detected (identity/meaning)',
+    triggerKeywords: ['who am i', 'purpose', 'identity', 'belong', 'trust', 'love', 'lonely', 'useless', 'meaningful', 'legacy', 'stuck', 'regret', 'life review'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the developmental stage or life challenge detected.
+Example: "plain_english_insight": "This person appears to be navigating the Identity vs. Role Confusion stage, questioning who they are in this new business venture."`,
+    },
+    maxTokens: 800,
+    outputSchema: { Stage: 'string', Conflict: 'string', Confidence: 'number 0-1', Evidence: 'string[]', plain_english_insight: 'string' },
+    describe: (r) => (r.Stage ? `This person is navigating ${r.Stage}${r.Conflict ? ` (${r.Conflict})` : ''}.` : undefined),
+    profileLabel: 'Erikson Stage',
+    costClass: 'low',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 6,
+    category: 'personality',
+  },
+  {
+    id: 'gestalt',
+    name: 'Gestalt',
+    analyzes: 'Present awareness, contact/resistance patterns',
+    kbFile: 'GestaltAwareness.txt',
+    classifierFlag: 'hasGestalt',
+    routerTitle: 'Emotional awareness and unfinished business',
+    routerGuidance: `Use when the message reveals how connected or disconnected they are from their own feelings. Are they fully present with their emotions? Avoiding something? Deflecting? Stuck on something unresolved from the past? The gap between what they feel and what they acknowledge.`,
+    routerExplanation: 'Awareness/avoidance patterns detected',
+    triggerKeywords: ['right now i feel', 'i notice', 'avoid', 'numb', 'joke', 'humor to avoid', 'go along', 'they make me feel', "it's my fault", "i shouldn't feel", 'i freeze', "can't act"],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the awareness or unfinished business detected.
+Example: "plain_english_insight": "This person shows incomplete awareness - they feel the anxiety but haven't connected it to their underlying fear of failure."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      Awareness_Level: 'string',
+      Unfinished_Business: 'string',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) =>
+      r.Awareness_Level || r.Unfinished_Business
+        ? `Gestalt analysis: ${r.Awareness_Level ? `Awareness level is ${r.Awareness_Level}` : ''}${r.Unfinished_Business ? `. Unfinished business: ${r.Unfinished_Business}` : ''}.`
+        : undefined,
+    profileLabel: 'Gestalt Awareness',
+    costClass: 'medium',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 7,
+    category: 'personality',
+  },
+  {
+    id: 'bioPsych',
+    name: 'Bio-Psycho-Social',
+    analyzes: 'Biological, psychological, social factors',
+    kbFile: 'Bio-PsychReasoner.txt',
+    classifierFlag: 'hasBioPsych',
+    routerTitle: 'Physical and biological factors affecting mood',
+    routerGuidance: `Use when the message suggests physical factors might be influencing their state - sleep, energy, health, substances, body sensations, environment. Can be explicit ("I haven't slept") or implicit (signs of exhaustion, physical complaints, lifestyle factors). The body-mind connection.`,
+    routerExplanation: 'Physical/environmental factors detected',
+    triggerKeywords: ['sleep', 'slept', 'insomnia', 'tired', 'exhausted', 'fatigue', 'burnout', 'headache', 'pain', 'sick', 'ill', 'fever', 'period', 'pms', 'hormones', 'caffeine', 'coffee', 'alcohol', 'drunk', 'hungover', 'hungry', 'skipped meal', 'dehydrated', 'exercise', 'sedentary', 'sitting', 'heat', 'cold', 'noise', 'messy', 'crowded', 'overload', 'multitask', 'lonely', 'isolated', 'financial', 'money', 'debt', 'job', 'moving', 'breakup'],
+    prompt: {
+      style: 'quotedMessage',
+      instruction: `Analyze for biological/lifestyle factors. Return JSON only:\n{"Possible_Factors": ["Sleep", "Nutrition", "Exercise", etc.], "Confidence_By_Factor": {"Sleep": 0.7}, "Evidence": ["quote here"], "Notes": "", "plain_english_insight": "One sentence about biological/lifestyle factors that might be contributing"}`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      Possible_Factors: 'string[]',
+      Confidence_By_Factor: 'object: factor → number 0-1',
+      Evidence: 'string[]',
+      Notes: 'string',
+      plain_english_insight: 'string',
+    },
+    describe: (r) =>
+      r.Possible_Factors?.length
+        ? `Biological factors to consider: ${r.Possible_Factors.join(', ')}${r.Notes ? `. ${r.Notes}` : ''}.`
+        : undefined,
+    profileLabel: 'Bio-Psych Factors',
+    costClass: 'medium',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 8,
+    category: 'personality',
+  },
+  {
+    id: 'conflictMode',
+    name: 'Thomas-Kilmann (TKI)',
+    analyzes: 'Conflict mode (competing, collaborating, compromising, avoiding, accommodating)',
+    kbFile: 'Thomas-KilmannConflictModeAnalyzer.txt',
+    classifierFlag: 'hasConflictMode',
+    routerTitle: 'How they handle conflict with others (Thomas-Kilmann)',
+    routerGuidance: `Use when the message describes a disagreement, tension or clash with a colleague, team, partner or family - and reveals how they respond to it: pushing their position, seeking a win-win, meeting halfway, avoiding it, or giving in.`,
+    routerExplanation: 'Conflict-handling style detected (assertive vs. cooperative)',
+    triggerKeywords: ['conflict', 'disagree', 'disagreement', 'argument', 'arguing', 'clash', 'tension with', 'meet halfway', 'compromise', 'win-win', 'give in', 'back down', 'avoid confrontation', 'stand my ground', 'push back'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing how this person is handling the conflict.
+Example: "plain_english_insight": "This person is avoiding the disagreement with their co-founder - low assertiveness that leaves their own concerns unspoken."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      Conflict_Mode: 'Competing/Collaborating/Compromising/Avoiding/Accommodating',
+      Assertiveness_Level: 'High/Medium/Low',
+      Cooperativeness_Level: 'High/Medium/Low',
+      Overuse_or_Underuse: 'string',
+      Contextual_Appropriateness: 'string',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) =>
+      r.Conflict_Mode
+        ? `This person is handling the conflict in ${r.Conflict_Mode} mode${r.Assertiveness_Level && r.Cooperativeness_Level ? ` (${r.Assertiveness_Level} assertiveness, ${r.Cooperativeness_Level} cooperativeness)` : ''}${r.Overuse_or_Underuse && r.Overuse_or_Underuse !== 'Balanced' ? ` - ${String(r.Overuse_or_Underuse).toLowerCase()}` : ''}.`
+        : undefined,
+    synthesisLabel: 'Conflict Mode',
+    profileLabel: 'Conflict Mode',
+    costClass: 'medium',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 9,
+    category: 'social',
+  },
+  {
+    id: 'leadership',
+    name: 'Life Cycle Leadership',
+    analyzes: 'Leader style quadrant vs. follower maturity',
+    kbFile: 'LifeCycleTheoryOfLeadership.txt',
+    classifierFlag: 'hasLeadership',
+    routerTitle: 'Leading or being led (Life Cycle Theory of Leadership)',
+    routerGuidance: `Use when the message is about managing, delegating, supervising or being supervised - how much direction or support someone gives or needs, and whether that fits the people involved (their experience, independence, motivation).`,
+    routerExplanation: 'Leadership / follower-readiness dynamics detected',
+    triggerKeywords: ['my manager', 'my boss', 'my direct report', 'my reports', 'lead the team', 'leading the team', 'leadership', 'delegate', 'delegating', 'micromanag', 'supervise', 'supervisor', 'coach my team', 'new hire', 'junior'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the leadership style and whether it fits the people being led.
+Example: "plain_english_insight": "This person directs an experienced team closely (high task, low relationship), which likely feels like micromanagement to people ready for delegation."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      FollowerMaturity: 'Low/Moderate/High',
+      LeaderStyle: 'High|Low Task / High|Low Relationship',
+      Quadrant: 'number 1-4',
+      MatchEffectiveness: 'string',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) =>
+      r.LeaderStyle
+        ? `Leadership style is ${r.LeaderStyle}${r.Quadrant ? ` (quadrant ${r.Quadrant})` : ''}${r.FollowerMaturity ? ` for ${String(r.FollowerMaturity).toLowerCase()} follower maturity` : ''}${r.MatchEffectiveness ? ` - ${String(r.MatchEffectiveness).toLowerCase()}` : ''}.`
+        : undefined,
+    synthesisLabel: 'Leadership',
+    profileLabel: 'Leadership Style',
+    costClass: 'low',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 10,
+    category: 'social',
+  },
+  {
+    id: 'groupDynamics',
+    name: 'Group Dynamics (Lewin)',
+    analyzes: 'Driving/restraining forces, group norms, change phase',
+    kbFile: 'GroupDynamics.txt',
+    classifierFlag: 'hasGroupDynamics',
+    routerTitle: 'Forces inside a group or team (Lewin)',
+    routerGuidance: `Use when the message describes how a group behaves as a whole: team norms, pressure to keep things as they are, forces pushing for or resisting change, everyone waiting on each other, a team stuck or in transition.`,
+    routerExplanation: 'Group forces and norms detected (pressure to change or stay)',
+    triggerKeywords: ['my team', 'our team', 'the team', 'the group', 'team culture', 'everyone is waiting', 'nobody wants to change', 'resist change', 'resistance to change', 'status quo', 'the way we always', 'team norms', 'stuck as a team'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the forces keeping the group where it is or pushing it to change.
+Example: "plain_english_insight": "The team wants to move faster but an unspoken norm of avoiding confrontation keeps everyone waiting for someone else to act."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      FieldInterdependence: 'boolean',
+      Forces: '{ Driving: string[], Restraining: string[] }',
+      EquilibriumState: 'string',
+      ChangePhase: 'unfreezing/moving/refreezing',
+      GroupNorms: 'string[]',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) => {
+      if (!r.ChangePhase && !r.Forces) return undefined;
+      const driving = r.Forces?.Driving?.slice(0, 2).join(', ');
+      const restraining = r.Forces?.Restraining?.slice(0, 2).join(', ');
+      return `The group ${r.ChangePhase ? `is in the ${r.ChangePhase} phase of change` : 'is under competing forces'}${driving ? `, pushed by ${driving}` : ''}${restraining ? ` and held back by ${restraining}` : ''}.`;
+    },
+    synthesisLabel: 'Group Dynamics',
+    profileLabel: 'Group Dynamics',
+    costClass: 'low',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 11,
+    category: 'social',
+  },
+  {
+    id: 'socialIdentity',
+    name: 'Social Identity',
+    analyzes: 'In-group/out-group, status, identity strategy',
+    kbFile: 'SocialIdentityTheory.txt',
+    classifierFlag: 'hasSocialIdentity',
+    routerTitle: 'Us vs. them (Social Identity Theory)',
+    routerGuidance: `Use when the message shows identification with a group (team, company, profession, community) and comparison with another group - pride, rivalry, feeling disrespected as a group, wanting to leave or distance from a group.`,
+    routerExplanation: 'Group identity / us-vs-them comparison detected',
+    triggerKeywords: ['us vs them', 'us versus them', 'our side', 'their side', 'other team', 'other department', 'people like us', 'people like them', 'our company', 'rival', 'outsider', 'where i belong', 'not one of them'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the group identity at play and how this person is responding to it.
+Example: "plain_english_insight": "This person strongly identifies with their engineering team and feels its status is threatened by sales, so they frame the decision as us vs. them."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      Groups: '{ Ingroup: string, Outgroup: string }',
+      Social_Categorization: 'boolean',
+      Social_Comparison: 'boolean',
+      Positive_Distinctiveness: 'boolean',
+      Status_Cues: 'high/low/mixed/unknown',
+      Legitimacy_View: 'string',
+      Boundary_Permeability: 'string',
+      Threat_Level: 'none/low/medium/high',
+      Likely_Strategy: 'Individual_Mobility/Social_Creativity/Social_Competition/Unknown',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) => {
+      if (!r.Social_Categorization) return undefined;
+      const ingroup = r.Groups?.Ingroup;
+      const outgroup = r.Groups?.Outgroup;
+      return `This person frames the situation in group terms${ingroup ? ` (${ingroup}${outgroup ? ` vs. ${outgroup}` : ''})` : ''}${r.Likely_Strategy && r.Likely_Strategy !== 'Unknown' ? `, responding through ${String(r.Likely_Strategy).replace(/_/g, ' ').toLowerCase()}` : ''}.`;
+    },
+    synthesisLabel: 'Social Identity',
+    profileLabel: 'Social Identity',
+    costClass: 'medium',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 12,
+    category: 'social',
+  },
+  {
+    id: 'socialInfluence',
+    name: 'Social Influence',
+    analyzes: 'Compliance principles, conformity form, resistance',
+    kbFile: 'Social Influence_Compliance and confirmity.txt',
+    classifierFlag: 'hasSocialInfluence',
+    routerTitle: 'Conforming, complying or resisting (Cialdini)',
+    routerGuidance: `Use when the message shows them going along with others or resisting pressure: agreeing because everyone else did, deferring to authority, feeling obliged to return a favor, fear of missing out, or pushing back against being persuaded.`,
+    routerExplanation: 'Conformity, compliance or resistance to pressure detected',
+    triggerKeywords: ['everyone else', 'everyone agreed', 'peer pressure', 'pressure to', 'go along with', 'fit in', 'the only one', 'owe them', 'return the favor', 'because they said', 'fear of missing out', 'fomo', 'talked into', 'pressured'],
+    prompt: {
+      style: 'systemAddition',
+      instruction: `IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the social pressure on this person and whether they are conforming or resisting.
+Example: "plain_english_insight": "This person agreed publicly because the rest of the team already had (social proof), but privately still disagrees."`,
+    },
+    maxTokens: 800,
+    outputSchema: {
+      InfluenceType: 'string[] (Normative/Informational)',
+      CompliancePrinciples: 'string[] (Reciprocity/Commitment/Social Proof/Liking/Authority/Scarcity)',
+      ConformityForm: 'Private Acceptance/Public Compliance/None',
+      Resistance: 'string[]',
+      Confidence: 'number 0-1',
+      Evidence: 'string[]',
+      plain_english_insight: 'string',
+    },
+    describe: (r) => {
+      if (r.CompliancePrinciples?.length) {
+        return `This person is influenced by ${r.CompliancePrinciples.join(', ')}${r.ConformityForm && r.ConformityForm !== 'None' ? ` (${String(r.ConformityForm).toLowerCase()})` : ''}.`;
+      }
+      return r.Resistance?.length ? `This person is resisting social pressure (${r.Resistance.join(', ')}).` : undefined;
+    },
+    synthesisLabel: 'Social Influence',
+    profileLabel: 'Social Influence',
+    costClass: 'low',
+    enabledTiers: ALL_TIERS,
+    enabled: true,
+    priority: 13,
+    category: 'social',
+  },
+];
+
+export function getFramework(id: string): FrameworkDescriptor | undefined {
+  return FRAMEWORK_REGISTRY.find((f) => f.id === id);
+}
+
+/** Enabled frameworks, or only those enabled for `tier` when given. */
+export function getActiveFrameworks(tier?: UserTier): FrameworkDescriptor[] {
+  return FRAMEWORK_REGISTRY.filter((f) => f.enabled && (!tier || f.enabledTiers.includes(tier)));
+}
@@ -0,0 +1,182 @@
+/**
+ * Localized Triggers
+ *
+ * Non-English counterparts of the English crisis patterns (parallel-llm.service.ts) and of the
+ * registry's framework triggerKeywords (framework-registry.ts), so the local safety check and the
+ * keyword hints still fire when users write in another language. Safety patterns are checked for
+ * the message's detected language only (plus English), so a stem in one language cannot fire on a
+ * word of another; keywords are checked for every language.
+ *
+ * Keywords are lowercase substrings (matched like triggerKeywords, so stems such as "deprimid"
+ * cover deprimido/deprimida). Patterns are case-insensitive regexes anchored at word starts (stems)
+ * or on both sides (whole words): `\b` for Latin scripts, `(?<!\p{L})` where a word can start with a
+ * non-ASCII letter or is not Latin. The Arabic, Devanagari and CJK patterns are explicit phrases and
+ * are left unanchored.
+ */
+
+import type { LanguageCode } from '../config/language.config';
+
+export type LocalizedSafetyCategory = 'self_harm' | 'harm_others' | 'abuse' | 'medical';
+
+/** High-risk language per category, by language. */
+export const LOCALIZED_SAFETY_PATTERNS: Partial<Record<LanguageCode, Partial<Record<LocalizedSafetyCategory, RegExp>>>> = {
+  es: {
+    self_harm: /\b(suicid|matarme\b|quitarme la vida|quiero morir|no quiero vivir|hacerme daño|cortarme\b)/i,
+    harm_others: /\b(matarl[oa]s?|hacerle(s)? daño)\b/i,
+    abuse: /\b(abus(o|ó|aron|ando)|violencia|agresi[oó]n|maltrat|violaci[oó]n)/i,
+    medical: /\b(sobredosis|envenen|inconsciente|no respira)/i,
+  },
+  fr: {
+    self_harm: /\b(suicid|me tuer\b|en finir avec la vie|veux mourir|envie de mourir|me faire du mal|me scarifier)/i,
+    harm_others: /\b((le|la|les) tuer|(lui|leur) faire du mal)\b/i,
+    abuse: /\b(abus|violence|agression|maltrait|viol(é|ée|ées|és)?(?!\p{L}))/iu,
+    medical: /\b(surdose|overdose|empoisonn|inconscient|ne respire (plus|pas))/i,
+  },
+  de: {
+    self_harm: /\b(suizid|selbstmord|mich umbringen|mir das leben nehmen|will sterben|nicht mehr leben|mich ritzen|mich verletzen)/i,
+    harm_others: /\b((ihn|sie) umbringen|(ihn|sie) töten|(ihm|ihr|ihnen) weh tun)\b/i,
+    abuse: /\b(missbrauch|misshandl|gewalt|vergewaltig)/i,
+    medical: /(?<!\p{L})(überdosis|vergiftet|vergiftung|bewusstlos|atmet nicht)/iu,
+  },
+  pt: {
+    self_harm: /\b(suic[ií]d|me matar\b|tirar (a )?minha (própria )?vida|quero morrer|não quero (mais )?viver|me machucar|me cortar\b)/i,
+    harm_others: /\b(mat[aá]-l[oa]s?|machuc[aá]-l[oa]s?)\b/i,
+    abuse: /\b(abus(o|ad|ou)|violência|agressão|maltrat|estupr)/i,
+    medical: /\b(overdose|envenen|inconsciente|não (está )?respira)/i,
+  },
+  it: {
+    self_harm: /\b(suicid|uccidermi\b|togliermi la vita|farla finita|voglio morire|non voglio (più )?vivere|farmi del male|tagliarmi\b)/i,
+    harm_others: /\b(ucciderl[oaie]|fargli del male|farle del male)\b/i,
+    abuse: /\b(abus|violenz|aggression[ei]\b|maltratt|stupr)/i,
+    medical: /\b(overdose|avvelenat|svenut|incosciente|non respira)/i,
+  },
+  nl: {
+    self_harm: /\b(zelfmoord|suïcid|mezelf (van kant maken|iets aandoen|pijn doen)|wil dood\b)/i,
+    abuse: /\b(misbruik|mishandel|geweld|verkracht)/i,
+    medical: /\b(overdosis|vergiftig|bewusteloos|ademt niet)/i,
+  },
+  ru: {
+    self_harm: /(?<!\p{L})(суицид|самоубийств|покончить с собой|убить себя|хочу умереть|не хочу жить)/iu,
+    abuse: /(?<!\p{L})(насили|избива)/iu,
+    medical: /(?<!\p{L})(передозировк|отравлени|без сознания|не дышит)/iu,
+  },
+  ar: {
+    self_harm: /انتحار|أنتحر|أقتل نفسي|أريد أن أموت|لا أريد أن أعيش/,
+  },
+  hi: {
+    self_harm: /आत्महत्या|खुदकुशी|मरना चाहत|जीना नहीं चाहत/,
+  },
+  zh: {
+    self_harm: /自杀|自殺|想死|不想活/,
+  },
+  ja: {
+    self_harm: /自殺|死にたい|消えたい|生きていたくない/,
+  },
+  ko: {
+    self_harm: /자살|죽고 싶|살고 싶지 않/,
+  },
+};
+
+/**
+ * Explicit first-person statements (and emergencies) per category, by language: unlike the patterns
+ * above, a match is enough for the safety gate without the router confirming it.
+ */
+export const LOCALIZED_HIGH_RISK_PATTERNS: Partial<Record<LanguageCode, Partial<Record<LocalizedSafetyCategory, RegExp>>>> = {
+  es: {
+    self_harm: /\b(suicidarme|matarme|quitarme la vida|quiero morir(me)?|no quiero (seguir )?viviendo|no quiero vivir)\b/i,
+    medical: /\b(no respira|tom[eé] (demasiadas|todas las) pastillas)\b/i,
+  },
+  fr: {
+    self_harm: /\b(me suicider|me tuer|en finir avec la vie|je veux mourir|envie de mourir)\b/i,
+    medical: /\b(ne respire (plus|pas)|j'ai pris (trop de|toutes mes) (pilules|cachets|médicaments))/i,
+  },
+  de: {
+    self_harm: /\b(mich umbringen|mir das leben nehmen|ich will sterben|will nicht mehr leben)\b/i,
+    medical: /\b(atmet nicht( mehr)?|zu viele tabletten genommen)\b/i,
+  },
+  pt: {
+    self_harm: /\b(me suicidar|me matar|tirar (a )?minha (própria )?vida|quero morrer|não quero (mais )?viver)\b/i,
+    medical: /\b(não (está )?respira(ndo)?|tomei (remédios|comprimidos) demais)\b/i,
+  },
+  it: {
+    self_harm: /\b(suicidarmi|uccidermi|togliermi la vita|voglio morire|non voglio (più )?vivere)\b/i,
+    medical: /\b(non respira|ho preso troppe pastiglie)\b/i,
+  },
+  nl: {
+    self_harm: /\b(mezelf van kant maken|ik wil dood|ik wil niet meer leven)\b/i,
+    medical: /\b(ademt niet( meer)?)\b/i,
+  },
+  ru: {
+    self_harm: /(?<!\p{L})(покончить с собой|убить себя|хочу умереть|не хочу жить)/iu,
+    medical: /(?<!\p{L})не дышит/iu,
+  },
+  ar: {
+    self_harm: /أنتحر|أقتل نفسي|أريد أن أموت|لا أريد أن أعيش/,
+  },
+  hi: {
+    self_harm: /मरना चाहत|जीना नहीं चाहत/,
+  },
+  zh: {
+    self_harm: /想死|不想活/,
+  },
+  ja: {
+    self_harm: /死にたい|消えたい|生きていたくない/,
+  },
+  ko: {
+    self_harm: /죽고 싶|살고 싶지 않/,
+  },
+};
+
+/** Framework trigger keywords by language, keyed by registry framework id. */
+export const LOCALIZED_TRIGGER_KEYWORDS: Partial<Record<LanguageCode, Record<string, string[]>>> = {
+  es: {
+    dass: ['triste', 'deprimid', 'ansios', 'estresad', 'agobiad', 'abrumad', 'asustad', 'enojad', 'frustrad', 'sin esperanza', 'me siento solo', 'me siento sola', 'cansad', 'agotad'],
+    rse: ['no soy suficiente', 'no valgo nada', 'inútil', 'un fracaso', 'me odio', 'no merezco'],
+    attachment: ['no me dejes', 'abandon', 'te necesito', 'confiar', 'miedo a la intimidad', 'depender'],
+    erikson: ['quién soy', 'propósito', 'identidad', 'pertenecer', 'sentido de la vida', 'estancad', 'me arrepiento'],
+    bioPsych: ['dormir', 'insomnio', 'dolor', 'enferm', 'resaca', 'alcohol', 'dinero', 'deudas', 'trabajo', 'ruptura'],
+    conflictMode: ['conflicto', 'discusión', 'discutir', 'desacuerdo', 'ceder', 'llegar a un acuerdo'],
+    leadership: ['mi jefe', 'mi jefa', 'liderazgo', 'delegar', 'microgestión', 'supervisor'],
+  },
+  fr: {
+    dass: ['triste', 'déprimé', 'anxieu', 'stressé', 'débordé', 'submergé', 'peur', 'en colère', 'frustré', 'désespéré', 'je me sens seul', 'fatigué', 'épuisé'],
+    rse: ['pas assez bien', 'je suis nul', 'inutile', 'un échec', 'je me déteste', 'je ne mérite pas'],
+    attachment: ['ne me quitte pas', 'abandon', "j'ai besoin de toi", 'confiance', "peur de l'intimité", 'dépend'],
+    erikson: ['qui suis-je', 'identité', 'appartenir', 'sens de ma vie', 'bloqué', 'je regrette'],
+    bioPsych: ['dormir', 'sommeil', 'insomnie', 'douleur', 'malade', 'gueule de bois', 'alcool', 'argent', 'dette', 'travail', 'rupture'],
+    conflictMode: ['conflit', 'dispute', 'désaccord', 'céder', 'compromis'],
+    leadership: ['mon chef', 'ma cheffe', 'mon manager', 'déléguer', 'microgestion', 'superviser'],
+  },
+  de: {
+    dass: ['traurig', 'deprimiert', 'ängstlich', 'gestresst', 'überfordert', 'angst', 'wütend', 'frustriert', 'hoffnungslos', 'einsam', 'müde', 'erschöpft'],
+    rse: ['nicht gut genug', 'wertlos', 'versager', 'nutzlos', 'ich hasse mich', 'verdiene es nicht'],
+    attachment: ['verlass mich nicht', 'verlassen', 'ich brauche dich', 'vertrauen', 'angst vor nähe', 'abhängig'],
+    erikson: ['wer bin ich', 'sinn', 'identität', 'dazugehören', 'feststecken', 'ich bereue'],
+    bioPsych: ['schlaf', 'schmerz', 'krank', 'kater', 'alkohol', 'kaffee', 'geld', 'schulden', 'arbeit', 'trennung'],
+    conflictMode: ['konflikt', 'streit', 'meinungsverschiedenheit', 'nachgeben', 'kompromiss'],
+    leadership: ['mein chef', 'meine chefin', 'führung', 'delegieren', 'mikromanagement', 'vorgesetzte'],
+  },
+  pt: {
+    dass: ['triste', 'deprimid', 'ansios', 'estressad', 'sobrecarregad', 'com medo', 'irritad', 'frustrad', 'sem esperança', 'sozinh', 'cansad', 'exaust'],
+    rse: ['não sou suficiente', 'não valho nada', 'inútil', 'um fracasso', 'me odeio', 'não mereço'],
+    attachment: ['não me deixe', 'abandon', 'preciso de você', 'confiar', 'medo de intimidade', 'depender'],
+    erikson: ['quem sou eu', 'propósito', 'identidade', 'pertencer', 'sentido da vida', 'estagnad', 'me arrependo'],
+    bioPsych: ['dormir', 'insônia', 'dor de', 'doente', 'ressaca', 'álcool', 'dinheiro', 'dívida', 'trabalho', 'término'],
+    conflictMode: ['conflito', 'discussão', 'discutir', 'desacordo', 'ceder', 'meio-termo'],
+    leadership: ['meu chefe', 'minha chefe', 'liderança', 'delegar', 'microgerenciamento', 'supervisor'],
+  },
+  it: {
+    dass: ['triste', 'depress', 'ansios', 'stressat', 'sopraffatt', 'spaventat', 'arrabbiat', 'frustrat', 'senza speranza', 'mi sento solo', 'mi sento sola', 'stanc', 'esaust'],
+    rse: ['non sono abbastanza', 'non valgo niente', 'inutile', 'un fallito', 'mi odio', 'non merito'],
+    attachment: ['non lasciarmi', 'abbandon', 'ho bisogno di te', 'fiducia', "paura dell'intimità", 'dipendere'],
+    erikson: ['chi sono', 'scopo', 'identità', 'appartenere', 'senso della vita', 'bloccat', 'rimpiang'],
+    bioPsych: ['dormire', 'sonno', 'insonnia', 'dolore', 'malato', 'malata', 'postumi', 'alcol', 'soldi', 'debiti', 'lavoro', 'rottura'],
+    conflictMode: ['conflitto', 'litigio', 'litigare', 'disaccordo', 'cedere', 'compromesso'],
+    leadership: ['il mio capo', 'la mia capa', 'delegare', 'microgestione', 'supervisore'],
+  },
+};
+
+/** Localized trigger keywords of one framework, all languages together. */
+export function getLocalizedTriggerKeywords(frameworkId: string): string[] {
+  return Object.values(LOCALIZED_TRIGGER_KEYWORDS).flatMap((byFramework) => byFramework?.[frameworkId] || []);
+}
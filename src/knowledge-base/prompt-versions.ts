@@ -0,0 +1,36 @@
+/**
+ * Prompt versions — every shipped revision of the prompts that A/B experiments can swap.
+ *
+ * The current text stays in its own file (decision-intelligence-agent.prompt.ts,
+ * alchemist-voice.data.ts, guest-decision-coach.prompt.ts) as `v1`. To test a change, add it
+ * here under a new version key and point an experiment variant at it (experiments.config.ts)
+ * instead of editing the live prompt; promote it by moving it into the prompt file once it wins.
+ */
+
+import { SHARED_METHODOLOGY } from './decision-intelligence-agent.prompt';
+import { ALCHEMIST_VOICE_SYSTEM_BLOCK } from './alchemist-voice.data';
+import { GUEST_DECISION_COACH_SYSTEM_PROMPT } from './guest-decision-coach.prompt';
+
+/** diAgent: Decision Intelligence shared methodology; alchemistVoice: tone block; guestCoach: guest system prompt. */
+export type PromptSurface = 'diAgent' | 'alchemistVoice' | 'guestCoach';
+
+/** Version served when no experiment picks one. */
+export const CURRENT_PROMPT_VERSION = 'v1';
+
+export const PROMPT_VERSIONS: Record<PromptSurface, Record<string, string>> = {
+  diAgent: { v1: SHARED_METHODOLOGY },
+  alchemistVoice: { v1: ALCHEMIST_VOICE_SYSTEM_BLOCK },
+  guestCoach: { v1: GUEST_DECISION_COACH_SYSTEM_PROMPT },
+};
+
+/**
+ * Prompt text for a surface; unknown or missing versions fall back to the current one.
+ */
+export function getPromptVersion(surface: PromptSurface, version?: string): string {
+  const versions = PROMPT_VERSIONS[surface];
+  if (version && versions[version] !== undefined) return versions[version];
+  if (version) {
+    console.warn(`⚠️ [PromptVersions] Unknown ${surface} prompt version "${version}", using ${CURRENT_PROMPT_VERSION}`);
+  }
+  return versions[CURRENT_PROMPT_VERSION];
+}
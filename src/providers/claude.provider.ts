@@ -1,7 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Anthropic from '@anthropic-ai/sdk';
-import { ILLMProvider, LLMOptions, LLMResponse } from '../interfaces/llm-provider.interface';
+import {
+  ILLMProvider,
+  LLMFinishReason,
+  LLMOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMTokenUsage,
+  LLMToolCall,
+} from '../interfaces/llm-provider.interface';
+import { areProviderKeysOptional } from '../config/llm-models.config';
+import { LLMProviderError } from './provider-error';
 
 @Injectable()
 export class ClaudeProvider implements ILLMProvider {
@@ -10,6 +20,11 @@ export class ClaudeProvider implements ILLMProvider {
   constructor(private configService: ConfigService) {
     const apiKey = this.configService.get<string>('ANTHROPIC_API_KEY');
     if (!apiKey) {
+      // LLM_MOCK_MODE=all and LLM_RECORD_MODE=replay never call real providers, so the app can boot without keys (CI)
+      if (areProviderKeysOptional()) {
+        console.warn(`⚠️ [ClaudeProvider] ANTHROPIC_API_KEY is not set (provider unused: mock/replay mode)`);
+        return;
+      }
       throw new Error('ANTHROPIC_API_KEY is not set');
     }
     this.client = new Anthropic({
@@ -26,28 +41,185 @@ export class ClaudeProvider implements ILLMProvider {
       // Convert OpenAI format to Claude format
       const claudeMessages = this.convertToClaudeFormat(messages);
 
-      const response = await this.client.messages.create({
+      const requestParams: any = {
         model: model,
-        max_tokens: options.max_tokens || 4000,
-        temperature: options.temperature || 0.7,
+        max_tokens: options.max_tokens ?? 4000,
+        temperature: options.temperature ?? 0.7,
         messages: claudeMessages,
-      });
+      };
+
+      const schemaFormat = this.addTools(requestParams, options);
+
+      const response = await this.client.messages.create(requestParams, { signal: options.signal });
+
+      // With tools the reply can mix text and tool_use blocks in any order
+      const blocks = response.content as any[];
+      const structuredBlock = schemaFormat
+        ? blocks.find((block) => block.type === 'tool_use' && block.name === schemaFormat.json_schema.name)
+        : undefined;
+      if (structuredBlock) {
+        return {
+          content: JSON.stringify(structuredBlock.input ?? {}),
+          model: model,
+          usage: this.normalizeUsage(response.usage),
+        };
+      }
+      const toolCalls: LLMToolCall[] = blocks
+        .filter((block) => block.type === 'tool_use')
+        .map((block) => ({ id: block.id, name: block.name, arguments: block.input || {} }));
 
       return {
-        content: (response.content[0] as any)?.text || '',
+        content: blocks.filter((block) => block.type === 'text').map((block) => block.text).join(''),
         model: model,
-        usage: response.usage,
+        usage: this.normalizeUsage(response.usage),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       };
     } catch (error) {
       console.error('Claude API error:', error);
-      throw new Error(`Claude API error: ${error.message}`);
+      throw LLMProviderError.from('Claude API error', error);
     }
   }
 
-  private convertToClaudeFormat(messages: any[]): any[] {
-    return messages.map((msg) => ({
-      role: msg.role === 'assistant' ? 'assistant' : 'user',
-      content: msg.content,
+  /**
+   * Stream via the Messages API event stream. Input tokens arrive on message_start,
+   * output tokens and stop reason on message_delta; thinking deltas become reasoning chunks.
+   * With a json_schema response_format the forced schema tool call's input is streamed as the text.
+   */
+  async *generateStream(
+    model: string,
+    messages: any[],
+    options: LLMOptions,
+  ): AsyncGenerator<LLMStreamChunk, void, unknown> {
+    try {
+      const claudeMessages = this.convertToClaudeFormat(messages);
+
+      const requestParams: any = {
+        model: model,
+        max_tokens: options.max_tokens ?? 4000,
+        temperature: options.temperature ?? 0.7,
+        messages: claudeMessages,
+        stream: true,
+      };
+      const schemaFormat = this.addTools(requestParams, options);
+
+      const stream = (await this.client.messages.create(requestParams, { signal: options.signal })) as unknown as AsyncIterable<any>;
+
+      let startUsage: any = null;
+      let outputTokens = 0;
+      let finishReason: LLMFinishReason = 'stop';
+      let schemaBlockIndex: number | null = null;
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          startUsage = event.message.usage;
+          outputTokens = event.message.usage?.output_tokens || 0;
+        } else if (event.type === 'content_block_start') {
+          if (schemaFormat && event.content_block.type === 'tool_use' && event.content_block.name === schemaFormat.json_schema.name) {
+            schemaBlockIndex = event.index;
+          }
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta.type === 'text_delta') {
+            yield { type: 'text', text: event.delta.text };
+          } else if (event.delta.type === 'input_json_delta' && event.index === schemaBlockIndex) {
+            yield { type: 'text', text: event.delta.partial_json };
+          } else if (event.delta.type === 'thinking_delta') {
+            yield { type: 'reasoning', text: event.delta.thinking };
+          }
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          if (event.delta.stop_reason) {
+            finishReason = this.normalizeFinishReason(event.delta.stop_reason);
+          }
+        }
+      }
+      yield { type: 'usage', usage: this.normalizeUsage({ ...startUsage, output_tokens: outputTokens }) };
+      yield { type: 'finish', reason: finishReason };
+    } catch (error) {
+      console.error('Claude streaming error:', error);
+      throw LLMProviderError.from('Claude streaming error', error);
+    }
+  }
+
+  /**
+   * Structured output: Claude has no JSON schema mode, so the schema becomes a tool the model
+   * must call and its input is the answer. Chat tools still callable stay offered next to it
+   * ('any' forces some tool call). Returns the schema format, if any.
+   */
+  private addTools(requestParams: any, options: LLMOptions) {
+    const schemaFormat = typeof options.response_format === 'object' ? options.response_format : null;
+    const chatTools = schemaFormat && options.tool_choice === 'none' ? [] : options.tools || [];
+    const claudeTools = chatTools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
     }));
+    if (schemaFormat) {
+      claudeTools.push({
+        name: schemaFormat.json_schema.name,
+        description: 'Give your final answer by calling this tool; its input is the reply.',
+        input_schema: schemaFormat.json_schema.schema,
+      });
+      requestParams.tools = claudeTools;
+      requestParams.tool_choice =
+        chatTools.length > 0 ? { type: 'any' } : { type: 'tool', name: schemaFormat.json_schema.name };
+    } else if (claudeTools.length > 0) {
+      requestParams.tools = claudeTools;
+      requestParams.tool_choice = { type: options.tool_choice || 'auto' };
+    }
+    return schemaFormat;
+  }
+
+  /**
+   * Claude's input_tokens excludes cache reads/writes, so add them back to get the full prompt size.
+   * Thinking tokens are billed as output and not reported separately.
+   */
+  private normalizeUsage(usage: any): LLMTokenUsage {
+    const cacheRead = usage?.cache_read_input_tokens || 0;
+    const cacheWrite = usage?.cache_creation_input_tokens || 0;
+    return {
+      inputTokens: (usage?.input_tokens || 0) + cacheRead + cacheWrite,
+      outputTokens: usage?.output_tokens || 0,
+      cachedTokens: cacheRead,
+      reasoningTokens: 0,
+    };
+  }
+
+  private normalizeFinishReason(reason: string): LLMFinishReason {
+    if (reason === 'end_turn' || reason === 'stop_sequence') return 'stop';
+    if (reason === 'max_tokens') return 'length';
+    if (reason === 'refusal') return 'content_filter';
+    return 'other';
+  }
+
+  /**
+   * Tool round trips (LLMToolMessage) become tool_use blocks on the assistant turn and
+   * tool_result blocks on a user turn; results of parallel calls share one user turn.
+   */
+  private convertToClaudeFormat(messages: any[]): any[] {
+    const converted: any[] = [];
+    for (const msg of messages) {
+      if (msg.role === 'tool') {
+        const result = { type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content };
+        const previous = converted[converted.length - 1];
+        if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content[0]?.type === 'tool_result') {
+          previous.content.push(result);
+        } else {
+          converted.push({ role: 'user', content: [result] });
+        }
+      } else if (msg.role === 'assistant' && msg.toolCalls) {
+        converted.push({
+          role: 'assistant',
+          content: [
+            ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+            ...msg.toolCalls.map((call: LLMToolCall) => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+          ],
+        });
+      } else {
+        converted.push({
+          role: msg.role === 'assistant' ? 'assistant' : 'user',
+          content: msg.content,
+        });
+      }
+    }
+    return converted;
   }
 }
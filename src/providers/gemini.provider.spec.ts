@@ -0,0 +1,93 @@
+import { ConfigService } from '@nestjs/config';
+import { GeminiProvider, toGeminiSchema } from './gemini.provider';
+import { LLMResponseFormatJsonSchema } from '../interfaces/llm-provider.interface';
+
+describe('GeminiProvider', () => {
+  const config = { get: jest.fn(() => 'test-key') } as unknown as ConfigService;
+  let provider: GeminiProvider;
+  let getGenerativeModel: jest.Mock;
+  let generateContent: jest.Mock;
+
+  const format = (schema: Record<string, unknown>): LLMResponseFormatJsonSchema => ({
+    type: 'json_schema',
+    json_schema: { name: 'analysis', strict: false, schema },
+  });
+
+  beforeEach(() => {
+    provider = new GeminiProvider(config);
+    generateContent = jest.fn().mockResolvedValue({
+      response: { text: () => '{}', usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 2 } },
+    });
+    getGenerativeModel = jest.fn(() => ({ generateContent }));
+    (provider as any).genAI = { getGenerativeModel };
+  });
+
+  it('converts JSON Schema to the OpenAPI subset Gemini takes', () => {
+    expect(
+      toGeminiSchema({
+        type: 'object',
+        properties: {
+          Stage: { type: ['string', 'null'], description: 'stage', maxLength: 40 },
+          Evidence: { type: 'array', items: { type: 'string' } },
+          Forces: { type: 'object', properties: { Driving: { type: 'array', items: { type: 'string' } } } },
+        },
+        required: ['Stage'],
+        additionalProperties: false,
+      }),
+    ).toEqual({
+      type: 'OBJECT',
+      properties: {
+        Stage: { type: 'STRING', nullable: true, description: 'stage' },
+        Evidence: { type: 'ARRAY', items: { type: 'STRING' } },
+        Forces: { type: 'OBJECT', properties: { Driving: { type: 'ARRAY', items: { type: 'STRING' } } } },
+      },
+      required: ['Stage'],
+    });
+  });
+
+  it('cannot convert schemas with map-shaped or empty objects anywhere in them', () => {
+    const map = { type: 'object', additionalProperties: { type: 'number' } };
+    expect(toGeminiSchema(map)).toBeUndefined();
+    expect(toGeminiSchema({ type: 'object', properties: {}, additionalProperties: false })).toBeUndefined();
+    expect(toGeminiSchema({ type: 'object', properties: { mbti: { type: 'object', properties: { Confidence: map } } } })).toBeUndefined();
+    expect(toGeminiSchema({ type: 'array', items: map })).toBeUndefined();
+  });
+
+  it('sends the schema in the prompt (JSON mode) when Gemini cannot take it as responseSchema', async () => {
+    const messages = [{ role: 'user', content: 'I think I am an introvert' }];
+
+    await provider.generateResponse('gemini-1.5-pro', messages, {
+      response_format: format({ type: 'object', properties: { EI: { type: 'string' } } }),
+    });
+    expect(getGenerativeModel.mock.calls[0][0].generationConfig).toMatchObject({
+      responseMimeType: 'application/json',
+      responseSchema: { type: 'OBJECT', properties: { EI: { type: 'STRING' } } },
+    });
+    expect(generateContent.mock.calls[0][0]).toBe('user: I think I am an introvert');
+
+    await provider.generateResponse('gemini-1.5-pro', messages, {
+      response_format: format({ type: 'object', properties: { Confidence: { type: 'object', additionalProperties: { type: 'number' } } } }),
+    });
+    expect(getGenerativeModel.mock.calls[1][0].generationConfig.responseMimeType).toBe('application/json');
+    expect(getGenerativeModel.mock.calls[1][0].generationConfig.responseSchema).toBeUndefined();
+    expect(generateContent.mock.calls[1][0]).toMatch(/^system: Reply with a single JSON object[\s\S]*"Confidence"[\s\S]*\nuser: I think I am an introvert$/);
+  });
+
+  it('declares tools with converted parameters, and without them when there are none', async () => {
+    await provider.generateResponse('gemini-1.5-pro', [{ role: 'user', content: 'How many credits do I have left?' }], {
+      tools: [
+        { name: 'get_credit_balance', description: 'Credits', parameters: { type: 'object', properties: {}, additionalProperties: false } },
+        {
+          name: 'get_edna_profile',
+          description: 'E-DNA',
+          parameters: { type: 'object', properties: { layer: { type: 'integer', minimum: 1, maximum: 7 } }, additionalProperties: false },
+        },
+      ],
+    });
+
+    expect(generateContent.mock.calls[0][0].tools[0].functionDeclarations).toEqual([
+      { name: 'get_credit_balance', description: 'Credits' },
+      { name: 'get_edna_profile', description: 'E-DNA', parameters: { type: 'OBJECT', properties: { layer: { type: 'INTEGER' } } } },
+    ]);
+  });
+});
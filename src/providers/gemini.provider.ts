@@ -1,7 +1,47 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { ILLMProvider, LLMOptions, LLMResponse } from '../interfaces/llm-provider.interface';
+import {
+  ILLMProvider,
+  LLMFinishReason,
+  LLMOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMTokenUsage,
+  LLMToolCall,
+} from '../interfaces/llm-provider.interface';
+import { areProviderKeysOptional } from '../config/llm-models.config';
+import { buildSchemaInstruction } from '../config/json-schema-validator';
+import { LLMProviderError } from './provider-error';
+
+/**
+ * Gemini's responseSchema / function parameters are an OpenAPI subset: upper-case types, `nullable`
+ * instead of a null type, and no additionalProperties or length limits (those are still enforced by
+ * validation). An OBJECT needs at least one property, so a schema with a map-shaped or empty object
+ * anywhere in it cannot be sent: returns undefined for those.
+ */
+export function toGeminiSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') return schema;
+  const types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const nonNullTypes = types.filter((type) => type !== 'null');
+  const geminiSchema: any = {};
+  if (nonNullTypes.length > 0) geminiSchema.type = nonNullTypes[0].toUpperCase();
+  if (types.includes('null')) geminiSchema.nullable = true;
+  if (schema.description) geminiSchema.description = schema.description;
+  if (schema.enum) geminiSchema.enum = schema.enum;
+  if (schema.items) {
+    geminiSchema.items = toGeminiSchema(schema.items);
+    if (geminiSchema.items === undefined) return undefined;
+  }
+  if (geminiSchema.type === 'OBJECT' && Object.keys(schema.properties || {}).length === 0) return undefined;
+  if (schema.properties) {
+    const properties = Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]);
+    if (properties.some(([, value]) => value === undefined)) return undefined;
+    geminiSchema.properties = Object.fromEntries(properties);
+  }
+  if (schema.required) geminiSchema.required = schema.required;
+  return geminiSchema;
+}
 
 @Injectable()
 export class GeminiProvider implements ILLMProvider {
@@ -10,6 +50,11 @@ export class GeminiProvider implements ILLMProvider {
   constructor(private configService: ConfigService) {
     const apiKey = this.configService.get<string>('GEMINI_API_KEY');
     if (!apiKey) {
+      // LLM_MOCK_MODE=all and LLM_RECORD_MODE=replay never call real providers, so the app can boot without keys (CI)
+      if (areProviderKeysOptional()) {
+        console.warn(`⚠️ [GeminiProvider] GEMINI_API_KEY is not set (provider unused: mock/replay mode)`);
+        return;
+      }
       throw new Error('GEMINI_API_KEY is not set');
     }
     this.genAI = new GoogleGenerativeAI(apiKey);
@@ -23,31 +68,207 @@ export class GeminiProvider implements ILLMProvider {
     try {
       const genModel = this.genAI.getGenerativeModel({
         model: model,
-        generationConfig: {
-          temperature: options.temperature || 0.7,
-          maxOutputTokens: options.max_tokens || 4000,
-          topP: options.top_p || 0.95,
-        },
+        generationConfig: this.buildGenerationConfig(options),
       });
 
+      if (options.tools?.length && options.tool_choice !== 'none') {
+        return await this.generateWithTools(genModel, model, messages, options);
+      }
+
       // Convert messages to Gemini format
-      const prompt = this.convertToGeminiFormat(messages);
+      const prompt = this.convertToGeminiFormat(this.withSchemaInPrompt(messages, options));
 
-      const result = await genModel.generateContent(prompt);
+      const result = await genModel.generateContent(prompt, { signal: options.signal });
       const response = await result.response;
       const text = response.text();
 
       return {
         content: text,
         model: model,
+        usage: this.normalizeUsage(response.usageMetadata),
       };
     } catch (error) {
       console.error('Gemini API error:', error);
-      throw new Error(`Gemini API error: ${error.message}`);
+      throw LLMProviderError.from('Gemini API error', error);
+    }
+  }
+
+  /**
+   * Stream via generateContentStream. The last chunk carries the final usageMetadata.
+   * options.signal aborts the HTTP request.
+   */
+  async *generateStream(
+    model: string,
+    messages: any[],
+    options: LLMOptions,
+  ): AsyncGenerator<LLMStreamChunk, void, unknown> {
+    try {
+      const genModel = this.genAI.getGenerativeModel({
+        model: model,
+        generationConfig: this.buildGenerationConfig(options),
+      });
+
+      const prompt = this.convertToGeminiFormat(this.withSchemaInPrompt(messages, options));
+      const result = await genModel.generateContentStream(prompt, { signal: options.signal });
+
+      let usageMetadata: any = null;
+      let finishReason: LLMFinishReason = 'stop';
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) {
+          yield { type: 'text', text };
+        }
+        const reason = chunk.candidates?.[0]?.finishReason as string | undefined;
+        if (reason) {
+          finishReason = this.normalizeFinishReason(reason);
+        }
+        if (chunk.usageMetadata) {
+          usageMetadata = chunk.usageMetadata;
+        }
+      }
+      const usage = this.normalizeUsage(usageMetadata);
+      if (usage) {
+        yield { type: 'usage', usage };
+      }
+      yield { type: 'finish', reason: finishReason };
+    } catch (error) {
+      console.error('Gemini streaming error:', error);
+      throw LLMProviderError.from('Gemini streaming error', error);
     }
   }
 
+  /**
+   * Sampling settings plus JSON output: 'json_object' sets responseMimeType, a json_schema format
+   * also sends the schema as responseSchema when Gemini can take it (see withSchemaInPrompt
+   * otherwise). Both need the v1beta API, the SDK's default.
+   */
+  private buildGenerationConfig(options: LLMOptions): any {
+    const generationConfig: any = {
+      temperature: options.temperature ?? 0.7,
+      maxOutputTokens: options.max_tokens ?? 4000,
+      topP: options.top_p ?? 0.95,
+    };
+    if (options.response_format === 'json_object') {
+      generationConfig.responseMimeType = 'application/json';
+    } else if (options.response_format && typeof options.response_format === 'object') {
+      generationConfig.responseMimeType = 'application/json';
+      const responseSchema = toGeminiSchema(options.response_format.json_schema.schema);
+      if (responseSchema) generationConfig.responseSchema = responseSchema;
+    }
+    return generationConfig;
+  }
+
+  /**
+   * A json_schema format Gemini cannot take as responseSchema (map-shaped objects) runs in JSON
+   * mode with the schema as a system message, as for models without a schema mode.
+   */
+  private withSchemaInPrompt(messages: any[], options: LLMOptions): any[] {
+    const format = options.response_format;
+    if (!format || typeof format !== 'object' || toGeminiSchema(format.json_schema.schema)) return messages;
+    return [{ role: 'system', content: buildSchemaInstruction(format) }, ...messages];
+  }
+
+  /**
+   * Thinking tokens (thoughtsTokenCount, not in the SDK's types) are billed as output but
+   * reported outside candidatesTokenCount.
+   */
+  private normalizeUsage(usageMetadata: any): LLMTokenUsage | undefined {
+    if (!usageMetadata) return undefined;
+    const reasoningTokens = usageMetadata.thoughtsTokenCount || 0;
+    return {
+      inputTokens: usageMetadata.promptTokenCount || 0,
+      outputTokens: (usageMetadata.candidatesTokenCount || 0) + reasoningTokens,
+      cachedTokens: usageMetadata.cachedContentTokenCount || 0,
+      reasoningTokens,
+    };
+  }
+
+  private normalizeFinishReason(reason: string): LLMFinishReason {
+    if (reason === 'STOP') return 'stop';
+    if (reason === 'MAX_TOKENS') return 'length';
+    if (reason === 'SAFETY' || reason === 'RECITATION') return 'content_filter';
+    return 'other';
+  }
+
   private convertToGeminiFormat(messages: any[]): string {
     return messages.map((msg) => `${msg.role}: ${msg.content}`).join('\n');
   }
+
+  /**
+   * Function calling: tools as functionDeclarations, calls read from the functionCall parts.
+   * Parameters go through toGeminiSchema; a tool without any (get_credit_balance) is declared
+   * without them, since Gemini rejects an OBJECT with no properties.
+   */
+  private async generateWithTools(genModel: any, model: string, messages: any[], options: LLMOptions): Promise<LLMResponse> {
+    const result = await genModel.generateContent(
+      {
+        contents: this.convertToGeminiContents(messages),
+        tools: [
+          {
+            functionDeclarations: (options.tools || []).map((tool) => {
+              const parameters = toGeminiSchema(tool.parameters);
+              return { name: tool.name, description: tool.description, ...(parameters && { parameters }) };
+            }),
+          },
+        ],
+      },
+      { signal: options.signal },
+    );
+    const response = await result.response;
+    const parts: any[] = response.candidates?.[0]?.content?.parts || [];
+
+    // Gemini has no call ids; number the calls so tool results can be matched up
+    const toolCalls: LLMToolCall[] = parts
+      .filter((part) => part.functionCall)
+      .map((part, index) => ({
+        id: `gemini-call-${index}`,
+        name: part.functionCall.name,
+        arguments: part.functionCall.args || {},
+      }));
+
+    return {
+      content: parts.filter((part) => typeof part.text === 'string').map((part) => part.text).join(''),
+      model: model,
+      usage: this.normalizeUsage(response.usageMetadata),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+
+  /**
+   * Plain messages are flattened into user turns like convertToGeminiFormat; tool round trips
+   * (LLMToolMessage) become functionCall parts on a model turn and functionResponse parts on a function turn.
+   */
+  private convertToGeminiContents(messages: any[]): any[] {
+    const contents: any[] = [];
+    let transcript: string[] = [];
+    const flushTranscript = () => {
+      if (transcript.length > 0) {
+        contents.push({ role: 'user', parts: [{ text: transcript.join('\n') }] });
+        transcript = [];
+      }
+    };
+
+    for (const msg of messages) {
+      if (msg.role === 'assistant' && msg.toolCalls) {
+        flushTranscript();
+        contents.push({
+          role: 'model',
+          parts: [
+            ...(msg.content ? [{ text: msg.content }] : []),
+            ...msg.toolCalls.map((call: LLMToolCall) => ({ functionCall: { name: call.name, args: call.arguments } })),
+          ],
+        });
+      } else if (msg.role === 'tool') {
+        flushTranscript();
+        const part = { functionResponse: { name: msg.name, response: { name: msg.name, content: msg.content } } };
+        const previous = contents[contents.length - 1];
+        if (previous?.role === 'function') previous.parts.push(part);
+        else contents.push({ role: 'function', parts: [part] });
+      } else {
+        transcript.push(`${msg.role}: ${msg.content}`);
+      }
+    }
+    flushTranscript();
+    return contents;
+  }
 }
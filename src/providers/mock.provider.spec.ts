@@ -0,0 +1,95 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockProvider } from './mock.provider';
+import { DI_AGENT_RESPONSE_JSON_SCHEMA } from '../config/di-agent-response-schema';
+import { FAQ_CHAT_RESPONSE_JSON_SCHEMA } from '../faq-chatbot/faq-chat-response-schema';
+import { LLMStreamChunk } from '../interfaces/llm-provider.interface';
+
+describe('MockProvider', () => {
+  const config = (values: Record<string, string> = {}) =>
+    ({ get: jest.fn((key: string) => values[key]) }) as unknown as ConfigService;
+
+  let provider: MockProvider;
+
+  beforeEach(() => {
+    provider = new MockProvider(config());
+  });
+
+  it('answers the signal router with frameworks picked from message keywords', async () => {
+    const prompt = `You are a psychological signal detector. ...\n\nMessage: "I feel so anxious and I can't sleep"\nRecent context: "No previous context"\n\nRespond with JSON only:`;
+
+    const result = await provider.generateResponse('gpt-4o-mini', [{ role: 'user', content: prompt }], {});
+    const parsed = JSON.parse(result.content);
+
+    expect(parsed).toMatchObject({ hasSignal: true, frameworks: ['dass', 'bioPsych'] });
+    expect(result.usage?.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('routes team-decision messages to the conflict, leadership and influence frameworks', async () => {
+    const prompt = `You are a psychological signal detector. ...\n\nMessage: "Everyone else agreed, so I didn't want to disagree with my manager"\nRecent context: "No previous context"\n\nRespond with JSON only:`;
+    const conflict = await provider.generateResponse('gpt-4o', [
+      { role: 'system', content: 'TKI KB\n\nIMPORTANT ADDITION: ... ONE sentence summarizing how this person is handling the conflict.' },
+      { role: 'user', content: "I'll just give in, it's not worth the argument" },
+    ], {});
+
+    const routed = JSON.parse((await provider.generateResponse('gpt-4o-mini', [{ role: 'user', content: prompt }], {})).content);
+
+    expect(routed.frameworks).toEqual(['conflictMode', 'leadership', 'socialInfluence']);
+    expect(JSON.parse(conflict.content)).toMatchObject({ Conflict_Mode: 'Accommodating', Confidence: 0.7, Evidence: expect.any(Array) });
+  });
+
+  it('returns the JSON shape each framework analyzer parses', async () => {
+    const bigFive = await provider.generateResponse('gpt-4o', [
+      { role: 'system', content: 'Big Five KB' },
+      { role: 'user', content: 'Latest: "I always plan everything"\n\nAnalyze Big Five traits. Return JSON:' },
+    ], {});
+    const attachment = await provider.generateResponse('gpt-4o', [
+      { role: 'system', content: 'KB\n\nIMPORTANT ADDITION: ... ONE sentence summarizing the attachment pattern detected.' },
+      { role: 'user', content: 'My partner never texts back' },
+    ], {});
+
+    expect(JSON.parse(bigFive.content)).toMatchObject({ conscientiousness: 'high', plain_english_insight: expect.any(String) });
+    expect(JSON.parse(attachment.content)).toMatchObject({ Attachment_Style: 'Anxious', Key_Indicators: expect.any(Array) });
+  });
+
+  it('fills json_schema response formats (DI agent and FAQ bot)', async () => {
+    const messages = [{ role: 'user', content: 'Should I take the job?' }];
+
+    const di = JSON.parse((await provider.generateResponse('gpt-4o', messages, { response_format: DI_AGENT_RESPONSE_JSON_SCHEMA })).content);
+    const faq = JSON.parse((await provider.generateResponse('gpt-4o-mini', messages, { response_format: FAQ_CHAT_RESPONSE_JSON_SCHEMA })).content);
+
+    expect(di.response).toContain('Should I take the job?');
+    expect(di.reasoning).toEqual(expect.any(String));
+    expect(faq).toEqual({ response: expect.any(String), outOfScope: false, citedFaqIds: [] });
+  });
+
+  it('streams the same content, then usage and finish', async () => {
+    const messages = [{ role: 'user', content: 'hello there' }];
+    const { content } = await provider.generateResponse('mock-scripted', messages, { response_format: 'json_object' });
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of provider.generateStream('mock-scripted', messages, { response_format: 'json_object' })) {
+      chunks.push(chunk);
+    }
+
+    const text = chunks.map((c) => (c.type === 'text' ? c.text : '')).join('');
+    expect(text).toBe(content);
+    expect(chunks.slice(-2).map((c) => c.type)).toEqual(['usage', 'finish']);
+  });
+
+  it('prefers scripted rules from LLM_MOCK_SCRIPT', async () => {
+    const file = path.join(os.tmpdir(), `mock-llm-script-${process.pid}.json`);
+    fs.writeFileSync(file, JSON.stringify([{ match: 'weather', response: { response: 'Sunny', reasoning: 'scripted' } }]));
+    try {
+      const scripted = new MockProvider(config({ LLM_MOCK_SCRIPT: file }));
+
+      const result = await scripted.generateResponse('gpt-4o', [{ role: 'user', content: 'How is the Weather?' }], {});
+
+      expect(JSON.parse(result.content)).toEqual({ response: 'Sunny', reasoning: 'scripted' });
+    } finally {
+      fs.unlinkSync(file);
+    }
+  });
+});
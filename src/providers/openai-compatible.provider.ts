@@ -0,0 +1,146 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import OpenAI from 'openai';
+import {
+  ILLMProvider,
+  LLMEndpointConfig,
+  LLMFinishReason,
+  LLMOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMTokenUsage,
+} from '../interfaces/llm-provider.interface';
+import { resolveEndpointBaseURL } from '../config/llm-models.config';
+import { LLMProviderError } from './provider-error';
+
+/**
+ * OpenAI-compatible Provider
+ *
+ * Talks to any server exposing the OpenAI chat completions API (vLLM, Ollama, LM Studio,
+ * internal gateways). Connection settings come per model from LLM_MODELS[id].endpoint,
+ * passed through LLMOptions.endpoint by the orchestrator; one client is kept per endpoint.
+ */
+@Injectable()
+export class OpenAICompatibleProvider implements ILLMProvider {
+  private clients = new Map<string, OpenAI>();
+
+  constructor(private configService: ConfigService) {}
+
+  async generateResponse(
+    model: string,
+    messages: any[],
+    options: LLMOptions,
+  ): Promise<LLMResponse> {
+    try {
+      const completion = await this.getClient(options.endpoint).chat.completions.create(
+        this.buildRequestParams(model, messages, options),
+        { signal: options.signal },
+      );
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        model: completion.model || model,
+        usage: this.normalizeUsage(completion.usage),
+      };
+    } catch (error) {
+      console.error('OpenAI-compatible API error:', error);
+      throw LLMProviderError.from('OpenAI-compatible API error', error);
+    }
+  }
+
+  async *generateStream(
+    model: string,
+    messages: any[],
+    options: LLMOptions,
+  ): AsyncGenerator<LLMStreamChunk, void, unknown> {
+    try {
+      const stream = (await this.getClient(options.endpoint).chat.completions.create({
+        ...this.buildRequestParams(model, messages, options),
+        stream: true,
+        // vLLM and recent Ollama honour this; servers that don't simply omit the usage chunk
+        stream_options: { include_usage: true },
+      }, { signal: options.signal })) as unknown as AsyncIterable<any>;
+
+      let finishReason: LLMFinishReason = 'stop';
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta;
+        // vLLM reasoning parsers and some gateways expose chain of thought as reasoning_content
+        if (delta?.reasoning_content) {
+          yield { type: 'reasoning', text: delta.reasoning_content };
+        }
+        if (delta?.content) {
+          yield { type: 'text', text: delta.content };
+        }
+        if (chunk.choices?.[0]?.finish_reason) {
+          finishReason = this.normalizeFinishReason(chunk.choices[0].finish_reason);
+        }
+        if (chunk.usage) {
+          yield { type: 'usage', usage: this.normalizeUsage(chunk.usage) };
+        }
+      }
+      yield { type: 'finish', reason: finishReason };
+    } catch (error) {
+      console.error('OpenAI-compatible streaming error:', error);
+      throw LLMProviderError.from('OpenAI-compatible streaming error', error);
+    }
+  }
+
+  private buildRequestParams(model: string, messages: any[], options: LLMOptions): any {
+    const requestParams: any = {
+      model: model,
+      messages: messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.max_tokens ?? 4000,
+      top_p: options.top_p,
+    };
+
+    // Structured Outputs (json_schema) or JSON mode; support depends on the server
+    if (options.response_format && typeof options.response_format === 'object' && options.response_format.type === 'json_schema') {
+      requestParams.response_format = options.response_format;
+    } else if (options.response_format === 'json_object') {
+      requestParams.response_format = { type: 'json_object' };
+    }
+    return requestParams;
+  }
+
+  private getClient(endpoint?: LLMEndpointConfig): OpenAI {
+    const baseURL = resolveEndpointBaseURL(endpoint);
+    if (!endpoint || !baseURL) {
+      throw new Error(
+        `No base URL configured${endpoint?.baseURLEnv ? ` (set ${endpoint.baseURLEnv})` : ''}`,
+      );
+    }
+
+    const apiKey = (endpoint.apiKeyEnv && this.configService.get<string>(endpoint.apiKeyEnv)) || '';
+    const cacheKey = JSON.stringify([baseURL, endpoint.apiKeyEnv || null, endpoint.headers || null]);
+    let client = this.clients.get(cacheKey);
+    if (!client) {
+      client = new OpenAI({
+        // The SDK requires a key; self-hosted servers without auth ignore it
+        apiKey: apiKey || 'not-needed',
+        baseURL,
+        defaultHeaders: endpoint.headers,
+      });
+      this.clients.set(cacheKey, client);
+      console.log(`🔌 [OpenAICompatible] Client created for ${baseURL}`);
+    }
+    return client;
+  }
+
+  /**
+   * Same usage shape as OpenAI; cached/reasoning details are only present on some servers.
+   */
+  private normalizeUsage(usage: any): LLMTokenUsage {
+    return {
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0,
+      cachedTokens: usage?.prompt_tokens_details?.cached_tokens || 0,
+      reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens || 0,
+    };
+  }
+
+  private normalizeFinishReason(reason: string): LLMFinishReason {
+    if (reason === 'stop' || reason === 'length' || reason === 'content_filter') return reason;
+    return 'other';
+  }
+}
@@ -1,7 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
-import { ILLMProvider, LLMOptions, LLMResponse } from '../interfaces/llm-provider.interface';
+import {
+  ILLMProvider,
+  LLMFinishReason,
+  LLMOptions,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMTokenUsage,
+  LLMToolCall,
+} from '../interfaces/llm-provider.interface';
+import { areProviderKeysOptional } from '../config/llm-models.config';
+import { LLMProviderError } from './provider-error';
 
 @Injectable()
 export class OpenAIProvider implements ILLMProvider {
@@ -10,6 +20,11 @@ export class OpenAIProvider implements ILLMProvider {
   constructor(private configService: ConfigService) {
     const apiKey = this.configService.get<string>('OPENAI_API_KEY');
     if (!apiKey) {
+      // LLM_MOCK_MODE=all and LLM_RECORD_MODE=replay never call real providers, so the app can boot without keys (CI)
+      if (areProviderKeysOptional()) {
+        console.warn(`⚠️ [OpenAIProvider] OPENAI_API_KEY is not set (provider unused: mock/replay mode)`);
+        return;
+      }
       throw new Error('OPENAI_API_KEY is not set');
     }
     this.client = new OpenAI({
@@ -25,9 +40,9 @@ export class OpenAIProvider implements ILLMProvider {
     try {
       const requestParams: any = {
         model: model,
-        messages: messages,
-        temperature: options.temperature || 0.7,
-        max_tokens: options.max_tokens || 4000,
+        messages: messages.map((msg) => this.toOpenAIMessage(msg)),
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens ?? 4000,
         top_p: options.top_p,
       };
 
@@ -38,16 +53,27 @@ export class OpenAIProvider implements ILLMProvider {
         requestParams.response_format = { type: 'json_object' };
       }
 
-      const completion = await this.client.chat.completions.create(requestParams);
+      // Function calling
+      if (options.tools?.length) {
+        requestParams.tools = options.tools.map((tool) => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        }));
+        requestParams.tool_choice = options.tool_choice || 'auto';
+      }
+
+      const completion = await this.client.chat.completions.create(requestParams, { signal: options.signal });
+      const toolCalls = this.parseToolCalls(completion.choices[0]?.message?.tool_calls);
 
       return {
         content: completion.choices[0]?.message?.content || '',
         model: model,
-        usage: completion.usage,
+        usage: this.normalizeUsage(completion.usage),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       };
     } catch (error) {
       console.error('OpenAI API error:', error);
-      throw new Error(`OpenAI API error: ${error.message}`);
+      throw LLMProviderError.from('OpenAI API error', error);
     }
   }
 
@@ -55,15 +81,17 @@ export class OpenAIProvider implements ILLMProvider {
     model: string,
     messages: any[],
     options: LLMOptions,
-  ): AsyncGenerator<string, void, unknown> {
+  ): AsyncGenerator<LLMStreamChunk, void, unknown> {
     try {
       const requestParams: any = {
         model: model,
         messages: messages,
-        temperature: options.temperature || 0.7,
-        max_tokens: options.max_tokens || 4000,
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.max_tokens ?? 4000,
         top_p: options.top_p,
         stream: true,
+        // Final chunk carries real token usage (choices is empty on that chunk)
+        stream_options: { include_usage: true },
       };
 
       // Structured Outputs or JSON mode
@@ -73,17 +101,80 @@ export class OpenAIProvider implements ILLMProvider {
         requestParams.response_format = { type: 'json_object' };
       }
 
-      const stream = await this.client.chat.completions.create(requestParams) as unknown as AsyncIterable<any>;
+      const stream = await this.client.chat.completions.create(requestParams, { signal: options.signal }) as unknown as AsyncIterable<any>;
 
+      let finishReason: LLMFinishReason = 'stop';
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content || '';
         if (content) {
-          yield content;
+          yield { type: 'text', text: content };
+        }
+        if (chunk.choices[0]?.finish_reason) {
+          finishReason = this.normalizeFinishReason(chunk.choices[0].finish_reason);
+        }
+        if (chunk.usage) {
+          yield { type: 'usage', usage: this.normalizeUsage(chunk.usage) };
         }
       }
+      yield { type: 'finish', reason: finishReason };
     } catch (error) {
       console.error('OpenAI streaming error:', error);
-      throw new Error(`OpenAI streaming error: ${error.message}`);
+      throw LLMProviderError.from('OpenAI streaming error', error);
     }
   }
+
+  /**
+   * Provider-neutral tool round-trip messages (LLMToolMessage) to the chat completions shape.
+   */
+  private toOpenAIMessage(msg: any): any {
+    if (msg.role === 'tool') {
+      return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+    }
+    if (msg.role === 'assistant' && msg.toolCalls) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map((call: LLMToolCall) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return msg;
+  }
+
+  /**
+   * Arguments arrive as a JSON string; a call with unparseable arguments gets {} (the tool validates).
+   */
+  private parseToolCalls(toolCalls: any[] | undefined): LLMToolCall[] {
+    return (toolCalls || [])
+      .filter((call) => call.type === 'function')
+      .map((call) => {
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(call.function.arguments || '{}');
+        } catch {
+          console.warn(`⚠️ [OpenAIProvider] Unparseable arguments for tool ${call.function.name}`);
+        }
+        return { id: call.id, name: call.function.name, arguments: args };
+      });
+  }
+
+  /**
+   * prompt_tokens already includes cached tokens; completion_tokens includes reasoning tokens (o-series).
+   */
+  private normalizeUsage(usage: any): LLMTokenUsage {
+    return {
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0,
+      cachedTokens: usage?.prompt_tokens_details?.cached_tokens || 0,
+      reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens || 0,
+    };
+  }
+
+  private normalizeFinishReason(reason: string): LLMFinishReason {
+    if (reason === 'stop' || reason === 'length' || reason === 'content_filter') return reason;
+    return 'other';
+  }
 }
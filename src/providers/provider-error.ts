@@ -0,0 +1,49 @@
+/**
+ * A failed provider call, keeping the HTTP status and Retry-After hint of the SDK error it wraps
+ * so the orchestrator can tell rate limits (429) from outages.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    /** Server-requested wait before retrying (Retry-After / retry-after-ms), when given. */
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+
+  /**
+   * Wrap an SDK error as `${prefix}: ${error.message}`. OpenAI and Anthropic errors carry status
+   * and headers; the Gemini SDK only puts the status in the message ("[429 Too Many Requests]").
+   */
+  static from(prefix: string, error: any): LLMProviderError {
+    const message: string = error?.message ?? String(error);
+    const status: number | undefined =
+      typeof error?.status === 'number' ? error.status : /\[429 /.test(message) ? 429 : undefined;
+    return new LLMProviderError(`${prefix}: ${message}`, status, parseRetryAfter(error?.headers));
+  }
+}
+
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+  return value ?? undefined;
+}
+
+/** retry-after-ms (OpenAI) wins over Retry-After, which is seconds or an HTTP date. */
+function parseRetryAfter(headers: any): number | undefined {
+  const ms = Number(readHeader(headers, 'retry-after-ms'));
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+
+  const retryAfter = readHeader(headers, 'retry-after');
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
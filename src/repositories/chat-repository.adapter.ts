@@ -59,6 +59,7 @@ export class ChatRepositoryAdapter {
             isActive: existing.session.isActive,
             messageCount: existing.session.messageCount || 0,
             createdAt: existing.session.startedAt,
+            language: existing.session.context?.language,
           };
         }
       } catch (error) {
@@ -108,6 +109,7 @@ export class ChatRepositoryAdapter {
 
   /**
    * Save an assistant message with metadata (including optional credits snapshot for iOS).
+   * extraMetadata is merged into the stored metadata (e.g. modelUsed when a fallback model answered).
    */
   async saveAssistantMessage(
     sessionId: string,
@@ -122,8 +124,10 @@ export class ChatRepositoryAdapter {
     frameworksTriggered?: string[],
     userJwt?: string,
     creditsSnapshot?: CreditsSnapshot,
+    extraMetadata?: Record<string, unknown>,
   ): Promise<any> {
       const metadata: Record<string, unknown> = {
+        ...extraMetadata,
         sequenceNumber,
         selectedLLM,
         reasoning,
@@ -157,6 +161,7 @@ export class ChatRepositoryAdapter {
       currentProfile?: any;
       messageCount?: number;
       selectedLLM?: string;
+      language?: string;
     },
     userJwt?: string,
   ): Promise<void> {
@@ -165,6 +170,7 @@ export class ChatRepositoryAdapter {
         context: {
           currentProfile: updates.currentProfile,
           selectedLLM: updates.selectedLLM,
+          language: updates.language,
         },
     }, userJwt);
   }
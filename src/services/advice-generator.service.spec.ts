@@ -0,0 +1,44 @@
+import { AdviceGeneratorService } from './advice-generator.service';
+import { LongitudinalProfileService } from './longitudinal-profile.service';
+import { RollingSummaryService } from './rolling-summary.service';
+
+describe('AdviceGeneratorService', () => {
+  const overTime = '- Stress: mild (confidence 0.8, falling from moderate over 4 weeks)';
+  let getSummaryForAdvice: jest.Mock;
+  let service: AdviceGeneratorService;
+
+  beforeEach(() => {
+    getSummaryForAdvice = jest.fn(() => overTime);
+    const rollingSummary = {
+      getOptimizedHistory: jest.fn(async (_sessionId: string, history: any[]) => ({ summary: '', recentMessages: history })),
+    };
+    service = new AdviceGeneratorService(
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      rollingSummary as unknown as RollingSummaryService,
+      {} as any,
+      {} as any,
+      { getSummaryForAdvice } as unknown as LongitudinalProfileService,
+    );
+  });
+
+  it('puts the longitudinal summary in the Decision Intelligence prompt', async () => {
+    const { systemPrompt, messages } = await service.buildAdviceMessages(
+      'Should I take the new job?',
+      {},
+      [],
+      'gpt-4o',
+      'session-di',
+      'user-1',
+      null,
+      'pro',
+      true,
+    );
+
+    expect(getSummaryForAdvice).toHaveBeenCalledWith('user-1');
+    expect(systemPrompt).toContain(`## OVER TIME (across their past sessions, recent ones weigh most)\n${overTime}`);
+    expect(messages[0]).toEqual({ role: 'system', content: systemPrompt });
+  });
+});
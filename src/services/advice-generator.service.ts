@@ -1,28 +1,69 @@
 import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
 import { PersonalityAnalysis, QuotientScore } from '../dto/chat.dto';
 import { QUOTIENTS_KNOWLEDGE_BASE, getQuotientById } from '../knowledge-base/quotients.data';
 import { HumanProfile } from './human-understanding.service';
-import { LLMOrchestratorService } from './llm-orchestrator.service';
+import { LLMOrchestratorService, LLMStructuredOutputError } from './llm-orchestrator.service';
+import {
+  LLMFallbackReport,
+  LLMOptions,
+  LLMResponse,
+  LLMStructuredResponse,
+  LLMTokenUsage,
+} from '../interfaces/llm-provider.interface';
 import { CreditService } from './credit.service';
 import { BudgetTrackerService } from './budget-tracker.service';
 import { isPremiumModel } from '../config/subscription.config';
 import { EdnaProfileService } from './edna-profile.service';
 import { EdnaProfileFull } from '../knowledge-base/edna-traits.data';
 import { RollingSummaryService } from './rolling-summary.service';
+import { ChatToolContext, ChatToolRegistryService } from './chat-tool-registry.service';
+import { TokenCounterService } from './token-counter.service';
+import { ExperimentAssignment } from './experiment.service';
+import { LongitudinalProfileService } from './longitudinal-profile.service';
 import { getOutputLimitForTier, UserTier, validateUserTier } from '../config/tier-pricing.config';
 import { ALCHEMIST_VOICE_SYSTEM_BLOCK } from '../knowledge-base/alchemist-voice.data';
 import {
   getDecisionIntelligenceSystemPrompt,
   type DecisionCoreType,
 } from '../knowledge-base/decision-intelligence-agent.prompt';
-import { GUEST_DECISION_COACH_SYSTEM_PROMPT } from '../knowledge-base/guest-decision-coach.prompt';
+import { getPromptVersion } from '../knowledge-base/prompt-versions';
 import { GUEST_MAX_OUTPUT_TOKENS } from '../config/guest.config';
+import { FRAMEWORK_REGISTRY } from '../knowledge-base/framework-registry';
 import { detectTypo } from '../config/typo-guardrail.data';
+import { buildLanguageInstruction } from '../config/language.config';
 import {
   DI_AGENT_RESPONSE_JSON_SCHEMA,
-  useStructuredOutputForModel,
+  DIAgentResponse,
 } from '../config/di-agent-response-schema';
 
+/** Model ↔ tool round trips per advice reply before the model must answer without tools. */
+const MAX_TOOL_ROUNDS = 3;
+
+/**
+ * Events yielded by the streaming advice generators. `usage` is emitted once, right before
+ * `done`, with the provider-reported token counts, their cost, and the model that actually answered.
+ */
+export type AdviceStreamEvent =
+  | { type: 'token' | 'reasoning' | 'done'; content: string }
+  | {
+      type: 'usage';
+      content: '';
+      usage: LLMTokenUsage | null;
+      costUSD?: number;
+      model: string;
+      fallback?: LLMFallbackReport;
+    };
+
+/** Hashes of the prompt sent for a reply (trace store): same hash, same prompt. */
+export interface AdvicePromptHashes {
+  /** sha256 of the system prompt (first 16 hex chars) */
+  system: string;
+  /** sha256 of the whole messages array (first 16 hex chars) */
+  messages: string;
+  messageCount: number;
+}
+
 @Injectable()
 export class AdviceGeneratorService {
   constructor(
@@ -31,11 +72,33 @@ export class AdviceGeneratorService {
     private budgetTracker: BudgetTrackerService,
     private ednaProfileService: EdnaProfileService,
     private rollingSummaryService: RollingSummaryService,
+    private chatTools: ChatToolRegistryService,
+    private tokenCounter: TokenCounterService,
+    private longitudinalProfiles: LongitudinalProfileService,
   ) {}
 
+  /** Prompt hashes of the last reply generated for each session (trace store) */
+  private lastPromptHashes = new Map<string, AdvicePromptHashes>();
+
+  /** Hashes of the prompt last sent for this session (undefined before the first reply). */
+  getLastPromptHashes(sessionId: string): AdvicePromptHashes | undefined {
+    return this.lastPromptHashes.get(sessionId);
+  }
+
+  private recordPromptHashes(sessionId: string | undefined, systemPrompt: string, messages: any[]): void {
+    if (!sessionId) return;
+    const hash = (value: string) => createHash('sha256').update(value).digest('hex').slice(0, 16);
+    this.lastPromptHashes.set(sessionId, {
+      system: hash(systemPrompt),
+      messages: hash(JSON.stringify(messages)),
+      messageCount: messages.length,
+    });
+  }
+
   /**
    * Generate advice with clean psychological profile using orchestrator
    * Now includes E-DNA profile for personalized responses
+   * With a toolContext (and CHAT_TOOLS_ENABLED), the model may call ChatToolRegistryService tools first
    */
   async generateAdviceWithProfile(
     userMessage: string,
@@ -47,7 +110,17 @@ export class AdviceGeneratorService {
     ednaProfile?: EdnaProfileFull | null,
     userTier: string = 'free', // NEW: tier for history limits
     decisionIntelligenceMode?: boolean,
-  ): Promise<{ response: string; reasoning?: string }> {
+    toolContext?: ChatToolContext,
+    experiment?: ExperimentAssignment,
+    language?: string, // Detected language of the user (language.config.ts); replies in it
+  ): Promise<{
+    response: string;
+    reasoning?: string;
+    model?: string;
+    fallback?: LLMFallbackReport;
+    usage?: LLMTokenUsage;
+    costUSD?: number;
+  }> {
     // Note: Crisis detection happens in parallel-llm.service.ts (safety gate)
     // The crisis indicators are stored in profile.safety and profile.dass.requiresCrisisResponse
     // We trust the LLM to respond appropriately when it sees these flags in the profile
@@ -64,64 +137,22 @@ export class AdviceGeneratorService {
     console.log(`   - decisionIntelligenceMode: ${!!decisionIntelligenceMode}`);
 
     try {
-      const systemPrompt = decisionIntelligenceMode
-        ? this.buildDecisionIntelligenceSystemPrompt(ednaProfile)
-        : this.buildCleanSystemPrompt(profile, ednaProfile);
-      console.log(`🤖 [AdviceGenerator] System prompt length: ${systemPrompt.length} chars (DI: ${!!decisionIntelligenceMode})`);
-
-      const userMessagePrompt = decisionIntelligenceMode
-        ? userMessage
-        : this.buildUserMessagePrompt(userMessage, profile);
-      
-      // ROLLING SUMMARY: Use optimized history instead of full history
-      // This prevents cost explosion on long conversations
-      const { summary, recentMessages } = await this.rollingSummaryService.getOptimizedHistory(
-        sessionId || 'default',
+      const { systemPrompt, userMessagePrompt, messages: reasoningMessages, detectedTypo } = await this.buildAdviceMessages(
+        userMessage,
+        profile,
         conversationHistory,
+        selectedLLM,
+        sessionId,
+        userId,
+        ednaProfile,
         userTier,
+        decisionIntelligenceMode,
+        experiment,
+        language,
       );
-      
-      console.log(`📝 [AdviceGenerator] Using rolling summary:`);
-      console.log(`   - Full history: ${conversationHistory.length} messages`);
-      console.log(`   - Recent messages sent: ${recentMessages.length}`);
-      console.log(`   - Has summary: ${!!summary}`);
-
-      // Build messages with rolling summary instead of full history
-      const reasoningMessages: any[] = [
-        { role: 'system', content: systemPrompt },
-      ];
-      
-      // Add rolling summary as context if available
-      if (summary) {
-        reasoningMessages.push({
-          role: 'system',
-          content: `[CONVERSATION CONTEXT - Summary of earlier messages]\n${summary}\n[END CONTEXT]`,
-        });
-      }
-      
-      // Add recent messages (not full history)
-      reasoningMessages.push(
-        ...recentMessages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
-      );
-
-      // Typo guardrail (main DI only): inject instruction and enforce confirmation in response if needed
-      const detectedTypo = decisionIntelligenceMode ? detectTypo(userMessage) : null;
-      if (detectedTypo) {
-        console.log(`[Typo guardrail] Detected "${detectedTypo.typo}" → "${detectedTypo.correct}"`);
-        reasoningMessages.push({
-          role: 'system',
-          content: `GUARDRAIL: The user's message contains a possible typo ("${detectedTypo.typo}" → "${detectedTypo.correct}"). Your response must be ONLY: "Just to confirm, did you mean ${detectedTypo.correct}?" Do not add anything else. Do not ask about logic or emotion. Do not start the process. Wait for the user to confirm in their next message.`,
-        });
-      }
-
-      // Add current user message
-      reasoningMessages.push({
-        role: 'user',
-        content: userMessagePrompt,
-      });
+      console.log(`📝 [AdviceGenerator] Full history: ${conversationHistory.length} messages`);
+      console.log(`📏 [AdviceGenerator] Prompt: ~${this.tokenCounter.countMessages(reasoningMessages, selectedLLM)} tokens (${selectedLLM})`);
+      this.recordPromptHashes(sessionId, systemPrompt, reasoningMessages);
 
       // Store for debug access
       (this as any).__lastAdviceDebug = {
@@ -145,57 +176,24 @@ export class AdviceGeneratorService {
       const maxOutputTokens = getOutputLimitForTier(userTierValidated);
       console.log(`📊 [AdviceGenerator] Output limit for tier "${userTierValidated}": ${maxOutputTokens} tokens`);
 
-      const llmResponse = await this.llmOrchestrator.generateResponse(
+      const llmResponse = await this.generateWithTools(
         selectedLLM,
         reasoningMessages,
         {
-          temperature: 0.7,
+          temperature: experiment?.temperature ?? 0.7,
           max_tokens: maxOutputTokens,
-          response_format:
-            decisionIntelligenceMode && useStructuredOutputForModel(selectedLLM)
-              ? DI_AGENT_RESPONSE_JSON_SCHEMA
-              : 'json_object',
+          userTier: userTierValidated,
+          response_format: decisionIntelligenceMode ? DI_AGENT_RESPONSE_JSON_SCHEMA : 'json_object',
         },
+        toolContext,
       );
 
+      // Bill the model that actually answered (may be a fallback of selectedLLM)
+      const answeredBy = llmResponse.modelId || selectedLLM;
+
       // Track token usage for advice generation
       if (userId && sessionId && llmResponse.usage) {
-        try {
-          const inputTokens = llmResponse.usage.prompt_tokens || llmResponse.usage.input_tokens || 0;
-          const outputTokens = llmResponse.usage.completion_tokens || llmResponse.usage.output_tokens || 0;
-          const totalTokens = llmResponse.usage.total_tokens || (inputTokens + outputTokens);
-
-          if (totalTokens > 0) {
-            await this.creditService.recordTokenUsage(
-              userId,
-              sessionId,
-              totalTokens,
-              inputTokens,
-              outputTokens,
-              selectedLLM,
-              'advice',
-              null,
-            );
-            
-            // 💰 Track budget usage for premium models
-            await this.budgetTracker.trackUsage(userId, selectedLLM, inputTokens, outputTokens);
-
-            // Check if premium model and record premium reply usage
-            if (isPremiumModel(selectedLLM)) {
-              const premiumCheck = await this.creditService.canUsePremiumModel(userId);
-              if (premiumCheck.allowed && premiumCheck.cost) {
-                // Pay-per-use premium reply
-                await this.creditService.recordPremiumReplyUsage(userId, sessionId, premiumCheck.cost);
-              } else if (premiumCheck.allowed) {
-                // Included premium reply (quota)
-                await this.creditService.recordPremiumReplyUsage(userId, sessionId, 0);
-              }
-            }
-          }
-        } catch (error) {
-          console.error('❌ [AdviceGenerator] Failed to track tokens:', error);
-          // Don't throw - continue even if tracking fails
-        }
+        await this.recordAdviceUsage(userId, sessionId, answeredBy, llmResponse.usage, llmResponse.costUSD);
       }
 
       let fullResponse = llmResponse.content || "I'm here to listen. What's on your mind?";
@@ -216,8 +214,8 @@ export class AdviceGeneratorService {
       let extractedReasoning = '';
 
       try {
-        // Try to parse as JSON first
-        const jsonResponse = JSON.parse(fullResponse);
+        // Schema-validated replies arrive parsed; otherwise try to parse as JSON first
+        const jsonResponse = 'parsed' in llmResponse ? llmResponse.parsed : JSON.parse(fullResponse);
         if (jsonResponse.response && jsonResponse.reasoning) {
           cleanResponse = jsonResponse.response.trim();
           extractedReasoning = jsonResponse.reasoning.trim();
@@ -320,6 +318,10 @@ export class AdviceGeneratorService {
       return {
         response: cleanResponse,
         reasoning: extractedReasoning,
+        model: answeredBy,
+        fallback: llmResponse.fallback,
+        usage: llmResponse.usage,
+        costUSD: llmResponse.costUSD,
       };
     } catch (error) {
       console.error('LLM API error:', error);
@@ -327,10 +329,213 @@ export class AdviceGeneratorService {
     }
   }
 
+  /**
+   * generateResponse with the chat tools offered: while the model asks for tool calls, run them
+   * and send the results back. The last allowed round forbids further calls so the model answers.
+   * Usage and cost are summed over all rounds (every round is billed).
+   */
+  private async generateWithTools(
+    selectedLLM: string,
+    messages: any[],
+    options: LLMOptions,
+    toolContext?: ChatToolContext,
+  ): Promise<LLMResponse | LLMStructuredResponse<DIAgentResponse>> {
+    const tools = toolContext ? this.chatTools.getDefinitions(toolContext) : [];
+    if (!toolContext || tools.length === 0) {
+      return this.generateValidated(selectedLLM, messages, options);
+    }
+
+    const conversation = [...messages];
+    let response = await this.llmOrchestrator.generateResponse(selectedLLM, conversation, { ...options, tools });
+    let usage = response.usage;
+    let costUSD = response.costUSD;
+
+    for (let round = 1; round <= MAX_TOOL_ROUNDS && response.toolCalls?.length; round++) {
+      console.log(`🧰 [AdviceGenerator] Tool round ${round}: ${response.toolCalls.map((call) => call.name).join(', ')}`);
+      conversation.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+      for (const call of response.toolCalls) {
+        conversation.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: await this.chatTools.execute(call, toolContext),
+        });
+      }
+
+      response = await this.llmOrchestrator.generateResponse(selectedLLM, conversation, {
+        ...options,
+        tools,
+        tool_choice: round === MAX_TOOL_ROUNDS ? 'none' : 'auto',
+      });
+      if (response.usage) {
+        usage = {
+          inputTokens: (usage?.inputTokens || 0) + response.usage.inputTokens,
+          outputTokens: (usage?.outputTokens || 0) + response.usage.outputTokens,
+          cachedTokens: (usage?.cachedTokens || 0) + response.usage.cachedTokens,
+          reasoningTokens: (usage?.reasoningTokens || 0) + response.usage.reasoningTokens,
+        };
+      }
+      if (response.costUSD !== undefined) {
+        costUSD = (costUSD || 0) + response.costUSD;
+      }
+    }
+
+    return { ...response, usage, costUSD };
+  }
+
+  /**
+   * A json_schema response_format goes through generateStructured (validated, retried once with
+   * the validation errors). A reply that never validates is returned as-is: the caller's lenient
+   * parsing still gets a chance, and every attempt is billed.
+   */
+  private async generateValidated(
+    selectedLLM: string,
+    messages: any[],
+    options: LLMOptions,
+  ): Promise<LLMResponse | LLMStructuredResponse<DIAgentResponse>> {
+    const responseFormat = options.response_format;
+    if (!responseFormat || typeof responseFormat !== 'object') {
+      return this.llmOrchestrator.generateResponse(selectedLLM, messages, options);
+    }
+    try {
+      return await this.llmOrchestrator.generateStructured<DIAgentResponse>(selectedLLM, messages, {
+        ...options,
+        response_format: responseFormat,
+      });
+    } catch (error) {
+      if (error instanceof LLMStructuredOutputError) {
+        return error.response;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record advice token usage: credits, premium model budget, and premium reply quota.
+   * Never throws - tracking failures must not break the reply.
+   */
+  private async recordAdviceUsage(
+    userId: string,
+    sessionId: string,
+    modelId: string,
+    usage: LLMTokenUsage,
+    costUSD?: number,
+  ): Promise<void> {
+    const { inputTokens, outputTokens } = usage;
+    const totalTokens = inputTokens + outputTokens;
+    if (totalTokens <= 0) return;
+    try {
+      await this.creditService.recordTokenUsage(
+        userId,
+        sessionId,
+        totalTokens,
+        inputTokens,
+        outputTokens,
+        modelId,
+        'advice',
+        null,
+      );
+
+      // 💰 Track budget usage for premium models
+      await this.budgetTracker.trackUsage(userId, modelId, inputTokens, outputTokens, costUSD);
+
+      // Check if premium model and record premium reply usage
+      if (isPremiumModel(modelId)) {
+        const premiumCheck = await this.creditService.canUsePremiumModel(userId);
+        if (premiumCheck.allowed && premiumCheck.cost) {
+          // Pay-per-use premium reply
+          await this.creditService.recordPremiumReplyUsage(userId, sessionId, premiumCheck.cost);
+        } else if (premiumCheck.allowed) {
+          // Included premium reply (quota)
+          await this.creditService.recordPremiumReplyUsage(userId, sessionId, 0);
+        }
+      }
+    } catch (error) {
+      console.error('❌ [AdviceGenerator] Failed to track tokens:', error);
+      // Don't throw - continue even if tracking fails
+    }
+  }
+
+  /**
+   * Messages of a profile-based advice reply, as sent to the orchestrator: system prompt (DI or
+   * clean), rolling summary and recent history, typo and language instructions, and the user
+   * message (with the detected typo, if any, for enforcing the guardrail on the reply). Also used
+   * for the pre-flight token count of a chat turn.
+   */
+  async buildAdviceMessages(
+    userMessage: string,
+    profile: any,
+    conversationHistory: any[],
+    selectedLLM: string,
+    sessionId?: string,
+    userId?: string,
+    ednaProfile?: EdnaProfileFull | null,
+    userTier: string = 'free',
+    decisionIntelligenceMode?: boolean,
+    experiment?: ExperimentAssignment,
+    language?: string,
+  ): Promise<{ systemPrompt: string; userMessagePrompt: string; messages: any[]; detectedTypo: ReturnType<typeof detectTypo> }> {
+    const systemPrompt = decisionIntelligenceMode
+      ? this.buildDecisionIntelligenceSystemPrompt(
+          ednaProfile,
+          experiment?.promptVersions,
+          this.longitudinalProfiles.getSummaryForAdvice(userId),
+        )
+      : this.buildCleanSystemPrompt(
+          profile,
+          ednaProfile,
+          experiment?.promptVersions,
+          this.longitudinalProfiles.getSummaryForAdvice(userId),
+        );
+    const userMessagePrompt = decisionIntelligenceMode ? userMessage : this.buildUserMessagePrompt(userMessage, profile);
+
+    // ROLLING SUMMARY: optimized history instead of the full history (prevents cost explosion on long conversations)
+    const { summary, recentMessages } = await this.rollingSummaryService.getOptimizedHistory(
+      sessionId || 'default',
+      conversationHistory,
+      userTier,
+      selectedLLM,
+    );
+
+    const messages: any[] = [{ role: 'system', content: systemPrompt }];
+    if (summary) {
+      messages.push({
+        role: 'system',
+        content: `[CONVERSATION CONTEXT - Summary of earlier messages]\n${summary}\n[END CONTEXT]`,
+      });
+    }
+    messages.push(
+      ...recentMessages.map((msg) => ({
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content,
+      })),
+    );
+
+    // Typo guardrail (main DI only): inject instruction and enforce confirmation in response if needed
+    const detectedTypo = decisionIntelligenceMode ? detectTypo(userMessage, language) : null;
+    if (detectedTypo) {
+      console.log(`[Typo guardrail] Detected "${detectedTypo.typo}" → "${detectedTypo.correct}"`);
+      messages.push({
+        role: 'system',
+        content: `GUARDRAIL: The user's message contains a possible typo ("${detectedTypo.typo}" → "${detectedTypo.correct}"). Your response must be ONLY: "Just to confirm, did you mean ${detectedTypo.correct}?" Do not add anything else. Do not ask about logic or emotion. Do not start the process. Wait for the user to confirm in their next message.`,
+      });
+    }
+
+    // Reply in the user's language (no instruction for English)
+    const languageInstruction = buildLanguageInstruction(language);
+    if (languageInstruction) {
+      messages.push({ role: 'system', content: languageInstruction });
+    }
+
+    messages.push({ role: 'user', content: userMessagePrompt });
+    return { systemPrompt, userMessagePrompt, messages, detectedTypo };
+  }
+
   /**
    * STREAMING VERSION of generateAdviceWithProfile
    * Uses the EXACT SAME perfect prompt (buildCleanSystemPrompt) but streams the response
    * This is for /chat endpoint with stream=true
+   * When `signal` aborts, usage is billed for what was consumed and `done` carries the partial reply
    */
   async *generateAdviceWithProfileStreaming(
     userMessage: string,
@@ -342,55 +547,32 @@ export class AdviceGeneratorService {
     ednaProfile?: EdnaProfileFull | null,
     userTier: string = 'free',
     decisionIntelligenceMode?: boolean,
-  ): AsyncGenerator<{ type: 'token' | 'reasoning' | 'done'; content: string }, void, unknown> {
+    signal?: AbortSignal,
+    experiment?: ExperimentAssignment,
+    language?: string,
+  ): AsyncGenerator<AdviceStreamEvent, void, unknown> {
     try {
-      const systemPrompt = decisionIntelligenceMode
-        ? this.buildDecisionIntelligenceSystemPrompt(ednaProfile)
-        : this.buildCleanSystemPrompt(profile, ednaProfile);
-      const userMessagePrompt = decisionIntelligenceMode ? userMessage : this.buildUserMessagePrompt(userMessage, profile);
-
       console.log(`\n🔥🔥🔥 [AdviceGenerator STREAM V2] CALLED`);
       console.log(`   - userMessage: ${userMessage?.substring(0, 50)}...`);
-      console.log(`   - systemPrompt length: ${systemPrompt.length} chars (DI: ${!!decisionIntelligenceMode})`);
       console.log(`   - hasEdnaProfile: ${!!ednaProfile}`);
       console.log(`   - userTier: ${userTier}`);
 
-      // ROLLING SUMMARY: Same logic as non-streaming
-      const { summary, recentMessages } = await this.rollingSummaryService.getOptimizedHistory(
-        sessionId || 'default',
+      // Same prompt as non-streaming
+      const { systemPrompt, messages: reasoningMessages, detectedTypo: detectedTypoStream1 } = await this.buildAdviceMessages(
+        userMessage,
+        profile,
         conversationHistory,
+        selectedLLM,
+        sessionId,
+        userId,
+        ednaProfile,
         userTier,
+        decisionIntelligenceMode,
+        experiment,
+        language,
       );
-
-      console.log(`📝 [AdviceGenerator STREAM V2] Rolling summary: ${recentMessages.length} recent msgs, hasSummary: ${!!summary}`);
-
-      // Build messages array - SAME as non-streaming
-      const reasoningMessages: any[] = [
-        { role: 'system', content: systemPrompt },
-      ];
-
-      if (summary) {
-        reasoningMessages.push({
-          role: 'system',
-          content: `[CONVERSATION CONTEXT - Summary of earlier messages]\n${summary}\n[END CONTEXT]`,
-        });
-      }
-
-      reasoningMessages.push(
-        ...recentMessages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
-      );
-      const detectedTypoStream1 = decisionIntelligenceMode ? detectTypo(userMessage) : null;
-      if (detectedTypoStream1) {
-        console.log(`[Typo guardrail] Stream1 detected "${detectedTypoStream1.typo}" → "${detectedTypoStream1.correct}"`);
-        reasoningMessages.push({
-          role: 'system',
-          content: `GUARDRAIL: The user's message contains a possible typo ("${detectedTypoStream1.typo}" → "${detectedTypoStream1.correct}"). Your response must be ONLY: "Just to confirm, did you mean ${detectedTypoStream1.correct}?" Do not add anything else. Do not ask about logic or emotion. Do not start the process. Wait for the user to confirm in their next message.`,
-        });
-      }
-      reasoningMessages.push({ role: 'user', content: userMessagePrompt });
+      console.log(`📏 [AdviceGenerator STREAM V2] Prompt: ~${this.tokenCounter.countMessages(reasoningMessages, selectedLLM)} tokens (${selectedLLM})`);
+      this.recordPromptHashes(sessionId, systemPrompt, reasoningMessages);
 
       // Get output token limit based on tier
       const userTierValidated: UserTier = validateUserTier(userTier);
@@ -401,23 +583,45 @@ export class AdviceGeneratorService {
       let lastReasoningExtracted = '';
       let hasSeenResponseField = false;
 
-      const streamOptions: any = {
-        temperature: 0.7,
+      const streamOptions: LLMOptions = {
+        temperature: experiment?.temperature ?? 0.7,
         max_tokens: maxOutputTokens,
+        signal,
+        userTier: userTierValidated,
+        // Same output format as the non-streaming reply, on every provider (see generateStructured)
+        response_format: decisionIntelligenceMode ? DI_AGENT_RESPONSE_JSON_SCHEMA : 'json_object',
       };
 
-      if (selectedLLM.startsWith('gpt-') || selectedLLM.startsWith('o1-')) {
-        streamOptions.response_format =
-          decisionIntelligenceMode && useStructuredOutputForModel(selectedLLM)
-            ? DI_AGENT_RESPONSE_JSON_SCHEMA
-            : { type: 'json_object' };
-      }
+      let streamUsage: LLMTokenUsage | null = null;
+      let streamCostUSD: number | undefined;
+      let answeredBy = selectedLLM;
+      let fallbackReport: LLMFallbackReport | undefined;
+      let nativeReasoning = '';
+      let cancelled = false;
 
-      for await (const chunk of this.llmOrchestrator.generateStream(
+      for await (const streamChunk of this.llmOrchestrator.generateStream(
         selectedLLM,
         reasoningMessages,
         streamOptions,
       )) {
+        if (streamChunk.type === 'usage') {
+          streamUsage = streamChunk.usage;
+          streamCostUSD = streamChunk.costUSD;
+          continue;
+        }
+        if (streamChunk.type === 'finish') {
+          answeredBy = streamChunk.modelId || selectedLLM;
+          fallbackReport = streamChunk.fallback;
+          cancelled = streamChunk.reason === 'cancelled';
+          continue;
+        }
+        if (streamChunk.type === 'reasoning') {
+          // Native reasoning (e.g. DeepSeek reasoner); yield cumulative like the JSON reasoning below
+          nativeReasoning += streamChunk.text;
+          yield { type: 'reasoning', content: nativeReasoning };
+          continue;
+        }
+        const chunk = streamChunk.text;
         fullResponse += chunk;
 
         // Check if we've entered the response field
@@ -447,6 +651,16 @@ export class AdviceGeneratorService {
         yield { type: 'token', content: chunk };
       }
 
+      if (cancelled) {
+        // Client went away: bill what was consumed, keep the partial text (no fallbacks or validators)
+        if (streamUsage && userId && sessionId) {
+          await this.recordAdviceUsage(userId, sessionId, answeredBy, streamUsage, streamCostUSD);
+        }
+        yield { type: 'usage', content: '', usage: streamUsage, costUSD: streamCostUSD, model: answeredBy, fallback: fallbackReport };
+        yield { type: 'done', content: this.extractPartialResponse(fullResponse) };
+        return;
+      }
+
       // Final parse to extract complete reasoning and response
       let finalReasoning = '';
       let finalResponse = '';
@@ -501,6 +715,12 @@ export class AdviceGeneratorService {
         yield { type: 'reasoning', content: finalReasoning };
       }
 
+      // Bill real provider-reported usage against the model that answered
+      if (streamUsage && userId && sessionId) {
+        await this.recordAdviceUsage(userId, sessionId, answeredBy, streamUsage, streamCostUSD);
+      }
+      yield { type: 'usage', content: '', usage: streamUsage, costUSD: streamCostUSD, model: answeredBy, fallback: fallbackReport };
+
       yield { type: 'done', content: contentToYield };
     } catch (error: any) {
       console.error('Error in generateAdviceWithProfileStreaming:', error);
@@ -522,11 +742,22 @@ export class AdviceGeneratorService {
     ednaProfile?: EdnaProfileFull | null,
     userTier: string = 'free', // NEW: tier for history limits
     decisionIntelligenceMode?: boolean,
-  ): AsyncGenerator<{ type: 'token' | 'reasoning' | 'done'; content: string }, void, unknown> {
+    experiment?: ExperimentAssignment,
+    language?: string,
+  ): AsyncGenerator<AdviceStreamEvent, void, unknown> {
     try {
       const systemPrompt = decisionIntelligenceMode
-        ? this.buildDecisionIntelligenceSystemPrompt(ednaProfile)
-        : this.buildCleanSystemPrompt(profile, ednaProfile);
+        ? this.buildDecisionIntelligenceSystemPrompt(
+            ednaProfile,
+            experiment?.promptVersions,
+            this.longitudinalProfiles.getSummaryForAdvice(userId),
+          )
+        : this.buildCleanSystemPrompt(
+            profile,
+            ednaProfile,
+            experiment?.promptVersions,
+            this.longitudinalProfiles.getSummaryForAdvice(userId),
+          );
       const userMessagePrompt = decisionIntelligenceMode ? userMessage : this.buildUserMessagePrompt(userMessage, profile);
 
       // ROLLING SUMMARY: Use optimized history instead of full history
@@ -534,6 +765,7 @@ export class AdviceGeneratorService {
         sessionId || 'default',
         conversationHistory,
         userTier,
+        selectedLLM,
       );
       
       console.log(`📝 [AdviceStream] Using rolling summary: ${recentMessages.length} recent msgs, hasSummary: ${!!summary}`);
@@ -556,7 +788,7 @@ export class AdviceGeneratorService {
           content: msg.content,
         })),
       );
-      const detectedTypoStream2 = decisionIntelligenceMode ? detectTypo(userMessage) : null;
+      const detectedTypoStream2 = decisionIntelligenceMode ? detectTypo(userMessage, language) : null;
       if (detectedTypoStream2) {
         console.log(`[Typo guardrail] Stream2 detected "${detectedTypoStream2.typo}" → "${detectedTypoStream2.correct}"`);
         reasoningMessages.push({
@@ -564,7 +796,13 @@ export class AdviceGeneratorService {
           content: `GUARDRAIL: The user's message contains a possible typo ("${detectedTypoStream2.typo}" → "${detectedTypoStream2.correct}"). Your response must be ONLY: "Just to confirm, did you mean ${detectedTypoStream2.correct}?" Do not add anything else. Do not ask about logic or emotion. Do not start the process. Wait for the user to confirm in their next message.`,
         });
       }
+      const languageInstruction = buildLanguageInstruction(language);
+      if (languageInstruction) {
+        reasoningMessages.push({ role: 'system', content: languageInstruction });
+      }
       reasoningMessages.push({ role: 'user', content: userMessagePrompt });
+      console.log(`📏 [AdviceStream] Prompt: ~${this.tokenCounter.countMessages(reasoningMessages, selectedLLM)} tokens (${selectedLLM})`);
+      this.recordPromptHashes(sessionId, systemPrompt, reasoningMessages);
 
       let fullResponse = '';
       let lastReasoningExtracted = '';
@@ -576,24 +814,36 @@ export class AdviceGeneratorService {
       console.log(`📊 [AdviceGenerator Stream] Output limit for tier "${userTierValidated}": ${maxOutputTokens} tokens`);
 
       // Stream the response - parse JSON incrementally to extract reasoning and response
-      // Force JSON output format for OpenAI models
-      const streamOptions: any = {
-        temperature: 0.7,
+      const streamOptions: LLMOptions = {
+        temperature: experiment?.temperature ?? 0.7,
         max_tokens: maxOutputTokens, // Full tier limit so both reasoning and response fit (was 600 cap → caused truncation → empty response)
+        userTier: userTierValidated,
+        // Same output format as the non-streaming reply, on every provider (see generateStructured)
+        response_format: decisionIntelligenceMode ? DI_AGENT_RESPONSE_JSON_SCHEMA : 'json_object',
       };
-      
-      if (selectedLLM.startsWith('gpt-') || selectedLLM.startsWith('o1-')) {
-        streamOptions.response_format =
-          decisionIntelligenceMode && useStructuredOutputForModel(selectedLLM)
-            ? DI_AGENT_RESPONSE_JSON_SCHEMA
-            : { type: 'json_object' };
-      }
 
-      for await (const chunk of this.llmOrchestrator.generateStream(
+      let streamUsage: LLMTokenUsage | null = null;
+      let streamCostUSD: number | undefined;
+      let answeredBy = selectedLLM;
+      let fallbackReport: LLMFallbackReport | undefined;
+
+      for await (const streamChunk of this.llmOrchestrator.generateStream(
         selectedLLM,
         reasoningMessages,
         streamOptions,
       )) {
+        if (streamChunk.type === 'usage') {
+          streamUsage = streamChunk.usage;
+          streamCostUSD = streamChunk.costUSD;
+          continue;
+        }
+        if (streamChunk.type === 'finish') {
+          answeredBy = streamChunk.modelId || selectedLLM;
+          fallbackReport = streamChunk.fallback;
+          continue;
+        }
+        if (streamChunk.type !== 'text') continue;
+        const chunk = streamChunk.text;
         fullResponse += chunk;
         
         // Debug: Log first few chunks to see what we're getting
@@ -680,6 +930,10 @@ export class AdviceGeneratorService {
           console.log(`[Typo guardrail] Stream2: response set to confirmation only`);
         }
       }
+      if (streamUsage && userId && sessionId) {
+        await this.recordAdviceUsage(userId, sessionId, answeredBy, streamUsage, streamCostUSD);
+      }
+      yield { type: 'usage', content: '', usage: streamUsage, costUSD: streamCostUSD, model: answeredBy, fallback: fallbackReport };
       yield { type: 'done', content: outContentOld };
     } catch (error) {
       console.error('Error in streaming advice generation:', error);
@@ -796,6 +1050,24 @@ Example of CORRECT output: Hello! What brings you here today?`;
     }
   }
 
+  /**
+   * Readable text of a stream cut off mid-way: the (unterminated) "response" field when the
+   * model was answering in JSON, else the raw text.
+   */
+  private extractPartialResponse(fullResponse: string): string {
+    const trimmed = fullResponse.trim();
+    if (!trimmed.startsWith('{')) return trimmed;
+    const match = trimmed.match(/"response"\s*:\s*"((?:[^"\\]|\\.)*)/);
+    if (!match) return '';
+    return match[1]
+      .replace(/\\$/, '')
+      .replace(/\\n/g, '\n')
+      .replace(/\\"/g, '"')
+      .replace(/\\t/g, '\t')
+      .replace(/\\\\/g, '\\')
+      .trim();
+  }
+
   /**
    * Get Decision Intelligence core type from E-DNA profile.
    */
@@ -898,14 +1170,23 @@ Example of CORRECT output: Hello! What brings you here today?`;
   /**
    * Build system prompt for Decision Intelligence Agent mode (workbook-guided decision making).
    * Uses core type from E-DNA to inject the correct type block; defaults to 'mixed' if no profile.
+   * `longitudinalSummary` follows the type block, as in buildCleanSystemPrompt.
    */
-  private buildDecisionIntelligenceSystemPrompt(ednaProfile?: EdnaProfileFull | null): string {
+  private buildDecisionIntelligenceSystemPrompt(
+    ednaProfile?: EdnaProfileFull | null,
+    promptVersions: ExperimentAssignment['promptVersions'] = {},
+    longitudinalSummary: string = '',
+  ): string {
     const coreType = this.getDecisionCoreType(ednaProfile);
     const subtype = ednaProfile?.layers?.layer2?.subtype;
     const identityLabel = subtype
       ? `${coreType.charAt(0).toUpperCase() + coreType.slice(1)} — ${subtype}`
       : coreType.charAt(0).toUpperCase() + coreType.slice(1);
-    const prompt = getDecisionIntelligenceSystemPrompt(coreType, { identityLabel });
+    const prompt = getDecisionIntelligenceSystemPrompt(coreType, {
+      identityLabel,
+      methodology: getPromptVersion('diAgent', promptVersions.diAgent),
+      longitudinalSummary,
+    });
     const hasCritical = prompt.includes('CRITICAL') && prompt.includes('end validator');
     console.log(`🔬 [DI DEBUG] coreType: ${coreType}, prompt has CRITICAL+end validator: ${hasCritical}, length: ${prompt.length}`);
     return prompt;
@@ -914,8 +1195,15 @@ Example of CORRECT output: Hello! What brings you here today?`;
   /**
    * Build clean system prompt with psychological insights and E-DNA profile
    * THE 10/10 ALCHEMIST PROMPT - Complete Integration
+   * `longitudinalSummary`: the user's signals across past sessions (LongitudinalProfileService)
    */
-  private buildCleanSystemPrompt(profile: any, ednaProfile?: EdnaProfileFull | null): string {
+  private buildCleanSystemPrompt(
+    profile: any,
+    ednaProfile?: EdnaProfileFull | null,
+    promptVersions: ExperimentAssignment['promptVersions'] = {},
+    longitudinalSummary: string = '',
+  ): string {
+    const alchemistVoice = getPromptVersion('alchemistVoice', promptVersions.alchemistVoice);
     const profileSummary = this.buildCleanProfileSummary(profile);
     const summaryForThisMessage = profile?.summaryForThisMessage
       ? JSON.stringify(profile.summaryForThisMessage)
@@ -977,7 +1265,7 @@ Example of CORRECT output: Hello! What brings you here today?`;
     // Count conversation depth (approximate from if we have profile data)
     const hasDeepProfile = profileSummary && profileSummary.length > 100;
 
-    if (profileSummary || ednaContext || ednaInstructions || ednaProfileSummary || ednaCharacterSummary) {
+    if (profileSummary || longitudinalSummary || ednaContext || ednaInstructions || ednaProfileSummary || ednaCharacterSummary) {
       return `=== THE ALCHEMIST'S ART ===
 
 You are the Alchemist. You don't just hear words — you sense the energy beneath them.
@@ -1002,7 +1290,7 @@ You see what others miss. The shadow that points to light. The fear that reveals
 **YOUR TONE:**
 Warm but not soft. Deep but not heavy. Confident but curious. You can be profound without being pretentious, practical without being cold. You speak to people's potential without dismissing their pain.
 
-${ALCHEMIST_VOICE_SYSTEM_BLOCK}
+${alchemistVoice}
 
 === THE ALCHEMIST'S SHADOWS (What NOT to Do) ===
 
@@ -1052,6 +1340,7 @@ ${ednaInstructions ? `\n📋 TAILORED APPROACH (How to Communicate):\n${ednaInst
 **2. PSYCHOLOGICAL PROFILE = WHAT they're carrying right now**
 Their current weather — emotional state, thought patterns, underlying dynamics.
 ${profileSummary ? `\n🧠 CURRENT STATE:\n${profileSummary}` : '(Building understanding as they share)'}
+${longitudinalSummary ? `\n📈 OVER TIME (across their past sessions, recent ones weigh most):\n${longitudinalSummary}` : ''}
 ${integrationContext}${safetyBlock}
 
 **3. MESSAGE SUMMARY = WHERE to focus this response**
@@ -1175,7 +1464,7 @@ You don't have psychological insights yet — and that's perfect. This is about
 **YOUR TONE:**
 Warm but not performative. Interested but not intrusive. You're not a customer service bot ("How may I assist you today?"). You're a wise friend they just met.
 
-${ALCHEMIST_VOICE_SYSTEM_BLOCK}
+${alchemistVoice}
 
 **KEY PRINCIPLE:**
 Don't assume they have problems. They might just want to chat, get advice, or think out loud. Meet them where they are.
@@ -1223,38 +1512,10 @@ Keep reasoning to 2–4 sentences. The "response" field must never be empty.`;
 
     const parts: string[] = [];
 
-    if (profile.bigFive) {
-      parts.push(`Big Five: ${JSON.stringify(profile.bigFive)}`);
-    }
-    if (profile.dass) {
-      parts.push(`Mental State: ${JSON.stringify(profile.dass)}`);
-    }
-    if (profile.rse) {
-      parts.push(`Self-Esteem: ${JSON.stringify(profile.rse)}`);
-    }
-    if (profile.darkTriad) {
-      parts.push(`Interpersonal Style: ${JSON.stringify(profile.darkTriad)}`);
-    }
-    if (profile.crt) {
-      parts.push(`Thinking Style: ${JSON.stringify(profile.crt)}`);
-    }
-    if (profile.attachment) {
-      parts.push(`Attachment Style: ${JSON.stringify(profile.attachment)}`);
-    }
-    if (profile.enneagram) {
-      parts.push(`Enneagram Type: ${JSON.stringify(profile.enneagram)}`);
-    }
-    if (profile.mbti) {
-      parts.push(`MBTI: ${JSON.stringify(profile.mbti)}`);
-    }
-    if (profile.erikson) {
-      parts.push(`Erikson Stage: ${JSON.stringify(profile.erikson)}`);
-    }
-    if (profile.gestalt) {
-      parts.push(`Gestalt Awareness: ${JSON.stringify(profile.gestalt)}`);
-    }
-    if (profile.bioPsych) {
-      parts.push(`Bio-Psych Factors: ${JSON.stringify(profile.bioPsych)}`);
+    for (const framework of FRAMEWORK_REGISTRY) {
+      if (profile[framework.id]) {
+        parts.push(`${framework.profileLabel}: ${JSON.stringify(profile[framework.id])}`);
+      }
     }
 
     return parts.join('\n');
@@ -1264,8 +1525,8 @@ Keep reasoning to 2–4 sentences. The "response" field must never be empty.`;
   // Guest chat (no E-DNA, no Munawar; in-memory only)
   // -------------------------------------------------------------------------
 
-  getGuestSystemPrompt(): string {
-    return GUEST_DECISION_COACH_SYSTEM_PROMPT;
+  getGuestSystemPrompt(version?: string): string {
+    return getPromptVersion('guestCoach', version);
   }
 
   /**
@@ -1276,21 +1537,31 @@ Keep reasoning to 2–4 sentences. The "response" field must never be empty.`;
     userMessage: string,
     conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
     selectedLLM: string = 'gpt-4o-mini',
-  ): Promise<{ response: string; reasoning?: string }> {
-    const systemPrompt = this.getGuestSystemPrompt();
+    experiment?: ExperimentAssignment,
+    language?: string,
+  ): Promise<{ response: string; reasoning?: string; model?: string }> {
+    const systemPrompt = this.getGuestSystemPrompt(experiment?.promptVersions.guestCoach);
     const historyForLlm = conversationHistory.map((m) => ({ role: m.role, content: m.content }));
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
       { role: 'system', content: systemPrompt },
       ...historyForLlm,
+      ...this.guestLanguageMessages(language),
       { role: 'user', content: userMessage },
     ];
     console.log(`[Guest] LLM call: ${historyForLlm.length} history messages + 1 current = ${messages.length - 1} turns`);
-    const options = { temperature: 0.7, max_tokens: GUEST_MAX_OUTPUT_TOKENS };
+    // Guests fall back like free users
+    const options = { temperature: experiment?.temperature ?? 0.7, max_tokens: GUEST_MAX_OUTPUT_TOKENS, userTier: 'free' as const };
     const llmResponse = await this.llmOrchestrator.generateResponse(selectedLLM, messages, options);
     const raw = (llmResponse.content || '').trim();
     const cleanResponse = raw || this.getGuestFallbackResponse(userMessage, conversationHistory[conversationHistory.length - 1]?.content);
     if (!raw) console.warn('[Guest] LLM returned empty; using fallback.');
-    return { response: cleanResponse };
+    return { response: cleanResponse, model: llmResponse.modelId || selectedLLM };
+  }
+
+  /** Reply-language instruction for a guest call (none for English). */
+  private guestLanguageMessages(language?: string): Array<{ role: 'system'; content: string }> {
+    const instruction = buildLanguageInstruction(language);
+    return instruction ? [{ role: 'system', content: instruction }] : [];
   }
 
   /**
@@ -1321,16 +1592,22 @@ Keep reasoning to 2–4 sentences. The "response" field must never be empty.`;
     userMessage: string,
     conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
     selectedLLM: string = 'gpt-4o-mini',
+    experiment?: ExperimentAssignment,
+    language?: string,
   ): AsyncGenerator<{ type: 'reasoning' | 'token' | 'done'; content: string }, void, unknown> {
-    const systemPrompt = this.getGuestSystemPrompt();
+    const systemPrompt = this.getGuestSystemPrompt(experiment?.promptVersions.guestCoach);
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
       { role: 'system', content: systemPrompt },
       ...conversationHistory.map((m) => ({ role: m.role, content: m.content })),
+      ...this.guestLanguageMessages(language),
       { role: 'user', content: userMessage },
     ];
-    const options = { temperature: 0.7, max_tokens: GUEST_MAX_OUTPUT_TOKENS };
+    // Guests fall back like free users
+    const options = { temperature: experiment?.temperature ?? 0.7, max_tokens: GUEST_MAX_OUTPUT_TOKENS, userTier: 'free' as const };
     let fullResponse = '';
-    for await (const chunk of this.llmOrchestrator.generateStream(selectedLLM, messages, options)) {
+    for await (const streamChunk of this.llmOrchestrator.generateStream(selectedLLM, messages, options)) {
+      if (streamChunk.type !== 'text') continue;
+      const chunk = streamChunk.text;
       fullResponse += chunk;
       yield { type: 'token', content: chunk };
     }
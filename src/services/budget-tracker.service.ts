@@ -1,28 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { UserTier, getMonthlyBudgetForModel, MODEL_PRICING_TIERS, ModelPricingTier } from '../config/tier-pricing.config';
 import { UsageStoreService } from './usage-store.service';
-
-/**
- * Approximate pricing per 1M tokens (combined input + output)
- * Based on current market rates (Feb 2026)
- */
-const MODEL_PRICING_PER_1M_TOKENS: Record<string, { input: number; output: number }> = {
-  // OpenAI
-  'gpt-4o-mini': { input: 0.15, output: 0.60 },
-  'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
-  'gpt-4o': { input: 2.50, output: 10.00 },
-  'gpt-4-turbo': { input: 10.00, output: 30.00 },
-  
-  // Anthropic
-  'claude-3-haiku': { input: 0.25, output: 1.25 },
-  'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
-  'claude-3-opus': { input: 15.00, output: 75.00 },
-  
-  // Others
-  'deepseek-chat': { input: 0.27, output: 1.10 },
-  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
-  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
-};
+import { calculateModelCost } from '../config/model-pricing.config';
 
 interface BudgetUsage {
   userId: string;
@@ -55,35 +34,28 @@ export class BudgetTrackerService {
   }
 
   /**
-   * Calculate cost for token usage
+   * Calculate cost for token usage (shared pricing table, see model-pricing.config.ts)
    */
   private calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
-    const pricing = MODEL_PRICING_PER_1M_TOKENS[modelId];
-    
-    if (!pricing) {
-      console.warn(`⚠️ [BudgetTracker] No pricing data for model ${modelId}, using default`);
-      return ((inputTokens + outputTokens) / 1_000_000) * 2.5; // Default estimate
-    }
-    
-    const inputCost = (inputTokens / 1_000_000) * pricing.input;
-    const outputCost = (outputTokens / 1_000_000) * pricing.output;
-    
-    return inputCost + outputCost;
+    return calculateModelCost(modelId, { inputTokens, outputTokens });
   }
 
   /**
-   * Track token usage for a model
+   * Track token usage for a model.
+   * Pass costUSD from LLMResponse/usage chunk when available so budget and credits
+   * are computed from the same numbers (it accounts for cached-token discounts).
    */
   async trackUsage(
     userId: string,
     modelId: string,
     inputTokens: number,
     outputTokens: number,
+    costUSD?: number,
   ): Promise<void> {
     const month = this.getCurrentMonth();
     const key = this.getBudgetKey(userId, modelId, month);
     
-    const cost = this.calculateCost(modelId, inputTokens, outputTokens);
+    const cost = costUSD ?? this.calculateCost(modelId, inputTokens, outputTokens);
     
     const existing: BudgetUsage | undefined = this.usageStore.getBudgetRecord(key);
     
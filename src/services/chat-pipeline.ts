@@ -0,0 +1,179 @@
+import { HttpException } from '@nestjs/common';
+
+/**
+ * Chat Pipeline
+ *
+ * A chat turn runs as an ordered list of stages sharing one turn object: each stage reads what the
+ * earlier ones put on it (session, tier, analysis, limits, model...) and adds its own part. A stage
+ * ends the turn early by returning 'stop' (e.g. the safety gate already answered). Everything the
+ * caller sees goes through the turn's sink, which is the only difference between a JSON reply
+ * (CollectingChatSink) and an SSE stream (StreamingChatSink).
+ */
+
+/** SSE event of the authenticated chat stream (`data: {type, data}` lines). */
+export interface ChatStreamEvent {
+  type: string;
+  data: any;
+}
+
+/** Where a turn's output goes. */
+export interface ChatSink<TResult, TEvent = ChatStreamEvent> {
+  /** Reply tokens are sent while they are generated (generation stages stream when set) */
+  readonly streaming: boolean;
+  /** Progress, profile and token events (dropped by non-streaming sinks) */
+  emit(event: TEvent): void;
+  /** The finished reply */
+  complete(result: TResult): void;
+  /** The turn failed; `fallback` is the reply saved in its place, when there is one */
+  fail(error: unknown, fallback?: TResult): void;
+}
+
+export type ChatStageResult = void | 'stop';
+
+export interface ChatStage<TTurn> {
+  /** Unique within a pipeline: placeStage() positions and replaces stages by name */
+  name: string;
+  run(turn: TTurn): Promise<ChatStageResult> | ChatStageResult;
+}
+
+export interface ChatPipeline<TTurn, TResult> {
+  stages: ChatStage<TTurn>[];
+  /** Runs when a stage throws: saves and returns a fallback reply, or undefined to fail the turn */
+  recover?(turn: TTurn, error: unknown): Promise<TResult | undefined>;
+}
+
+/**
+ * Run the stages of `pipeline` in order on `turn`. Never throws: errors reach the turn's sink
+ * (with the fallback reply from `recover`, when it gives one).
+ */
+export async function runChatPipeline<TTurn extends { sink: ChatSink<TResult, any> }, TResult>(
+  pipeline: ChatPipeline<TTurn, TResult>,
+  turn: TTurn,
+): Promise<void> {
+  let current = '';
+  try {
+    for (const stage of pipeline.stages) {
+      current = stage.name;
+      if ((await stage.run(turn)) === 'stop') return;
+    }
+  } catch (error) {
+    console.error(`❌ [ChatPipeline] Stage "${current}" failed:`, error);
+    let fallback: TResult | undefined;
+    try {
+      fallback = await pipeline.recover?.(turn, error);
+    } catch (recoverError: any) {
+      console.error(`❌ [ChatPipeline] Could not recover from "${current}":`, recoverError?.message);
+    }
+    turn.sink.fail(error, fallback);
+  }
+}
+
+/**
+ * Copy of `stages` with `stage` inserted before or after the named stage or, without a position,
+ * replacing the stage of the same name.
+ */
+export function placeStage<TTurn>(
+  stages: ChatStage<TTurn>[],
+  stage: ChatStage<TTurn>,
+  position: { before?: string; after?: string } = {},
+): ChatStage<TTurn>[] {
+  const anchor = position.before ?? position.after ?? stage.name;
+  const index = stages.findIndex((s) => s.name === anchor);
+  if (index === -1) throw new Error(`Unknown chat stage "${anchor}"`);
+
+  const placed = [...stages];
+  if (position.before) placed.splice(index, 0, stage);
+  else if (position.after) placed.splice(index + 1, 0, stage);
+  else placed[index] = stage;
+  return placed;
+}
+
+/** Client-facing body of a turn error: the HttpException body, or the error message. */
+export function describeChatError(error: unknown): { message: string; code?: string } {
+  if (error instanceof HttpException) {
+    const body = error.getResponse();
+    return typeof body === 'string' ? { message: body } : (body as { message: string; code?: string });
+  }
+  return { message: (error as any)?.message || 'An error occurred' };
+}
+
+/** Sink of a JSON reply: keeps the result (or the error) of the turn, ignores events. */
+export class CollectingChatSink<TResult> implements ChatSink<TResult, unknown> {
+  readonly streaming = false;
+  private result: TResult | undefined;
+  private error: unknown;
+  private failed = false;
+
+  emit(): void {}
+
+  complete(result: TResult): void {
+    this.result = result;
+  }
+
+  fail(error: unknown, fallback?: TResult): void {
+    if (fallback !== undefined) {
+      this.result = fallback;
+    } else {
+      this.failed = true;
+      this.error = error;
+    }
+  }
+
+  /** Reply of the turn `run` is running; throws the turn's error when it failed without a fallback. */
+  async collect(run: Promise<void>): Promise<TResult> {
+    await run;
+    if (this.failed) throw this.error;
+    if (this.result === undefined) throw new Error('Chat turn ended without a reply');
+    return this.result;
+  }
+}
+
+/**
+ * Sink of an SSE stream: queues events until drain() yields them. The finished reply becomes the
+ * `done` event and a failure the `error` event (a saved fallback reply is not sent: the client
+ * reports the error and reloads the conversation).
+ */
+export class StreamingChatSink<TResult, TEvent = ChatStreamEvent> implements ChatSink<TResult, TEvent> {
+  readonly streaming = true;
+  private queue: TEvent[] = [];
+  private wake: (() => void) | null = null;
+
+  constructor(private readonly events: { done(result: TResult): TEvent; error(error: unknown): TEvent }) {}
+
+  emit(event: TEvent): void {
+    this.queue.push(event);
+    this.wake?.();
+  }
+
+  complete(result: TResult): void {
+    this.emit(this.events.done(result));
+  }
+
+  fail(error: unknown): void {
+    this.emit(this.events.error(error));
+  }
+
+  /** Events of the turn `run` is running, as they are emitted, until it settles. */
+  async *drain(run: Promise<void>): AsyncGenerator<TEvent, void, unknown> {
+    let settled = false;
+    let runError: unknown;
+    run.then(
+      () => (settled = true),
+      (error) => {
+        settled = true;
+        runError = error ?? new Error('Chat turn failed');
+      },
+    ).finally(() => this.wake?.());
+
+    while (true) {
+      if (this.queue.length > 0) {
+        yield this.queue.shift() as TEvent;
+        continue;
+      }
+      if (settled) break;
+      await new Promise<void>((resolve) => (this.wake = resolve));
+      this.wake = null;
+    }
+    if (runError) throw runError;
+  }
+}
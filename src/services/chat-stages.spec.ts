@@ -0,0 +1,138 @@
+import { HttpException } from '@nestjs/common';
+import { CollectingChatSink, placeStage, runChatPipeline, StreamingChatSink } from './chat-pipeline';
+import { CHAT_STREAM_EVENTS, ChatStageDeps, createChatPipeline, createChatTurn } from './chat-stages';
+import { ChatResponseDto } from '../dto/chat.dto';
+
+describe('Chat pipeline stages', () => {
+  const request = { message: 'I keep avoiding my manager', sessionId: 'session-1', selectedLLM: 'gpt-4o', userId: 'user-1' };
+  const usage = { inputTokens: 120, outputTokens: 8, totalTokens: 128 };
+  let deps: ChatStageDeps;
+
+  beforeEach(() => {
+    deps = {
+      chatRepository: {
+        getOrCreateSession: jest.fn().mockResolvedValue({ id: 'session-db', title: null }),
+        getSessionMessages: jest.fn().mockResolvedValue([]),
+        saveUserMessage: jest.fn().mockResolvedValue({}),
+        saveAssistantMessage: jest.fn().mockResolvedValue({ id: 'message-1' }),
+        getSessionMessageCount: jest.fn().mockResolvedValue(2),
+        updateSession: jest.fn().mockResolvedValue(undefined),
+      },
+      iosBackend: { getUserById: jest.fn().mockResolvedValue({ success: true, user: { tier: 'pro' } }) },
+      parallelLLM: {
+        analyze: jest.fn().mockResolvedValue({}),
+        getLastClassification: jest.fn(),
+        getLastFrameworkSelection: jest.fn(),
+        getLastAnalysisTokens: jest.fn(),
+      },
+      conversationAnalyzer: { analyzeConversation: jest.fn().mockReturnValue({}) },
+      personalityAnalyzer: { analyzePersonality: jest.fn().mockReturnValue({ dominantQuotients: [], needsAttention: [] }) },
+      safetyGate: { enforce: jest.fn().mockReturnValue(null) },
+      modelRouter: { route: jest.fn() },
+      experiments: { assign: jest.fn(), recordReply: jest.fn() },
+      creditService: {
+        checkCredits: jest.fn().mockResolvedValue({ allowed: true, warning: false }),
+        getUsageStats: jest.fn().mockResolvedValue({}),
+      },
+      ednaProfileService: { isEnabled: jest.fn().mockReturnValue(false) },
+      adviceGenerator: {
+        generateAdviceWithProfile: jest.fn().mockResolvedValue({
+          response: 'What worries you about talking to them?',
+          reasoning: 'avoidance',
+          model: 'gpt-4o',
+          usage,
+          costUSD: 0.001,
+        }),
+        generateAdviceWithProfileStreaming: jest.fn(async function* () {
+          yield { type: 'reasoning', content: 'avoidance' };
+          yield { type: 'token', content: 'What worries you ' };
+          yield { type: 'token', content: 'about talking to them?' };
+          yield { type: 'usage', content: '', usage, costUSD: 0.001, model: 'gpt-4o' };
+          yield { type: 'done', content: 'What worries you about talking to them?' };
+        }),
+        getLastPromptHashes: jest.fn(),
+        buildAdviceMessages: jest.fn().mockResolvedValue({
+          messages: [
+            { role: 'system', content: 'DI methodology' },
+            { role: 'user', content: 'I keep avoiding my manager' },
+          ],
+        }),
+      },
+      traceStore: { record: jest.fn() },
+      useIOSEDNA: false,
+      buildEnhancedInsights: jest.fn().mockReturnValue('insights'),
+      buildCleanProfile: jest.fn().mockReturnValue({ safety: { flag: 'none' } }),
+      countInputTokens: jest.fn().mockReturnValue({ message: 10, prompt: 10, limit: 1000 }),
+      validateModelAccessAndBudget: jest.fn(async (_userId: string, _tier: string, model: string) => model),
+      recommend: jest.fn().mockReturnValue(['Name one thing you want from the conversation']),
+    } as unknown as ChatStageDeps;
+  });
+
+  const collect = (pipeline = createChatPipeline(deps)) => {
+    const sink = new CollectingChatSink<ChatResponseDto>();
+    return sink.collect(runChatPipeline(pipeline, createChatTurn(request, 'chat', sink)));
+  };
+
+  const stream = async (pipeline = createChatPipeline(deps)) => {
+    const sink = new StreamingChatSink<ChatResponseDto>(CHAT_STREAM_EVENTS);
+    const events: Array<{ type: string; data: any }> = [];
+    for await (const event of sink.drain(runChatPipeline(pipeline, createChatTurn(request, 'chat-stream', sink)))) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  it('answers the same with and without streaming (only the sink differs)', async () => {
+    const reply = await collect();
+    const events = await stream();
+
+    expect(reply).toMatchObject({ sessionId: 'session-db', model: 'gpt-4o', recommendations: ['Name one thing you want from the conversation'] });
+    expect(events.map((e) => e.type)).toEqual(['analyzing', 'profile', 'analysis', 'generating', 'reasoning', 'token', 'token', 'done']);
+    expect(events[events.length - 1].data).toEqual(reply);
+    expect(deps.chatRepository.saveAssistantMessage).toHaveBeenCalledTimes(2);
+    expect(deps.traceStore.record).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'message-1', userTier: 'pro' }));
+
+    // Pre-flight checks count the whole prompt the reply is generated from, not just message + history
+    expect(deps.countInputTokens).toHaveBeenCalledWith(
+      request.message,
+      [{ role: 'system', content: 'DI methodology' }, { role: 'user', content: 'I keep avoiding my manager' }],
+      'pro',
+      'gpt-4o',
+    );
+  });
+
+  it('sends limit errors as they are and saves a fallback reply for failures', async () => {
+    (deps.countInputTokens as jest.Mock).mockReturnValue({ message: 2000, prompt: 2000, limit: 1000 });
+    await expect(collect()).rejects.toBeInstanceOf(HttpException);
+    const events = await stream();
+    expect(events[events.length - 1]).toEqual({ type: 'error', data: { message: expect.stringContaining('too long for your pro tier') } });
+    expect(deps.chatRepository.saveAssistantMessage).not.toHaveBeenCalled();
+
+    (deps.countInputTokens as jest.Mock).mockReturnValue({ message: 10, prompt: 10, limit: 1000 });
+    (deps.adviceGenerator.generateAdviceWithProfile as jest.Mock).mockRejectedValue(new Error('provider down'));
+    const fallback = await collect();
+    expect(fallback).toMatchObject({ sessionId: 'session-db', reasoning: 'Error: provider down', recommendations: [] });
+    expect(deps.chatRepository.saveAssistantMessage).toHaveBeenCalledWith(
+      'session-db', 'user-1', fallback.response, 2, 'gpt-4o', 'Error: provider down',
+      expect.anything(), [], {}, undefined, undefined, expect.anything(),
+    );
+  });
+
+  it('runs custom stages where they are placed and stops after a safety gate reply', async () => {
+    const memory = { name: 'memory', run: jest.fn() };
+    const pipeline = createChatPipeline(deps);
+    pipeline.stages = placeStage(pipeline.stages, memory, { after: 'edna' });
+    expect(pipeline.stages.map((s) => s.name).indexOf('memory')).toBe(pipeline.stages.map((s) => s.name).indexOf('edna') + 1);
+    expect(() => placeStage(pipeline.stages, memory, { before: 'missing' })).toThrow('Unknown chat stage "missing"');
+
+    await collect(pipeline);
+    expect(memory.run).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-db', model: 'gpt-4o' }));
+
+    memory.run.mockClear();
+    (deps.safetyGate.enforce as jest.Mock).mockReturnValue({ category: 'self_harm', region: 'US', response: 'Call 988', auditId: 'audit-1' });
+    const reply = await collect(pipeline);
+    expect(reply).toMatchObject({ response: 'Call 988', safety: { category: 'self_harm', region: 'US', auditId: 'audit-1' } });
+    expect(memory.run).not.toHaveBeenCalled();
+    expect(deps.adviceGenerator.generateAdviceWithProfile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,775 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import type { ConversationMessage, PersonalityAnalyzerService } from './personality-analyzer.service';
+import type { AdviceGeneratorService, AdviceStreamEvent } from './advice-generator.service';
+import type { ConversationAnalyzerService } from './conversation-analyzer.service';
+import type { ParallelLLMService } from './parallel-llm.service';
+import type { CreditService } from './credit.service';
+import type { IOSBackendService } from './ios-backend.service';
+import type { EdnaProfileService } from './edna-profile.service';
+import { AUTO_ANALYSIS_MODEL, ModelRouterService } from './model-router.service';
+import type { ExperimentAssignment, ExperimentService } from './experiment.service';
+import type { SafetyGateService } from './safety-gate.service';
+import type { TraceEntry, TraceStoreService } from './trace-store.service';
+import type { ChatRepositoryAdapter } from '../repositories/chat-repository.adapter';
+import { ChatPipeline, ChatSink, ChatStage, ChatStreamEvent, describeChatError } from './chat-pipeline';
+import { DEFAULT_LANGUAGE, detectLanguage } from '../config/language.config';
+import { AUTO_MODEL_ID } from '../config/llm-models.config';
+import { canAccessModel, UserTier, validateUserTier } from '../config/tier-pricing.config';
+import { ChatResponseDto, SafetyGateResult } from '../dto/chat.dto';
+import { LLMFallbackReport, LLMRoutingDecision, LLMTokenUsage } from '../interfaces/llm-provider.interface';
+
+/**
+ * Chat Stages
+ *
+ * The stages of an authenticated /chat turn (see chat-pipeline.ts), in their default order:
+ * session → tier → analysis → safety → input-limit → routing → experiment → credits →
+ * model-access → edna → generate → persist → trace → respond.
+ * Each stage is built from ChatStageDeps, so it can be run (and tested) on its own with a turn.
+ */
+
+const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+const FALLBACK_REPLY = "I'm here to help! Something went wrong on my side. Please try again.";
+const EMPTY_REPLY = "I'm here. Something went wrong generating that reply. Please try again.";
+
+/** What the client sent for this turn. */
+export interface ChatTurnRequest {
+  message: string;
+  /** Session id sent by the client (the backend may answer with another one, see ChatTurn.sessionId) */
+  sessionId: string;
+  selectedLLM: string;
+  userId: string;
+  /** JWT from the iOS app, passed on to the iOS backend */
+  userJwt?: string;
+  decisionIntelligenceMode?: boolean;
+  /** Country for crisis resources (safety gate) */
+  region?: string;
+  /** Client disconnected: cancels analysis and generation (a partial reply is still saved) */
+  signal?: AbortSignal;
+}
+
+/** The assistant reply of a turn (generated, or the safety gate template). */
+export interface ChatReply {
+  response: string;
+  reasoning?: string;
+  /** Model that actually answered (fallback-aware) */
+  model: string;
+  fallback?: LLMFallbackReport;
+  usage?: LLMTokenUsage | null;
+  costUSD?: number;
+  /** Client disconnected mid-reply: `response` is the partial text */
+  cancelled?: boolean;
+}
+
+/** State of one authenticated chat turn, filled in stage by stage. */
+export interface ChatTurn {
+  request: ChatTurnRequest;
+  pipeline: TraceEntry['pipeline'];
+  sink: ChatSink<ChatResponseDto, ChatStreamEvent>;
+  startedAt: number;
+
+  // session
+  session: any;
+  /** Session id in the backend */
+  sessionId: string;
+  language: string;
+  /** Conversation before this message */
+  history: ConversationMessage[];
+  /** Sequence number of the assistant reply (0 until the user message is saved) */
+  replySequence: number;
+
+  // tier
+  userTier: UserTier;
+  /** iOS user profile with its E-DNA summary (USE_IOS_EDNA) */
+  iosProfile: any;
+
+  // analysis
+  conversationInsights: any;
+  analysis: any;
+  cleanedProfile: any;
+
+  // limits and model
+  inputTokens: { message: number; prompt: number; limit: number } | null;
+  routing?: LLMRoutingDecision;
+  experiment?: ExperimentAssignment;
+  /** Model to generate with: the selected one, then routing, experiment and access/budget checks */
+  model: string;
+  ednaProfile: any;
+
+  // reply
+  reply: ChatReply | null;
+  recommendations: string[];
+  savedMessage: any;
+}
+
+/** Services and ChatService helpers the stages run on. */
+export interface ChatStageDeps {
+  chatRepository: ChatRepositoryAdapter;
+  iosBackend: IOSBackendService;
+  parallelLLM: ParallelLLMService;
+  conversationAnalyzer: ConversationAnalyzerService;
+  personalityAnalyzer: PersonalityAnalyzerService;
+  safetyGate: SafetyGateService;
+  modelRouter: ModelRouterService;
+  experiments: ExperimentService;
+  creditService: CreditService;
+  ednaProfileService: EdnaProfileService;
+  adviceGenerator: AdviceGeneratorService;
+  traceStore: TraceStoreService;
+  /** USE_IOS_EDNA: read the tier and E-DNA summary from the iOS user profile */
+  useIOSEDNA: boolean;
+  buildEnhancedInsights(psychProfile: any, conversationInsights: any): string;
+  buildCleanProfile(psychProfile: any): any;
+  /** Tokens of the message and of the whole prompt sent for it (promptMessages) */
+  countInputTokens(
+    message: string,
+    promptMessages: any[],
+    userTier: UserTier,
+    modelId: string,
+  ): { message: number; prompt: number; limit: number };
+  /** Resolved model id; throws when the tier cannot use the model or its budget is spent */
+  validateModelAccessAndBudget(userId: string, userTier: UserTier, model: string, estimatedInputTokens: number): Promise<string>;
+  recommend(analysis: any, conversationInsights: any, message: string): string[];
+}
+
+export function createChatTurn(
+  request: ChatTurnRequest,
+  pipeline: TraceEntry['pipeline'],
+  sink: ChatSink<ChatResponseDto, ChatStreamEvent>,
+): ChatTurn {
+  return {
+    request,
+    pipeline,
+    sink,
+    startedAt: Date.now(),
+    session: null,
+    sessionId: request.sessionId,
+    language: DEFAULT_LANGUAGE,
+    history: [],
+    replySequence: 0,
+    userTier: validateUserTier('free'),
+    iosProfile: null,
+    conversationInsights: null,
+    analysis: null,
+    cleanedProfile: null,
+    inputTokens: null,
+    model: request.selectedLLM,
+    ednaProfile: null,
+    reply: null,
+    recommendations: [],
+    savedMessage: null,
+  };
+}
+
+/** SSE events of the finished reply and of a failed turn. */
+export const CHAT_STREAM_EVENTS = {
+  done: (result: ChatResponseDto): ChatStreamEvent => ({ type: 'done', data: result }),
+  error: (error: unknown): ChatStreamEvent => ({ type: 'error', data: describeChatError(error) }),
+};
+
+/** Get or create the session, load the conversation and save the user message. */
+export const sessionStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'session',
+  async run(turn) {
+    const { message, userId, userJwt, selectedLLM } = turn.request;
+    turn.sink.emit({ type: 'analyzing', data: { message: 'Analyzing your message...' } });
+
+    // Use the actual session ID from the database (may differ from the input for the iOS backend)
+    turn.session = await deps.chatRepository.getOrCreateSession(turn.request.sessionId, userId, selectedLLM, userJwt);
+    turn.sessionId = turn.session.id || turn.request.sessionId;
+
+    // 🌐 Language of this message (short ones keep the session's previous language)
+    turn.language = detectLanguage(message, turn.session.language).code;
+
+    const existingMessages = await deps.chatRepository.getSessionMessages(turn.sessionId, userId, userJwt);
+    turn.history = existingMessages.map((m) => ({
+      role: m.role as 'user' | 'assistant',
+      content: m.content,
+      timestamp: m.createdAt || new Date(),
+    }));
+    await deps.chatRepository.saveUserMessage(turn.sessionId, userId, message, existingMessages.length + 1, userJwt);
+    turn.replySequence = existingMessages.length + 2;
+  },
+});
+
+/** 📝 User tier from Munawar's API (no override), before analysis, which caps frameworks per plan. */
+export const tierStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'tier',
+  async run(turn) {
+    const { userId, userJwt } = turn.request;
+    let userTierRaw = 'free';
+    if (userId !== ANONYMOUS_USER_ID && deps.useIOSEDNA) {
+      try {
+        const profile = await deps.iosBackend.getUserProfile(userId, userJwt);
+        if (profile?.success && profile.ednaProfile) turn.iosProfile = profile;
+        if (profile?.success && profile.user?.tier) {
+          userTierRaw = profile.user.tier.toLowerCase();
+          console.log(`📝 [ChatStages] User tier: ${userTierRaw}`);
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ [ChatStages] Could not fetch E-DNA profile:`, error?.message);
+      }
+    }
+    if (userTierRaw === 'free' && userId !== ANONYMOUS_USER_ID) {
+      try {
+        const userResponse = await deps.iosBackend.getUserById(userId, userJwt);
+        if (userResponse?.success && userResponse.user?.tier) {
+          userTierRaw = userResponse.user.tier.toLowerCase();
+          console.log(`📝 [ChatStages] User tier from getUserById: ${userTierRaw}`);
+        }
+      } catch (error: any) {
+        console.warn(`⚠️ [ChatStages] Could not fetch user tier:`, error?.message);
+      }
+    }
+
+    // 🎯 Validate and normalize user tier
+    turn.userTier = validateUserTier(userTierRaw);
+    console.log(`🎯 [ChatStages] Validated user tier: ${turn.userTier}`);
+  },
+});
+
+/** Parallel LLM analysis, conversation patterns and the cleaned profile for the responder. */
+export const analysisStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'analysis',
+  async run(turn) {
+    const { message, selectedLLM, userId, signal } = turn.request;
+    // History WITHOUT the current message (it is passed separately); userTier caps the frameworks per plan
+    const psychProfile = await deps.parallelLLM.analyze(
+      message,
+      turn.history,
+      turn.sessionId,
+      selectedLLM === AUTO_MODEL_ID ? AUTO_ANALYSIS_MODEL : selectedLLM,
+      userId,
+      signal,
+      turn.userTier,
+      turn.language,
+    );
+    if (signal?.aborted) {
+      // Nothing generated yet: the user message stays saved without a reply
+      console.log(`🛑 [ChatStages] Client disconnected during analysis (session ${turn.sessionId})`);
+      return 'stop';
+    }
+
+    const history: ConversationMessage[] = [...turn.history, { role: 'user', content: message, timestamp: new Date() }];
+    turn.conversationInsights = deps.conversationAnalyzer.analyzeConversation(history);
+    turn.analysis = deps.personalityAnalyzer.analyzePersonality(message, turn.sessionId, history);
+    turn.analysis.overallInsights = deps.buildEnhancedInsights(psychProfile, turn.conversationInsights);
+    turn.cleanedProfile = deps.buildCleanProfile(psychProfile);
+
+    // 🧬 E-DNA summary from Munawar's API (fetched with the tier)
+    if (turn.iosProfile) {
+      const { ednaProfile, user } = turn.iosProfile;
+      const confidence = typeof ednaProfile.confidence === 'string' ? parseFloat(ednaProfile.confidence) : ednaProfile.confidence;
+      turn.cleanedProfile = {
+        ...turn.cleanedProfile,
+        edna: {
+          coreType: ednaProfile.coreType,
+          typeId: user?.typeId || ednaProfile.coreType,
+          subtype: ednaProfile.subtype,
+          confidence: confidence || 0,
+          tier: user?.tier,
+        },
+      };
+      console.log(`🧬 [ChatStages] E-DNA summary loaded: ${ednaProfile.coreType} (${confidence} confidence)`);
+    }
+  },
+});
+
+/**
+ * 🛟 Safety gate: on risk the vetted crisis reply replaces generation (before any limit can block
+ * it); it is saved, traced and sent like a generated one.
+ */
+export const safetyStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'safety',
+  async run(turn) {
+    const { message, userId, region } = turn.request;
+    const decision = deps.safetyGate.enforce(
+      { sessionId: turn.sessionId, userId, channel: 'chat', message, region },
+      {
+        safety: turn.cleanedProfile?.safety,
+        classification: deps.parallelLLM.getLastClassification(turn.sessionId),
+      },
+    );
+    if (!decision) return;
+
+    const safety: SafetyGateResult = { category: decision.category, region: decision.region, auditId: decision.auditId };
+    const reply: ChatReply = {
+      response: decision.response,
+      reasoning: `Safety gate: ${decision.category} crisis protocol`,
+      model: 'safety-gate',
+    };
+    turn.reply = reply;
+    await saveReply(deps, turn, reply, { safety });
+    recordTrace(deps, turn, reply, safety);
+
+    emitProfile(deps, turn);
+    turn.sink.emit({ type: 'safety', data: safety });
+    turn.sink.emit({ type: 'token', data: { content: decision.response } });
+    turn.sink.complete({
+      response: decision.response,
+      sessionId: turn.sessionId,
+      analysis: turn.analysis,
+      recommendations: [],
+      profile: turn.cleanedProfile,
+      safety,
+      language: turn.language,
+    });
+    return 'stop';
+  },
+});
+
+/**
+ * 📏 Enforce the tier's input token limit (counted with the model's tokenizer), and count the
+ * prompt the reply will be generated from for routing and the pre-flight credit and budget checks.
+ */
+export const inputLimitStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'input-limit',
+  async run(turn) {
+    const { message, userId, decisionIntelligenceMode } = turn.request;
+    const { messages } = await deps.adviceGenerator.buildAdviceMessages(
+      message,
+      turn.cleanedProfile,
+      turn.history,
+      turn.model,
+      turn.sessionId,
+      userId,
+      turn.ednaProfile,
+      turn.userTier,
+      decisionIntelligenceMode,
+      turn.experiment,
+      turn.language,
+    );
+    const inputTokens = deps.countInputTokens(message, messages, turn.userTier, turn.model);
+    turn.inputTokens = inputTokens;
+    if (inputTokens.message > inputTokens.limit) {
+      throw new HttpException(
+        `Your message is too long for your ${turn.userTier} tier (~${inputTokens.message} tokens, limit is ${inputTokens.limit}). Shorten your message or upgrade.`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  },
+});
+
+/** 🧭 Auto model: route to the cheapest allowed model that can handle this message. */
+export const routingStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'routing',
+  async run(turn) {
+    const { message, selectedLLM, userId } = turn.request;
+    if (selectedLLM !== AUTO_MODEL_ID) return;
+    turn.routing = await deps.modelRouter.route(
+      message,
+      turn.inputTokens?.prompt ?? 0,
+      turn.userTier,
+      userId,
+      deps.parallelLLM.getLastClassification(turn.sessionId),
+    );
+    // An experiment variant's model wins over the routed one
+    if (turn.model === AUTO_MODEL_ID) turn.model = turn.routing.model;
+  },
+});
+
+/** 🧪 A/B experiment variant for this user (prompt versions, model, temperature). */
+export const experimentStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'experiment',
+  run(turn) {
+    turn.experiment = deps.experiments.assign('chat', turn.request.userId);
+    if (turn.experiment?.model && canAccessModel(turn.userTier, turn.experiment.model)) {
+      turn.model = turn.experiment.model;
+    }
+  },
+});
+
+/** 💳 Check credits (with tier-aware allowance), pre-flight for this prompt. */
+export const creditsStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'credits',
+  async run(turn) {
+    const creditCheck = await deps.creditService.checkCredits(turn.request.userId, turn.userTier, turn.inputTokens?.prompt ?? 0);
+    if (!creditCheck.allowed) {
+      throw new HttpException(
+        { message: creditCheck.message || 'Credit limit reached', code: 'CREDIT_LIMIT_EXCEEDED' },
+        HttpStatus.PAYMENT_REQUIRED,
+      );
+    }
+  },
+});
+
+/** 🚫 Validate model access and budget. */
+export const modelAccessStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'model-access',
+  async run(turn) {
+    try {
+      turn.model = await deps.validateModelAccessAndBudget(
+        turn.request.userId,
+        turn.userTier,
+        turn.model,
+        turn.inputTokens?.prompt ?? 0,
+      );
+    } catch (error: any) {
+      throw new HttpException(error.message, HttpStatus.FORBIDDEN);
+    }
+  },
+});
+
+/** 🧬 Full E-DNA profile for personalization (cached, or fetched when not available). */
+export const ednaStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'edna',
+  async run(turn) {
+    const { userId, userJwt } = turn.request;
+    if (!deps.ednaProfileService.isEnabled() || userId === ANONYMOUS_USER_ID) {
+      console.log(`🧬 [ChatStages] ⚠️ E-DNA SKIPPED: enabled=${deps.ednaProfileService.isEnabled()}, isAnonymous=${userId === ANONYMOUS_USER_ID}`);
+      return;
+    }
+    try {
+      turn.ednaProfile = await deps.ednaProfileService.getEdnaProfile(userId, false, userJwt);
+      if (turn.ednaProfile) {
+        console.log(`🧬 [ChatStages] ✅ E-DNA profile LOADED: ${turn.ednaProfile.layers?.layer1?.coreType} - ${turn.ednaProfile.layers?.layer2?.subtype}`);
+      } else {
+        console.log(`🧬 [ChatStages] ⚠️ E-DNA profile returned NULL for user ${userId}`);
+      }
+    } catch (ednaError: any) {
+      console.error(`🧬 [ChatStages] ❌ E-DNA profile FAILED: ${ednaError?.message}`);
+    }
+  },
+});
+
+/**
+ * Generate the reply with the cleaned profile, E-DNA profile and short context: token by token for
+ * streaming sinks, in one call otherwise (with tools when CHAT_TOOLS_ENABLED).
+ */
+export const generateStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'generate',
+  async run(turn) {
+    const { message, userId, decisionIntelligenceMode, signal } = turn.request;
+    startReply(deps, turn);
+    if (turn.sink.streaming) {
+      turn.reply = await streamReply(
+        turn,
+        deps.adviceGenerator.generateAdviceWithProfileStreaming(
+          message,
+          turn.cleanedProfile,
+          turn.history,
+          turn.model,
+          turn.sessionId,
+          userId,
+          turn.ednaProfile,
+          turn.userTier,
+          decisionIntelligenceMode,
+          signal,
+          turn.experiment,
+          turn.language,
+        ),
+      );
+    } else {
+      const result = await deps.adviceGenerator.generateAdviceWithProfile(
+        message,
+        turn.cleanedProfile,
+        turn.history,
+        turn.model,
+        turn.sessionId,
+        userId,
+        turn.ednaProfile,
+        turn.userTier,
+        decisionIntelligenceMode,
+        { userId, userTier: turn.userTier, ednaProfile: turn.ednaProfile }, // 🧰 Tool context (credits, E-DNA, quotients)
+        turn.experiment,
+        turn.language,
+      );
+      turn.reply = { ...result, model: result.model || turn.model };
+    }
+
+    if (turn.reply.cancelled && !turn.reply.response.trim()) {
+      console.log(`🛑 [ChatStages] Client disconnected before any reply text (session ${turn.sessionId})`);
+      return 'stop';
+    }
+  },
+});
+
+/**
+ * Generation of POST /chat/stream: streams the simpler prompt of the deprecated generateAdviceStream.
+ * Replaces generateStage (same name) in that pipeline.
+ */
+export const legacyGenerateStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'generate',
+  async run(turn) {
+    const { message, userId, decisionIntelligenceMode } = turn.request;
+    startReply(deps, turn);
+    turn.reply = await streamReply(
+      turn,
+      deps.adviceGenerator.generateAdviceStream(
+        message,
+        turn.cleanedProfile,
+        turn.history,
+        turn.model,
+        turn.sessionId,
+        userId,
+        turn.ednaProfile,
+        turn.userTier,
+        decisionIntelligenceMode,
+        turn.experiment,
+        turn.language,
+      ),
+    );
+  },
+});
+
+/** Save the reply with its recommendations and update the session; record the experiment outcome. */
+export const persistStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'persist',
+  async run(turn) {
+    const reply = requireReply(turn);
+    // Defense in depth: never save empty content to Munawar (avoids 400 "Content is required")
+    if (!reply.cancelled && !reply.response.trim()) reply.response = EMPTY_REPLY;
+
+    turn.recommendations = deps.recommend(turn.analysis, turn.conversationInsights, turn.request.message);
+    await saveReply(deps, turn, reply, {
+      ...(reply.cancelled && { cancelled: true }),
+      ...(turn.experiment && { experiment: { id: turn.experiment.experimentId, variant: turn.experiment.variantId } }),
+    });
+    if (turn.experiment && !reply.cancelled) {
+      deps.experiments.recordReply(turn.experiment, turn.sessionId, {
+        responseChars: reply.response.length,
+        usage: reply.usage,
+        costUSD: reply.costUSD,
+      });
+    }
+  },
+});
+
+/** 🧾 Trace the turn (kept only when the session is sampled, see TraceStoreService). */
+export const traceStage = (deps: ChatStageDeps): ChatStage<ChatTurn> => ({
+  name: 'trace',
+  run(turn) {
+    recordTrace(deps, turn, requireReply(turn));
+  },
+});
+
+/** Send the finished reply (a cancelled one was saved, but nobody is listening any more). */
+export const respondStage = (): ChatStage<ChatTurn> => ({
+  name: 'respond',
+  run(turn) {
+    const reply = requireReply(turn);
+    if (reply.cancelled) {
+      console.log(`🛑 [ChatStages] Saved partial reply (${reply.response.length} chars) as cancelled for session ${turn.sessionId}`);
+      return 'stop';
+    }
+    turn.sink.complete({
+      response: reply.response,
+      sessionId: turn.sessionId, // The actual session ID from the database
+      analysis: turn.analysis,
+      recommendations: turn.recommendations,
+      reasoning: reply.reasoning,
+      profile: turn.cleanedProfile,
+      model: reply.model,
+      fallback: reply.fallback,
+      routing: turn.routing,
+      usage: reply.usage ?? undefined,
+      costUSD: reply.costUSD,
+      language: turn.language,
+    });
+  },
+});
+
+/** Stages of a chat turn, in the default order. */
+export function createChatStages(deps: ChatStageDeps): ChatStage<ChatTurn>[] {
+  return [
+    sessionStage(deps),
+    tierStage(deps),
+    analysisStage(deps),
+    safetyStage(deps),
+    // E-DNA and the experiment variant shape the prompt, so they come before it is counted
+    ednaStage(deps),
+    experimentStage(deps),
+    inputLimitStage(deps),
+    routingStage(deps),
+    creditsStage(deps),
+    modelAccessStage(deps),
+    generateStage(deps),
+    persistStage(deps),
+    traceStage(deps),
+    respondStage(),
+  ];
+}
+
+/**
+ * Chat pipeline with the default stages. When a stage fails on anything but a limit or access error
+ * (HttpException, sent to the client as is), a fallback reply is saved for the user message so the
+ * iOS app does not show "agent not giving an answer".
+ */
+export function createChatPipeline(deps: ChatStageDeps): ChatPipeline<ChatTurn, ChatResponseDto> {
+  return {
+    stages: createChatStages(deps),
+    async recover(turn, error) {
+      if (error instanceof HttpException) return undefined;
+
+      const reasoning = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      if (turn.replySequence > 0) {
+        try {
+          await deps.chatRepository.saveAssistantMessage(
+            turn.sessionId,
+            turn.request.userId,
+            FALLBACK_REPLY,
+            turn.replySequence,
+            turn.request.selectedLLM,
+            reasoning,
+            { overallInsights: 'New conversation', dominantQuotients: [], needsAttention: [], conversationContext: 'Error recovery' },
+            [],
+            {},
+            undefined,
+            turn.request.userJwt,
+            { allowed: true, tokensUsed: 0, tokensIncluded: 0, creditsUsed: 0, creditsIncluded: 0, usagePercentage: 0, warning: false, message: null },
+          );
+        } catch (saveErr: any) {
+          console.error('Failed to save fallback assistant message:', saveErr?.message);
+        }
+      }
+      return {
+        response: FALLBACK_REPLY,
+        sessionId: turn.sessionId,
+        analysis: {
+          overallInsights: 'New conversation',
+          dominantQuotients: [],
+          needsAttention: [],
+          conversationContext: 'Starting new conversation',
+        },
+        recommendations: [],
+        reasoning,
+      };
+    },
+  };
+}
+
+function requireReply(turn: ChatTurn): ChatReply {
+  if (!turn.reply) throw new Error('No reply generated before the persist/trace/respond stages');
+  return turn.reply;
+}
+
+function emitProfile(deps: ChatStageDeps, turn: ChatTurn): void {
+  turn.sink.emit({ type: 'profile', data: turn.cleanedProfile });
+  turn.sink.emit({
+    type: 'analysis',
+    data: { ...turn.analysis, frameworks: deps.parallelLLM.getLastFrameworkSelection(turn.sessionId) },
+  });
+}
+
+function startReply(deps: ChatStageDeps, turn: ChatTurn): void {
+  emitProfile(deps, turn);
+  turn.sink.emit({ type: 'generating', data: { message: 'Generating response...' } });
+}
+
+/** Send tokens and reasoning to the sink as they arrive; the reply is the full text. */
+async function streamReply(turn: ChatTurn, events: AsyncIterable<AdviceStreamEvent>): Promise<ChatReply> {
+  const { signal } = turn.request;
+  const reply: ChatReply = { response: '', reasoning: '', model: turn.model };
+  for await (const event of events) {
+    if (event.type === 'token') {
+      reply.response += event.content;
+      turn.sink.emit({ type: 'token', data: { content: event.content } });
+    } else if (event.type === 'reasoning') {
+      reply.reasoning = event.content;
+      turn.sink.emit({ type: 'reasoning', data: { content: event.content } });
+    } else if (event.type === 'usage') {
+      // Real provider-reported token usage + the model that actually answered
+      reply.usage = event.usage;
+      reply.costUSD = event.costUSD;
+      reply.model = event.model;
+      reply.fallback = event.fallback;
+    } else if (event.type === 'done' && (event.content || signal?.aborted)) {
+      reply.response = event.content;
+    }
+  }
+  reply.cancelled = !!signal?.aborted;
+  return reply;
+}
+
+/** Save the assistant message (with the credits snapshot for iOS) and update the session. */
+async function saveReply(deps: ChatStageDeps, turn: ChatTurn, reply: ChatReply, metadata: Record<string, unknown>): Promise<void> {
+  const { message, userId, userJwt, selectedLLM } = turn.request;
+  const creditCheck = await deps.creditService.checkCredits(userId, turn.userTier);
+  const creditStats = await deps.creditService.getUsageStats(userId, turn.userTier);
+  turn.savedMessage = await deps.chatRepository.saveAssistantMessage(
+    turn.sessionId,
+    userId,
+    reply.response,
+    turn.replySequence,
+    selectedLLM,
+    reply.reasoning,
+    turn.analysis,
+    turn.recommendations,
+    turn.cleanedProfile,
+    undefined, // frameworksTriggered
+    userJwt,
+    {
+      allowed: creditCheck.allowed,
+      tokensUsed: creditStats.tokensUsed,
+      tokensIncluded: creditStats.tokensIncluded,
+      creditsUsed: creditStats.creditsUsed,
+      creditsIncluded: creditStats.creditsIncluded,
+      baseAllowance: creditStats.baseAllowance,
+      topUpCarried: creditStats.topUpCarried,
+      topUpAddedThisMonth: creditStats.topUpAddedThisMonth,
+      usagePercentage: creditStats.usagePercentage,
+      warning: creditCheck.warning,
+      message: creditCheck.message ?? null,
+    },
+    { modelUsed: reply.model, fallback: reply.fallback, usage: reply.usage, costUSD: reply.costUSD, ...metadata },
+  );
+
+  const messageCount = await deps.chatRepository.getSessionMessageCount(turn.sessionId, userJwt);
+  // Auto-generate the title from the first user message when not set
+  let title: string | undefined = turn.session?.title ?? undefined;
+  if (!title && turn.history.length === 0) {
+    title = message.length > 50 ? message.substring(0, 50) + '...' : message;
+  }
+  await deps.chatRepository.updateSession(
+    turn.sessionId,
+    userId,
+    {
+      currentProfile: turn.cleanedProfile,
+      messageCount,
+      selectedLLM,
+      language: turn.language,
+      ...(title && title.trim().length > 0 && { title }),
+    },
+    userJwt,
+  );
+}
+
+/**
+ * The router classification, framework selection and analysis tokens traced are those of this
+ * turn's analyze().
+ */
+function recordTrace(deps: ChatStageDeps, turn: ChatTurn, reply: ChatReply, safety?: SafetyGateResult): void {
+  const { message, userId, selectedLLM, decisionIntelligenceMode } = turn.request;
+  deps.traceStore.record({
+    // Backend message id (sessionId:sequence when the backend returned none)
+    messageId: turn.savedMessage?.id || `${turn.sessionId}:${turn.replySequence}`,
+    sessionId: turn.sessionId,
+    userId,
+    pipeline: turn.pipeline,
+    userTier: turn.userTier,
+    message,
+    language: turn.language,
+    decisionIntelligenceMode,
+    selectedLLM,
+    model: reply.model,
+    fallback: reply.fallback,
+    routing: turn.routing,
+    experiment: turn.experiment && {
+      id: turn.experiment.experimentId,
+      variant: turn.experiment.variantId,
+      promptVersions: turn.experiment.promptVersions,
+    },
+    classification: deps.parallelLLM.getLastClassification(turn.sessionId),
+    frameworks: deps.parallelLLM.getLastFrameworkSelection(turn.sessionId),
+    analysisTokens: deps.parallelLLM.getLastAnalysisTokens(turn.sessionId),
+    usage: reply.usage,
+    costUSD: reply.costUSD,
+    // The safety gate sends no prompt: the last hashes would be those of an earlier reply
+    promptHashes: safety ? undefined : deps.adviceGenerator.getLastPromptHashes(turn.sessionId),
+    safety,
+    response: reply.response,
+    reasoning: reply.reasoning,
+    cancelled: reply.cancelled || undefined,
+    latencyMs: Date.now() - turn.startedAt,
+  });
+}
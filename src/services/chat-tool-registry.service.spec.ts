@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { ChatToolRegistryService, ChatToolContext } from './chat-tool-registry.service';
+import { CreditService } from './credit.service';
+import { EdnaProfileService } from './edna-profile.service';
+
+describe('ChatToolRegistryService', () => {
+  const userId = '7f1c2a9e-0000-4000-8000-000000000001';
+  let creditService: { getUsageStats: jest.Mock };
+  let ednaProfileService: { getProfileSummaryForAdvice: jest.Mock };
+
+  const createRegistry = (enabled: boolean) => {
+    const config = { get: jest.fn((key: string) => (key === 'CHAT_TOOLS_ENABLED' ? String(enabled) : undefined)) };
+    return new ChatToolRegistryService(
+      config as unknown as ConfigService,
+      creditService as unknown as CreditService,
+      ednaProfileService as unknown as EdnaProfileService,
+    );
+  };
+
+  beforeEach(() => {
+    creditService = {
+      getUsageStats: jest.fn().mockResolvedValue({
+        creditsUsed: 120,
+        creditsIncluded: 500,
+        usagePercentage: 24,
+        baseAllowance: 500,
+        topUpCarried: 0,
+        topUpAddedThisMonth: 0,
+      }),
+    };
+    ednaProfileService = { getProfileSummaryForAdvice: jest.fn().mockReturnValue('E-DNA PROFILE ...') };
+  });
+
+  it('offers no tools unless CHAT_TOOLS_ENABLED=true', () => {
+    expect(createRegistry(false).getDefinitions({ userId, userTier: 'pro' })).toEqual([]);
+  });
+
+  it('hides per-user tools from anonymous users', () => {
+    const names = createRegistry(true)
+      .getDefinitions({ userId: '00000000-0000-0000-0000-000000000000', userTier: 'free' })
+      .map((tool) => tool.name);
+
+    expect(names).toEqual(['lookup_quotient']);
+  });
+
+  it('reads the credit balance for the context user, ignoring model arguments', async () => {
+    const result = await createRegistry(true).execute(
+      { id: 'call_1', name: 'get_credit_balance', arguments: { userId: 'someone-else' } },
+      { userId, userTier: 'pro' },
+    );
+
+    expect(creditService.getUsageStats).toHaveBeenCalledWith(userId, 'pro');
+    expect(JSON.parse(result)).toMatchObject({ tier: 'pro', creditsRemaining: 380 });
+  });
+
+  it('returns a single E-DNA layer when asked', async () => {
+    const context: ChatToolContext = {
+      userId,
+      userTier: 'basic',
+      ednaProfile: { layers: { layer4: { title: 'Learning Style', modalityPreference: 'Visual' } } } as any,
+    };
+
+    const result = await createRegistry(true).execute({ id: 'c', name: 'get_edna_profile', arguments: { layer: 4 } }, context);
+
+    expect(JSON.parse(result)).toEqual({ layer: 4, title: 'Learning Style', modalityPreference: 'Visual' });
+  });
+
+  it('reports unknown tools and tool failures as an error result', async () => {
+    const registry = createRegistry(true);
+    creditService.getUsageStats.mockRejectedValue(new Error('store offline'));
+
+    expect(JSON.parse(await registry.execute({ id: 'a', name: 'drop_tables', arguments: {} }, { userId, userTier: 'pro' }))).toEqual({
+      error: 'Unknown tool: drop_tables',
+    });
+    expect(JSON.parse(await registry.execute({ id: 'b', name: 'get_credit_balance', arguments: {} }, { userId, userTier: 'pro' }))).toEqual({
+      error: 'Tool get_credit_balance failed',
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CreditService } from './credit.service';
+import { EdnaProfileService } from './edna-profile.service';
+import { LLMToolCall, LLMToolDefinition } from '../interfaces/llm-provider.interface';
+import { UserTier } from '../config/tier-pricing.config';
+import { EdnaProfileFull } from '../knowledge-base/edna-traits.data';
+import { getQuotientById, searchQuotients, QuotientData } from '../knowledge-base/quotients.data';
+
+const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+/** Who the model is acting for. Tools read the user from here, never from model-supplied arguments. */
+export interface ChatToolContext {
+  userId: string;
+  userTier: UserTier;
+  ednaProfile?: EdnaProfileFull | null;
+}
+
+export interface ChatTool {
+  definition: LLMToolDefinition;
+  /** Hidden from anonymous users (the tool reads per-user data). */
+  requiresUser: boolean;
+  execute(args: Record<string, unknown>, context: ChatToolContext): Promise<unknown> | unknown;
+}
+
+/**
+ * Chat Tool Registry
+ *
+ * Server functions the advice model may call during processMessage (CHAT_TOOLS_ENABLED=true).
+ * Only read-only lookups scoped to the current user are registered; results go back to the
+ * model as JSON, and a failing tool returns { error } instead of breaking the reply.
+ */
+@Injectable()
+export class ChatToolRegistryService {
+  private tools = new Map<string, ChatTool>();
+  private readonly enabled: boolean;
+
+  constructor(
+    private configService: ConfigService,
+    private creditService: CreditService,
+    private ednaProfileService: EdnaProfileService,
+  ) {
+    this.enabled = this.configService.get<string>('CHAT_TOOLS_ENABLED') === 'true';
+    this.registerBuiltInTools();
+    console.log(`🧰 [ChatTools] ${this.tools.size} tools registered. Enabled: ${this.enabled}`);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  register(tool: ChatTool): void {
+    if (this.tools.has(tool.definition.name)) {
+      throw new Error(`Chat tool ${tool.definition.name} is already registered`);
+    }
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  /**
+   * Tool definitions to offer the model for this user (empty when disabled).
+   */
+  getDefinitions(context: ChatToolContext): LLMToolDefinition[] {
+    if (!this.enabled) return [];
+    const isAnonymous = !context.userId || context.userId === ANONYMOUS_USER_ID;
+    return [...this.tools.values()]
+      .filter((tool) => !tool.requiresUser || !isAnonymous)
+      .map((tool) => tool.definition);
+  }
+
+  /**
+   * Run one model-requested call. Always resolves to the JSON string sent back as the tool result.
+   */
+  async execute(call: LLMToolCall, context: ChatToolContext): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool || !this.getDefinitions(context).some((def) => def.name === call.name)) {
+      return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+    }
+    try {
+      const result = await tool.execute(call.arguments || {}, context);
+      console.log(`🧰 [ChatTools] ${call.name} executed for user ${context.userId.slice(0, 8)}...`);
+      return JSON.stringify(result ?? null);
+    } catch (error) {
+      console.error(`❌ [ChatTools] ${call.name} failed:`, error);
+      return JSON.stringify({ error: `Tool ${call.name} failed` });
+    }
+  }
+
+  private registerBuiltInTools(): void {
+    this.register({
+      definition: {
+        name: 'get_credit_balance',
+        description: "The user's credit usage this month: credits used, included and remaining, and top-ups.",
+        parameters: { type: 'object', properties: {}, additionalProperties: false },
+      },
+      requiresUser: true,
+      execute: async (_args, context) => {
+        const stats = await this.creditService.getUsageStats(context.userId, context.userTier);
+        return {
+          tier: context.userTier,
+          creditsUsed: stats.creditsUsed,
+          creditsIncluded: stats.creditsIncluded,
+          creditsRemaining: Math.max(0, stats.creditsIncluded - stats.creditsUsed),
+          usagePercentage: Math.round(stats.usagePercentage * 10) / 10,
+          baseAllowance: stats.baseAllowance,
+          topUpCarried: stats.topUpCarried,
+          topUpAddedThisMonth: stats.topUpAddedThisMonth,
+        };
+      },
+    });
+
+    this.register({
+      definition: {
+        name: 'get_edna_profile',
+        description:
+          "The user's E-DNA profile. Without `layer`, a summary of all 7 layers; with `layer` (1-7), that layer's full details.",
+        parameters: {
+          type: 'object',
+          properties: {
+            layer: { type: 'integer', minimum: 1, maximum: 7, description: 'E-DNA layer number (1-7)' },
+          },
+          additionalProperties: false,
+        },
+      },
+      requiresUser: true,
+      execute: (args, context) => {
+        const profile = context.ednaProfile;
+        if (!profile) {
+          return { error: 'No E-DNA profile on file (the user has not completed the E-DNA quiz)' };
+        }
+        if (args.layer === undefined) {
+          return { summary: this.ednaProfileService.getProfileSummaryForAdvice(profile) };
+        }
+        const layer = Number(args.layer);
+        if (!Number.isInteger(layer) || layer < 1 || layer > 7) {
+          return { error: 'layer must be an integer from 1 to 7' };
+        }
+        return { layer, ...profile.layers[`layer${layer}`] };
+      },
+    });
+
+    this.register({
+      definition: {
+        name: 'lookup_quotient',
+        description:
+          'Knowledge base entry for a quotient (IQ, EQ, AQ, SQ, CQ, MQ, LQ, VQ, RQ, PQ): what it measures, key aspects and how to develop it. Pass `id` or a free-text `query`.',
+        parameters: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', description: 'Quotient id, e.g. "eq"' },
+            query: { type: 'string', description: 'Search text, e.g. "resilience"' },
+          },
+          additionalProperties: false,
+        },
+      },
+      requiresUser: false,
+      execute: (args) => {
+        if (typeof args.id === 'string' && args.id.trim()) {
+          const quotient = getQuotientById(args.id.trim().toLowerCase());
+          return quotient ? this.describeQuotient(quotient) : { error: `No quotient with id ${args.id}` };
+        }
+        if (typeof args.query === 'string' && args.query.trim()) {
+          return { matches: searchQuotients(args.query.trim()).slice(0, 3).map((q) => this.describeQuotient(q)) };
+        }
+        return { error: 'Pass id or query' };
+      },
+    });
+  }
+
+  private describeQuotient(quotient: QuotientData) {
+    return {
+      id: quotient.id,
+      name: quotient.name,
+      fullName: quotient.fullName,
+      description: quotient.description,
+      keyAspects: quotient.keyAspects,
+      developmentStrategies: quotient.developmentStrategies,
+    };
+  }
+}
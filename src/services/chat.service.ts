@@ -1,5 +1,5 @@
-import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
-import { PersonalityAnalyzerService, ConversationMessage } from './personality-analyzer.service';
+import { Injectable } from '@nestjs/common';
+import { PersonalityAnalyzerService } from './personality-analyzer.service';
 import { AdviceGeneratorService } from './advice-generator.service';
 import { ConversationAnalyzerService } from './conversation-analyzer.service';
 import { ParallelLLMService } from './parallel-llm.service';
@@ -9,23 +9,46 @@ import { SubscriptionService } from './subscription.service';
 import { IOSBackendService } from './ios-backend.service';
 import { EdnaProfileService } from './edna-profile.service';
 import { BudgetTrackerService } from './budget-tracker.service';
+import { TokenCounterService } from './token-counter.service';
+import { ModelRouterService } from './model-router.service';
+import { ExperimentService } from './experiment.service';
+import { SafetyGateService } from './safety-gate.service';
+import { TraceStoreService } from './trace-store.service';
+import {
+  ChatPipeline,
+  ChatStreamEvent,
+  CollectingChatSink,
+  placeStage,
+  runChatPipeline,
+  StreamingChatSink,
+} from './chat-pipeline';
+import { CHAT_STREAM_EVENTS, ChatTurn, createChatPipeline, createChatTurn, legacyGenerateStage } from './chat-stages';
+import {
+  createGuestChatPipeline,
+  createGuestChatTurn,
+  GUEST_STREAM_EVENTS,
+  GuestChatTurn,
+  GuestStreamEvent,
+} from './guest-chat-stages';
 import { ChatResponseDto } from '../dto/chat.dto';
 import { getAllQuotients, getQuotientById } from '../knowledge-base/quotients.data';
 import { ChatRepositoryAdapter } from '../repositories/chat-repository.adapter';
 import { isPremiumModel } from '../config/subscription.config';
 import { ConfigService } from '@nestjs/config';
 import {
-  validateUserTier,
   canAccessModel,
   getDefaultModelForTier,
   getOutputLimitForTier,
+  getInputLimitForTier,
   getAllowedModelsForTier,
   UserTier,
 } from '../config/tier-pricing.config';
 import { GuestSessionService } from './guest-session.service';
 import { GuestChatResponseDto } from '../dto/guest-chat.dto';
-import { GUEST_MESSAGE_CAP, GUEST_DEFAULT_LLM } from '../config/guest.config';
-import { v4 as uuidv4 } from 'uuid';
+import { GUEST_DEFAULT_LLM } from '../config/guest.config';
+import { LLM_MODELS } from '../config/llm-models.config';
+import { resolveModelId } from '../config/model-registry';
+import { FRAMEWORK_REGISTRY, FrameworkDescriptor } from '../knowledge-base/framework-registry';
 
 @Injectable()
 export class ChatService {
@@ -40,6 +63,10 @@ export class ChatService {
   >();
 
   private readonly useIOSEDNA: boolean;
+  private readonly chatPipeline: ChatPipeline<ChatTurn, ChatResponseDto>;
+  /** POST /chat/stream: the chat pipeline generating with the deprecated generateAdviceStream */
+  private readonly legacyStreamPipeline: ChatPipeline<ChatTurn, ChatResponseDto>;
+  private readonly guestPipeline: ChatPipeline<GuestChatTurn, GuestChatResponseDto>;
 
   constructor(
     private readonly personalityAnalyzer: PersonalityAnalyzerService,
@@ -53,6 +80,11 @@ export class ChatService {
     private readonly iosBackend: IOSBackendService, // 🔗 iOS backend for E-DNA
     private readonly ednaProfileService: EdnaProfileService, // 🧬 E-DNA profile service
     private readonly budgetTracker: BudgetTrackerService, // 💰 Budget tracking for premium models
+    private readonly tokenCounter: TokenCounterService, // 📏 Prompt token counts per model family
+    private readonly modelRouter: ModelRouterService, // 🧭 Resolves the `auto` model per message
+    private readonly experiments: ExperimentService, // 🧪 A/B prompt/model variants and their outcomes
+    private readonly safetyGate: SafetyGateService, // 🛟 Crisis protocol before response generation
+    private readonly traceStore: TraceStoreService, // 🧾 Sampled per-turn traces for support
     private readonly configService: ConfigService,
     private readonly guestSessionService: GuestSessionService,
   ) {
@@ -60,11 +92,44 @@ export class ChatService {
     // USE_IOS_BACKEND: Use iOS backend for chat storage (requires all endpoints)
     this.useIOSEDNA = this.configService.get<string>('USE_IOS_EDNA') === 'true';
     console.log(`🧬 [ChatService] iOS E-DNA profile fetch: ${this.useIOSEDNA ? 'ENABLED' : 'DISABLED'}`);
+
+    // 🪜 Chat turns run as staged pipelines (chat-pipeline.ts); streaming only changes the sink
+    const stageDeps = {
+      chatRepository: this.chatRepository,
+      iosBackend: this.iosBackend,
+      parallelLLM: this.parallelLLM,
+      conversationAnalyzer: this.conversationAnalyzer,
+      personalityAnalyzer: this.personalityAnalyzer,
+      safetyGate: this.safetyGate,
+      modelRouter: this.modelRouter,
+      experiments: this.experiments,
+      creditService: this.creditService,
+      ednaProfileService: this.ednaProfileService,
+      adviceGenerator: this.adviceGenerator,
+      traceStore: this.traceStore,
+      guestSessionService: this.guestSessionService,
+      useIOSEDNA: this.useIOSEDNA,
+      buildEnhancedInsights: (psychProfile: any, insights: any) => this.buildEnhancedInsightsFromProfile(psychProfile, insights),
+      buildCleanProfile: (psychProfile: any) => this.buildCleanProfile(psychProfile),
+      countInputTokens: (message: string, promptMessages: any[], userTier: UserTier, modelId: string) =>
+        this.countInputTokens(message, promptMessages, userTier, modelId),
+      validateModelAccessAndBudget: (userId: string, userTier: UserTier, model: string, estimatedInputTokens: number) =>
+        this.validateModelAccessAndBudget(userId, userTier, model, estimatedInputTokens),
+      recommend: (analysis: any, insights: any, message: string) =>
+        this.generateContextualRecommendations(analysis, insights, message),
+    };
+    this.chatPipeline = createChatPipeline(stageDeps);
+    this.legacyStreamPipeline = {
+      ...this.chatPipeline,
+      stages: placeStage(this.chatPipeline.stages, legacyGenerateStage(stageDeps)),
+    };
+    this.guestPipeline = createGuestChatPipeline(stageDeps);
   }
 
   /**
    * Main method to process user messages
    * Uses parallel LLM approach with Smart Incremental analysis (Option 2)
+   * Runs the chat pipeline (chat-stages.ts) and returns the finished reply as one JSON response
    * @param userId - User ID (can be anonymous for non-authenticated usage)
    * @param userJwt - JWT token from iOS app for production (passed to Munawar's backend)
    */
@@ -75,310 +140,19 @@ export class ChatService {
     userId: string = '00000000-0000-0000-0000-000000000000', // Default anonymous UUID
     userJwt?: string, // JWT from iOS app
     decisionIntelligenceMode?: boolean,
+    region?: string, // Country for crisis resources (safety gate)
   ): Promise<ChatResponseDto> {
-    let fallbackSessionId: string | null = null;
-    let fallbackAssistantSeq: number | null = null;
-    try {
-
-      // ✅ Get or create session in database
-      const session = await this.chatRepository.getOrCreateSession(
-        sessionId,
-        userId,
-        selectedLLM,
-        userJwt, // Pass JWT for iOS backend auth
-      );
-      
-      // Use the actual session ID from the database (may differ from input for iOS backend)
-      const actualSessionId = session.id || sessionId;
-
-      // ✅ Load existing messages from database
-      const existingMessages = await this.chatRepository.getSessionMessages(actualSessionId, userId, userJwt);
-      
-      // ✅ Get next sequence number
-      const nextSequenceNumber = existingMessages.length + 1;
-
-      // ✅ Save user message to database
-      await this.chatRepository.saveUserMessage(actualSessionId, userId, message, nextSequenceNumber, userJwt);
-      fallbackSessionId = actualSessionId;
-      fallbackAssistantSeq = nextSequenceNumber + 1;
-
-      // ✅ Build history array for analysis (from existing messages + new message)
-      // Ensure all timestamps are valid Date objects for ConversationMessage interface
-      const history: ConversationMessage[] = [
-        ...existingMessages.map((m) => ({ 
-          role: m.role as 'user' | 'assistant', 
-          content: m.content, 
-          timestamp: m.createdAt || new Date() 
-        })),
-        { role: 'user' as const, content: message, timestamp: new Date() },
-      ];
-
-      // Get history WITHOUT the current message (since we pass message separately to analyzers)
-      // Ensure all timestamps are valid Date objects
-      const historyBeforeCurrent: ConversationMessage[] = existingMessages.map((m) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-        timestamp: m.createdAt || new Date(),
-      }));
-
-      // NEW: Parallel LLM analysis with classification and selective analysis
-      // Pass history WITHOUT the current message (we pass the message separately)
-      // Now includes userId for framework cap enforcement
-      const psychProfile = await this.parallelLLM.analyze(
-        message,
-        historyBeforeCurrent,
-        actualSessionId,
-        selectedLLM,
-        userId, // Pass userId for credit checking and framework caps
-      );
-
-      // Analyze conversation patterns across history (for behavioral patterns)
-      const conversationInsights = this.conversationAnalyzer.analyzeConversation(history);
-
-      // Build basic personality analysis (for compatibility)
-      const analysis = this.personalityAnalyzer.analyzePersonality(message, actualSessionId, history);
-
-      // Build enhanced insights from parallel LLM results + conversation patterns
-      const enhancedInsights = this.buildEnhancedInsightsFromProfile(
-        psychProfile,
-        conversationInsights,
-      );
-      analysis.overallInsights = enhancedInsights;
-
-      // Build a cleaned Profile object with confidence/evidence gating and safety/conflict
-      let cleanedProfile = this.buildCleanProfile(psychProfile);
-
-      // 📝 Get user tier from Munawar's API (no override)
-      let userTierRaw: string = 'free';
-      if (this.useIOSEDNA && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          const ednaProfile = await this.iosBackend.getUserProfile(userId, userJwt);
-          if (ednaProfile?.success && ednaProfile.ednaProfile) {
-            if (ednaProfile.user?.tier) {
-              userTierRaw = ednaProfile.user.tier.toLowerCase();
-              console.log(`📝 [ChatService] User tier: ${userTierRaw}`);
-            }
-            const confidence = typeof ednaProfile.ednaProfile.confidence === 'string'
-              ? parseFloat(ednaProfile.ednaProfile.confidence)
-              : ednaProfile.ednaProfile.confidence;
-            cleanedProfile = {
-              ...cleanedProfile,
-              edna: {
-                coreType: ednaProfile.ednaProfile.coreType,
-                typeId: ednaProfile.user?.typeId || ednaProfile.ednaProfile.coreType,
-                subtype: ednaProfile.ednaProfile.subtype,
-                confidence: confidence || 0,
-                tier: ednaProfile.user?.tier,
-              },
-            };
-            console.log(`🧬 [ChatService] E-DNA profile loaded: ${ednaProfile.ednaProfile.coreType} (${confidence} confidence)`);
-          }
-        } catch (error: any) {
-          console.warn(`⚠️ [ChatService] Could not fetch E-DNA profile:`, error?.message);
-        }
-      }
-      if (userTierRaw === 'free' && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          const userResponse = await this.iosBackend.getUserById(userId, userJwt);
-          if (userResponse?.success && userResponse.user?.tier) {
-            userTierRaw = userResponse.user.tier.toLowerCase();
-            console.log(`📝 [ChatService] User tier from getUserById: ${userTierRaw}`);
-          }
-        } catch (error: any) {
-          console.warn(`⚠️ [ChatService] Could not fetch user tier:`, error?.message);
-        }
-      }
-
-      // 🎯 Validate and normalize user tier
-      const userTier: UserTier = validateUserTier(userTierRaw);
-      console.log(`🎯 [ChatService] Validated user tier: ${userTier}`);
-
-      // 💳 Check credits (with tier-aware allowance)
-      const creditCheck = await this.creditService.checkCredits(userId, userTier);
-      if (!creditCheck.allowed) {
-        throw new HttpException(
-          { message: creditCheck.message || 'Credit limit reached', code: 'CREDIT_LIMIT_EXCEEDED' },
-          HttpStatus.PAYMENT_REQUIRED,
-        );
-      }
-
-      // 📏 Enforce input token limit for tier
-      const { getInputLimitForTier } = require('../config/tier-pricing.config');
-      const maxInputTokens = getInputLimitForTier(userTier);
-      const estimatedInputTokens = Math.ceil(message.length / 4);
-      if (estimatedInputTokens > maxInputTokens) {
-        throw new HttpException(
-          `Your message is too long for your ${userTier} tier (estimated ~${estimatedInputTokens} tokens, limit is ${maxInputTokens}). Shorten your message or upgrade.`,
-          HttpStatus.BAD_REQUEST,
-        );
-      }
-
-      // 🚫 Validate model access and budget
-      let finalLLM = selectedLLM;
-      try {
-        finalLLM = await this.validateModelAccessAndBudget(userId, userTier, selectedLLM);
-      } catch (error: any) {
-        throw new HttpException(error.message, HttpStatus.FORBIDDEN);
-      }
-
-      // 🧬 Get E-DNA profile for the user (cached, or fetch if not available)
-      let ednaProfile: any = null;
-      console.log(`🧬 [ChatService] E-DNA Check: isEnabled=${this.ednaProfileService.isEnabled()}, userId=${userId}, hasJwt=${!!userJwt}`);
-      if (this.ednaProfileService.isEnabled() && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          ednaProfile = await this.ednaProfileService.getEdnaProfile(userId, false, userJwt);
-          if (ednaProfile) {
-            console.log(`🧬 [ChatService] ✅ E-DNA profile LOADED: ${ednaProfile.layers?.layer1?.coreType} - ${ednaProfile.layers?.layer2?.subtype}`);
-          } else {
-            console.log(`🧬 [ChatService] ⚠️ E-DNA profile returned NULL for user ${userId}`);
-          }
-        } catch (ednaError: any) {
-          console.error(`🧬 [ChatService] ❌ E-DNA profile FAILED: ${ednaError?.message}`);
-        }
-      } else {
-        console.log(`🧬 [ChatService] ⚠️ E-DNA SKIPPED: enabled=${this.ednaProfileService.isEnabled()}, isAnonymous=${userId === '00000000-0000-0000-0000-000000000000'}`);
-      }
-
-      // Generate personalized advice with cleaned profile, E-DNA profile, and short context
-      // Pass history WITHOUT the current message (it's passed separately as userMessage parameter)
-      const adviceResult = await this.adviceGenerator.generateAdviceWithProfile(
-        message,
-        cleanedProfile,
-        historyBeforeCurrent, // Reuse the variable declared above
-        finalLLM,
-        actualSessionId,
-        userId,
-        ednaProfile, // 🧬 Pass E-DNA profile for personalization
-        userTier, // 📝 Pass tier for rolling summary history limits (extracted from Munawar's backend)
-        decisionIntelligenceMode,
-      );
-
-      // Generate context-aware recommendations
-      const recommendations = this.generateContextualRecommendations(
-        analysis,
-        conversationInsights,
-        message,
-      );
-
-      // ✅ Save assistant message to database with all metadata (including credits for iOS)
-      const assistantSequenceNumber = nextSequenceNumber + 1;
-      const creditStateForMetadata = await this.creditService.checkCredits(userId, userTier);
-      const creditStatsForMetadata = await this.creditService.getUsageStats(userId, userTier);
-      const creditsSnapshot = {
-        allowed: creditStateForMetadata.allowed,
-        tokensUsed: creditStatsForMetadata.tokensUsed,
-        tokensIncluded: creditStatsForMetadata.tokensIncluded,
-        creditsUsed: creditStatsForMetadata.creditsUsed,
-        creditsIncluded: creditStatsForMetadata.creditsIncluded,
-        baseAllowance: creditStatsForMetadata.baseAllowance,
-        topUpCarried: creditStatsForMetadata.topUpCarried,
-        topUpAddedThisMonth: creditStatsForMetadata.topUpAddedThisMonth,
-        usagePercentage: creditStatsForMetadata.usagePercentage,
-        warning: creditStateForMetadata.warning,
-        message: creditStateForMetadata.message ?? null,
-      };
-      await this.chatRepository.saveAssistantMessage(
-        actualSessionId,
-        userId,
-        adviceResult.response,
-        assistantSequenceNumber,
-        selectedLLM,
-        adviceResult.reasoning,
-        analysis,
-        recommendations,
-        cleanedProfile,
-        undefined, // frameworksTriggered
-        userJwt,
-        creditsSnapshot,
-      );
-
-      // ✅ Update session in database (title, profile, message count, last activity)
-      const messageCount = await this.chatRepository.getSessionMessageCount(actualSessionId, userJwt);
-      
-      // Auto-generate title from first user message if not set
-      // Explicitly convert null to undefined for TypeScript type safety
-      let title: string | undefined = session.title ?? undefined;
-      if (!title && existingMessages.length === 0) {
-        // First message - create title from first 50 characters
-        title = message.length > 50 ? message.substring(0, 50) + '...' : message;
-      }
-
-      // Build update object with explicit null-to-undefined conversion
-      const sessionUpdates: {
-        title?: string;
-        currentProfile?: any;
-        messageCount?: number;
-        selectedLLM?: string;
-      } = {
-        currentProfile: cleanedProfile,
-        messageCount,
-        selectedLLM,
-      };
-
-      // Only include title if it's defined (exclude null/undefined/empty string)
-      if (title && title.trim().length > 0) {
-        sessionUpdates.title = title;
-      }
-
-      await this.chatRepository.updateSession(actualSessionId, userId, sessionUpdates, userJwt);
-
-      return {
-        response: adviceResult.response,
-        sessionId: actualSessionId, // Return the actual session ID from database
-        analysis,
-        recommendations,
-        reasoning: adviceResult.reasoning, // Include reasoning in response
-        profile: cleanedProfile,
-      };
-    } catch (error) {
-      console.error('Error in processMessage:', error);
-
-      // Re-throw HttpExceptions (like tier restrictions) so they reach the client
-      if (error instanceof HttpException) {
-        throw error;
-      }
-
-      // Save fallback assistant message so Munawar's DB has a reply (avoids "agent not giving an answer" on iOS)
-      const fallbackResponse = "I'm here to help! Something went wrong on my side. Please try again.";
-      if (fallbackSessionId && fallbackAssistantSeq !== null) {
-        try {
-          await this.chatRepository.saveAssistantMessage(
-            fallbackSessionId,
-            userId,
-            fallbackResponse,
-            fallbackAssistantSeq,
-            selectedLLM,
-            `Error: ${error instanceof Error ? error.message : String(error)}`,
-            { overallInsights: 'New conversation', dominantQuotients: [], needsAttention: [], conversationContext: 'Error recovery' },
-            [],
-            {},
-            undefined,
-            userJwt,
-            { allowed: true, tokensUsed: 0, tokensIncluded: 0, creditsUsed: 0, creditsIncluded: 0, usagePercentage: 0, warning: false, message: null },
-          );
-        } catch (saveErr: any) {
-          console.error('Failed to save fallback assistant message:', saveErr?.message);
-        }
-      }
-
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        response: fallbackResponse,
-        sessionId: fallbackSessionId || sessionId,
-        analysis: {
-          overallInsights: 'New conversation',
-          dominantQuotients: [],
-          needsAttention: [],
-          conversationContext: 'Starting new conversation',
-        },
-        recommendations: [],
-        reasoning: `Error: ${errorMessage}`,
-      };
-    }
+    const sink = new CollectingChatSink<ChatResponseDto>();
+    const turn = createChatTurn(
+      { message, sessionId, selectedLLM, userId, userJwt, decisionIntelligenceMode, region },
+      'chat',
+      sink,
+    );
+    return sink.collect(runChatPipeline(this.chatPipeline, turn));
   }
 
   /**
-   * Streaming version of processMessage - uses the SAME perfect logic but streams the response
+   * Streaming version of processMessage: the same pipeline, with tokens streamed as SSE events
    * This is the /chat endpoint with stream=true
    */
   async *processMessageWithStreaming(
@@ -388,259 +162,17 @@ export class ChatService {
     userId: string = '00000000-0000-0000-0000-000000000000',
     userJwt?: string,
     decisionIntelligenceMode?: boolean,
-  ): AsyncGenerator<{ type: string; data: any }, void, unknown> {
-    console.log(`\n🔥🔥🔥 [ChatService.processMessageWithStreaming] CALLED`);
-    console.log(`📝 Message: ${message?.substring(0, 50)}...`);
-    console.log(`📝 SessionId: ${sessionId}`);
-    console.log(`📝 UserId: ${userId}`);
-    console.log(`📝 LLM: ${selectedLLM}`);
-    let streamFallbackSessionId: string | undefined;
-    let streamFallbackAssistantSeq: number | undefined;
-    try {
-      // Yield analyzing status
-      yield { type: 'analyzing', data: { message: 'Analyzing your message...' } };
-
-      // ✅ Get or create session in database (SAME AS processMessage)
-      const session = await this.chatRepository.getOrCreateSession(sessionId, userId, selectedLLM, userJwt);
-      const actualSessionId = session.id || sessionId;
-
-      // ✅ Load existing messages
-      const existingMessages = await this.chatRepository.getSessionMessages(actualSessionId, userId, userJwt);
-      const nextSequenceNumber = existingMessages.length + 1;
-
-      // ✅ Save user message
-      await this.chatRepository.saveUserMessage(actualSessionId, userId, message, nextSequenceNumber, userJwt);
-      streamFallbackSessionId = actualSessionId;
-      streamFallbackAssistantSeq = nextSequenceNumber + 1;
-
-      // ✅ Build history
-      const historyBeforeCurrent: ConversationMessage[] = existingMessages.map((m) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-        timestamp: m.createdAt || new Date(),
-      }));
-
-      // ✅ Parallel LLM analysis (SAME AS processMessage)
-      const psychProfile = await this.parallelLLM.analyze(
-        message,
-        historyBeforeCurrent,
-        actualSessionId,
-        selectedLLM,
-        userId,
-      );
-
-      // Build analysis and insights (SAME AS processMessage)
-      const history: ConversationMessage[] = [
-        ...historyBeforeCurrent,
-        { role: 'user' as const, content: message, timestamp: new Date() },
-      ];
-      const conversationInsights = this.conversationAnalyzer.analyzeConversation(history);
-      const analysis = this.personalityAnalyzer.analyzePersonality(message, actualSessionId, history);
-      const enhancedInsights = this.buildEnhancedInsightsFromProfile(psychProfile, conversationInsights);
-      analysis.overallInsights = enhancedInsights;
-      let cleanedProfile = this.buildCleanProfile(psychProfile);
-
-      // 📝 Get user tier from Munawar's API (no override)
-      let userTierRaw: string = 'free';
-      if (this.useIOSEDNA && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          const ednaProfileResponse = await this.iosBackend.getUserProfile(userId, userJwt);
-          if (ednaProfileResponse?.success && ednaProfileResponse.user?.tier) {
-            userTierRaw = ednaProfileResponse.user.tier.toLowerCase();
-          }
-        } catch (error: any) {
-          try {
-            const userResponse = await this.iosBackend.getUserById(userId, userJwt);
-            if (userResponse?.success && userResponse.user?.tier) {
-              userTierRaw = userResponse.user.tier.toLowerCase();
-            }
-          } catch (fallbackError: any) {
-            console.warn(`⚠️ [ChatService StreamV2] Could not fetch user tier`);
-          }
-        }
-      }
-      if (userTierRaw === 'free' && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          const userResponse = await this.iosBackend.getUserById(userId, userJwt);
-          if (userResponse?.success && userResponse.user?.tier) {
-            userTierRaw = userResponse.user.tier.toLowerCase();
-          }
-        } catch (e: any) {
-          // keep free
-        }
-      }
-      const userTier: UserTier = validateUserTier(userTierRaw);
-
-      // 💳 Check credits (with tier-aware allowance)
-      const creditCheck = await this.creditService.checkCredits(userId, userTier);
-      if (!creditCheck.allowed) {
-        yield { type: 'error', data: { message: creditCheck.message || 'Credit limit reached', code: 'CREDIT_LIMIT_EXCEEDED' } };
-        return;
-      }
-
-      // 📏 Enforce input token limit for tier
-      const { getInputLimitForTier: getInputLimit } = require('../config/tier-pricing.config');
-      const maxInputTokens = getInputLimit(userTier);
-      const estimatedInputTokens = Math.ceil(message.length / 4);
-      if (estimatedInputTokens > maxInputTokens) {
-        yield { type: 'error', data: { message: `Your message is too long for your ${userTier} tier (estimated ~${estimatedInputTokens} tokens, limit is ${maxInputTokens}). Shorten your message or upgrade.` } };
-        return;
-      }
-
-      // 🚫 Validate model access and budget
-      let finalLLM = selectedLLM;
-      try {
-        finalLLM = await this.validateModelAccessAndBudget(userId, userTier, selectedLLM);
-      } catch (error: any) {
-        yield { type: 'error', data: { message: error.message } };
-        return;
-      }
-
-      // 🧬 Get E-DNA profile (SAME AS processMessage)
-      let ednaProfile: any = null;
-      console.log(`\n🧬🧬🧬 [ChatService] FETCHING E-DNA for userId: ${userId}`);
-      console.log(`🧬 [ChatService] E-DNA service enabled: ${this.ednaProfileService.isEnabled()}`);
-      console.log(`🧬 [ChatService] Is anonymous user: ${userId === '00000000-0000-0000-0000-000000000000'}`);
-      
-      if (this.ednaProfileService.isEnabled() && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          ednaProfile = await this.ednaProfileService.getEdnaProfile(userId, false, userJwt);
-          console.log(`🧬 [ChatService] ✅ E-DNA profile LOADED! CoreType: ${ednaProfile?.layer1?.coreType || 'unknown'}`);
-        } catch (ednaError: any) {
-          console.error(`🧬 [ChatService StreamV2] ❌ E-DNA profile FAILED: ${ednaError?.message}`);
-        }
-      } else {
-        console.log(`🧬 [ChatService] ⚠️ E-DNA SKIPPED - service disabled or anonymous user`);
-      }
-
-      // Send profile and analysis data
-      yield { type: 'profile', data: cleanedProfile };
-      yield { type: 'analysis', data: analysis };
-      yield { type: 'generating', data: { message: 'Generating response...' } };
-
-      // ✅ Stream the advice using the SAME perfect generateAdviceWithProfile logic
-      let fullResponse = '';
-      let reasoning = '';
-
-      for await (const chunk of this.adviceGenerator.generateAdviceWithProfileStreaming(
-        message,
-        cleanedProfile,
-        historyBeforeCurrent,
-        finalLLM,
-        actualSessionId,
-        userId,
-        ednaProfile,
-        userTier,
-        decisionIntelligenceMode,
-      )) {
-        if (chunk.type === 'token') {
-          fullResponse += chunk.content;
-          yield { type: 'token', data: { content: chunk.content } };
-        } else if (chunk.type === 'reasoning') {
-          reasoning = chunk.content;
-          yield { type: 'reasoning', data: { content: chunk.content } };
-        } else if (chunk.type === 'done') {
-          if (chunk.content) {
-            fullResponse = chunk.content;
-          }
-        }
-      }
-
-      // Generate recommendations
-      const recommendations = this.generateContextualRecommendations(analysis, conversationInsights, message);
-
-      // Defense in depth: never save empty content to Munawar (avoids 400 "Content is required")
-      const contentToSave = (typeof fullResponse === 'string' && fullResponse.trim().length > 0)
-        ? fullResponse
-        : "I'm here. Something went wrong generating that reply. Please try again.";
-
-      // ✅ Save assistant message with credits snapshot for iOS
-      const assistantSequenceNumber = nextSequenceNumber + 1;
-      const creditCheckStream = await this.creditService.checkCredits(userId, userTier);
-      const creditStatsStream = await this.creditService.getUsageStats(userId, userTier);
-      const creditsSnapshotStream = {
-        allowed: creditCheckStream.allowed,
-        tokensUsed: creditStatsStream.tokensUsed,
-        tokensIncluded: creditStatsStream.tokensIncluded,
-        creditsUsed: creditStatsStream.creditsUsed,
-        creditsIncluded: creditStatsStream.creditsIncluded,
-        baseAllowance: creditStatsStream.baseAllowance,
-        topUpCarried: creditStatsStream.topUpCarried,
-        topUpAddedThisMonth: creditStatsStream.topUpAddedThisMonth,
-        usagePercentage: creditStatsStream.usagePercentage,
-        warning: creditCheckStream.warning,
-        message: creditCheckStream.message ?? null,
-      };
-      await this.chatRepository.saveAssistantMessage(
-        actualSessionId,
-        userId,
-        contentToSave,
-        assistantSequenceNumber,
-        selectedLLM,
-        reasoning,
-        analysis,
-        recommendations,
-        cleanedProfile,
-        undefined,
-        userJwt,
-        creditsSnapshotStream,
-      );
-
-      // ✅ Update session
-      const messageCount = await this.chatRepository.getSessionMessageCount(actualSessionId, userJwt);
-      let title: string | undefined = session.title ?? undefined;
-      if (!title && existingMessages.length === 0) {
-        title = message.length > 50 ? message.substring(0, 50) + '...' : message;
-      }
-
-      const sessionUpdates: { title?: string; currentProfile?: any; messageCount?: number; selectedLLM?: string } = {
-        currentProfile: cleanedProfile,
-        messageCount,
-        selectedLLM,
-      };
-      if (title && title.trim().length > 0) {
-        sessionUpdates.title = title;
-      }
-      await this.chatRepository.updateSession(actualSessionId, userId, sessionUpdates, userJwt);
-
-      // Final done chunk (use contentToSave so client never gets empty response)
-      console.log(`🏁 [ChatService] Sending DONE chunk. Reasoning length: ${reasoning?.length || 0}, sample: ${reasoning?.substring(0, 80)}`);
-      yield {
-        type: 'done',
-        data: {
-          response: contentToSave,
-          sessionId: actualSessionId,
-          analysis,
-          recommendations,
-          reasoning,
-          profile: cleanedProfile,
-        },
-      };
-    } catch (error: any) {
-      console.error('Error in processMessageWithStreaming:', error);
-      // Save fallback assistant message so Munawar's DB has a reply (user message already saved)
-      try {
-        if (streamFallbackSessionId && streamFallbackAssistantSeq !== undefined) {
-          await this.chatRepository.saveAssistantMessage(
-            streamFallbackSessionId,
-            userId,
-            "I'm here to help! Something went wrong. Please try again.",
-            streamFallbackAssistantSeq,
-            selectedLLM,
-            `Error: ${error?.message || 'Unknown'}`,
-            { overallInsights: 'New conversation', dominantQuotients: [], needsAttention: [], conversationContext: 'Error recovery' },
-            [],
-            {},
-            undefined,
-            userJwt,
-            { allowed: true, tokensUsed: 0, tokensIncluded: 0, creditsUsed: 0, creditsIncluded: 0, usagePercentage: 0, warning: false, message: null },
-          );
-        }
-      } catch (saveErr: any) {
-        console.error('Failed to save fallback assistant message (stream):', saveErr?.message);
-      }
-      yield { type: 'error', data: { message: error.message || 'An error occurred' } };
-    }
+    signal?: AbortSignal,
+    region?: string,
+  ): AsyncGenerator<ChatStreamEvent, void, unknown> {
+    console.log(`🔥 [ChatService.processMessageWithStreaming] session ${sessionId}, user ${userId}, LLM ${selectedLLM}`);
+    const sink = new StreamingChatSink<ChatResponseDto>(CHAT_STREAM_EVENTS);
+    const turn = createChatTurn(
+      { message, sessionId, selectedLLM, userId, userJwt, decisionIntelligenceMode, region, signal },
+      'chat-stream',
+      sink,
+    );
+    yield* sink.drain(runChatPipeline(this.chatPipeline, turn));
   }
 
   /**
@@ -694,6 +226,25 @@ export class ChatService {
     return parts.length > 0 ? parts.join('. ') : '';
   }
 
+  /**
+   * Count this request's input with the model's tokenizer: the message alone (checked against the
+   * tier input limit) and the full prompt sent for it (AdviceGeneratorService.buildAdviceMessages:
+   * system prompt with E-DNA, rolling summary, history and message) for pre-flight credit and
+   * budget checks
+   */
+  private countInputTokens(
+    message: string,
+    promptMessages: any[],
+    userTier: UserTier,
+    modelId: string,
+  ): { message: number; prompt: number; limit: number } {
+    const limit = getInputLimitForTier(userTier);
+    const messageTokens = this.tokenCounter.countMessages([{ role: 'user', content: message }], modelId);
+    const promptTokens = this.tokenCounter.countMessages(promptMessages, modelId);
+    console.log(`📏 [ChatService] Input: ~${messageTokens} message, ~${promptTokens} prompt tokens (${modelId}, limit ${limit})`);
+    return { message: messageTokens, prompt: promptTokens, limit };
+  }
+
   // Create a clean Profile object for the responder
   // Enhanced with conflict/similarity/mild handling
   /**
@@ -704,7 +255,17 @@ export class ChatService {
     userId: string,
     userTier: UserTier,
     requestedModel: string,
+    estimatedInputTokens: number = 0,
   ): Promise<string> {
+    // Aliases / retired ids → canonical registry id (billing and budgets use this)
+    requestedModel = resolveModelId(requestedModel);
+    const modelConfig = LLM_MODELS[requestedModel];
+    if (modelConfig?.status === 'deprecated') {
+      console.warn(
+        `⚠️ [ChatService] Model "${requestedModel}" is deprecated${modelConfig.replacedBy ? ` (use "${modelConfig.replacedBy}")` : ''}`
+      );
+    }
+
     // 🚫 Check if user can access the requested model
     if (!canAccessModel(userTier, requestedModel)) {
       const allowedModels = getAllowedModelsForTier(userTier);
@@ -734,6 +295,24 @@ export class ChatService {
       );
     }
 
+    // 💰 Pre-flight: this prompt plus a full-length reply must fit in what's left of the budget
+    if (estimatedInputTokens > 0 && budgetCheck.limit > 0 && budgetCheck.limit !== Infinity) {
+      const estimatedCost = this.budgetTracker.estimateCost(
+        requestedModel,
+        estimatedInputTokens,
+        getOutputLimitForTier(userTier),
+      );
+      if (estimatedCost > budgetCheck.remaining) {
+        console.warn(
+          `💰 [ChatService] Estimated cost $${estimatedCost.toFixed(4)} exceeds remaining budget $${budgetCheck.remaining.toFixed(4)} for ${requestedModel}`
+        );
+        throw new Error(
+          `Not enough monthly budget left for ${requestedModel} to answer this message. ` +
+          `Please select a different model or try a shorter message.`
+        );
+      }
+    }
+
     return requestedModel;
   }
 
@@ -745,29 +324,24 @@ export class ChatService {
     if (profile.safety) clone.safety = profile.safety;
     if (profile.summaryForThisMessage) clone.summaryForThisMessage = profile.summaryForThisMessage;
 
-    // Helper to gate by confidence >= 0.5 and has evidence if present
-    const passGate = (obj: any) => {
+    // Helper to gate by confidence (>= 0.5 unless the framework sets its own) and evidence
+    const passGate = (obj: any, gate: FrameworkDescriptor['gate'] = { minConfidence: 0.5 }) => {
       if (!obj || typeof obj !== 'object') return false;
       const conf = obj.Confidence ?? obj.confidence;
       const evidence = obj.Evidence ?? obj.evidence;
       if (conf === undefined) return true; // keep if analyzer didn't return confidence
+      // require evidence when provided (or always, when the gate says so)
+      const hasEvidence = () =>
+        Array.isArray(evidence) ? evidence.length > 0 : !gate.requireEvidence;
 
       // Handle object-based confidence (e.g. MBTI: {EI: 0.7, SN: 0.5})
       if (typeof conf === 'object' && conf !== null) {
         const maxConf = Math.max(...Object.values(conf).filter((v: any) => typeof v === 'number'));
-        if (maxConf >= 0.5) {
-          if (Array.isArray(evidence)) return evidence.length > 0;
-          return true;
-        }
-        return false;
+        return maxConf >= gate.minConfidence && hasEvidence();
       }
 
       // Handle number confidence
-      if (typeof conf === 'number' && conf >= 0.5) {
-        if (Array.isArray(evidence)) return evidence.length > 0; // require evidence when provided
-        return true;
-      }
-      return false;
+      return typeof conf === 'number' && conf >= gate.minConfidence && hasEvidence();
     };
 
     // Helper to normalize scores (handles both numeric and string formats)
@@ -805,26 +379,14 @@ export class ChatService {
 
     // Store original modules first (before integration)
     const modules: any = {};
-    if (profile.bigFive && passGate(profile.bigFive)) modules.bigFive = profile.bigFive;
-    if (profile.dass && passGate(profile.dass)) modules.dass = profile.dass;
-    if (profile.rse && passGate(profile.rse)) modules.rse = profile.rse;
-    if (profile.darkTriad && passGate(profile.darkTriad)) modules.darkTriad = profile.darkTriad;
-    if (profile.crt && passGate(profile.crt)) modules.crt = profile.crt;
-    if (profile.attachment && passGate(profile.attachment)) modules.attachment = profile.attachment;
-    // Enneagram uses lower threshold (0.2) because KB returns low confidence for ambiguous messages
-    if (profile.enneagram) {
-      const conf = profile.enneagram.Confidence ?? profile.enneagram.confidence;
-      const evidence = profile.enneagram.Evidence ?? profile.enneagram.evidence;
-      // Accept if confidence >= 0.2 (lower than standard 0.5) AND has evidence
-      const passed = conf === undefined || (typeof conf === 'number' && conf >= 0.2 && Array.isArray(evidence) && evidence.length > 0);
-      if (passed) modules.enneagram = profile.enneagram;
+    // Gate per framework (registry). Enneagram uses a lower threshold (0.2) with evidence because
+    // its KB returns low confidence for ambiguous messages; the team / group frameworks return
+    // Confidence 0.0 when there is no group context.
+    for (const framework of FRAMEWORK_REGISTRY) {
+      const result = profile[framework.id];
+      if (result && passGate(result, framework.gate)) modules[framework.id] = result;
     }
 
-    if (profile.mbti && passGate(profile.mbti)) modules.mbti = profile.mbti;
-    if (profile.erikson && passGate(profile.erikson)) modules.erikson = profile.erikson;
-    if (profile.gestalt && passGate(profile.gestalt)) modules.gestalt = profile.gestalt;
-    if (profile.bioPsych && passGate(profile.bioPsych)) modules.bioPsych = profile.bioPsych;
-
     // Enhanced conflict detection: check for theoretical conflicts between overlapping models
     const conflicts: string[] = [];
 
@@ -1523,7 +1085,8 @@ export class ChatService {
   }
 
   /**
-   * Process message with streaming response
+   * Process message with streaming response (POST /chat/stream): the chat pipeline with the
+   * deprecated generateAdviceStream prompt
    */
   async *processMessageStream(
     message: string,
@@ -1532,279 +1095,15 @@ export class ChatService {
     userId: string = '00000000-0000-0000-0000-000000000000',
     userJwt?: string,
     decisionIntelligenceMode?: boolean,
-  ): AsyncGenerator<{ type: string; data: any }, void, unknown> {
-    let stream2FallbackSessionId: string | undefined;
-    let stream2FallbackAssistantSeq: number | undefined;
-    try {
-      // ✅ Get or create session in database
-      const session = await this.chatRepository.getOrCreateSession(
-        sessionId,
-        userId,
-        selectedLLM,
-        userJwt,
-      );
-      
-      const actualSessionId = session.id || sessionId;
-
-      // ✅ Load existing messages from database
-      const existingMessages = await this.chatRepository.getSessionMessages(actualSessionId, userId, userJwt);
-      
-      // ✅ Get next sequence number
-      const nextSequenceNumber = existingMessages.length + 1;
-
-      // ✅ Save user message to database
-      await this.chatRepository.saveUserMessage(actualSessionId, userId, message, nextSequenceNumber, userJwt);
-      stream2FallbackSessionId = actualSessionId;
-      stream2FallbackAssistantSeq = nextSequenceNumber + 1;
-
-      // ✅ Build history array
-      const historyBeforeCurrent: ConversationMessage[] = existingMessages.map((m) => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content,
-        timestamp: m.createdAt || new Date(),
-      }));
-
-      // Run psychological analysis (non-streaming, happens first)
-      yield { type: 'analyzing', data: { message: 'Analyzing your message...' } };
-      
-      const psychProfile = await this.parallelLLM.analyze(
-        message,
-        historyBeforeCurrent,
-        actualSessionId,
-        selectedLLM,
-        userId,
-      );
-
-      const conversationInsights = this.conversationAnalyzer.analyzeConversation([
-        ...existingMessages.map((m) => ({ 
-          role: m.role as 'user' | 'assistant', 
-          content: m.content, 
-          timestamp: m.createdAt || new Date() 
-        })),
-        { role: 'user' as const, content: message, timestamp: new Date() },
-      ]);
-
-      const analysis = this.personalityAnalyzer.analyzePersonality(message, actualSessionId, [
-        ...existingMessages.map((m) => ({ 
-          role: m.role as 'user' | 'assistant', 
-          content: m.content, 
-          timestamp: m.createdAt || new Date() 
-        })),
-        { role: 'user' as const, content: message, timestamp: new Date() },
-      ]);
-
-      const enhancedInsights = this.buildEnhancedInsightsFromProfile(psychProfile, conversationInsights);
-      analysis.overallInsights = enhancedInsights;
-
-      let cleanedProfile = this.buildCleanProfile(psychProfile);
-      
-      // 📝 Get user tier from Munawar's API (no override)
-      let userTierRaw: string = 'free';
-      let ednaProfile: any = null;
-      if (this.ednaProfileService.isEnabled() && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          ednaProfile = await this.ednaProfileService.getEdnaProfile(userId, false, userJwt);
-        } catch (ednaError: any) {
-          console.error(`🧬 [ChatService] ❌ E-DNA profile FAILED: ${ednaError?.message}`);
-        }
-      }
-      if (this.useIOSEDNA && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          const ednaProfileResponse = await this.iosBackend.getUserProfile(userId, userJwt);
-          if (ednaProfileResponse?.success && ednaProfileResponse.user?.tier) {
-            userTierRaw = ednaProfileResponse.user.tier.toLowerCase();
-            console.log(`📝 [ChatService Stream] User tier: ${userTierRaw}`);
-          }
-        } catch (error: any) {
-          try {
-            const userResponse = await this.iosBackend.getUserById(userId, userJwt);
-            if (userResponse?.success && userResponse.user?.tier) {
-              userTierRaw = userResponse.user.tier.toLowerCase();
-              console.log(`📝 [ChatService Stream] User tier from getUserById: ${userTierRaw}`);
-            }
-          } catch (fallbackError: any) {
-            console.warn(`⚠️ [ChatService Stream] Could not fetch user tier`);
-          }
-        }
-      }
-      if (userTierRaw === 'free' && userId !== '00000000-0000-0000-0000-000000000000') {
-        try {
-          const userResponse = await this.iosBackend.getUserById(userId, userJwt);
-          if (userResponse?.success && userResponse.user?.tier) {
-            userTierRaw = userResponse.user.tier.toLowerCase();
-          }
-        } catch (e: any) {
-          // keep free
-        }
-      }
-
-      // 🎯 Validate and normalize user tier
-      const userTier: UserTier = validateUserTier(userTierRaw);
-      console.log(`🎯 [ChatService Stream] Validated user tier: ${userTier}`);
-
-      // 💳 Check credits (with tier-aware allowance)
-      const creditCheck = await this.creditService.checkCredits(userId, userTier);
-      if (!creditCheck.allowed) {
-        yield { type: 'error', data: { message: creditCheck.message || 'Credit limit reached', code: 'CREDIT_LIMIT_EXCEEDED' } };
-        return;
-      }
-
-      // 📏 Enforce input token limit for tier
-      const { getInputLimitForTier: getInputLimitStream } = require('../config/tier-pricing.config');
-      const maxInputTokensStream = getInputLimitStream(userTier);
-      const estimatedInputTokensStream = Math.ceil(message.length / 4);
-      if (estimatedInputTokensStream > maxInputTokensStream) {
-        yield { type: 'error', data: { message: `Your message is too long for your ${userTier} tier (estimated ~${estimatedInputTokensStream} tokens, limit is ${maxInputTokensStream}). Shorten your message or upgrade.` } };
-        return;
-      }
-
-      // 🚫 Validate model access and budget
-      let finalLLM = selectedLLM;
-      try {
-        finalLLM = await this.validateModelAccessAndBudget(userId, userTier, selectedLLM);
-      } catch (error: any) {
-        yield { type: 'error', data: { message: error.message } };
-        return;
-      }
-
-      // Send profile data
-      yield { type: 'profile', data: cleanedProfile };
-      yield { type: 'analysis', data: analysis };
-
-      // Stream the advice response
-      yield { type: 'generating', data: { message: 'Generating response...' } };
-      
-      let fullResponse = '';
-      let reasoning = '';
-
-      // Stream tokens as they arrive
-      for await (const chunk of this.adviceGenerator.generateAdviceStream(
-        message,
-        cleanedProfile,
-        historyBeforeCurrent,
-        finalLLM,
-        actualSessionId,
-        userId,
-        ednaProfile,
-        userTier, // 📝 Pass tier for rolling summary history limits (extracted from Munawar's backend)
-        decisionIntelligenceMode,
-      )) {
-        if (chunk.type === 'token') {
-          fullResponse += chunk.content;
-          // Yield each token immediately for real-time streaming
-          yield { type: 'token', data: { content: chunk.content } };
-        } else if (chunk.type === 'reasoning') {
-          reasoning = chunk.content;
-          yield { type: 'reasoning', data: { content: chunk.content } };
-        } else if (chunk.type === 'done') {
-          // If we got a done with content, use it; otherwise use accumulated
-          if (chunk.content && chunk.content !== fullResponse) {
-            fullResponse = chunk.content;
-          }
-        }
-      }
-
-      // Generate recommendations
-      const recommendations = this.generateContextualRecommendations(
-        analysis,
-        conversationInsights,
-        message,
-      );
-
-      // Defense in depth: never save empty content to Munawar
-      const contentToSaveStream2 = (typeof fullResponse === 'string' && fullResponse.trim().length > 0)
-        ? fullResponse
-        : "I'm here. Something went wrong generating that reply. Please try again.";
-
-      // Save assistant message with credits snapshot for iOS
-      const assistantSequenceNumber = nextSequenceNumber + 1;
-      const creditCheckStream2 = await this.creditService.checkCredits(userId, userTier);
-      const creditStatsStream2 = await this.creditService.getUsageStats(userId, userTier);
-      const creditsSnapshotStream2 = {
-        allowed: creditCheckStream2.allowed,
-        tokensUsed: creditStatsStream2.tokensUsed,
-        tokensIncluded: creditStatsStream2.tokensIncluded,
-        creditsUsed: creditStatsStream2.creditsUsed,
-        creditsIncluded: creditStatsStream2.creditsIncluded,
-        baseAllowance: creditStatsStream2.baseAllowance,
-        topUpCarried: creditStatsStream2.topUpCarried,
-        topUpAddedThisMonth: creditStatsStream2.topUpAddedThisMonth,
-        usagePercentage: creditStatsStream2.usagePercentage,
-        warning: creditCheckStream2.warning,
-        message: creditCheckStream2.message ?? null,
-      };
-      await this.chatRepository.saveAssistantMessage(
-        actualSessionId,
-        userId,
-        contentToSaveStream2,
-        assistantSequenceNumber,
-        selectedLLM,
-        reasoning,
-        analysis,
-        recommendations,
-        cleanedProfile,
-        undefined,
-        userJwt,
-        creditsSnapshotStream2,
-      );
-
-      // Update session
-      const messageCount = await this.chatRepository.getSessionMessageCount(actualSessionId, userJwt);
-      let title: string | undefined = session.title ?? undefined;
-      if (!title && existingMessages.length === 0) {
-        title = message.length > 50 ? message.substring(0, 50) + '...' : message;
-      }
-
-      const sessionUpdates: {
-        title?: string;
-        currentProfile?: any;
-        messageCount?: number;
-        selectedLLM?: string;
-      } = {
-        currentProfile: cleanedProfile,
-        messageCount,
-        selectedLLM,
-      };
-
-      if (title && title.trim().length > 0) {
-        sessionUpdates.title = title;
-      }
-
-      await this.chatRepository.updateSession(actualSessionId, userId, sessionUpdates, userJwt);
-
-      // Send final data (use contentToSaveStream2 so client never gets empty)
-      yield { type: 'done', data: { 
-        sessionId: actualSessionId,
-        response: contentToSaveStream2,
-        reasoning,
-        analysis,
-        recommendations,
-        profile: cleanedProfile,
-      } };
-    } catch (error: any) {
-      console.error('Error in processMessageStream:', error);
-      if (stream2FallbackSessionId && stream2FallbackAssistantSeq !== undefined) {
-        try {
-          await this.chatRepository.saveAssistantMessage(
-            stream2FallbackSessionId,
-            userId,
-            "I'm here to help! Something went wrong. Please try again.",
-            stream2FallbackAssistantSeq,
-            selectedLLM,
-            `Error: ${error?.message || 'Unknown'}`,
-            { overallInsights: 'New conversation', dominantQuotients: [], needsAttention: [], conversationContext: 'Error recovery' },
-            [],
-            {},
-            undefined,
-            userJwt,
-            { allowed: true, tokensUsed: 0, tokensIncluded: 0, creditsUsed: 0, creditsIncluded: 0, usagePercentage: 0, warning: false, message: null },
-          );
-        } catch (saveErr: any) {
-          console.error('Failed to save fallback assistant message (stream2):', saveErr?.message);
-        }
-      }
-      yield { type: 'error', data: { message: error.message || 'An error occurred' } };
-    }
+    region?: string,
+  ): AsyncGenerator<ChatStreamEvent, void, unknown> {
+    const sink = new StreamingChatSink<ChatResponseDto>(CHAT_STREAM_EVENTS);
+    const turn = createChatTurn(
+      { message, sessionId, selectedLLM, userId, userJwt, decisionIntelligenceMode, region },
+      'stream',
+      sink,
+    );
+    yield* sink.drain(runChatPipeline(this.legacyStreamPipeline, turn));
   }
 
   // -------------------------------------------------------------------------
@@ -1819,87 +1118,25 @@ export class ChatService {
     sessionId: string,
     guestUserId: string | undefined,
     selectedLLM: string = GUEST_DEFAULT_LLM,
+    region?: string,
   ): Promise<GuestChatResponseDto> {
-    const resolvedGuestId = guestUserId?.trim() || uuidv4();
-    if (this.guestSessionService.isOverCap(resolvedGuestId)) {
-      throw new HttpException(
-        {
-          message: `Guest message limit reached (${GUEST_MESSAGE_CAP} messages). Sign up or log in to continue.`,
-          code: 'GUEST_LIMIT_REACHED',
-        },
-        HttpStatus.FORBIDDEN,
-      );
-    }
-    const history = this.guestSessionService.getHistory(sessionId);
-    console.log(`[Guest] sessionId=${sessionId.slice(0, 8)}... history.length=${history.length}`);
-    const { response, reasoning } = await this.adviceGenerator.generateGuestAdvice(
-      message,
-      history,
-      selectedLLM,
-    );
-    this.guestSessionService.appendMessages(resolvedGuestId, sessionId, message, response);
-    const messagesUsed = this.guestSessionService.getMessageCount(resolvedGuestId);
-    const out: GuestChatResponseDto = {
-      response,
-      reasoning,
-      sessionId,
-      messagesUsed,
-      messagesCap: GUEST_MESSAGE_CAP,
-    };
-    if (!guestUserId?.trim()) out.guestUserId = resolvedGuestId;
-    return out;
+    const sink = new CollectingChatSink<GuestChatResponseDto>();
+    const turn = createGuestChatTurn({ message, sessionId, guestUserId, selectedLLM, region }, sink);
+    return sink.collect(runChatPipeline(this.guestPipeline, turn));
   }
 
   /**
-   * Stream guest reply. Same cap and storage as processGuestMessage.
+   * Stream guest reply. Same pipeline, cap and storage as processGuestMessage.
    */
   async *processGuestMessageWithStreaming(
     message: string,
     sessionId: string,
     guestUserId: string | undefined,
     selectedLLM: string = GUEST_DEFAULT_LLM,
-  ): AsyncGenerator<
-    { type: 'reasoning' | 'token' | 'done' | 'error'; content?: string; data?: Partial<GuestChatResponseDto> },
-    void,
-    unknown
-  > {
-    const resolvedGuestId = guestUserId?.trim() || uuidv4();
-    if (this.guestSessionService.isOverCap(resolvedGuestId)) {
-      yield {
-        type: 'error',
-        content: `Guest message limit reached (${GUEST_MESSAGE_CAP} messages). Sign up or log in to continue.`,
-      };
-      return;
-    }
-    const history = this.guestSessionService.getHistory(sessionId);
-    let fullResponse = '';
-    try {
-      for await (const chunk of this.adviceGenerator.generateGuestAdviceStream(
-        message,
-        history,
-        selectedLLM,
-      )) {
-        if (chunk.type === 'reasoning') yield { type: 'reasoning', content: chunk.content };
-        if (chunk.type === 'token') yield { type: 'token', content: chunk.content };
-        if (chunk.type === 'done') {
-          fullResponse = chunk.content || '';
-          break;
-        }
-      }
-      this.guestSessionService.appendMessages(resolvedGuestId, sessionId, message, fullResponse);
-      const messagesUsed = this.guestSessionService.getMessageCount(resolvedGuestId);
-      yield {
-        type: 'done',
-        data: {
-          response: fullResponse,
-          sessionId,
-          guestUserId: !guestUserId?.trim() ? resolvedGuestId : undefined,
-          messagesUsed,
-          messagesCap: GUEST_MESSAGE_CAP,
-        },
-      };
-    } catch (err: any) {
-      yield { type: 'error', content: err?.message || 'An error occurred' };
-    }
+    region?: string,
+  ): AsyncGenerator<GuestStreamEvent, void, unknown> {
+    const sink = new StreamingChatSink<GuestChatResponseDto, GuestStreamEvent>(GUEST_STREAM_EVENTS);
+    const turn = createGuestChatTurn({ message, sessionId, guestUserId, selectedLLM, region }, sink);
+    yield* sink.drain(runChatPipeline(this.guestPipeline, turn));
   }
 }
@@ -120,4 +120,15 @@ describe('CreditService', () => {
     expect(check.creditsUsed).toBe(80);
     expect(check.allowed).toBe(true);
   });
+
+  it('checkCredits with a prompt estimate blocks requests the remaining credits cannot cover', async () => {
+    const currentMonth = `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
+    const key = `${userId}:${currentMonth}`;
+    (usageStore.setCreditRecord as jest.Mock)(key, { userId, month: currentMonth, creditsUsed: 98, requestCount: 40 });
+    expect((await service.checkCredits(userId, 'free')).allowed).toBe(true);
+    expect((await service.checkCredits(userId, 'free', 1_500)).allowed).toBe(true);
+    const check = await service.checkCredits(userId, 'free', 3_000);
+    expect(check.allowed).toBe(false);
+    expect(check.message).toContain('needs about 3.0 credits');
+  });
 });
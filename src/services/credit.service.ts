@@ -4,6 +4,7 @@ import { SubscriptionService } from './subscription.service';
 import { UsageStoreService } from './usage-store.service';
 import { IOSBackendService } from './ios-backend.service';
 import { UserTier } from '../config/tier-pricing.config';
+import { getFrameworkCapForTier } from '../config/subscription.config';
 
 /** 1 credit = 1000 tokens (used for display and storage). */
 export const TOKENS_PER_CREDIT = 1000;
@@ -264,7 +265,11 @@ export class CreditService {
     return base + topUp;
   }
 
-  async checkCredits(userId: string, userTier?: UserTier): Promise<CreditCheckResult> {
+  /**
+   * With estimatedTokens (pre-flight check for a request's prompt), the request is only allowed
+   * if the remaining credits cover it; without, any remaining credit allows it.
+   */
+  async checkCredits(userId: string, userTier?: UserTier, estimatedTokens: number = 0): Promise<CreditCheckResult> {
     const tier = userTier || 'free';
     const baseAllowance = this.getAllowanceForTier(tier);
     const usage = await this.getUsageThisMonth(userId, tier);
@@ -273,10 +278,13 @@ export class CreditService {
     const creditsAvailable = Math.max(0, creditsIncluded - creditsUsed);
     const usagePercentage = creditsIncluded > 0 ? (creditsUsed / creditsIncluded) * 100 : 0;
     const warning = usagePercentage >= 80;
-    const allowed = creditsUsed < creditsIncluded;
+    const estimatedCredits = estimatedTokens / TOKENS_PER_CREDIT;
+    const allowed = creditsUsed < creditsIncluded && estimatedCredits <= creditsAvailable;
 
     let message: string | undefined;
-    if (!allowed) {
+    if (!allowed && creditsUsed < creditsIncluded) {
+      message = `This message needs about ${estimatedCredits.toFixed(1)} credits but only ${creditsAvailable.toFixed(1)} remain this month. Shorten your message, start a new conversation, or upgrade your plan.`;
+    } else if (!allowed) {
       message = `Credit limit reached. You've used ${creditsUsed.toFixed(1)} of ${creditsIncluded.toLocaleString()} credits this month. Upgrade your plan or wait until next month.`;
     } else if (warning) {
       message = `You've used ${usagePercentage.toFixed(0)}% of your monthly credits (${creditsUsed.toFixed(1)} / ${creditsIncluded.toLocaleString()}).`;
@@ -294,7 +302,7 @@ export class CreditService {
       topUpAddedThisMonth: usage.topUpAddedThisMonth,
       usagePercentage,
       warning,
-      frameworkCap: 11,
+      frameworkCap: getFrameworkCapForTier(tier),
       premiumRepliesAvailable: 100,
       premiumRepliesUsed: 0,
       message,
@@ -377,7 +385,7 @@ export class CreditService {
       usagePercentage,
       premiumRepliesUsed: 0,
       premiumRepliesIncluded: 100,
-      frameworkCap: 11,
+      frameworkCap: getFrameworkCapForTier(tier),
     };
   }
 
@@ -0,0 +1,78 @@
+import { EXPERIMENTS, ExperimentDefinition } from '../config/experiments.config';
+import { ExperimentService } from './experiment.service';
+import { UsageStoreService } from './usage-store.service';
+
+describe('ExperimentService', () => {
+  const experiment: ExperimentDefinition = {
+    id: 'spec-experiment',
+    enabled: true,
+    surface: 'chat',
+    variants: [
+      { id: 'control', weight: 3 },
+      { id: 'cooler', weight: 1, temperature: 0.4 },
+    ],
+  };
+  let records: Record<string, any>;
+  let service: ExperimentService;
+
+  beforeEach(() => {
+    records = {};
+    EXPERIMENTS.unshift(experiment);
+    const usageStore = {
+      getExperimentRecord: jest.fn((key: string) => records[key]),
+      setExperimentRecord: jest.fn((key: string, record: any) => (records[key] = record)),
+      getAllExperimentKeys: jest.fn(() => Object.keys(records)),
+    };
+    service = new ExperimentService(usageStore as unknown as UsageStoreService);
+  });
+
+  afterEach(() => {
+    EXPERIMENTS.splice(EXPERIMENTS.indexOf(experiment), 1);
+  });
+
+  it('assigns the same user to the same variant, split by weight', () => {
+    const userIds = Array.from({ length: 2000 }, (_, i) => `user-${i}`);
+    const first = userIds.map((id) => service.assign('chat', id)!.variantId);
+    const second = userIds.map((id) => service.assign('chat', id)!.variantId);
+
+    expect(second).toEqual(first);
+    const controlShare = first.filter((v) => v === 'control').length / userIds.length;
+    expect(controlShare).toBeGreaterThan(0.7);
+    expect(controlShare).toBeLessThan(0.8);
+    expect(service.assign('chat', userIds.find((_, i) => first[i] === 'cooler'))!.temperature).toBe(0.4);
+  });
+
+  it('does not enroll anonymous users or other surfaces', () => {
+    expect(service.assign('chat', '00000000-0000-0000-0000-000000000000')).toBeUndefined();
+    expect(service.assign('chat', undefined)).toBeUndefined();
+    expect(service.assign('guest', 'user-1')).toBeUndefined();
+  });
+
+  it('aggregates reply length, continuation, cost and feedback per variant', () => {
+    const assignment = { experimentId: experiment.id, variantId: 'control', promptVersions: {} };
+    service.recordReply(assignment, 'session-a', {
+      responseChars: 100,
+      usage: { inputTokens: 600, outputTokens: 400, cachedTokens: 0, reasoningTokens: 0 },
+      costUSD: 0.002,
+    });
+    service.recordReply(assignment, 'session-a', { responseChars: 300, costUSD: 0.004 });
+    service.recordReply(assignment, 'session-b', { responseChars: 200 });
+
+    expect(service.recordFeedback('session-a', 'up')).toEqual({ experimentId: experiment.id, variantId: 'control' });
+    service.recordFeedback('session-b', 'down');
+    expect(service.recordFeedback('session-unknown', 'up')).toBeNull();
+
+    const control = service.getResults().find((r) => r.id === experiment.id)!.variants[0];
+    expect(control).toMatchObject({
+      variantId: 'control',
+      replies: 3,
+      sessions: 2,
+      continuationRate: 0.5,
+      avgResponseChars: 200,
+      feedback: { up: 1, down: 1, positiveRate: 0.5 },
+    });
+    expect(control.avgCostUSD).toBeCloseTo(0.002);
+    const cooler = service.getResults().find((r) => r.id === experiment.id)!.variants[1];
+    expect(cooler).toMatchObject({ replies: 0, continuationRate: null, avgResponseChars: null });
+  });
+});
@@ -0,0 +1,203 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import {
+  EXPERIMENTS,
+  ExperimentDefinition,
+  ExperimentSurface,
+  validateExperiment,
+} from '../config/experiments.config';
+import { PromptSurface } from '../knowledge-base/prompt-versions';
+import { LLMTokenUsage } from '../interfaces/llm-provider.interface';
+import { TOKENS_PER_CREDIT } from './credit.service';
+import { UsageStoreService } from './usage-store.service';
+
+const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+/** The variant a user is in, with the overrides to apply to their replies. */
+export interface ExperimentAssignment {
+  experimentId: string;
+  variantId: string;
+  promptVersions: Partial<Record<PromptSurface, string>>;
+  model?: string;
+  temperature?: number;
+}
+
+export type ExperimentFeedbackRating = 'up' | 'down';
+
+/** Outcome counters of one variant (persisted by UsageStoreService). */
+interface VariantOutcomeRecord {
+  experimentId: string;
+  variantId: string;
+  replies: number;
+  responseChars: number;
+  costUSD: number;
+  tokens: number;
+  feedbackUp: number;
+  feedbackDown: number;
+  /** Replies per session; sessions with 2+ replies count as continued. */
+  sessions: Record<string, number>;
+}
+
+export interface VariantResults {
+  variantId: string;
+  weight: number;
+  replies: number;
+  sessions: number;
+  /** Share of sessions where the user came back after the first reply. */
+  continuationRate: number | null;
+  avgResponseChars: number | null;
+  feedback: { up: number; down: number; positiveRate: number | null };
+  totalCostUSD: number;
+  avgCostUSD: number | null;
+  avgCredits: number | null;
+}
+
+export interface ExperimentResults {
+  id: string;
+  description?: string;
+  enabled: boolean;
+  surface: ExperimentSurface;
+  errors: string[];
+  variants: VariantResults[];
+}
+
+/**
+ * Experiment Service
+ *
+ * Assigns users to experiment variants (experiments.config.ts) and aggregates per-variant
+ * outcomes: feedback, reply length, session continuation and credit cost. Invalid experiments
+ * are logged at startup and never assigned.
+ */
+@Injectable()
+export class ExperimentService {
+  private readonly invalid = new Map<string, string[]>();
+
+  constructor(private usageStore: UsageStoreService) {
+    for (const experiment of EXPERIMENTS) {
+      const errors = validateExperiment(experiment);
+      if (errors.length > 0) {
+        this.invalid.set(experiment.id, errors);
+        console.error(`❌ [Experiments] "${experiment.id}" disabled: ${errors.join('; ')}`);
+      }
+    }
+    const active = EXPERIMENTS.filter((e) => e.enabled && !this.invalid.has(e.id)).map((e) => e.id);
+    console.log(`🧪 [Experiments] Active: ${active.length > 0 ? active.join(', ') : 'none'}`);
+  }
+
+  /**
+   * Variant for this user on a surface (first enabled experiment for it), or undefined when the
+   * user isn't enrolled. Deterministic: same user, same variant.
+   */
+  assign(surface: ExperimentSurface, userId: string | undefined): ExperimentAssignment | undefined {
+    if (!userId || userId === ANONYMOUS_USER_ID) return undefined;
+    const experiment = EXPERIMENTS.find((e) => e.surface === surface && e.enabled && !this.invalid.has(e.id));
+    if (!experiment) return undefined;
+
+    const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+    let point = this.bucket(experiment.id, userId) * totalWeight;
+    const variant =
+      experiment.variants.find((v) => (point -= v.weight) < 0) || experiment.variants[experiment.variants.length - 1];
+    return {
+      experimentId: experiment.id,
+      variantId: variant.id,
+      promptVersions: variant.promptVersions || {},
+      model: variant.model,
+      temperature: variant.temperature,
+    };
+  }
+
+  /** Count a reply served by a variant. */
+  recordReply(
+    assignment: ExperimentAssignment,
+    sessionId: string,
+    reply: { responseChars: number; usage?: LLMTokenUsage | null; costUSD?: number },
+  ): void {
+    const record = this.getRecord(assignment.experimentId, assignment.variantId);
+    record.replies += 1;
+    record.responseChars += reply.responseChars;
+    record.costUSD += reply.costUSD || 0;
+    record.tokens += reply.usage ? reply.usage.inputTokens + reply.usage.outputTokens : 0;
+    record.sessions[sessionId] = (record.sessions[sessionId] || 0) + 1;
+    this.usageStore.setExperimentRecord(this.recordKey(record.experimentId, record.variantId), record);
+  }
+
+  /**
+   * Count feedback on a session's replies against the variant that served it. Returns that
+   * variant, or null when the session isn't in an experiment.
+   */
+  recordFeedback(
+    sessionId: string,
+    rating: ExperimentFeedbackRating,
+  ): { experimentId: string; variantId: string } | null {
+    for (const key of this.usageStore.getAllExperimentKeys()) {
+      const record: VariantOutcomeRecord = this.usageStore.getExperimentRecord(key);
+      if (!record?.sessions?.[sessionId]) continue;
+      if (rating === 'up') record.feedbackUp += 1;
+      else record.feedbackDown += 1;
+      this.usageStore.setExperimentRecord(key, record);
+      console.log(`🧪 [Experiments] Feedback ${rating} for ${record.experimentId}/${record.variantId}`);
+      return { experimentId: record.experimentId, variantId: record.variantId };
+    }
+    return null;
+  }
+
+  /** Every configured experiment with outcome metrics per variant. */
+  getResults(): ExperimentResults[] {
+    return EXPERIMENTS.map((experiment: ExperimentDefinition) => ({
+      id: experiment.id,
+      description: experiment.description,
+      enabled: experiment.enabled && !this.invalid.has(experiment.id),
+      surface: experiment.surface,
+      errors: this.invalid.get(experiment.id) || [],
+      variants: experiment.variants.map((variant) => {
+        const record = this.getRecord(experiment.id, variant.id);
+        const sessionCounts = Object.values(record.sessions);
+        const feedbackTotal = record.feedbackUp + record.feedbackDown;
+        const perReply = (total: number) => (record.replies > 0 ? total / record.replies : null);
+        return {
+          variantId: variant.id,
+          weight: variant.weight,
+          replies: record.replies,
+          sessions: sessionCounts.length,
+          continuationRate:
+            sessionCounts.length > 0 ? sessionCounts.filter((n) => n > 1).length / sessionCounts.length : null,
+          avgResponseChars: perReply(record.responseChars),
+          feedback: {
+            up: record.feedbackUp,
+            down: record.feedbackDown,
+            positiveRate: feedbackTotal > 0 ? record.feedbackUp / feedbackTotal : null,
+          },
+          totalCostUSD: record.costUSD,
+          avgCostUSD: perReply(record.costUSD),
+          avgCredits: perReply(record.tokens / TOKENS_PER_CREDIT),
+        };
+      }),
+    }));
+  }
+
+  /** Uniform point in [0, 1) from experiment id + user id. */
+  private bucket(experimentId: string, userId: string): number {
+    const hash = createHash('sha256').update(`${experimentId}:${userId.trim().toLowerCase()}`).digest();
+    return hash.readUInt32BE(0) / 2 ** 32;
+  }
+
+  private recordKey(experimentId: string, variantId: string): string {
+    return `${experimentId}:${variantId}`;
+  }
+
+  private getRecord(experimentId: string, variantId: string): VariantOutcomeRecord {
+    return (
+      this.usageStore.getExperimentRecord(this.recordKey(experimentId, variantId)) || {
+        experimentId,
+        variantId,
+        replies: 0,
+        responseChars: 0,
+        costUSD: 0,
+        tokens: 0,
+        feedbackUp: 0,
+        feedbackDown: 0,
+        sessions: {},
+      }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import type { AdviceGeneratorService } from './advice-generator.service';
+import type { ExperimentAssignment, ExperimentService } from './experiment.service';
+import type { GuestSessionService } from './guest-session.service';
+import type { ParallelLLMService } from './parallel-llm.service';
+import type { SafetyGateService } from './safety-gate.service';
+import { ChatPipeline, ChatSink, ChatStage, describeChatError } from './chat-pipeline';
+import { DEFAULT_LANGUAGE, detectLanguage } from '../config/language.config';
+import { GUEST_MESSAGE_CAP } from '../config/guest.config';
+import { GuestChatResponseDto } from '../dto/guest-chat.dto';
+
+/**
+ * Guest Chat Stages
+ *
+ * The stages of a guest turn (no E-DNA, no tier or credits, no Munawar persistence: the session
+ * lives in GuestSessionService), run by the same pipeline as /chat (see chat-pipeline.ts):
+ * guest → safety → message-cap → generate → persist → respond.
+ */
+
+/** SSE event of the guest chat stream (`content` for tokens and errors, `data` for done). */
+export interface GuestStreamEvent {
+  type: 'reasoning' | 'token' | 'done' | 'error';
+  content?: string;
+  data?: Partial<GuestChatResponseDto>;
+}
+
+export interface GuestChatTurnRequest {
+  message: string;
+  sessionId: string;
+  /** Guest id from the client; a new one is created (and returned) when missing */
+  guestUserId?: string;
+  selectedLLM: string;
+  /** Country for crisis resources (safety gate) */
+  region?: string;
+}
+
+/** State of one guest turn, filled in stage by stage. */
+export interface GuestChatTurn {
+  request: GuestChatTurnRequest;
+  sink: ChatSink<GuestChatResponseDto, GuestStreamEvent>;
+  guestId: string;
+  language: string;
+  experiment?: ExperimentAssignment;
+  reply: { response: string; reasoning?: string; model?: string } | null;
+}
+
+export interface GuestChatStageDeps {
+  guestSessionService: GuestSessionService;
+  safetyGate: SafetyGateService;
+  parallelLLM: ParallelLLMService;
+  experiments: ExperimentService;
+  adviceGenerator: AdviceGeneratorService;
+}
+
+export function createGuestChatTurn(
+  request: GuestChatTurnRequest,
+  sink: ChatSink<GuestChatResponseDto, GuestStreamEvent>,
+): GuestChatTurn {
+  return { request, sink, guestId: request.guestUserId?.trim() || uuidv4(), language: DEFAULT_LANGUAGE, reply: null };
+}
+
+/** SSE events of the finished reply and of a failed turn. */
+export const GUEST_STREAM_EVENTS = {
+  done: (result: GuestChatResponseDto): GuestStreamEvent => ({ type: 'done', data: result }),
+  error: (error: unknown): GuestStreamEvent => ({ type: 'error', content: describeChatError(error).message }),
+};
+
+/** Language of the message; short ones keep the language of the session's last user message. */
+export const guestStage = (deps: GuestChatStageDeps): ChatStage<GuestChatTurn> => ({
+  name: 'guest',
+  run(turn) {
+    const { message, sessionId } = turn.request;
+    const lastUserMessage = [...deps.guestSessionService.getHistory(sessionId)].reverse().find((m) => m.role === 'user');
+    const previous = lastUserMessage ? detectLanguage(lastUserMessage.content).code : undefined;
+    turn.language = detectLanguage(message, previous).code;
+  },
+});
+
+/**
+ * 🛟 Safety gate, before the cap so a guest over it still gets crisis resources (local risk check
+ * only: guests get no router analysis, so only an explicit statement of risk triggers it). The crisis
+ * reply is stored in the guest session.
+ */
+export const guestSafetyStage = (deps: GuestChatStageDeps): ChatStage<GuestChatTurn> => ({
+  name: 'safety',
+  run(turn) {
+    const { message, sessionId, region } = turn.request;
+    const decision = deps.safetyGate.enforce(
+      { sessionId, userId: turn.guestId, channel: 'guest', message, region },
+      { safety: deps.parallelLLM.detectSafetyRisk(message, turn.language) },
+    );
+    if (!decision) return;
+
+    deps.guestSessionService.appendMessages(turn.guestId, sessionId, message, decision.response);
+    turn.sink.emit({ type: 'token', content: decision.response });
+    turn.sink.complete({
+      response: decision.response,
+      sessionId,
+      messagesUsed: deps.guestSessionService.getMessageCount(turn.guestId),
+      messagesCap: GUEST_MESSAGE_CAP,
+      safety: { category: decision.category, region: decision.region, auditId: decision.auditId },
+      language: turn.language,
+      ...newGuestId(turn),
+    });
+    return 'stop';
+  },
+});
+
+export const messageCapStage = (deps: GuestChatStageDeps): ChatStage<GuestChatTurn> => ({
+  name: 'message-cap',
+  run(turn) {
+    if (deps.guestSessionService.isOverCap(turn.guestId)) {
+      throw new HttpException(
+        {
+          message: `Guest message limit reached (${GUEST_MESSAGE_CAP} messages). Sign up or log in to continue.`,
+          code: 'GUEST_LIMIT_REACHED',
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  },
+});
+
+/** Guest coach reply: token by token for streaming sinks, in one call otherwise. */
+export const guestGenerateStage = (deps: GuestChatStageDeps): ChatStage<GuestChatTurn> => ({
+  name: 'generate',
+  async run(turn) {
+    const { message, sessionId, selectedLLM } = turn.request;
+    const history = deps.guestSessionService.getHistory(sessionId);
+    console.log(`[Guest] sessionId=${sessionId.slice(0, 8)}... history.length=${history.length}`);
+    turn.experiment = deps.experiments.assign('guest', turn.guestId);
+    const model = turn.experiment?.model || selectedLLM;
+
+    if (!turn.sink.streaming) {
+      turn.reply = await deps.adviceGenerator.generateGuestAdvice(message, history, model, turn.experiment, turn.language);
+      return;
+    }
+    turn.reply = { response: '' };
+    for await (const chunk of deps.adviceGenerator.generateGuestAdviceStream(message, history, model, turn.experiment, turn.language)) {
+      if (chunk.type === 'reasoning' || chunk.type === 'token') turn.sink.emit({ type: chunk.type, content: chunk.content });
+      if (chunk.type === 'done') {
+        turn.reply.response = chunk.content || '';
+        break;
+      }
+    }
+  },
+});
+
+export const guestPersistStage = (deps: GuestChatStageDeps): ChatStage<GuestChatTurn> => ({
+  name: 'persist',
+  run(turn) {
+    const { message, sessionId } = turn.request;
+    const response = turn.reply?.response ?? '';
+    deps.guestSessionService.appendMessages(turn.guestId, sessionId, message, response);
+    if (turn.experiment) {
+      deps.experiments.recordReply(turn.experiment, sessionId, { responseChars: response.length });
+    }
+  },
+});
+
+export const guestRespondStage = (deps: GuestChatStageDeps): ChatStage<GuestChatTurn> => ({
+  name: 'respond',
+  run(turn) {
+    turn.sink.complete({
+      response: turn.reply?.response ?? '',
+      reasoning: turn.reply?.reasoning,
+      sessionId: turn.request.sessionId,
+      messagesUsed: deps.guestSessionService.getMessageCount(turn.guestId),
+      messagesCap: GUEST_MESSAGE_CAP,
+      model: turn.reply?.model,
+      language: turn.language,
+      ...newGuestId(turn),
+    });
+  },
+});
+
+/** Guest chat pipeline with the default stages (errors reach the client, nothing to recover). */
+export function createGuestChatPipeline(deps: GuestChatStageDeps): ChatPipeline<GuestChatTurn, GuestChatResponseDto> {
+  return {
+    stages: [
+      guestStage(deps),
+      guestSafetyStage(deps),
+      messageCapStage(deps),
+      guestGenerateStage(deps),
+      guestPersistStage(deps),
+      guestRespondStage(deps),
+    ],
+  };
+}
+
+/** The guest id to return, when this turn created it. */
+function newGuestId(turn: GuestChatTurn): { guestUserId?: string } {
+  return turn.request.guestUserId?.trim() ? {} : { guestUserId: turn.guestId };
+}
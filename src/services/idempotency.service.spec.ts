@@ -0,0 +1,103 @@
+import { ConfigService } from '@nestjs/config';
+import { HttpException } from '@nestjs/common';
+import { IdempotencyService, IdempotentRequest } from './idempotency.service';
+
+describe('IdempotencyService', () => {
+  let env: Record<string, string | undefined>;
+  let service: IdempotencyService;
+  const request = (overrides: Partial<IdempotentRequest> = {}): IdempotentRequest => ({
+    scope: 'chat',
+    owner: 'user-1',
+    key: 'retry-key-1',
+    fingerprint: ['I keep avoiding my manager', 'session-1', 'gpt-4o', undefined, false],
+    ...overrides,
+  });
+
+  const drain = async <E>(events: AsyncIterable<E>) => {
+    const out: E[] = [];
+    for await (const event of events) out.push(event);
+    return out;
+  };
+
+  beforeEach(() => {
+    env = {};
+    service = new IdempotencyService({ get: jest.fn((key: string) => env[key]) } as unknown as ConfigService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('runs a JSON turn once for in-flight and finished duplicates', async () => {
+    let finish!: (reply: { response: string }) => void;
+    const handler = jest.fn(() => new Promise<{ response: string }>((resolve) => (finish = resolve)));
+
+    const first = service.runOnce(request(), handler);
+    const inFlight = service.runOnce(request(), handler);
+    finish({ response: 'What worries you?' });
+
+    await expect(first.result).resolves.toEqual({ response: 'What worries you?' });
+    await expect(inFlight.result).resolves.toEqual({ response: 'What worries you?' });
+    expect(service.runOnce(request(), handler)).toMatchObject({ replayed: true });
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    // Other owners, and other requests under the same key, do not share it
+    service.runOnce(request({ owner: 'user-2' }), handler);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(() => service.runOnce(request({ fingerprint: ['another message'] }), handler)).toThrow(HttpException);
+    expect(() => service.parseKey('has spaces in it')).toThrow(HttpException);
+  });
+
+  it('replays a recorded stream, live while the original is still running', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const source = jest.fn(async function* () {
+      yield { type: 'token', data: { content: 'What ' } };
+      await gate;
+      yield { type: 'token', data: { content: 'worries you?' } };
+      yield { type: 'done', data: { response: 'What worries you?' } };
+    });
+
+    const original = service.stream(request({ fingerprint: ['stream'] }), source);
+    const attached = service.stream(request({ fingerprint: ['stream'] }), source);
+    expect(attached.replayed).toBe(true);
+    const [originalEvents, attachedEvents] = await Promise.all([drain(original.events), drain(attached.events), release()]);
+
+    expect(attachedEvents).toEqual(originalEvents);
+    expect(originalEvents.map((e) => e.type)).toEqual(['token', 'token', 'done']);
+    expect(await drain(service.stream(request({ fingerprint: ['stream'] }), source).events)).toEqual(originalEvents);
+    expect(source).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets failed requests and finished ones after the TTL', async () => {
+    const failing = service.runOnce(request(), () => Promise.reject(new Error('provider down')));
+    await expect(failing.result).rejects.toThrow('provider down');
+    const retry = service.runOnce(request(), async () => ({ response: 'ok' }));
+    expect(retry.replayed).toBe(false);
+    await retry.result;
+
+    jest.useFakeTimers({ now: Date.now() + 61 * 60 * 1000 });
+    expect(service.runOnce(request(), async () => ({ response: 'new' })).replayed).toBe(false);
+  });
+
+  it('does not keep failed turns or streams too large to replay', async () => {
+    const fallback = service.runOnce(request(), async () => ({ response: 'Something went wrong', reasoning: 'Error: provider down' }));
+    await fallback.result;
+    expect(service.runOnce(request(), async () => ({ response: 'ok' })).replayed).toBe(false);
+
+    const failures = [
+      [{ type: 'token', data: { content: 'What ' } }, { type: 'error', data: { message: 'provider down' } }],
+      [{ type: 'done', data: { response: 'Error: provider down' } }],
+    ];
+    for (const [index, events] of failures.entries()) {
+      const failed = request({ key: `failed-${index}`, fingerprint: ['stream'] });
+      expect(await drain(service.stream(failed, async function* () { yield* events; }).events)).toEqual(events);
+      expect(service.stream(failed, async function* () {}).replayed).toBe(false);
+    }
+
+    const large = request({ key: 'large', fingerprint: ['stream'] });
+    const tokens = async function* () {
+      for (let i = 0; i < 6000; i++) yield { type: 'token', data: { content: 'word ' } };
+    };
+    expect(await drain(service.stream(large, tokens).events)).toHaveLength(6000);
+    expect(service.stream(large, async function* () {}).replayed).toBe(false);
+  });
+});
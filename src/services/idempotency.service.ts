@@ -0,0 +1,227 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+
+/** One request under an Idempotency-Key. */
+export interface IdempotentRequest {
+  /** Endpoint the key belongs to */
+  scope: 'chat' | 'guest';
+  /** User id (for guests their id, session or IP): keys are only shared within one owner */
+  owner: string;
+  key: string;
+  /** What makes a retry the same request (message, session, model, stream...) */
+  fingerprint: unknown;
+}
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  /** JSON reply of the original request */
+  result?: Promise<unknown>;
+  /** SSE events of the original request, recorded as they were produced */
+  events: unknown[];
+  /** Serialized size of `events` */
+  bytes: number;
+  done: boolean;
+  error?: unknown;
+  /** Replays waiting for the next recorded event */
+  waiters: Array<() => void>;
+  completedAt?: number;
+}
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+/** Streams longer than this are not kept for replay once they finish (retries run again). */
+const MAX_RECORDED_EVENTS = 5000;
+const MAX_RECORDED_BYTES = 512 * 1024;
+
+/**
+ * Idempotency Service
+ *
+ * `Idempotency-Key` support for POST /chat and POST /chat/guest, so client retries on flaky
+ * networks do not save the user message again, re-run the analysis or charge twice. The first
+ * request with a key runs; a duplicate still in flight attaches to it, and a duplicate of a finished
+ * one gets the stored JSON reply or a replay of the recorded SSE stream. Entries live in memory
+ * and expire IDEMPOTENCY_TTL_MINUTES (default 60) after the original request finished. Failed
+ * turns are not kept, so they can be retried: requests that throw, streams with an error event,
+ * and fallback replies (reasoning or response starting with "Error:"). Neither are streams past
+ * MAX_RECORDED_EVENTS / MAX_RECORDED_BYTES.
+ */
+@Injectable()
+export class IdempotencyService {
+  private entries = new Map<string, IdempotencyEntry>();
+  private lastSweep = 0;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  getTtlMinutes(): number {
+    const minutes = parseInt(this.configService.get<string>('IDEMPOTENCY_TTL_MINUTES') || '60', 10);
+    return isNaN(minutes) || minutes < 1 ? 60 : minutes;
+  }
+
+  /** The Idempotency-Key header value (undefined when absent); throws 400 when it is malformed. */
+  parseKey(header?: string): string | undefined {
+    if (header === undefined) return undefined;
+    const key = header.trim();
+    if (!KEY_PATTERN.test(key)) {
+      throw new HttpException(
+        { message: 'Idempotency-Key must be 1-255 visible ASCII characters', code: 'INVALID_IDEMPOTENCY_KEY' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return key;
+  }
+
+  /**
+   * JSON reply of `request`: runs `handler` for the first request with the key, later ones share its
+   * result. Throws 422 right away when the key was used for a different request.
+   */
+  runOnce<T>(request: IdempotentRequest, handler: () => Promise<T>): { result: Promise<T>; replayed: boolean } {
+    const existing = this.lookup(request);
+    if (existing?.result) {
+      console.log(`🔁 [Idempotency] Replaying ${request.scope} reply for key ${request.key}`);
+      return { result: existing.result as Promise<T>, replayed: true };
+    }
+
+    const id = this.entryId(request);
+    const entry = this.createEntry(request, id);
+    entry.result = handler().then(
+      (result) => {
+        entry.done = true;
+        entry.completedAt = Date.now();
+        // Duplicates already attached get the same reply; later retries run again
+        if (isFailedTurn(result)) this.forget(id, entry);
+        return result;
+      },
+      (error) => {
+        this.forget(id, entry);
+        throw error;
+      },
+    );
+    return { result: entry.result as Promise<T>, replayed: false };
+  }
+
+  /**
+   * SSE events of `request`: the first request with the key runs `source` to completion (even if its
+   * client disconnects) while its events are recorded; every caller, the first one included, reads
+   * the recording, live while it is still being produced. Throws 422 right away when the key was
+   * used for a different request.
+   */
+  stream<E>(request: IdempotentRequest, source: () => AsyncIterable<E>): { events: AsyncGenerator<E, void, unknown>; replayed: boolean } {
+    const existing = this.lookup(request);
+    if (existing) {
+      console.log(`🔁 [Idempotency] Replaying ${request.scope} stream for key ${request.key} (${existing.done ? 'finished' : 'in flight'})`);
+      return { events: this.replay<E>(existing), replayed: true };
+    }
+
+    const id = this.entryId(request);
+    const entry = this.createEntry(request, id);
+    void this.record(id, entry, source());
+    return { events: this.replay<E>(entry), replayed: false };
+  }
+
+  /** Entry of this key, or undefined when there is none (or it expired); 422 on another request. */
+  private lookup(request: IdempotentRequest): IdempotencyEntry | undefined {
+    this.sweep();
+    const id = this.entryId(request);
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    if (entry.completedAt !== undefined && Date.now() - entry.completedAt > this.getTtlMinutes() * 60 * 1000) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    if (entry.fingerprint !== this.fingerprint(request)) {
+      throw new HttpException(
+        { message: 'This Idempotency-Key was already used for a different request', code: 'IDEMPOTENCY_KEY_REUSED' },
+        HttpStatus.UNPROCESSABLE_ENTITY,
+      );
+    }
+    return entry;
+  }
+
+  private createEntry(request: IdempotentRequest, id: string): IdempotencyEntry {
+    const entry: IdempotencyEntry = { fingerprint: this.fingerprint(request), events: [], bytes: 0, done: false, waiters: [] };
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  private async record(id: string, entry: IdempotencyEntry, source: AsyncIterable<unknown>): Promise<void> {
+    try {
+      for await (const event of source) {
+        entry.events.push(event);
+        entry.bytes += JSON.stringify(event)?.length ?? 0;
+        this.wake(entry);
+        if (isFailedTurn(event)) {
+          this.forget(id, entry);
+        } else if (entry.events.length > MAX_RECORDED_EVENTS || entry.bytes > MAX_RECORDED_BYTES) {
+          // Readers already attached still get every event; the recording is dropped once they are done
+          if (this.entries.get(id) === entry) {
+            console.warn(`🔁 [Idempotency] ${id} stream too large to keep for replay (${entry.events.length} events, ${entry.bytes} bytes)`);
+          }
+          this.forget(id, entry);
+        }
+      }
+    } catch (error) {
+      entry.error = error;
+      this.forget(id, entry);
+    } finally {
+      entry.done = true;
+      entry.completedAt = Date.now();
+      this.wake(entry);
+    }
+  }
+
+  private async *replay<E>(entry: IdempotencyEntry): AsyncGenerator<E, void, unknown> {
+    let next = 0;
+    while (true) {
+      if (next < entry.events.length) {
+        yield entry.events[next++] as E;
+        continue;
+      }
+      if (entry.done) break;
+      await new Promise<void>((resolve) => entry.waiters.push(resolve));
+    }
+    if (entry.error) throw entry.error;
+  }
+
+  private wake(entry: IdempotencyEntry): void {
+    const waiters = entry.waiters;
+    entry.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+
+  /** Drop a failed or unreplayable request's entry (unless a newer request already replaced it). */
+  private forget(id: string, entry: IdempotencyEntry): void {
+    if (this.entries.get(id) === entry) this.entries.delete(id);
+  }
+
+  /** Drop finished entries past the TTL (at most once a minute). */
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    const cutoff = now - this.getTtlMinutes() * 60 * 1000;
+    for (const [id, entry] of this.entries) {
+      if (entry.completedAt !== undefined && entry.completedAt < cutoff) this.entries.delete(id);
+    }
+  }
+
+  private entryId(request: IdempotentRequest): string {
+    return `${request.scope}:${request.owner}:${request.key}`;
+  }
+
+  private fingerprint(request: IdempotentRequest): string {
+    return createHash('sha256').update(JSON.stringify(request.fingerprint)).digest('hex');
+  }
+}
+
+/**
+ * Whether a JSON reply or SSE event reports a failed turn: an error event, or the pipeline's
+ * fallback reply whose reasoning (or the streamed response) is "Error: <message>".
+ */
+function isFailedTurn(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as { type?: unknown; data?: unknown };
+  if (record.type === 'error') return true;
+  const reply = (record.type === 'done' ? record.data : value) as { response?: unknown; reasoning?: unknown } | undefined;
+  return [reply?.response, reply?.reasoning].some((text) => typeof text === 'string' && text.startsWith('Error:'));
+}
@@ -0,0 +1,408 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import {
+  LLMOrchestratorService,
+  LLMRequestCancelledError,
+  LLMStructuredOutputError,
+} from './llm-orchestrator.service';
+import { ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import { LLMFixtureMissingError, LLMRecorderService } from './llm-recorder.service';
+import { LLMSchedulerService } from './llm-scheduler.service';
+import { TokenCounterService } from './token-counter.service';
+import { OpenAIProvider } from '../providers/openai.provider';
+import { ClaudeProvider } from '../providers/claude.provider';
+import { DeepSeekProvider } from '../providers/deepseek.provider';
+import { GeminiProvider } from '../providers/gemini.provider';
+import { OpenAICompatibleProvider } from '../providers/openai-compatible.provider';
+import { MockProvider } from '../providers/mock.provider';
+import { LLMProviderError } from '../providers/provider-error';
+import { getFallbackChain } from '../config/llm-models.config';
+import { LLMResponseFormatJsonSchema, LLMStreamChunk } from '../interfaces/llm-provider.interface';
+
+describe('LLMOrchestratorService', () => {
+  let service: LLMOrchestratorService;
+  let openai: { generateResponse: jest.Mock; generateStream: jest.Mock };
+  let claude: { generateResponse: jest.Mock; generateStream?: jest.Mock };
+  let gemini: { generateResponse: jest.Mock };
+  let openaiCompatible: { generateResponse: jest.Mock };
+
+  const messages = [{ role: 'user', content: 'hello' }];
+
+  beforeEach(async () => {
+    openai = { generateResponse: jest.fn(), generateStream: jest.fn() };
+    claude = { generateResponse: jest.fn() };
+    gemini = { generateResponse: jest.fn() };
+    openaiCompatible = { generateResponse: jest.fn() };
+    const mockConfig = {
+      get: jest.fn((key: string) => {
+        if (key === 'LLM_CIRCUIT_FAILURE_THRESHOLD') return '2';
+        if (key === 'LLM_CIRCUIT_COOLDOWN_MS') return '60000';
+        return undefined;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LLMOrchestratorService,
+        ProviderCircuitBreakerService,
+        LLMRecorderService,
+        LLMSchedulerService,
+        TokenCounterService,
+        { provide: ConfigService, useValue: mockConfig },
+        { provide: OpenAIProvider, useValue: openai },
+        { provide: ClaudeProvider, useValue: claude },
+        { provide: DeepSeekProvider, useValue: { generateResponse: jest.fn() } },
+        { provide: GeminiProvider, useValue: gemini },
+        { provide: OpenAICompatibleProvider, useValue: openaiCompatible },
+        MockProvider,
+      ],
+    }).compile();
+
+    service = module.get<LLMOrchestratorService>(LLMOrchestratorService);
+  });
+
+  it('returns the selected model without a fallback report when it succeeds', async () => {
+    openai.generateResponse.mockResolvedValue({ content: 'hi', model: 'gpt-4o' });
+
+    const result = await service.generateResponse('gpt-4o', messages);
+
+    expect(result.modelId).toBe('gpt-4o');
+    expect(result.fallback).toBeUndefined();
+    expect(claude.generateResponse).not.toHaveBeenCalled();
+
+    // Zero is a setting, not a missing one
+    await service.generateResponse('gpt-4o', messages, { temperature: 0 });
+    expect(openai.generateResponse).toHaveBeenLastCalledWith('gpt-4o', messages, expect.objectContaining({ temperature: 0, max_tokens: 4000 }));
+  });
+
+  it('attaches the USD cost of the call from the pricing table', async () => {
+    openai.generateResponse.mockResolvedValue({
+      content: 'hi',
+      model: 'gpt-4o',
+      usage: { inputTokens: 1_000_000, outputTokens: 100_000, cachedTokens: 400_000, reasoningTokens: 0 },
+    });
+
+    const result = await service.generateResponse('gpt-4o', messages);
+
+    // 600k uncached @ $2.50 + 400k cached @ $1.25 + 100k output @ $10.00
+    expect(result.costUSD).toBeCloseTo(1.5 + 0.5 + 1.0, 6);
+  });
+
+  it('walks the fallback chain and reports which model answered', async () => {
+    openai.generateResponse.mockRejectedValue(new Error('OpenAI API error: 503'));
+    claude.generateResponse.mockResolvedValue({ content: 'from claude', model: 'claude-3-5-sonnet-20241022' });
+
+    const result = await service.generateResponse('gpt-4o', messages);
+
+    expect(result.content).toBe('from claude');
+    expect(result.modelId).toBe('claude-3-5-sonnet');
+    expect(result.fallback).toEqual({
+      requestedModel: 'gpt-4o',
+      servedBy: 'claude-3-5-sonnet',
+      attempts: [{ model: 'gpt-4o', provider: 'openai', error: 'OpenAI API error: 503' }],
+    });
+  });
+
+  it('only falls back to models the user tier can access', async () => {
+    expect(getFallbackChain('deepseek-chat', 'basic')).toEqual(['deepseek-chat', 'gpt-4o-mini']);
+    expect(getFallbackChain('gemini-1.5-pro', 'standard')).toEqual(['gemini-1.5-pro', 'gpt-4o', 'gpt-4o-mini']);
+    expect(getFallbackChain('gpt-4o', 'pro')).toEqual(['gpt-4o', 'claude-3-5-sonnet', 'gemini-1.5-pro']);
+
+    openai.generateResponse.mockRejectedValue(new Error('OpenAI API error: 503'));
+    gemini.generateResponse.mockResolvedValue({ content: 'from gemini', model: 'gemini-1.5-pro' });
+    const result = await service.generateResponse('gpt-4o', messages, { userTier: 'standard' });
+
+    expect(claude.generateResponse).not.toHaveBeenCalled();
+    expect(result.modelId).toBe('gemini-1.5-pro');
+  });
+
+  it('skips a provider whose circuit is open', async () => {
+    openai.generateResponse.mockRejectedValue(new Error('down'));
+    claude.generateResponse.mockResolvedValue({ content: 'ok', model: 'claude' });
+
+    await service.generateResponse('gpt-4o', messages);
+    await service.generateResponse('gpt-4o', messages);
+    openai.generateResponse.mockClear();
+
+    const result = await service.generateResponse('gpt-4o', messages);
+
+    expect(openai.generateResponse).not.toHaveBeenCalled();
+    expect(result.fallback?.attempts[0]).toEqual({ model: 'gpt-4o', provider: 'openai', skipped: 'circuit_open' });
+    expect(service.getProviderHealth().openai.state).toBe('open');
+  });
+
+  it('throws the last error when every model in the chain fails', async () => {
+    openai.generateResponse.mockRejectedValue(new Error('openai down'));
+    claude.generateResponse.mockRejectedValue(new Error('claude down'));
+    gemini.generateResponse.mockRejectedValue(new Error('gemini down'));
+
+    await expect(service.generateResponse('gpt-4o', messages)).rejects.toThrow('gemini down');
+  });
+
+  it('falls back to a streaming-capable model before the first chunk only', async () => {
+    async function* failing(): AsyncGenerator<LLMStreamChunk> {
+      yield { type: 'text', text: 'partial' };
+      throw new Error('connection reset');
+    }
+    openai.generateStream.mockImplementation(() => failing());
+
+    const chunks: LLMStreamChunk[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of service.generateStream('gpt-4o', messages)) chunks.push(chunk);
+      })(),
+    ).rejects.toThrow('connection reset');
+    expect(chunks).toEqual([{ type: 'text', text: 'partial' }]);
+  });
+
+  it('tags the finish chunk with the model that streamed the answer', async () => {
+    // eslint-disable-next-line require-yield
+    async function* failingBeforeFirstChunk(): AsyncGenerator<LLMStreamChunk> {
+      throw new Error('OpenAI streaming error: 503');
+    }
+    async function* claudeStream(): AsyncGenerator<LLMStreamChunk> {
+      yield { type: 'text', text: 'hi' };
+      yield { type: 'usage', usage: { inputTokens: 1000, outputTokens: 100, cachedTokens: 0, reasoningTokens: 0 } };
+      yield { type: 'finish', reason: 'stop' };
+    }
+    openai.generateStream.mockImplementation(() => failingBeforeFirstChunk());
+    claude.generateStream = jest.fn().mockImplementation(() => claudeStream());
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of service.generateStream('gpt-4o', messages)) chunks.push(chunk);
+
+    expect(chunks[1]).toMatchObject({ type: 'usage', usage: { inputTokens: 1000, outputTokens: 100 } });
+    expect(chunks[2]).toMatchObject({
+      type: 'finish',
+      modelId: 'claude-3-5-sonnet',
+      fallback: { requestedModel: 'gpt-4o', servedBy: 'claude-3-5-sonnet' },
+    });
+  });
+
+  it('serves every model from the mock provider when LLM_MOCK_MODE=all', async () => {
+    process.env.LLM_MOCK_MODE = 'all';
+    try {
+      const result = await service.generateResponse('gpt-4o', messages);
+
+      expect(openai.generateResponse).not.toHaveBeenCalled();
+      expect(result.modelId).toBe('gpt-4o');
+      expect(result.model).toBe('mock-scripted');
+      expect(result.content).toContain('hello');
+    } finally {
+      delete process.env.LLM_MOCK_MODE;
+    }
+  });
+
+  it('passes the model endpoint to the openai-compatible provider', async () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+    try {
+      openaiCompatible.generateResponse.mockResolvedValue({ content: 'local', model: 'llama3.1:8b' });
+
+      const result = await service.generateResponse('llama-3.1-8b-local', messages, { temperature: 0.2 });
+
+      expect(result.modelId).toBe('llama-3.1-8b-local');
+      expect(openaiCompatible.generateResponse).toHaveBeenCalledWith(
+        'llama3.1:8b',
+        messages,
+        expect.objectContaining({ temperature: 0.2, endpoint: expect.objectContaining({ baseURLEnv: 'LOCAL_LLM_BASE_URL' }) }),
+      );
+    } finally {
+      delete process.env.LOCAL_LLM_BASE_URL;
+    }
+  });
+
+  it('ends a cancelled stream with estimated usage and no fallback', async () => {
+    const abortController = new AbortController();
+    async function* abortedMidStream(): AsyncGenerator<LLMStreamChunk> {
+      yield { type: 'text', text: 'twelve chars' };
+      abortController.abort();
+      throw new Error('OpenAI streaming error: Request was aborted.');
+    }
+    openai.generateStream.mockImplementation(() => abortedMidStream());
+    claude.generateStream = jest.fn();
+
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of service.generateStream('gpt-4o', messages, { signal: abortController.signal })) {
+      chunks.push(chunk);
+    }
+
+    expect(claude.generateStream).not.toHaveBeenCalled();
+    expect(chunks[1]).toMatchObject({
+      type: 'usage',
+      usage: { inputTokens: 7, outputTokens: 3, cachedTokens: 0, reasoningTokens: 0 },
+    });
+    expect(chunks[2]).toMatchObject({ type: 'finish', reason: 'cancelled', modelId: 'gpt-4o' });
+    expect(service.getProviderHealth().openai?.consecutiveFailures ?? 0).toBe(0);
+  });
+
+  it('throws LLMRequestCancelledError instead of falling back when the call is aborted', async () => {
+    const abortController = new AbortController();
+    openai.generateResponse.mockImplementation(async () => {
+      abortController.abort();
+      throw new Error('OpenAI API error: Request was aborted.');
+    });
+
+    await expect(
+      service.generateResponse('gpt-4o', messages, { signal: abortController.signal }),
+    ).rejects.toBeInstanceOf(LLMRequestCancelledError);
+    expect(claude.generateResponse).not.toHaveBeenCalled();
+  });
+
+  it('frees the half-open probe of a cancelled call without counting a failure', async () => {
+    openai.generateResponse.mockRejectedValue(new Error('down'));
+    claude.generateResponse.mockResolvedValue({ content: 'ok', model: 'claude' });
+    await service.generateResponse('gpt-4o', messages);
+    await service.generateResponse('gpt-4o', messages);
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+
+    const abortController = new AbortController();
+    openai.generateResponse.mockImplementation(async () => {
+      abortController.abort();
+      throw new Error('OpenAI API error: Request was aborted.');
+    });
+    await expect(
+      service.generateResponse('gpt-4o', messages, { signal: abortController.signal }),
+    ).rejects.toBeInstanceOf(LLMRequestCancelledError);
+    expect(service.getProviderHealth().openai.state).toBe('half_open');
+
+    openai.generateResponse.mockResolvedValue({ content: 'back', model: 'gpt-4o' });
+    const result = await service.generateResponse('gpt-4o', messages);
+    expect(result.modelId).toBe('gpt-4o');
+    expect(service.getProviderHealth().openai.state).toBe('closed');
+    jest.restoreAllMocks();
+  });
+
+  it('retries a rate-limited call after Retry-After without tripping the circuit', async () => {
+    openai.generateResponse
+      .mockRejectedValueOnce(new LLMProviderError('OpenAI API error: 429 Rate limit reached', 429, 20))
+      .mockResolvedValueOnce({ content: 'hi', model: 'gpt-4o' });
+
+    const result = await service.generateResponse('gpt-4o', messages);
+
+    expect(result.modelId).toBe('gpt-4o');
+    expect(openai.generateResponse).toHaveBeenCalledTimes(2);
+    expect(claude.generateResponse).not.toHaveBeenCalled();
+    expect(service.getProviderHealth().openai.consecutiveFailures).toBe(0);
+  });
+
+  describe('generateStructured', () => {
+    const responseFormat: LLMResponseFormatJsonSchema = {
+      type: 'json_schema',
+      json_schema: {
+        name: 'answer',
+        strict: true,
+        schema: {
+          type: 'object',
+          properties: { answer: { type: 'string' }, confidence: { type: 'number' } },
+          required: ['answer', 'confidence'],
+          additionalProperties: false,
+        },
+      },
+    };
+    const usage = { inputTokens: 10, outputTokens: 5, cachedTokens: 0, reasoningTokens: 0 };
+
+    it('retries an invalid reply with the validation errors and returns the parsed object', async () => {
+      claude.generateResponse
+        .mockResolvedValueOnce({ content: '{"answer": "yes"}', model: 'claude', usage })
+        .mockResolvedValueOnce({ content: '{"answer": "yes", "confidence": 0.9}', model: 'claude', usage });
+
+      const result = await service.generateStructured<{ answer: string; confidence: number }>(
+        'claude-3-haiku',
+        messages,
+        { response_format: responseFormat },
+      );
+
+      expect(result.parsed).toEqual({ answer: 'yes', confidence: 0.9 });
+      expect(result.usage).toMatchObject({ inputTokens: 20, outputTokens: 10 });
+      const retryMessages = claude.generateResponse.mock.calls[1][1];
+      expect(retryMessages[retryMessages.length - 1].content).toContain('$.confidence: is required');
+    });
+
+    it('throws LLMStructuredOutputError with the last reply once retries are exhausted', async () => {
+      claude.generateResponse.mockResolvedValue({ content: 'Sure! The answer is yes.', model: 'claude', usage });
+
+      const error = await service
+        .generateStructured('claude-3-haiku', messages, { response_format: responseFormat })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(LLMStructuredOutputError);
+      expect(error.response.content).toBe('Sure! The answer is yes.');
+      expect(claude.generateResponse).toHaveBeenCalledTimes(2);
+    });
+
+    it('sends JSON mode plus the schema in the prompt to models without schema support', async () => {
+      openai.generateResponse.mockResolvedValue({ content: '{"answer": "ok", "confidence": 1}', model: 'gpt-3.5-turbo' });
+
+      await service.generateStructured('gpt-3.5-turbo', messages, { response_format: responseFormat });
+
+      const [, sentMessages, sentOptions] = openai.generateResponse.mock.calls[0];
+      expect(sentOptions.response_format).toBe('json_object');
+      expect(sentMessages[0]).toMatchObject({ role: 'system', content: expect.stringContaining('"confidence"') });
+    });
+  });
+
+  describe('record/replay', () => {
+    const fixturesDir = path.join(os.tmpdir(), `llm-fixtures-${process.pid}`);
+
+    beforeEach(() => {
+      process.env.LLM_FIXTURES_DIR = fixturesDir;
+    });
+
+    afterEach(() => {
+      delete process.env.LLM_RECORD_MODE;
+      delete process.env.LLM_FIXTURES_DIR;
+      fs.rmSync(fixturesDir, { recursive: true, force: true });
+    });
+
+    it('replays a recorded response offline, without calling the provider', async () => {
+      openai.generateResponse.mockResolvedValue({
+        content: 'recorded answer',
+        model: 'gpt-4o',
+        usage: { inputTokens: 10, outputTokens: 5, cachedTokens: 0, reasoningTokens: 0 },
+      });
+      process.env.LLM_RECORD_MODE = 'record';
+      const recorded = await service.generateResponse('gpt-4o', messages, { temperature: 0.2 });
+      expect(fs.readdirSync(fixturesDir)).toHaveLength(1);
+
+      openai.generateResponse.mockReset();
+      process.env.LLM_RECORD_MODE = 'replay';
+      const replayed = await service.generateResponse('gpt-4o', messages, { temperature: 0.2 });
+
+      expect(openai.generateResponse).not.toHaveBeenCalled();
+      expect(replayed).toEqual(recorded);
+    });
+
+    it('replays recorded stream chunks', async () => {
+      async function* openaiStream(): AsyncGenerator<LLMStreamChunk> {
+        yield { type: 'text', text: 'hi' };
+        yield { type: 'finish', reason: 'stop' };
+      }
+      openai.generateStream.mockImplementation(() => openaiStream());
+      const collect = async () => {
+        const chunks: LLMStreamChunk[] = [];
+        for await (const chunk of service.generateStream('gpt-4o', messages)) chunks.push(chunk);
+        return chunks;
+      };
+
+      process.env.LLM_RECORD_MODE = 'record';
+      const recorded = await collect();
+      openai.generateStream.mockReset();
+      process.env.LLM_RECORD_MODE = 'replay';
+
+      expect(await collect()).toEqual(recorded);
+      expect(openai.generateStream).not.toHaveBeenCalled();
+    });
+
+    it('fails loudly on a replay miss', async () => {
+      process.env.LLM_RECORD_MODE = 'replay';
+
+      await expect(service.generateResponse('gpt-4o', [{ role: 'user', content: 'never recorded' }])).rejects.toBeInstanceOf(
+        LLMFixtureMissingError,
+      );
+      expect(openai.generateResponse).not.toHaveBeenCalled();
+    });
+  });
+});
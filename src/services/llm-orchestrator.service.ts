@@ -1,10 +1,66 @@
 import { Injectable } from '@nestjs/common';
-import { ILLMProvider, LLMOptions, LLMResponse } from '../interfaces/llm-provider.interface';
-import { LLM_MODELS } from '../config/llm-models.config';
+import {
+  ILLMProvider,
+  LLMFallbackAttempt,
+  LLMOptions,
+  LLMResponse,
+  LLMResponseFormatJsonSchema,
+  LLMStreamChunk,
+  LLMStructuredResponse,
+  LLMTokenUsage,
+} from '../interfaces/llm-provider.interface';
+import {
+  LLM_MODELS,
+  LLMModelConfig,
+  getFallbackChain,
+  getLLMRecordMode,
+  getMockLLMMode,
+  supportsStructuredOutput,
+} from '../config/llm-models.config';
+import { buildSchemaInstruction, parseJsonOutput, validateJsonSchema } from '../config/json-schema-validator';
+import { calculateModelCost } from '../config/model-pricing.config';
+import { resolveModelId } from '../config/model-registry';
 import { OpenAIProvider } from '../providers/openai.provider';
 import { ClaudeProvider } from '../providers/claude.provider';
 import { DeepSeekProvider } from '../providers/deepseek.provider';
 import { GeminiProvider } from '../providers/gemini.provider';
+import { OpenAICompatibleProvider } from '../providers/openai-compatible.provider';
+import { MockProvider } from '../providers/mock.provider';
+import { ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import { LLMRecorderService } from './llm-recorder.service';
+import { LLMSchedulerService, LLMSchedulerSnapshot } from './llm-scheduler.service';
+import { TokenCounterService } from './token-counter.service';
+import { LLMProviderError } from '../providers/provider-error';
+
+/**
+ * Thrown by generateResponse when LLMOptions.signal aborted the call. Not a provider failure:
+ * no fallback is tried and the circuit breaker only gets its half-open probe back.
+ */
+export class LLMRequestCancelledError extends Error {
+  constructor(public readonly modelId: string) {
+    super(`LLM request to ${modelId} was cancelled`);
+    this.name = 'LLMRequestCancelledError';
+  }
+}
+
+/**
+ * Thrown by generateStructured when no attempt produced output matching the schema. `response`
+ * is the last attempt (usage and cost summed over all attempts) so callers can still bill it
+ * or fall back to parsing the raw text.
+ */
+export class LLMStructuredOutputError extends Error {
+  constructor(
+    public readonly modelId: string,
+    public readonly validationErrors: string[],
+    public readonly response: LLMResponse,
+  ) {
+    super(`Structured output from ${modelId} failed validation: ${validationErrors.slice(0, 3).join('; ')}`);
+    this.name = 'LLMStructuredOutputError';
+  }
+}
+
+/** Extra attempts generateStructured makes after an invalid reply. */
+const STRUCTURED_OUTPUT_MAX_RETRIES = 1;
 
 @Injectable()
 export class LLMOrchestratorService {
@@ -15,48 +71,189 @@ export class LLMOrchestratorService {
     private claudeProvider: ClaudeProvider,
     private deepseekProvider: DeepSeekProvider,
     private geminiProvider: GeminiProvider,
+    private openaiCompatibleProvider: OpenAICompatibleProvider,
+    private mockProvider: MockProvider,
+    private circuitBreaker: ProviderCircuitBreakerService,
+    private recorder: LLMRecorderService,
+    private scheduler: LLMSchedulerService,
+    private tokenCounter: TokenCounterService,
   ) {
     this.providers = new Map<string, ILLMProvider>([
       ['openai', this.openaiProvider],
       ['claude', this.claudeProvider],
       ['deepseek', this.deepseekProvider],
       ['gemini', this.geminiProvider],
+      ['openai-compatible', this.openaiCompatibleProvider],
+      ['mock', this.mockProvider],
     ]);
   }
 
+  /**
+   * Generate a response with the selected model (aliases resolved), walking its fallback chain
+   * (LLM_MODELS[id].fallbacks, limited to what options.userTier can access) when the provider
+   * fails or its circuit is open.
+   * The returned response carries modelId (who answered), its USD cost, and a fallback
+   * report when that differs from the requested model.
+   * Throws LLMRequestCancelledError when options.signal aborts the call.
+   *
+   * Provider calls go through LLMSchedulerService: they queue by options.priority when the
+   * provider or model is at its concurrency cap, and a 429 is retried after Retry-After.
+   *
+   * LLM_RECORD_MODE=record writes each response to a fixture; replay serves fixtures only
+   * (no provider, circuit breaker or fallback involved) and throws LLMFixtureMissingError on a miss.
+   */
   async generateResponse(
     selectedLLM: string,
     messages: any[],
     options: LLMOptions = {},
   ): Promise<LLMResponse> {
-    const modelConfig = LLM_MODELS[selectedLLM];
-    if (!modelConfig) {
+    selectedLLM = resolveModelId(selectedLLM);
+    if (!LLM_MODELS[selectedLLM]) {
       throw new Error(`LLM ${selectedLLM} not supported`);
     }
 
-    const provider = this.providers.get(modelConfig.provider);
-    if (!provider) {
-      throw new Error(`Provider ${modelConfig.provider} not available`);
+    const recordMode = getLLMRecordMode();
+    if (recordMode === 'off') {
+      return this.generateWithFallbacks(selectedLLM, messages, options);
     }
+    const fixtureKey = this.recorder.fixtureKey(selectedLLM, messages, options, false);
+    if (recordMode === 'replay') {
+      return this.recorder.loadResponse(fixtureKey, selectedLLM);
+    }
+    const response = await this.generateWithFallbacks(selectedLLM, messages, options);
+    this.recorder.saveResponse(fixtureKey, selectedLLM, messages, options, response);
+    return response;
+  }
 
-    // Merge options with model config
-    const finalOptions = {
-      ...options,
-      max_tokens: options.max_tokens || modelConfig.maxTokens,
-      temperature: options.temperature || modelConfig.temperature,
-    };
+  /**
+   * generateResponse for a json_schema response_format, on any provider. The reply is parsed and
+   * validated against the schema; an invalid one is sent back with the validation errors for
+   * another try (up to maxRetries). The result carries the typed `parsed` object, and usage and
+   * cost summed over every attempt. Throws LLMStructuredOutputError when all attempts are invalid.
+   */
+  async generateStructured<T = Record<string, unknown>>(
+    selectedLLM: string,
+    messages: any[],
+    options: LLMOptions & { response_format: LLMResponseFormatJsonSchema },
+    maxRetries = STRUCTURED_OUTPUT_MAX_RETRIES,
+  ): Promise<LLMStructuredResponse<T>> {
+    const schema = options.response_format.json_schema.schema;
+    const conversation = [...messages];
+    let usage: LLMTokenUsage | undefined;
+    let costUSD: number | undefined;
+    let response: LLMResponse | null = null;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      response = await this.generateResponse(selectedLLM, conversation, options);
+      usage = addUsage(usage, response.usage);
+      if (response.costUSD !== undefined) {
+        costUSD = (costUSD || 0) + response.costUSD;
+      }
+
+      const parsed = parseJsonOutput(response.content);
+      errors = parsed === undefined ? ['$: reply is not valid JSON'] : validateJsonSchema(parsed, schema);
+      if (errors.length === 0) {
+        return { ...response, usage, costUSD, parsed: parsed as T };
+      }
+
+      console.warn(
+        `⚠️ [LLMOrchestrator] ${response.modelId || selectedLLM} returned invalid ${options.response_format.json_schema.name} ` +
+          `(attempt ${attempt + 1}/${maxRetries + 1}): ${errors.slice(0, 3).join('; ')}`,
+      );
+      conversation.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content:
+            `Your reply did not match the required JSON schema:\n- ${errors.join('\n- ')}\n` +
+            `Reply again with only the corrected JSON object.`,
+        },
+      );
+    }
+
+    throw new LLMStructuredOutputError(response?.modelId || selectedLLM, errors, { ...response!, usage, costUSD });
+  }
+
+  private async generateWithFallbacks(
+    selectedLLM: string,
+    messages: any[],
+    options: LLMOptions,
+  ): Promise<LLMResponse> {
+    const attempts: LLMFallbackAttempt[] = [];
+    let lastError: unknown = null;
 
-    try {
-      return await provider.generateResponse(modelConfig.model, messages, finalOptions);
-    } catch (error) {
-      console.error(`Error with ${selectedLLM}:`, error);
-      // Fallback to GPT-4o if available
-      if (selectedLLM !== 'gpt-4o') {
-        console.log('Falling back to GPT-4o...');
-        return await this.generateResponse('gpt-4o', messages, options);
+    for (const modelId of getFallbackChain(selectedLLM, options.userTier)) {
+      if (options.signal?.aborted) {
+        throw new LLMRequestCancelledError(modelId);
+      }
+      const modelConfig = LLM_MODELS[modelId];
+      const providerName = this.resolveProviderName(modelConfig);
+      const provider = this.providers.get(providerName);
+      if (!provider) {
+        lastError = new Error(`Provider ${providerName} not available`);
+        attempts.push({ model: modelId, provider: providerName, error: `Provider ${providerName} not available` });
+        continue;
+      }
+
+      if (!this.scheduler.canWaitFor(providerName)) {
+        console.warn(`⏭️ [LLMOrchestrator] Skipping ${modelId}: ${providerName} is rate limited`);
+        attempts.push({ model: modelId, provider: providerName, skipped: 'rate_limited' });
+        continue;
+      }
+
+      if (!this.circuitBreaker.canRequest(providerName)) {
+        console.warn(`⏭️ [LLMOrchestrator] Skipping ${modelId}: ${providerName} circuit is open`);
+        attempts.push({ model: modelId, provider: providerName, skipped: 'circuit_open' });
+        continue;
+      }
+
+      try {
+        // Waits for a slot under the provider/model caps; 429s are retried there after Retry-After
+        const response = await this.scheduler.run(providerName, modelId, options.priority, options.signal, () =>
+          provider.generateResponse(
+            modelConfig.model,
+            this.buildProviderMessages(modelId, messages, options),
+            this.buildProviderOptions(modelId, modelConfig, options),
+          ),
+        );
+        this.circuitBreaker.recordSuccess(providerName);
+
+        if (modelId !== selectedLLM) {
+          console.log(`🔀 [LLMOrchestrator] ${selectedLLM} → answered by fallback ${modelId}`);
+        }
+        return {
+          ...response,
+          modelId,
+          costUSD: response.usage ? calculateModelCost(modelId, response.usage) : undefined,
+          fallback:
+            modelId !== selectedLLM
+              ? { requestedModel: selectedLLM, servedBy: modelId, attempts }
+              : undefined,
+        };
+      } catch (error) {
+        if (options.signal?.aborted) {
+          console.log(`🛑 [LLMOrchestrator] ${modelId} request cancelled`);
+          this.circuitBreaker.releaseProbe(providerName);
+          throw new LLMRequestCancelledError(modelId);
+        }
+        console.error(`Error with ${modelId}:`, error);
+        // A 429 means the provider is up but busy: the scheduler backs off, the circuit stays closed
+        if (error instanceof LLMProviderError && error.isRateLimited) {
+          this.circuitBreaker.recordSuccess(providerName);
+        } else {
+          this.circuitBreaker.recordFailure(providerName, error);
+        }
+        attempts.push({
+          model: modelId,
+          provider: providerName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        lastError = error;
       }
-      throw error;
     }
+
+    throw lastError ?? new Error(`No healthy provider available for ${selectedLLM} (all circuits open)`);
   }
 
   getAvailableModels(): string[] {
@@ -67,38 +264,247 @@ export class LLMOrchestratorService {
     return LLM_MODELS[selectedLLM] || null;
   }
 
+  /**
+   * Provider health (circuit breaker state per provider) for debug/monitoring.
+   */
+  getProviderHealth() {
+    return this.circuitBreaker.getSnapshot();
+  }
+
+  /**
+   * Scheduler queue depth and slot usage per provider and model, for monitoring.
+   */
+  getQueueStats(): LLMSchedulerSnapshot {
+    return this.scheduler.getSnapshot();
+  }
+
+  /**
+   * Stream a response, with the same fallback chain and circuit breaker as generateResponse.
+   * Fallback only happens before the first chunk is yielded; a failure mid-stream is rethrown
+   * (we can't splice two models' output into one reply). The final `finish` chunk carries
+   * modelId (who answered) and the fallback report, like LLMResponse.
+   *
+   * When options.signal aborts, the stream ends with a `finish` chunk of reason 'cancelled',
+   * preceded by a usage chunk for what was consumed so far (counted by estimateConsumedUsage
+   * with the TokenCounterService when the provider hadn't reported usage yet), so callers can bill and save the partial reply.
+   *
+   * Record/replay as in generateResponse, per chunk; cancelled streams are not recorded.
+   */
   async *generateStream(
     selectedLLM: string,
     messages: any[],
     options: LLMOptions = {},
-  ): AsyncGenerator<string, void, unknown> {
-    const modelConfig = LLM_MODELS[selectedLLM];
-    if (!modelConfig) {
+  ): AsyncGenerator<LLMStreamChunk, void, unknown> {
+    selectedLLM = resolveModelId(selectedLLM);
+    if (!LLM_MODELS[selectedLLM]) {
       throw new Error(`LLM ${selectedLLM} not supported`);
     }
 
-    const provider = this.providers.get(modelConfig.provider);
-    if (!provider) {
-      throw new Error(`Provider ${modelConfig.provider} not available`);
+    const recordMode = getLLMRecordMode();
+    if (recordMode === 'off') {
+      yield* this.streamWithFallbacks(selectedLLM, messages, options);
+      return;
+    }
+    const fixtureKey = this.recorder.fixtureKey(selectedLLM, messages, options, true);
+    if (recordMode === 'replay') {
+      yield* this.recorder.loadStream(fixtureKey, selectedLLM);
+      return;
     }
+    const chunks: LLMStreamChunk[] = [];
+    for await (const chunk of this.streamWithFallbacks(selectedLLM, messages, options)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    if (!chunks.some((chunk) => chunk.type === 'finish' && chunk.reason === 'cancelled')) {
+      this.recorder.saveStream(fixtureKey, selectedLLM, messages, options, chunks);
+    }
+  }
+
+  private async *streamWithFallbacks(
+    selectedLLM: string,
+    messages: any[],
+    options: LLMOptions,
+  ): AsyncGenerator<LLMStreamChunk, void, unknown> {
+    const attempts: LLMFallbackAttempt[] = [];
+    let lastError: unknown = null;
+
+    for (const modelId of getFallbackChain(selectedLLM, options.userTier)) {
+      if (options.signal?.aborted) {
+        yield { type: 'finish', reason: 'cancelled', modelId };
+        return;
+      }
+      const modelConfig = LLM_MODELS[modelId];
+      const providerName = this.resolveProviderName(modelConfig);
+      const provider = this.providers.get(providerName);
+      if (!provider) {
+        lastError = new Error(`Provider ${providerName} not available`);
+        attempts.push({ model: modelId, provider: providerName, error: `Provider ${providerName} not available` });
+        continue;
+      }
+
+      // Check if provider supports streaming
+      if (!provider.generateStream) {
+        lastError = new Error(`Streaming not supported for ${providerName}`);
+        attempts.push({ model: modelId, provider: providerName, skipped: 'streaming_unsupported' });
+        continue;
+      }
+
+      if (!this.scheduler.canWaitFor(providerName)) {
+        console.warn(`⏭️ [LLMOrchestrator] Skipping ${modelId} stream: ${providerName} is rate limited`);
+        attempts.push({ model: modelId, provider: providerName, skipped: 'rate_limited' });
+        continue;
+      }
 
-    // Check if provider supports streaming
-    if (!provider.generateStream) {
-      throw new Error(`Streaming not supported for ${modelConfig.provider}`);
+      if (!this.circuitBreaker.canRequest(providerName)) {
+        console.warn(`⏭️ [LLMOrchestrator] Skipping ${modelId} stream: ${providerName} circuit is open`);
+        attempts.push({ model: modelId, provider: providerName, skipped: 'circuit_open' });
+        continue;
+      }
+
+      const fallback =
+        modelId !== selectedLLM ? { requestedModel: selectedLLM, servedBy: modelId, attempts } : undefined;
+      let started = false;
+      let finished = false;
+      let usageReported = false;
+      // Whether the circuit got an outcome; a cancelled or abandoned stream only frees its probe
+      let settled = false;
+      const streamed = { text: '', reasoning: '' };
+      // The stream holds its slot until it ends; 429s aren't retried mid-chain, the next fallback is tried
+      let release: (() => void) | null = null;
+      try {
+        release = await this.scheduler.acquire(providerName, modelId, options.priority, options.signal);
+        for await (const chunk of provider.generateStream(
+          modelConfig.model,
+          this.buildProviderMessages(modelId, messages, options),
+          this.buildProviderOptions(modelId, modelConfig, options),
+        )) {
+          started = true;
+          if (chunk.type === 'finish') {
+            finished = true;
+            yield { ...chunk, modelId, fallback };
+          } else if (chunk.type === 'usage') {
+            usageReported = true;
+            yield { ...chunk, costUSD: calculateModelCost(modelId, chunk.usage) };
+          } else {
+            streamed[chunk.type] += chunk.text;
+            yield chunk;
+          }
+        }
+        this.circuitBreaker.recordSuccess(providerName);
+        settled = true;
+        this.scheduler.recordSuccess(providerName);
+        if (!finished) {
+          yield { type: 'finish', reason: 'stop', modelId, fallback };
+        }
+        if (fallback) {
+          console.log(`🔀 [LLMOrchestrator] ${selectedLLM} stream → answered by fallback ${modelId}`);
+        }
+        return;
+      } catch (error) {
+        if (options.signal?.aborted) {
+          console.log(`🛑 [LLMOrchestrator] ${modelId} stream cancelled after ${streamed.text.length} chars`);
+          // Cancelled while still queued for a slot: nothing was sent, nothing to bill
+          if (!usageReported && release) {
+            const usage = this.estimateConsumedUsage(modelId, messages, streamed);
+            yield { type: 'usage', usage, costUSD: calculateModelCost(modelId, usage) };
+          }
+          yield { type: 'finish', reason: 'cancelled', modelId, fallback };
+          return;
+        }
+        console.error(`Error streaming with ${modelId}:`, error);
+        // As in generateResponse, a 429 pauses the provider instead of counting toward its circuit
+        if (this.scheduler.recordRateLimit(providerName, error) !== null) {
+          this.circuitBreaker.recordSuccess(providerName);
+        } else {
+          this.circuitBreaker.recordFailure(providerName, error);
+        }
+        settled = true;
+        if (started) {
+          throw error;
+        }
+        attempts.push({
+          model: modelId,
+          provider: providerName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        lastError = error;
+      } finally {
+        release?.();
+        // Also runs when the consumer stops reading (return() on this generator)
+        if (!settled) {
+          this.circuitBreaker.releaseProbe(providerName);
+        }
+      }
     }
 
-    // Merge options with model config
-    const finalOptions = {
+    throw lastError ?? new Error(`No healthy provider available for ${selectedLLM} (all circuits open)`);
+  }
+
+  /**
+   * Provider key for a model. LLM_MOCK_MODE=all sends every model to the mock provider
+   * (model ids, tier gating and billing stay as requested).
+   */
+  private resolveProviderName(modelConfig: LLMModelConfig): string {
+    return getMockLLMMode() === 'all' ? 'mock' : modelConfig.provider;
+  }
+
+  /**
+   * Usage for a stream aborted before the provider reported it: the prompt plus what was
+   * streamed so far, counted with the model family's tokenizer.
+   */
+  private estimateConsumedUsage(
+    modelId: string,
+    messages: any[],
+    streamed: { text: string; reasoning: string },
+  ): LLMTokenUsage {
+    const reasoningTokens = this.tokenCounter.countText(streamed.reasoning, modelId);
+    return {
+      inputTokens: this.tokenCounter.countMessages(messages, modelId),
+      outputTokens: this.tokenCounter.countText(streamed.text, modelId) + reasoningTokens,
+      cachedTokens: 0,
+      reasoningTokens,
+    };
+  }
+
+  /**
+   * Merge caller options with model config defaults (and the endpoint for openai-compatible models).
+   * A json_schema response_format becomes JSON mode for models that can't enforce a schema.
+   */
+  private buildProviderOptions(modelId: string, modelConfig: LLMModelConfig, options: LLMOptions): LLMOptions {
+    return {
       ...options,
-      max_tokens: options.max_tokens || modelConfig.maxTokens,
-      temperature: options.temperature || modelConfig.temperature,
+      endpoint: modelConfig.endpoint,
+      max_tokens: options.max_tokens ?? modelConfig.maxTokens,
+      temperature: options.temperature ?? modelConfig.temperature,
+      ...(this.needsSchemaInPrompt(modelId, options) && { response_format: 'json_object' as const }),
     };
+  }
 
-    try {
-      yield* provider.generateStream(modelConfig.model, messages, finalOptions);
-    } catch (error) {
-      console.error(`Error streaming with ${selectedLLM}:`, error);
-      throw error;
-    }
+  /** Messages as sent to the provider: with the schema prepended when JSON mode stands in for it. */
+  private buildProviderMessages(modelId: string, messages: any[], options: LLMOptions): any[] {
+    if (!this.needsSchemaInPrompt(modelId, options)) return messages;
+    const format = options.response_format as LLMResponseFormatJsonSchema;
+    return [{ role: 'system', content: buildSchemaInstruction(format) }, ...messages];
   }
+
+  /** json_schema requested from a model (e.g. a gpt-3.5-turbo fallback) without schema support. */
+  private needsSchemaInPrompt(modelId: string, options: LLMOptions): boolean {
+    return (
+      typeof options.response_format === 'object' &&
+      getMockLLMMode() !== 'all' &&
+      !supportsStructuredOutput(modelId)
+    );
+  }
+}
+
+/** Token usage of two calls added up (either may be missing). */
+function addUsage(total: LLMTokenUsage | undefined, usage: LLMTokenUsage | undefined): LLMTokenUsage | undefined {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cachedTokens: total.cachedTokens + usage.cachedTokens,
+    reasoningTokens: total.reasoningTokens + usage.reasoningTokens,
+  };
 }
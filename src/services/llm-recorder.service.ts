@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMOptions, LLMResponse, LLMStreamChunk } from '../interfaces/llm-provider.interface';
+
+/** One recorded LLM interaction (one file per fixture key). */
+export interface LLMFixture {
+  key: string;
+  recordedAt: string;
+  request: {
+    model: string;
+    messages: any[];
+    options: LLMOptions;
+    stream: boolean;
+  };
+  /** generateResponse result (non-streaming fixtures). */
+  response?: LLMResponse;
+  /** Every chunk the orchestrator yielded (streaming fixtures). */
+  chunks?: LLMStreamChunk[];
+}
+
+/**
+ * Thrown in LLM_RECORD_MODE=replay when no fixture matches the request. Deliberately not a
+ * provider error: replay never falls back to a live call.
+ */
+export class LLMFixtureMissingError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly model: string,
+    public readonly fixturePath: string,
+  ) {
+    super(
+      `No LLM fixture for ${model} (key ${key}, expected ${fixturePath}). ` +
+        `Record it with LLM_RECORD_MODE=record, or check that the prompt hasn't changed.`,
+    );
+    this.name = 'LLMFixtureMissingError';
+  }
+}
+
+/**
+ * LLM Recorder
+ *
+ * Fixture storage for LLMOrchestratorService's record/replay modes (LLM_RECORD_MODE).
+ * A fixture key is a hash of the requested model id, messages, options and whether the call
+ * streamed, so the same prompt always maps to the same file in LLM_FIXTURES_DIR (default ./llm-fixtures).
+ */
+@Injectable()
+export class LLMRecorderService {
+  /** Read per call so tests and scripts can point at their own fixture directory. */
+  getFixturesDir(): string {
+    return path.resolve(process.env.LLM_FIXTURES_DIR?.trim() || path.join(process.cwd(), 'llm-fixtures'));
+  }
+
+  fixtureKey(model: string, messages: any[], options: LLMOptions, stream: boolean): string {
+    const payload = stableStringify({ model, messages, options: this.recordableOptions(options), stream });
+    return createHash('sha256').update(payload).digest('hex').slice(0, 32);
+  }
+
+  saveResponse(key: string, model: string, messages: any[], options: LLMOptions, response: LLMResponse): void {
+    this.writeFixture({
+      key,
+      recordedAt: new Date().toISOString(),
+      request: { model, messages, options: this.recordableOptions(options), stream: false },
+      response,
+    });
+  }
+
+  saveStream(key: string, model: string, messages: any[], options: LLMOptions, chunks: LLMStreamChunk[]): void {
+    this.writeFixture({
+      key,
+      recordedAt: new Date().toISOString(),
+      request: { model, messages, options: this.recordableOptions(options), stream: true },
+      chunks,
+    });
+  }
+
+  loadResponse(key: string, model: string): LLMResponse {
+    const fixture = this.readFixture(key, model);
+    if (!fixture.response) {
+      throw new LLMFixtureMissingError(key, model, this.fixturePath(key));
+    }
+    return fixture.response;
+  }
+
+  loadStream(key: string, model: string): LLMStreamChunk[] {
+    const fixture = this.readFixture(key, model);
+    if (!fixture.chunks) {
+      throw new LLMFixtureMissingError(key, model, this.fixturePath(key));
+    }
+    return fixture.chunks;
+  }
+
+  private readFixture(key: string, model: string): LLMFixture {
+    const filePath = this.fixturePath(key);
+    if (!fs.existsSync(filePath)) {
+      console.error(`❌ [LLMRecorder] Replay miss for ${model}: ${filePath}`);
+      throw new LLMFixtureMissingError(key, model, filePath);
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  private writeFixture(fixture: LLMFixture): void {
+    const filePath = this.fixturePath(fixture.key);
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2), 'utf-8');
+      console.log(`📼 [LLMRecorder] Recorded ${fixture.request.model} → ${filePath}`);
+    } catch (e: any) {
+      // Recording is a side channel; never fail the live call because a fixture couldn't be written
+      console.error(`❌ [LLMRecorder] Could not write ${filePath}: ${e.message}`);
+    }
+  }
+
+  private fixturePath(key: string): string {
+    return path.join(this.getFixturesDir(), `${key}.json`);
+  }
+
+  /**
+   * Options that shape the answer; the abort signal, endpoint (from the registry), queue
+   * priority and user tier (which only limits fallbacks) are not part of the request identity.
+   */
+  private recordableOptions(options: LLMOptions): LLMOptions {
+    const { signal: _signal, endpoint: _endpoint, priority: _priority, userTier: _userTier, ...rest } = options;
+    return rest;
+  }
+}
+
+/** JSON with object keys sorted (recursively) so equal requests always hash the same. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce((sorted, k) => ({ ...sorted, [k]: v[k] }), {} as Record<string, unknown>)
+      : v,
+  );
+}
@@ -0,0 +1,98 @@
+import { ConfigService } from '@nestjs/config';
+import { LLMSchedulerService } from './llm-scheduler.service';
+import { LLMProviderError } from '../providers/provider-error';
+
+describe('LLMSchedulerService', () => {
+  const createScheduler = (env: Record<string, string> = {}) =>
+    new LLMSchedulerService({ get: jest.fn((key: string) => env[key]) } as unknown as ConfigService);
+
+  /** A call that stays in flight until resolved from the test. */
+  const deferred = () => {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it('queues calls over the provider cap and starts them by priority', async () => {
+    const scheduler = createScheduler({ LLM_PROVIDER_CONCURRENCY: '1', LLM_RESERVED_RESPONSE_SLOTS: '0' });
+    const first = deferred();
+    const started: string[] = [];
+    const track = (name: string) => async () => {
+      started.push(name);
+      return name;
+    };
+
+    const running = scheduler.run('openai', 'gpt-4o', 'response', undefined, () => first.promise);
+    const summary = scheduler.run('openai', 'gpt-4o-mini', 'summary', undefined, track('summary'));
+    const analysis = scheduler.run('openai', 'gpt-4o-mini', 'analysis', undefined, track('analysis'));
+    const reply = scheduler.run('openai', 'gpt-4o', 'response', undefined, track('response'));
+    await Promise.resolve();
+
+    expect(scheduler.getSnapshot()).toMatchObject({
+      queued: 3,
+      queuedByPriority: { response: 1, analysis: 1, summary: 1 },
+      providers: { openai: { active: 1, limit: 1, queued: 3 } },
+    });
+
+    first.resolve('done');
+    await Promise.all([running, summary, analysis, reply]);
+    expect(started).toEqual(['response', 'analysis', 'summary']);
+    expect(scheduler.getSnapshot().queued).toBe(0);
+  });
+
+  it('keeps reserved slots free for user-facing replies', async () => {
+    const scheduler = createScheduler({ LLM_PROVIDER_CONCURRENCY: '2', LLM_RESERVED_RESPONSE_SLOTS: '1' });
+    const analysis = deferred();
+
+    const running = scheduler.run('claude', 'claude-3-haiku', 'analysis', undefined, () => analysis.promise);
+    const queuedAnalysis = scheduler.run('claude', 'claude-3-haiku', 'analysis', undefined, async () => 'second');
+    const reply = await scheduler.run('claude', 'claude-3-haiku', 'response', undefined, async () => 'reply');
+
+    expect(reply).toBe('reply');
+    expect(scheduler.getSnapshot().queuedByPriority.analysis).toBe(1);
+    analysis.resolve('first');
+    await expect(Promise.all([running, queuedAnalysis])).resolves.toEqual(['first', 'second']);
+  });
+
+  it('pauses the provider on a 429 and retries after Retry-After', async () => {
+    const scheduler = createScheduler();
+    const call = jest
+      .fn()
+      .mockRejectedValueOnce(new LLMProviderError('OpenAI API error: 429', 429, 30))
+      .mockResolvedValueOnce('ok');
+
+    const t0 = Date.now();
+    await expect(scheduler.run('openai', 'gpt-4o', 'response', undefined, call)).resolves.toBe('ok');
+
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(Date.now() - t0).toBeGreaterThanOrEqual(25);
+  });
+
+  it('does not queue for a provider paused longer than LLM_RATE_LIMIT_MAX_WAIT_MS', async () => {
+    const scheduler = createScheduler({ LLM_RATE_LIMIT_MAX_WAIT_MS: '1000' });
+    const call = jest.fn().mockRejectedValue(new LLMProviderError('Claude API error: 429', 429, 60000));
+
+    await expect(scheduler.run('claude', 'claude-3-haiku', 'response', undefined, call)).rejects.toThrow('429');
+
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(scheduler.canWaitFor('claude')).toBe(false);
+    expect(scheduler.canWaitFor('openai')).toBe(true);
+  });
+
+  it('drops a queued call when its signal aborts', async () => {
+    const scheduler = createScheduler({ LLM_PROVIDER_CONCURRENCY: '1', LLM_RESERVED_RESPONSE_SLOTS: '0' });
+    const first = deferred();
+    const abortController = new AbortController();
+    const call = jest.fn();
+
+    const running = scheduler.run('gemini', 'gemini-1.5-flash', 'response', undefined, () => first.promise);
+    const queued = scheduler.run('gemini', 'gemini-1.5-flash', 'analysis', abortController.signal, call);
+    abortController.abort();
+
+    await expect(queued).rejects.toBeDefined();
+    first.resolve('done');
+    await running;
+    expect(call).not.toHaveBeenCalled();
+    expect(scheduler.getSnapshot().queued).toBe(0);
+  });
+});
@@ -0,0 +1,279 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLMRequestPriority } from '../interfaces/llm-provider.interface';
+import { LLMProviderError } from '../providers/provider-error';
+
+/** Queue order: lower runs first. */
+const PRIORITY_RANK: Record<LLMRequestPriority, number> = {
+  response: 0,
+  classification: 1,
+  analysis: 2,
+  summary: 3,
+};
+
+/** Cap on the exponential backoff used when a 429 carries no Retry-After. */
+const MAX_RATE_LIMIT_BACKOFF_MS = 60000;
+
+interface QueuedRequest {
+  provider: string;
+  modelId: string;
+  priority: LLMRequestPriority;
+  start: () => void;
+}
+
+export interface LLMSchedulerSnapshot {
+  queued: number;
+  queuedByPriority: Record<LLMRequestPriority, number>;
+  providers: Record<
+    string,
+    { active: number; limit: number; queued: number; rateLimitedUntil: string | null; consecutiveRateLimits: number }
+  >;
+  models: Record<string, { active: number; limit: number; queued: number }>;
+}
+
+/**
+ * LLM Scheduler
+ *
+ * Concurrency caps for provider calls made by LLMOrchestratorService: per provider
+ * (LLM_PROVIDER_CONCURRENCY, or LLM_PROVIDER_CONCURRENCY_<PROVIDER> e.g. _OPENAI) and per model
+ * (LLM_MODEL_CONCURRENCY). Calls over a cap wait in a priority queue (response > classification >
+ * analysis > summary, FIFO within a class), and LLM_RESERVED_RESPONSE_SLOTS per provider are kept
+ * for user-facing replies so background analysis never holds every slot.
+ *
+ * A 429 pauses the provider for its Retry-After (exponential backoff from LLM_RATE_LIMIT_BACKOFF_MS
+ * when the provider gives none). run() retries the call when the pause ends, up to
+ * LLM_RATE_LIMIT_RETRIES times, unless the pause is longer than LLM_RATE_LIMIT_MAX_WAIT_MS.
+ */
+@Injectable()
+export class LLMSchedulerService {
+  private readonly defaultProviderLimit: number;
+  private readonly modelLimit: number;
+  private readonly reservedResponseSlots: number;
+  private readonly rateLimitRetries: number;
+  private readonly rateLimitBackoffMs: number;
+  private readonly rateLimitMaxWaitMs: number;
+
+  /** In-flight calls, keyed 'provider:<name>' and 'model:<id>'. */
+  private active = new Map<string, number>();
+  private queue: QueuedRequest[] = [];
+  private rateLimitedUntil = new Map<string, number>();
+  private consecutiveRateLimits = new Map<string, number>();
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private configService: ConfigService) {
+    this.defaultProviderLimit = Math.max(1, this.readInt('LLM_PROVIDER_CONCURRENCY', 12));
+    this.modelLimit = Math.max(1, this.readInt('LLM_MODEL_CONCURRENCY', 8));
+    this.reservedResponseSlots = this.readInt('LLM_RESERVED_RESPONSE_SLOTS', 2);
+    this.rateLimitRetries = this.readInt('LLM_RATE_LIMIT_RETRIES', 2);
+    this.rateLimitBackoffMs = this.readInt('LLM_RATE_LIMIT_BACKOFF_MS', 1000);
+    this.rateLimitMaxWaitMs = this.readInt('LLM_RATE_LIMIT_MAX_WAIT_MS', 10000);
+  }
+
+  /**
+   * Run a provider call in a slot, retrying it after the provider's pause when it is rate limited.
+   * Rejects with the signal's reason when aborted while queued.
+   */
+  async run<T>(
+    provider: string,
+    modelId: string,
+    priority: LLMRequestPriority = 'response',
+    signal: AbortSignal | undefined,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const release = await this.acquire(provider, modelId, priority, signal);
+      try {
+        const result = await call();
+        this.recordSuccess(provider);
+        return result;
+      } catch (error) {
+        const waitMs = this.recordRateLimit(provider, error);
+        if (waitMs === null || signal?.aborted || attempt > this.rateLimitRetries || waitMs > this.rateLimitMaxWaitMs) {
+          throw error;
+        }
+        console.warn(`⏳ [LLMScheduler] ${modelId} rate limited, retry ${attempt}/${this.rateLimitRetries} in ${waitMs}ms`);
+      } finally {
+        release();
+      }
+    }
+  }
+
+  /**
+   * Wait for a slot and return its release function (call it exactly once, when the call is done;
+   * extra calls are ignored). For streams, which hold the slot while they are read.
+   */
+  acquire(
+    provider: string,
+    modelId: string,
+    priority: LLMRequestPriority = 'response',
+    signal?: AbortSignal,
+  ): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const request: QueuedRequest = {
+        provider,
+        modelId,
+        priority,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.adjustActive(provider, modelId, 1);
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            this.adjustActive(provider, modelId, -1);
+            this.dispatch();
+          });
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(request);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Pause the provider if `error` is a 429 and return the pause in ms (null for other errors).
+   * Consecutive 429s without Retry-After back off exponentially.
+   */
+  recordRateLimit(provider: string, error: unknown): number | null {
+    if (!(error instanceof LLMProviderError) || !error.isRateLimited) return null;
+    const count = (this.consecutiveRateLimits.get(provider) || 0) + 1;
+    this.consecutiveRateLimits.set(provider, count);
+    const waitMs = error.retryAfterMs ?? Math.min(this.rateLimitBackoffMs * 2 ** (count - 1), MAX_RATE_LIMIT_BACKOFF_MS);
+    const until = Date.now() + waitMs;
+    if (until > (this.rateLimitedUntil.get(provider) || 0)) {
+      this.rateLimitedUntil.set(provider, until);
+    }
+    console.warn(`⏳ [LLMScheduler] ${provider} returned 429: paused for ${waitMs}ms`);
+    return waitMs;
+  }
+
+  /** A provider call succeeded: reset its 429 backoff. */
+  recordSuccess(provider: string): void {
+    this.consecutiveRateLimits.delete(provider);
+  }
+
+  /**
+   * Whether to queue for this provider at all: false while it is paused for longer than
+   * LLM_RATE_LIMIT_MAX_WAIT_MS (the orchestrator tries the next fallback instead).
+   */
+  canWaitFor(provider: string): boolean {
+    return (this.rateLimitedUntil.get(provider) || 0) - Date.now() <= this.rateLimitMaxWaitMs;
+  }
+
+  /**
+   * Queue depth and slot usage (for monitoring).
+   */
+  getSnapshot(): LLMSchedulerSnapshot {
+    const queuedByPriority: Record<LLMRequestPriority, number> = { response: 0, classification: 0, analysis: 0, summary: 0 };
+    const providers: LLMSchedulerSnapshot['providers'] = {};
+    const models: LLMSchedulerSnapshot['models'] = {};
+    const providerEntry = (provider: string) =>
+      (providers[provider] ??= {
+        active: this.active.get(`provider:${provider}`) || 0,
+        limit: this.getProviderLimit(provider),
+        queued: 0,
+        rateLimitedUntil: this.formatPause(provider),
+        consecutiveRateLimits: this.consecutiveRateLimits.get(provider) || 0,
+      });
+    const modelEntry = (modelId: string) =>
+      (models[modelId] ??= { active: this.active.get(`model:${modelId}`) || 0, limit: this.modelLimit, queued: 0 });
+
+    for (const key of this.active.keys()) {
+      const separator = key.indexOf(':');
+      if (key.slice(0, separator) === 'provider') providerEntry(key.slice(separator + 1));
+      else modelEntry(key.slice(separator + 1));
+    }
+    for (const provider of this.rateLimitedUntil.keys()) providerEntry(provider);
+    for (const request of this.queue) {
+      queuedByPriority[request.priority]++;
+      providerEntry(request.provider).queued++;
+      modelEntry(request.modelId).queued++;
+    }
+    return { queued: this.queue.length, queuedByPriority, providers, models };
+  }
+
+  /** Insert behind every queued request of the same or a higher priority (FIFO within a class). */
+  private enqueue(request: QueuedRequest): void {
+    const rank = PRIORITY_RANK[request.priority] ?? PRIORITY_RANK.response;
+    const index = this.queue.findIndex((queued) => PRIORITY_RANK[queued.priority] > rank);
+    if (index === -1) this.queue.push(request);
+    else this.queue.splice(index, 0, request);
+  }
+
+  /** Start every queued request that fits, in priority order. */
+  private dispatch(): void {
+    const now = Date.now();
+    for (let i = 0; i < this.queue.length; ) {
+      const request = this.queue[i];
+      if (this.canStart(request, now)) {
+        this.queue.splice(i, 1);
+        request.start();
+      } else {
+        i++;
+      }
+    }
+    this.scheduleResume(now);
+  }
+
+  private canStart(request: QueuedRequest, now: number): boolean {
+    if ((this.rateLimitedUntil.get(request.provider) || 0) > now) return false;
+    const limit = this.getProviderLimit(request.provider);
+    const reserved = request.priority === 'response' ? 0 : Math.min(this.reservedResponseSlots, limit - 1);
+    return (
+      (this.active.get(`provider:${request.provider}`) || 0) < limit - reserved &&
+      (this.active.get(`model:${request.modelId}`) || 0) < this.modelLimit
+    );
+  }
+
+  /** Wake the queue when the earliest rate-limit pause that holds back a queued request ends. */
+  private scheduleResume(now: number): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+    const pauses = this.queue
+      .map((request) => this.rateLimitedUntil.get(request.provider) || 0)
+      .filter((until) => until > now);
+    if (pauses.length === 0) return;
+    this.resumeTimer = setTimeout(() => {
+      this.resumeTimer = null;
+      this.dispatch();
+    }, Math.min(...pauses) - now);
+    this.resumeTimer.unref?.();
+  }
+
+  private adjustActive(provider: string, modelId: string, delta: number): void {
+    for (const key of [`provider:${provider}`, `model:${modelId}`]) {
+      const count = (this.active.get(key) || 0) + delta;
+      if (count > 0) this.active.set(key, count);
+      else this.active.delete(key);
+    }
+  }
+
+  private getProviderLimit(provider: string): number {
+    const override = this.configService.get<string>(`LLM_PROVIDER_CONCURRENCY_${provider.toUpperCase().replace(/-/g, '_')}`);
+    const limit = override ? parseInt(override, 10) : NaN;
+    return Number.isFinite(limit) && limit > 0 ? limit : this.defaultProviderLimit;
+  }
+
+  private formatPause(provider: string): string | null {
+    const until = this.rateLimitedUntil.get(provider) || 0;
+    return until > Date.now() ? new Date(until).toISOString() : null;
+  }
+
+  private readInt(key: string, fallback: number): number {
+    const value = parseInt(this.configService.get<string>(key) || '', 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,52 @@
+import { LongitudinalProfileService } from './longitudinal-profile.service';
+import { UsageStoreService } from './usage-store.service';
+
+describe('LongitudinalProfileService', () => {
+  const day = 24 * 60 * 60 * 1000;
+  // A Monday, so each `week` below starts a new trend point
+  const start = new Date('2026-09-07T10:00:00Z');
+  const at = (days: number) => new Date(start.getTime() + days * day);
+  let records: Record<string, any>;
+  let service: LongitudinalProfileService;
+
+  beforeEach(() => {
+    records = {};
+    const usageStore = {
+      getLongitudinalRecord: jest.fn((key: string) => records[key]),
+      setLongitudinalRecord: jest.fn((key: string, record: any) => (records[key] = record)),
+    };
+    service = new LongitudinalProfileService(usageStore as unknown as UsageStoreService);
+  });
+
+  it('tracks stress week by week and reports the change', () => {
+    ['moderate', 'moderate', 'mild', 'mild', 'mild'].forEach((stress, week) =>
+      service.record('user-1', `session-${week}`, { dass: { stress, concerns: [] } }, at(week * 7)),
+    );
+
+    const stress = service.getProfile('user-1', 12, at(29)).signals.find((s) => s.key === 'dass.stress')!;
+
+    expect(stress.trend.map((p) => p.value)).toEqual(['moderate', 'moderate', 'mild', 'mild', 'mild']);
+    expect(stress.change).toEqual({ from: 'moderate', to: 'mild', direction: 'falling', weeks: 4 });
+    expect(stress.current).toMatchObject({ value: 'mild', observations: 5 });
+    expect(service.getSummaryForAdvice('user-1', at(29))).toContain('- Stress: mild (confidence');
+  });
+
+  it('weights recent, confident observations most and accumulates agreeing ones', () => {
+    service.record('user-1', 's1', { attachment: { Attachment_Style: 'Avoidant', Confidence: 0.9 } }, at(0));
+    service.record('user-1', 's2', { attachment: { Attachment_Style: 'Anxious', Confidence: 0.6 } }, at(42));
+    const once = service.getProfile('user-1', 12, at(42)).signals[0].current;
+    service.record('user-1', 's3', { attachment: { Attachment_Style: 'Anxious', Confidence: 0.6 } }, at(42));
+    const twice = service.getProfile('user-1', 12, at(42)).signals[0].current;
+
+    expect(once.value).toBe('Anxious');
+    expect(twice.confidence).toBeGreaterThan(once.confidence);
+  });
+
+  it('skips anonymous users, failed analyzers and unknown MBTI letters', () => {
+    service.record('00000000-0000-0000-0000-000000000000', 's', { dass: { stress: 'mild' } });
+    service.record('user-2', 's', { enneagram: { module_error: true }, mbti: { EI: 'I', SN: 'unknown' } });
+
+    expect(Object.keys(records)).toEqual(['user-2']);
+    expect(service.getProfile('user-2').signals.map((s) => s.key)).toEqual(['mbti.EI']);
+  });
+});
@@ -0,0 +1,293 @@
+import { Injectable } from '@nestjs/common';
+import { UsageStoreService } from './usage-store.service';
+
+const ANONYMOUS_USER_ID = '00000000-0000-0000-0000-000000000000';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/** An observation loses half its weight every this many days. */
+const RECENCY_HALF_LIFE_DAYS = 14;
+/** Weight of observations from analyzers that don't report a confidence (Big Five, DASS, RSE). */
+const DEFAULT_CONFIDENCE = 0.5;
+/** Oldest observations are dropped beyond this many per signal. */
+const MAX_OBSERVATIONS_PER_SIGNAL = 200;
+/** Signals below this confidence are left out of the advice prompt. */
+const MIN_ADVICE_CONFIDENCE = 0.3;
+
+const TRAIT_LEVELS = ['low', 'medium', 'high'];
+const DASS_LEVELS = ['normal', 'mild', 'moderate', 'severe', 'extremely_severe'];
+
+/**
+ * A tracked signal: where it comes from in a framework result and how its values compare.
+ * Ordinal signals (levels low → high) are averaged; categorical ones are voted on.
+ */
+interface SignalDefinition {
+  key: string;
+  framework: string;
+  label: string;
+  levels?: string[];
+  read: (result: any) => { value: string; confidence?: number } | undefined;
+}
+
+const level = (value: unknown, levels: string[]) => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return levels.includes(normalized) ? { value: normalized } : undefined;
+};
+
+const numericConfidence = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+const SIGNALS: SignalDefinition[] = [
+  ...['openness', 'conscientiousness', 'extraversion', 'agreeableness', 'neuroticism'].map((trait) => ({
+    key: `bigFive.${trait}`,
+    framework: 'bigFive',
+    label: trait.charAt(0).toUpperCase() + trait.slice(1),
+    levels: TRAIT_LEVELS,
+    read: (r: any) => level(r[trait], TRAIT_LEVELS),
+  })),
+  ...['depression', 'anxiety', 'stress'].map((scale) => ({
+    key: `dass.${scale}`,
+    framework: 'dass',
+    label: scale.charAt(0).toUpperCase() + scale.slice(1),
+    levels: DASS_LEVELS,
+    read: (r: any) => level(r[scale], DASS_LEVELS),
+  })),
+  {
+    key: 'rse.level',
+    framework: 'rse',
+    label: 'Self-esteem',
+    levels: TRAIT_LEVELS,
+    read: (r) => level(r.level, TRAIT_LEVELS),
+  },
+  {
+    key: 'attachment.style',
+    framework: 'attachment',
+    label: 'Attachment style',
+    read: (r) =>
+      typeof r.Attachment_Style === 'string' && r.Attachment_Style
+        ? { value: r.Attachment_Style, confidence: numericConfidence(r.Confidence) }
+        : undefined,
+  },
+  ...['EI', 'SN', 'TF', 'JP'].map((dimension) => ({
+    key: `mbti.${dimension}`,
+    framework: 'mbti',
+    label: `MBTI ${dimension}`,
+    read: (r: any) =>
+      typeof r[dimension] === 'string' && r[dimension] !== 'unknown'
+        ? { value: r[dimension], confidence: numericConfidence(r.Confidence?.[dimension]) }
+        : undefined,
+  })),
+  {
+    key: 'enneagram.type',
+    framework: 'enneagram',
+    label: 'Enneagram type',
+    read: (r) =>
+      r.Primary_Type ? { value: `Type ${r.Primary_Type}`, confidence: numericConfidence(r.Confidence) } : undefined,
+  },
+];
+
+interface SignalObservation {
+  /** ISO timestamp */
+  at: string;
+  sessionId: string;
+  value: string;
+  confidence: number;
+}
+
+/** One user's observations per signal (persisted by UsageStoreService). */
+interface LongitudinalRecord {
+  userId: string;
+  updatedAt: string;
+  signals: Record<string, SignalObservation[]>;
+}
+
+export interface SignalEstimate {
+  value: string;
+  /** Accumulated over observations, discounted by age and by disagreement between them. */
+  confidence: number;
+  observations: number;
+  lastSeen: string;
+}
+
+export interface SignalTrendPoint {
+  /** Monday (UTC) of the week */
+  weekStart: string;
+  value: string;
+  /** Position on the signal's levels (0 = first level); ordinal signals only */
+  score?: number;
+  observations: number;
+}
+
+export interface LongitudinalSignal {
+  key: string;
+  framework: string;
+  label: string;
+  levels?: string[];
+  current: SignalEstimate;
+  /** Weekly values, oldest first */
+  trend: SignalTrendPoint[];
+  /** First vs. last week of the trend (null with a single week) */
+  change: { from: string; to: string; direction: 'rising' | 'falling' | 'changed' | 'stable'; weeks: number } | null;
+}
+
+export interface LongitudinalProfile {
+  userId: string;
+  updatedAt: string | null;
+  signals: LongitudinalSignal[];
+}
+
+/**
+ * Longitudinal Profile Service
+ *
+ * Keeps a per-user history of Big Five, DASS, RSE, attachment, MBTI and Enneagram signals across
+ * sessions (ParallelLLMService records each analyzed turn) and merges it into a current estimate
+ * per signal: observations are weighted by their confidence and halve in weight every
+ * RECENCY_HALF_LIFE_DAYS, and agreeing observations accumulate confidence. Weekly trend lines
+ * come from GET /chat/profile/:userId/longitudinal; AdviceGeneratorService adds the confident
+ * estimates to the system prompt next to the E-DNA profile.
+ */
+@Injectable()
+export class LongitudinalProfileService {
+  constructor(private usageStore: UsageStoreService) {}
+
+  /** Add this turn's framework results (not the session's accumulated profile) to the user's history. */
+  record(userId: string | undefined, sessionId: string, profile: Record<string, any>, at: Date = new Date()): void {
+    if (!userId || userId === ANONYMOUS_USER_ID || !profile) return;
+    const record = this.getRecord(userId);
+    let added = 0;
+
+    for (const signal of SIGNALS) {
+      const result = profile[signal.framework];
+      if (!result || typeof result !== 'object' || result.module_error) continue;
+      const reading = signal.read(result);
+      if (!reading) continue;
+      const observations = record.signals[signal.key] || (record.signals[signal.key] = []);
+      observations.push({
+        at: at.toISOString(),
+        sessionId,
+        value: reading.value,
+        confidence: Math.min(Math.max(reading.confidence ?? DEFAULT_CONFIDENCE, 0), 1),
+      });
+      if (observations.length > MAX_OBSERVATIONS_PER_SIGNAL) {
+        observations.splice(0, observations.length - MAX_OBSERVATIONS_PER_SIGNAL);
+      }
+      added++;
+    }
+
+    if (added === 0) return;
+    record.updatedAt = at.toISOString();
+    this.usageStore.setLongitudinalRecord(userId, record);
+    console.log(`📈 [Longitudinal] Recorded ${added} signals for user ${userId}`);
+  }
+
+  /** Current estimate and weekly trend of every signal seen in the last `weeks` weeks. */
+  getProfile(userId: string, weeks: number = 12, now: Date = new Date()): LongitudinalProfile {
+    const record = this.usageStore.getLongitudinalRecord(userId) as LongitudinalRecord | undefined;
+    const since = now.getTime() - weeks * WEEK_MS;
+    const signals: LongitudinalSignal[] = [];
+
+    for (const signal of SIGNALS) {
+      const observations = (record?.signals[signal.key] || []).filter((o) => Date.parse(o.at) >= since);
+      if (observations.length === 0) continue;
+
+      const byWeek = new Map<string, SignalObservation[]>();
+      for (const observation of observations) {
+        const week = this.weekStart(new Date(observation.at));
+        byWeek.set(week, [...(byWeek.get(week) || []), observation]);
+      }
+      const trend = [...byWeek.keys()].sort().map((weekStart) => {
+        const weekly = byWeek.get(weekStart)!;
+        const { value, score } = this.combine(signal, weekly.map((o) => ({ value: o.value, weight: o.confidence })));
+        return { weekStart, value, score, observations: weekly.length };
+      });
+
+      signals.push({
+        key: signal.key,
+        framework: signal.framework,
+        label: signal.label,
+        levels: signal.levels,
+        current: this.estimate(signal, observations, now),
+        trend,
+        change: this.describeChange(signal, trend),
+      });
+    }
+
+    return { userId, updatedAt: record?.updatedAt || null, signals };
+  }
+
+  /** Confident long-term estimates as prompt lines ('' when there is nothing to say yet). */
+  getSummaryForAdvice(userId: string | undefined, now: Date = new Date()): string {
+    if (!userId || userId === ANONYMOUS_USER_ID) return '';
+    return this.getProfile(userId, 12, now)
+      .signals.filter((s) => s.current.confidence >= MIN_ADVICE_CONFIDENCE)
+      .map((s) => {
+        const change =
+          s.change && s.change.direction !== 'stable'
+            ? `; ${s.change.from} → ${s.change.to} over ${s.change.weeks} week${s.change.weeks === 1 ? '' : 's'}`
+            : '';
+        return `- ${s.label}: ${s.current.value} (confidence ${s.current.confidence}, ${s.current.observations} observations${change})`;
+      })
+      .join('\n');
+  }
+
+  private estimate(signal: SignalDefinition, observations: SignalObservation[], now: Date): SignalEstimate {
+    const weighted = observations.map((o) => {
+      const ageDays = Math.max(0, (now.getTime() - Date.parse(o.at)) / DAY_MS);
+      return { value: o.value, weight: o.confidence * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS) };
+    });
+    const { value } = this.combine(signal, weighted);
+    const total = weighted.reduce((sum, o) => sum + o.weight, 0);
+    const agreement = total > 0 ? weighted.filter((o) => o.value === value).reduce((sum, o) => sum + o.weight, 0) / total : 0;
+    // Independent observations: the chance at least one of them is right
+    const accumulated = 1 - weighted.reduce((miss, o) => miss * (1 - o.weight), 1);
+
+    return {
+      value,
+      confidence: Math.round(accumulated * agreement * 100) / 100,
+      observations: observations.length,
+      lastSeen: observations[observations.length - 1].at,
+    };
+  }
+
+  /** Weighted mean level (ordinal) or weighted vote (categorical). */
+  private combine(
+    signal: SignalDefinition,
+    weighted: Array<{ value: string; weight: number }>,
+  ): { value: string; score?: number } {
+    if (signal.levels) {
+      const levels = signal.levels;
+      const total = weighted.reduce((sum, o) => sum + o.weight, 0);
+      const score =
+        total > 0
+          ? weighted.reduce((sum, o) => sum + levels.indexOf(o.value) * o.weight, 0) / total
+          : weighted.reduce((sum, o) => sum + levels.indexOf(o.value), 0) / weighted.length;
+      return { value: levels[Math.round(score)], score: Math.round(score * 100) / 100 };
+    }
+    const votes = new Map<string, number>();
+    for (const o of weighted) votes.set(o.value, (votes.get(o.value) || 0) + o.weight);
+    const [value] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0];
+    return { value };
+  }
+
+  private describeChange(signal: SignalDefinition, trend: SignalTrendPoint[]): LongitudinalSignal['change'] {
+    if (trend.length < 2) return null;
+    const first = trend[0];
+    const last = trend[trend.length - 1];
+    const weeks = Math.round((Date.parse(last.weekStart) - Date.parse(first.weekStart)) / WEEK_MS);
+    let direction: 'rising' | 'falling' | 'changed' | 'stable' = first.value === last.value ? 'stable' : 'changed';
+    if (signal.levels && first.value !== last.value) {
+      direction = signal.levels.indexOf(last.value) > signal.levels.indexOf(first.value) ? 'rising' : 'falling';
+    }
+    return { from: first.value, to: last.value, direction, weeks };
+  }
+
+  /** Monday (UTC) of the date's week as YYYY-MM-DD. */
+  private weekStart(date: Date): string {
+    const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+    return monday.toISOString().slice(0, 10);
+  }
+
+  private getRecord(userId: string): LongitudinalRecord {
+    return this.usageStore.getLongitudinalRecord(userId) || { userId, updatedAt: new Date().toISOString(), signals: {} };
+  }
+}
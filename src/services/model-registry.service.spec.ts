@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelRegistryService } from './model-registry.service';
+import { LLM_MODELS, MODEL_PRICING_TIERS, loadModelRegistry, resolveModelId } from '../config/model-registry';
+import { canAccessModel, getAllowedModelsForTier } from '../config/tier-pricing.config';
+import bundledRegistry from '../config/model-registry.data.json';
+
+describe('ModelRegistryService', () => {
+  const file = path.join(os.tmpdir(), `model-registry-${process.pid}.json`);
+  const registry = (): any => JSON.parse(JSON.stringify(bundledRegistry));
+  let service: ModelRegistryService;
+
+  beforeEach(() => {
+    const config = { get: jest.fn((key: string) => (key === 'MODEL_REGISTRY_PATH' ? file : undefined)) };
+    service = new ModelRegistryService(config as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+    loadModelRegistry(bundledRegistry, 'bundled');
+  });
+
+  it('reloads models, pricing tiers and aliases from the registry file', () => {
+    const next = registry();
+    next.version = 'test-2';
+    next.models.push({
+      id: 'gpt-5-mini',
+      provider: 'openai',
+      model: 'gpt-5-mini',
+      maxTokens: 4000,
+      temperature: 0.7,
+      pricingTier: 'cheap',
+      pricePer1M: { input: 0.25, output: 2 },
+      aliases: ['mini'],
+    });
+    fs.writeFileSync(file, JSON.stringify(next));
+
+    const result = service.reload();
+
+    expect(result).toMatchObject({ success: true, version: 'test-2' });
+    expect(LLM_MODELS['gpt-5-mini'].model).toBe('gpt-5-mini');
+    expect(MODEL_PRICING_TIERS['gpt-5-mini']).toBe('cheap');
+    expect(resolveModelId('mini')).toBe('gpt-5-mini');
+    expect(getAllowedModelsForTier('free')).toContain('gpt-5-mini');
+    expect(canAccessModel('free', 'mini')).toBe(true);
+  });
+
+  it('rejects an invalid file and keeps the current registry', () => {
+    const next = registry();
+    next.models[0].fallbacks = ['does-not-exist'];
+    next.tiers.free.defaultModel = 'gpt-4o';
+    fs.writeFileSync(file, JSON.stringify(next));
+
+    const result = service.reload();
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(
+      expect.arrayContaining([
+        'gpt-4o: fallback "does-not-exist" is not a model id',
+        'tiers.free.defaultModel "gpt-4o" is not usable by that tier',
+      ]),
+    );
+    expect(LLM_MODELS['gpt-4o'].fallbacks).toEqual(['claude-3-5-sonnet', 'gemini-1.5-pro']);
+  });
+
+  it('sends retired models to their replacement and hides them from tiers', () => {
+    const next = registry();
+    const turbo = next.models.find((m: any) => m.id === 'gpt-3.5-turbo');
+    turbo.status = 'retired';
+    turbo.replacedBy = 'gpt-4o-mini';
+    fs.writeFileSync(file, JSON.stringify(next));
+
+    expect(service.reload().success).toBe(true);
+    expect(resolveModelId('gpt-3.5-turbo')).toBe('gpt-4o-mini');
+    expect(getAllowedModelsForTier('elite')).not.toContain('gpt-3.5-turbo');
+  });
+});
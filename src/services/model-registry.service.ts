@@ -0,0 +1,83 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import {
+  getModelRegistryInfo,
+  loadModelRegistry,
+  LLM_MODELS,
+  MODEL_PRICING_PER_1M_TOKENS,
+  MODEL_PRICING_TIERS,
+  ModelRegistryValidationError,
+  TIER_MODEL_ACCESS,
+} from '../config/model-registry';
+
+export interface ModelRegistryReloadResult {
+  success: boolean;
+  path: string;
+  version?: string;
+  modelCount?: number;
+  errors?: string[];
+}
+
+/**
+ * Model Registry Service
+ *
+ * Loads the model registry from disk (MODEL_REGISTRY_PATH, else the model-registry.data.json shipped
+ * next to model-registry.ts) and reloads it at runtime (POST /admin/models/reload).
+ * An invalid file fails startup; an invalid reload is rejected and the current registry stays live.
+ */
+@Injectable()
+export class ModelRegistryService implements OnModuleInit {
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit(): void {
+    // The bundled file is already loaded on import; only an external file needs loading here
+    if (!this.configService.get<string>('MODEL_REGISTRY_PATH')?.trim()) return;
+    const result = this.reload();
+    if (!result.success) {
+      throw new Error(`Model registry ${result.path} is invalid: ${(result.errors || []).join('; ')}`);
+    }
+  }
+
+  /** MODEL_REGISTRY_PATH env, else src/config (dev) or dist/.../config (prod) next to this service. */
+  resolvePath(): string {
+    const fromEnv = this.configService.get<string>('MODEL_REGISTRY_PATH')?.trim();
+    if (fromEnv) return resolve(fromEnv);
+    return join(__dirname, '..', 'config', 'model-registry.data.json');
+  }
+
+  reload(): ModelRegistryReloadResult {
+    const path = this.resolvePath();
+    if (!existsSync(path)) {
+      console.error(`❌ [ModelRegistry] Registry file not found: ${path}`);
+      return { success: false, path, errors: [`File not found: ${path}`] };
+    }
+
+    try {
+      const raw = JSON.parse(readFileSync(path, 'utf-8'));
+      const { version, modelCount } = loadModelRegistry(raw, path);
+      return { success: true, path, version, modelCount };
+    } catch (error) {
+      const errors = error instanceof ModelRegistryValidationError ? error.errors : [error.message];
+      console.error(`❌ [ModelRegistry] Reload rejected, keeping current registry: ${errors.join('; ')}`);
+      return { success: false, path, errors };
+    }
+  }
+
+  /**
+   * Current registry contents (admin view).
+   */
+  getSnapshot() {
+    return {
+      ...getModelRegistryInfo(),
+      models: Object.entries(LLM_MODELS).map(([id, config]) => ({
+        id,
+        ...config,
+        pricingTier: MODEL_PRICING_TIERS[id],
+        pricePer1M: MODEL_PRICING_PER_1M_TOKENS[id],
+      })),
+      tiers: TIER_MODEL_ACCESS,
+    };
+  }
+}
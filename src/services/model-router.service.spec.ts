@@ -0,0 +1,71 @@
+import { BudgetTrackerService } from './budget-tracker.service';
+import { ModelRouterService } from './model-router.service';
+import { Classification } from './parallel-llm.service';
+import { TokenCounterService } from './token-counter.service';
+import { UsageStoreService } from './usage-store.service';
+
+describe('ModelRouterService', () => {
+  const userId = 'router-user';
+  let budgetRecords: Record<string, any>;
+  let router: ModelRouterService;
+
+  const noSignal: Classification = {
+    hasCrisisIndicators: false,
+    hasEmotionalContent: false,
+    hasSelfWorthContent: false,
+    hasDarkTriadIndicators: false,
+    hasPersonalityIndicators: false,
+    hasCognitiveIndicators: false,
+    urgency: 'low',
+  };
+  const crisis: Classification = { ...noSignal, hasCrisisIndicators: true, hasEmotionalContent: true, urgency: 'critical' };
+
+  const spendOn = (modelId: string, spentUSD: number) => {
+    const now = new Date();
+    const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    budgetRecords[`${userId}:${modelId}:${month}`] = { userId, modelId, month, spentUSD };
+  };
+
+  beforeEach(() => {
+    budgetRecords = {};
+    const usageStore = {
+      getBudgetRecord: jest.fn((key: string) => budgetRecords[key]),
+      getAllBudgetKeys: jest.fn(() => Object.keys(budgetRecords)),
+    };
+    router = new ModelRouterService(
+      new BudgetTrackerService(usageStore as unknown as UsageStoreService),
+      new TokenCounterService(),
+    );
+  });
+
+  it('sends small talk to the cheapest model even on the top tier', async () => {
+    const decision = await router.route('thanks!', 50, 'elite', userId, noSignal);
+
+    expect(decision.complexity).toBe('simple');
+    expect(decision.model).toBe('gemini-1.5-flash');
+    expect(decision.reason).toContain('greeting or acknowledgement');
+  });
+
+  it('sends crisis messages to a premium model when the tier allows one', async () => {
+    const decision = await router.route('I cannot do this anymore', 200, 'pro', userId, crisis);
+
+    expect(decision.complexity).toBe('complex');
+    expect(decision.model).toBe('claude-3-5-sonnet');
+  });
+
+  it('steps down to the best allowed model when the tier has no premium models', async () => {
+    const decision = await router.route('I cannot do this anymore', 200, 'standard', userId, crisis);
+
+    expect(decision.model).toBe('deepseek-chat');
+    expect(decision.reason).toContain('best affordable model for the standard tier');
+  });
+
+  it('skips premium models whose monthly budget is spent', async () => {
+    spendOn('claude-3-5-sonnet', 10);
+
+    const decision = await router.route('I cannot do this anymore', 200, 'pro', userId, crisis);
+
+    expect(decision.model).toBe('deepseek-chat');
+    expect(decision.reason).toContain('claude-3-5-sonnet budget exhausted');
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { LLM_MODELS } from '../config/llm-models.config';
+import { LLMRoutingDecision } from '../interfaces/llm-provider.interface';
+import {
+  getAllowedModelsForTier,
+  getDefaultModelForTier,
+  getOutputLimitForTier,
+  MODEL_PRICING_TIERS,
+  ModelPricingTier,
+  UserTier,
+} from '../config/tier-pricing.config';
+import { BudgetTrackerService } from './budget-tracker.service';
+import { Classification, OBVIOUS_NO_SIGNAL_PATTERNS } from './parallel-llm.service';
+import { TokenCounterService } from './token-counter.service';
+
+type MessageComplexity = LLMRoutingDecision['complexity'];
+
+/**
+ * Model the framework analyzers run on when `auto` is selected (the reply model is only chosen
+ * once the router classification is in). Same model the classifier itself uses.
+ */
+export const AUTO_ANALYSIS_MODEL = 'gpt-4o-mini';
+
+/** Lowest pricing tier trusted with each complexity. */
+const MIN_PRICING_TIER: Record<MessageComplexity, ModelPricingTier> = {
+  simple: ModelPricingTier.CHEAP,
+  moderate: ModelPricingTier.STANDARD,
+  complex: ModelPricingTier.PREMIUM,
+};
+
+const PRICING_TIER_RANK: Record<ModelPricingTier, number> = {
+  [ModelPricingTier.CHEAP]: 0,
+  [ModelPricingTier.STANDARD]: 1,
+  [ModelPricingTier.PREMIUM]: 2,
+  [ModelPricingTier.EXPENSIVE]: 3,
+};
+
+/** Messages up to this many tokens with no psychological signal count as simple. */
+const SIMPLE_MESSAGE_TOKENS = 25;
+/** Messages over this many tokens are at least moderate. */
+const LONG_MESSAGE_TOKENS = 300;
+/** Framework flags at which a message counts as emotionally deep. */
+const DEEP_SIGNAL_FLAGS = 3;
+/** Below this share of its monthly budget, a budgeted model is kept for crisis messages. */
+const LOW_BUDGET_SHARE = 0.2;
+
+/**
+ * Model Router
+ *
+ * Resolves the virtual `auto` model: rates the message simple/moderate/complex from its length
+ * and the ParallelLLMService router classification (crisis, urgency, how many psychological
+ * signals it carries), then picks the cheapest model the tier allows at or above the pricing tier
+ * that complexity needs, skipping budgeted models whose remaining monthly budget
+ * (BudgetTrackerService.checkBudget) can't cover the reply. When nothing qualifies it steps down
+ * to the best affordable model, and finally to the tier's default.
+ */
+@Injectable()
+export class ModelRouterService {
+  constructor(
+    private readonly budgetTracker: BudgetTrackerService,
+    private readonly tokenCounter: TokenCounterService,
+  ) {}
+
+  async route(
+    message: string,
+    promptTokens: number,
+    userTier: UserTier,
+    userId: string,
+    classification?: Classification,
+  ): Promise<LLMRoutingDecision> {
+    const { complexity, signal } = this.rateComplexity(message, classification);
+    const isCrisis = !!classification && (classification.hasCrisisIndicators || classification.urgency === 'critical');
+    const required = PRICING_TIER_RANK[MIN_PRICING_TIER[complexity]];
+    const outputTokens = getOutputLimitForTier(userTier);
+
+    // Cheapest first (estimated cost of this prompt plus a full-length reply)
+    const candidates = getAllowedModelsForTier(userTier)
+      .filter((id) => LLM_MODELS[id]?.provider !== 'mock' && LLM_MODELS[id]?.status !== 'deprecated')
+      .map((id) => ({
+        id,
+        rank: PRICING_TIER_RANK[MODEL_PRICING_TIERS[id]] ?? 0,
+        cost: this.budgetTracker.estimateCost(id, promptTokens, outputTokens),
+      }))
+      .sort((a, b) => a.cost - b.cost || a.rank - b.rank);
+
+    const skipped: string[] = [];
+    const affordable: typeof candidates = [];
+    for (const candidate of candidates) {
+      const budget = await this.budgetTracker.checkBudget(userId, userTier, candidate.id);
+      if (budget.limit === Infinity || budget.limit <= 0) {
+        affordable.push(candidate);
+      } else if (!budget.allowed || candidate.cost > budget.remaining) {
+        skipped.push(`${candidate.id} budget exhausted`);
+      } else if (!isCrisis && budget.remaining < budget.limit * LOW_BUDGET_SHARE) {
+        skipped.push(`${candidate.id} budget low, kept for crisis messages`);
+      } else {
+        affordable.push(candidate);
+      }
+    }
+
+    const fits = affordable.find((c) => c.rank >= required);
+    const bestBelow = affordable.filter((c) => c.rank < required).sort((a, b) => b.rank - a.rank || a.cost - b.cost)[0];
+    const chosen = fits || bestBelow;
+    const model = chosen?.id || getDefaultModelForTier(userTier);
+
+    let reason = `${complexity} message (${signal}) → `;
+    if (fits) reason += `cheapest allowed ${MODEL_PRICING_TIERS[model]} model`;
+    else if (chosen) reason += `best affordable model for the ${userTier} tier (wanted ${MIN_PRICING_TIER[complexity]})`;
+    else reason += `${userTier} tier default`;
+    if (skipped.length > 0) reason += `; skipped ${skipped.join(', ')}`;
+
+    console.log(`🧭 [ModelRouter] auto → ${model}: ${reason}`);
+    return { model, complexity, reason };
+  }
+
+  /** Complexity of a message, with the signal that decided it (for the routing reason). */
+  private rateComplexity(
+    message: string,
+    classification?: Classification,
+  ): { complexity: MessageComplexity; signal: string } {
+    const trimmed = message.trim();
+    const tokens = this.tokenCounter.countText(trimmed, AUTO_ANALYSIS_MODEL);
+
+    if (classification?.hasCrisisIndicators || classification?.urgency === 'critical') {
+      return { complexity: 'complex', signal: 'crisis indicators' };
+    }
+    if (OBVIOUS_NO_SIGNAL_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+      return { complexity: 'simple', signal: 'greeting or acknowledgement' };
+    }
+
+    const flags = classification
+      ? Object.entries(classification).filter(([key, value]) => key.startsWith('has') && value === true).length
+      : 0;
+    const emotional = !!classification && (classification.hasEmotionalContent || classification.hasSelfWorthContent);
+
+    if (classification?.urgency === 'high' && emotional) {
+      return { complexity: 'complex', signal: 'urgent emotional content' };
+    }
+    if (flags >= DEEP_SIGNAL_FLAGS) {
+      return { complexity: 'complex', signal: `emotional depth: ${flags} psychological signals` };
+    }
+    if (flags === 0 && tokens <= SIMPLE_MESSAGE_TOKENS) {
+      return { complexity: 'simple', signal: 'short message, no psychological signal' };
+    }
+    if (tokens > LONG_MESSAGE_TOKENS) {
+      return { complexity: 'moderate', signal: `long message (~${tokens} tokens)` };
+    }
+    return {
+      complexity: 'moderate',
+      signal: flags > 0 ? `${flags} psychological signal${flags > 1 ? 's' : ''}` : `~${tokens} tokens`,
+    };
+  }
+}
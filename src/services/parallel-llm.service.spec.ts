@@ -0,0 +1,177 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { selectFrameworksByPriority } from '../config/subscription.config';
+import { FRAMEWORK_REGISTRY, getFramework } from '../knowledge-base/framework-registry';
+import { toGeminiSchema } from '../providers/gemini.provider';
+import { MockProvider } from '../providers/mock.provider';
+import { CreditService } from './credit.service';
+import { LLMOrchestratorService } from './llm-orchestrator.service';
+import { LongitudinalProfileService } from './longitudinal-profile.service';
+import { ParallelLLMService } from './parallel-llm.service';
+
+describe('ParallelLLMService', () => {
+  const config = { get: jest.fn() } as unknown as ConfigService;
+  const teamMessage = "Everyone else agreed, so I didn't want to disagree with my manager";
+  let generateResponse: jest.Mock;
+  let generateStructured: jest.Mock;
+  let service: ParallelLLMService;
+
+  beforeEach(() => {
+    const mock = new MockProvider(config);
+    generateResponse = jest.fn((model: string, messages: any[], options: any) =>
+      mock.generateResponse(model, messages, options),
+    );
+    generateStructured = jest.fn(async (model: string, messages: any[], options: any) => {
+      const response = await mock.generateResponse(model, messages, options);
+      return { ...response, parsed: JSON.parse(response.content) };
+    });
+    service = new ParallelLLMService(
+      config,
+      { generateResponse, generateStructured } as unknown as LLMOrchestratorService,
+      { recordTokenUsage: jest.fn() } as unknown as CreditService,
+      { record: jest.fn() } as unknown as LongitudinalProfileService,
+    );
+  });
+
+  it('runs the registry frameworks the router selects and synthesizes their insights', async () => {
+    const profile: any = await service.analyze(teamMessage, [], 'session-team', 'gpt-4o');
+
+    expect(profile.conflictMode).toMatchObject({ Conflict_Mode: expect.any(String), plain_english_insight: expect.any(String) });
+    expect(profile.leadership).toBeDefined();
+    expect(profile.socialInfluence).toBeDefined();
+    expect(profile.dass).toBeUndefined();
+    expect(service.getLastClassification('session-team')).toMatchObject({ hasConflictMode: true, hasMBTI: false });
+
+    const conflictCall = generateStructured.mock.calls.find((call) => call[2].max_tokens === 800 && call[1][0].content.includes('handling the conflict'));
+    expect(conflictCall[1][1]).toEqual({ role: 'user', content: teamMessage });
+    expect(conflictCall[2].response_format.json_schema.schema.properties).toHaveProperty('Conflict_Mode');
+    const synthesis = generateResponse.mock.calls.find((call) => call[1][0].content.startsWith('You are the Synthesis LLM'));
+    expect(synthesis[1][0].content).toContain('[Conflict Mode]:');
+  });
+
+  it('only runs and lists the frameworks enabled for the tier', async () => {
+    const leadership = getFramework('leadership')!;
+    const enabledTiers = leadership.enabledTiers;
+    leadership.enabledTiers = ['pro', 'elite'];
+    try {
+      const profile: any = await service.analyze(teamMessage, [], 'session-free', 'gpt-4o', undefined, undefined, 'free');
+
+      expect(profile.leadership).toBeUndefined();
+      expect(profile.conflictMode).toBeDefined();
+      expect(service.listFrameworks('free').map((f) => f.id)).not.toContain('leadership');
+      expect(service.listFrameworks('pro').find((f) => f.id === 'leadership')).toMatchObject({
+        classifierFlag: 'hasLeadership',
+        costClass: 'low',
+        enabledTiers: ['pro', 'elite'],
+      });
+    } finally {
+      leadership.enabledTiers = enabledTiers;
+    }
+  });
+
+  it("caps the triggered frameworks at the plan's frameworkCap and reports what was skipped", async () => {
+    const profile: any = await service.analyze(teamMessage, [], 'session-basic', 'gpt-4o', undefined, undefined, 'basic');
+    const selection = service.getLastFrameworkSelection('session-basic')!;
+
+    expect(selection.cap).toBe(2);
+    expect(selection.chosen).toHaveLength(2);
+    expect(selection.skipped.length).toBeGreaterThan(0);
+    expect(Object.keys(profile).filter((key) => getFramework(key))).toEqual(expect.arrayContaining(selection.chosen));
+    for (const id of selection.skipped) expect(profile[id]).toBeUndefined();
+  });
+
+  it('ranks urgent emotional frameworks and keyword matches first and never caps crisis analyzers', () => {
+    const triggered = ['bigFive', 'rse', 'leadership', 'dass', 'mbti'];
+
+    expect(selectFrameworksByPriority(triggered, 2)).toEqual({
+      chosen: ['dass', 'bigFive', 'mbti'],
+      skipped: ['leadership', 'rse'],
+      exempt: ['dass'],
+      cap: 2,
+    });
+    expect(selectFrameworksByPriority(triggered, 2, { urgency: 'high' }).chosen).toEqual(['dass', 'rse', 'bigFive']);
+    expect(
+      selectFrameworksByPriority(triggered, 1, { keywordMatches: { leadership: ['manager'] } }).chosen,
+    ).toEqual(['dass', 'leadership']);
+  });
+
+  it('batches the frameworks into one structured call for batching tiers and apportions its tokens', async () => {
+    const profile: any = await service.analyze(teamMessage, [], 'session-batch', 'gpt-4o', undefined, undefined, 'free');
+
+    expect(generateStructured).toHaveBeenCalledTimes(1);
+    const [, messages, options] = generateStructured.mock.calls[0];
+    expect(messages[0].content).not.toContain(fs.readFileSync(path.join(process.cwd(), 'KB', getFramework('leadership')!.kbFile), 'utf8').slice(0, 200));
+    expect(Object.keys(options.response_format.json_schema.schema.properties)).toEqual(['conflictMode', 'leadership', 'socialInfluence']);
+    expect(profile.conflictMode).toMatchObject({ Conflict_Mode: expect.any(String), plain_english_insight: expect.any(String) });
+    expect(profile.leadership).toBeDefined();
+
+    const tokens = service.getLastAnalysisTokens('session-batch')!;
+    const usage = (await generateStructured.mock.results[0].value).usage;
+    expect(tokens).toMatchObject({ mode: 'batched', calls: 1 });
+    expect(tokens.frameworks.map((f) => f.framework)).toEqual(['conflictMode', 'leadership', 'socialInfluence']);
+    expect(tokens.frameworks.reduce((sum, f) => sum + f.inputTokens, 0)).toBe(usage.inputTokens);
+    expect(tokens.frameworks.reduce((sum, f) => sum + f.outputTokens, 0)).toBe(usage.outputTokens);
+  });
+
+  it('sends Gemini a batched schema without property-less objects', async () => {
+    const objectNodes = (schema: any): any[] =>
+      !schema || typeof schema !== 'object'
+        ? []
+        : [...(schema.type === 'OBJECT' ? [schema] : []), ...Object.values(schema).flatMap(objectNodes)];
+    const batchSchema = async (ids: string[]) => {
+      generateStructured.mockClear();
+      await (service as any).runFrameworksBatched(ids.map((id) => getFramework(id)!), teamMessage, [], 'gemini-1.5-pro', 'session-gemini');
+      return generateStructured.mock.calls[0][2].response_format.json_schema.schema;
+    };
+
+    const converted = toGeminiSchema(await batchSchema(['conflictMode', 'groupDynamics', 'socialIdentity']));
+    expect(converted.properties.groupDynamics.properties.Forces.properties).toHaveProperty('Restraining');
+    expect(converted.properties.socialIdentity.properties.Groups.properties).toHaveProperty('Outgroup');
+    expect(objectNodes(converted).filter((node) => !Object.keys(node.properties || {}).length)).toEqual([]);
+
+    // Map-shaped fields (MBTI confidences) cannot be a responseSchema: the batch goes in JSON mode instead
+    expect(toGeminiSchema(await batchSchema(['conflictMode', 'mbti']))).toBeUndefined();
+  });
+
+  it('tells explicit statements of risk from keyword hits', () => {
+    expect(service.detectSafetyRisk('I want to kill myself')).toMatchObject({ category: 'self_harm', confidence: 'high' });
+    expect(service.detectSafetyRisk('My husband hits me when he drinks')).toMatchObject({ category: 'abuse', confidence: 'high' });
+    for (const message of ['The toxic culture is poison', 'We have substance abuse cases at work', 'Our domestic violence policy for class']) {
+      expect(service.detectSafetyRisk(message)).toMatchObject({ flag: 'risk', confidence: 'keyword' });
+    }
+  });
+
+  it('flags crisis language and framework keywords written in other languages', () => {
+    expect(service.detectSafetyRisk('Ya no puedo más, quiero morir', 'es')).toMatchObject({ flag: 'risk', category: 'self_harm' });
+    expect(service.detectSafetyRisk('Er ist bewusstlos und atmet nicht', 'de')).toMatchObject({ flag: 'risk', category: 'medical' });
+    expect(service.detectSafetyRisk('死にたい', 'ja')).toMatchObject({ flag: 'risk', category: 'self_harm' });
+    expect(service.detectSafetyRisk('Estoy bien, gracias', 'es')).toEqual({ flag: 'none' });
+
+    // Only the message's own language (plus English) is checked, on word boundaries
+    expect(service.detectSafetyRisk('Ya no puedo más, quiero morir', 'en')).toEqual({ flag: 'none' });
+    expect(service.detectSafetyRisk('There is a lot of passive aggression in my team', 'en')).toEqual({ flag: 'none' });
+    expect(service.detectSafetyRisk('In the end it was all fine')).toEqual({ flag: 'none' });
+
+    const { flags, matchedKeywords } = service.detectTriggerKeywords('Me siento agotada y discutí con mi jefe otra vez');
+    expect(flags).toMatchObject({ hasEmotionalContent: true, hasLeadership: true });
+    expect(matchedKeywords.dass).toContain('agotad');
+  });
+
+  it('keeps MBTI letters from earlier turns that a new message leaves unknown', () => {
+    const merged = getFramework('mbti')!.merge!({ EI: 'I', SN: 'N', TF: 'unknown' }, { EI: 'unknown', SN: 'S', TF: 'F' });
+
+    expect(merged).toMatchObject({ EI: 'I', SN: 'S', TF: 'F' });
+  });
+
+  it('has one KB file, id and classifier flag per framework', () => {
+    const ids = FRAMEWORK_REGISTRY.map((f) => f.id);
+    const flags = FRAMEWORK_REGISTRY.map((f) => f.classifierFlag);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(flags).size).toBe(flags.length);
+    for (const framework of FRAMEWORK_REGISTRY) {
+      expect(fs.existsSync(path.join(process.cwd(), 'KB', framework.kbFile))).toBe(true);
+    }
+  });
+});
@@ -1,9 +1,30 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { LLMOrchestratorService } from './llm-orchestrator.service';
+import { LLMOrchestratorService, LLMStructuredOutputError } from './llm-orchestrator.service';
+import { LLMOptions, LLMResponse, LLMResponseFormatJsonSchema, LLMTokenUsage } from '../interfaces/llm-provider.interface';
 import { CreditService } from './credit.service';
-
-interface Classification {
+import { LongitudinalProfileService } from './longitudinal-profile.service';
+import { FrameworkAnalysisMode, TIER_ANALYSIS_MODE, UserTier } from '../config/tier-pricing.config';
+import { DEFAULT_LANGUAGE, LanguageCode } from '../config/language.config';
+import {
+  FrameworkSelection,
+  getFrameworkCapForTier,
+  selectFrameworksByPriority,
+} from '../config/subscription.config';
+import {
+  ClassifierFlag,
+  FRAMEWORK_REGISTRY,
+  FrameworkDescriptor,
+  getActiveFrameworks,
+} from '../knowledge-base/framework-registry';
+import {
+  getLocalizedTriggerKeywords,
+  LOCALIZED_HIGH_RISK_PATTERNS,
+  LOCALIZED_SAFETY_PATTERNS,
+  LocalizedSafetyCategory,
+} from '../knowledge-base/localized-triggers.data';
+
+export interface Classification {
   hasCrisisIndicators: boolean;
   hasEmotionalContent: boolean;
   hasSelfWorthContent: boolean;
@@ -17,6 +38,14 @@ interface Classification {
   hasErikson?: boolean;
   hasGestalt?: boolean;
   hasBioPsych?: boolean;
+  // Team / group decision frameworks
+  hasGroupDynamics?: boolean;
+  hasSocialIdentity?: boolean;
+  hasConflictMode?: boolean;
+  hasLeadership?: boolean;
+  hasSocialInfluence?: boolean;
+  // Flags of frameworks added through the registry
+  [flag: ClassifierFlag]: boolean | undefined;
   urgency: 'critical' | 'high' | 'medium' | 'low';
 }
 
@@ -51,6 +80,59 @@ interface PsychologicalProfile {
     systemPreference?: string;
     insights: string[];
   };
+  // Team / group decision frameworks (fields as returned by the KB prompts)
+  groupDynamics?: {
+    FieldInterdependence?: boolean;
+    Forces?: { Driving?: string[]; Restraining?: string[] };
+    EquilibriumState?: string;
+    ChangePhase?: string;
+    GroupNorms?: string[];
+    Confidence?: number;
+    Evidence?: string[];
+    plain_english_insight?: string;
+  };
+  socialIdentity?: {
+    Groups?: { Ingroup?: string; Outgroup?: string };
+    Social_Categorization?: boolean;
+    Social_Comparison?: boolean;
+    Positive_Distinctiveness?: boolean;
+    Status_Cues?: string;
+    Legitimacy_View?: string;
+    Boundary_Permeability?: string;
+    Threat_Level?: string;
+    Likely_Strategy?: string;
+    Confidence?: number;
+    Evidence?: string[];
+    plain_english_insight?: string;
+  };
+  conflictMode?: {
+    Conflict_Mode?: 'Competing' | 'Collaborating' | 'Compromising' | 'Avoiding' | 'Accommodating' | string;
+    Assertiveness_Level?: string;
+    Cooperativeness_Level?: string;
+    Overuse_or_Underuse?: string;
+    Contextual_Appropriateness?: string;
+    Confidence?: number;
+    Evidence?: string[];
+    plain_english_insight?: string;
+  };
+  leadership?: {
+    FollowerMaturity?: string;
+    LeaderStyle?: string;
+    Quadrant?: number;
+    MatchEffectiveness?: string;
+    Confidence?: number;
+    Evidence?: string[];
+    plain_english_insight?: string;
+  };
+  socialInfluence?: {
+    InfluenceType?: string[];
+    CompliancePrinciples?: string[];
+    ConformityForm?: string;
+    Resistance?: string[];
+    Confidence?: number;
+    Evidence?: string[];
+    plain_english_insight?: string;
+  };
   // Per-message synthesis summary (latest turn)
   summaryForThisMessage?: {
     summary: string;
@@ -66,13 +148,17 @@ interface PsychologicalProfile {
   safety?: {
     flag: 'none' | 'risk';
     category?: 'self_harm' | 'harm_others' | 'abuse' | 'medical' | string;
+    /** Text that matched the risk pattern */
+    evidence?: string;
+    /** 'high' for an explicit statement of risk, 'keyword' for a keyword hit only */
+    confidence?: 'high' | 'keyword';
   };
 }
 
 // =============================================================================
 // INTELLIGENT PSYCHOLOGICAL SIGNAL ROUTER PROMPT
 // =============================================================================
-const PSYCHOLOGICAL_SIGNAL_ROUTER = `
+const SIGNAL_ROUTER_PREAMBLE = `
 You are a psychological signal detector. Your one job:
 
 **Does this message contain ANY psychological information about the speaker?**
@@ -182,79 +268,14 @@ When there IS signal, pick ALL relevant lenses. **One message often triggers mul
 
 ---
 
-**dass** - Current emotional state (Depression, Anxiety, Stress)
-Use when the message reveals how they're feeling emotionally - whether stated directly ("I feel anxious") or indirectly through their tone, situation, or behavior. Emotional distress can show through what they say, how they say it, what they're going through, or how they're coping. Not just emotion words - the overall emotional weight of the message.
-
----
-
-**bigFive** - Personality traits (who they ARE as a person)
-Detects the Big Five personality dimensions (OCEAN):
-- **Openness**: creativity, curiosity, imagination, love of learning, trying new things
-- **Conscientiousness**: self-control, organization, discipline, planning, responsibility, attention to detail
-- **Extraversion**: social energy, social interactivity, talkativeness, enjoying people, outgoing nature
-- **Agreeableness**:  helpfulness, kindness, cooperation, empathy, trust, caring about others
-- **Neuroticism**: emotional sensitivity, tendency to worry, self-doubt, mood swings, depression, irritability, and moodiness.
-
-Use when: Message reveals HOW they typically think, feel, or behave as a pattern - not just a one-time emotion.
-Example: "I always plan everything" → Conscientiousness. "I get anxious easily" → Neuroticism. "I love meeting new people" → Extraversion.
-
----
-
-**rse** - Self-worth and self-esteem
-Use when the message reveals how they see themselves - their sense of value, competence, or worth. This shows in how they talk about their abilities, achievements, failures, or place in the world. Self-esteem can be high, low, or fragile - look for the underlying belief about "am I good enough?"
-
----
-
-**enneagram** - Core motivations, fears, and personality patterns
-Detects the 9 Enneagram personality types based on:
-- **Core fears & desires** (what they avoid vs. seek)
-- **Worldview** (how they see life and relationships)
-- **Coping patterns** (how they handle stress, conflict, decisions)
-- **Emotional habits** (anger, shame, fear patterns)
-- **Relationship dynamics** (how they connect with or withdraw from others)
-
-The 9 types: Perfectionist, Helper, Achiever, Individualist, Investigator, Loyalist, Enthusiast, Challenger, Peacemaker
-
-Use when: Message reveals patterns in how they think, relate, cope, or what drives their behavior - even if they don't explicitly state fears or desires. Any message showing personality patterns, coping mechanisms, relationship styles, or emotional tendencies can be Enneagram-relevant.
-
----
-
-**crt** - How they make decisions
-Use when message reveals thinking patterns - do they go with gut feelings or analyze carefully? Are they impulsive or deliberate? Do they trust instincts or need to think things through?
-
----
-
-**darkTriad** - Manipulation / superiority patterns (RARE)
-Use ONLY when message clearly shows: using others for personal gain, feeling superior to everyone, or lacking empathy/remorse. Most messages won't have this.
-
----
-
-**attachment** - How they connect with and trust others
-Use when the message reveals relationship patterns - how they approach closeness, trust, dependency, or independence with ANY people (not just romantic). Do they push people away? Cling too tightly? Struggle to trust? Feel secure in connections? This shapes how they relate to everyone.
-
----
-
-**mbti** - How they process the world
-Use when message reveals: where they get energy (people vs alone), how they take in info (details vs big picture), how they decide (logic vs values), how they structure life (planned vs spontaneous).
-
----
-
-**erikson** - Life stage and developmental challenges
-Use when the message reveals struggles about growing, maturing, or finding one's place in life. Questions about trust, independence, identity, connection, purpose, or legacy. The big "life chapter" questions - who am I becoming, where do I belong, what am I building, did my choices matter. Developmental transitions and existential turning points.
-
----
-
-**gestalt** - Emotional awareness and unfinished business
-Use when the message reveals how connected or disconnected they are from their own feelings. Are they fully present with their emotions? Avoiding something? Deflecting? Stuck on something unresolved from the past? The gap between what they feel and what they acknowledge.
-
----
-
-**bioPsych** - Physical and biological factors affecting mood
-Use when the message suggests physical factors might be influencing their state - sleep, energy, health, substances, body sensations, environment. Can be explicit ("I haven't slept") or implicit (signs of exhaustion, physical complaints, lifestyle factors). The body-mind connection.
+`;
 
----
+// One lens per enabled framework (title and guidance from the framework registry)
+const SIGNAL_ROUTER_LENSES = getActiveFrameworks()
+  .map((f) => `**${f.id}** - ${f.routerTitle}\n${f.routerGuidance}\n\n---\n\n`)
+  .join('');
 
-## IMPORTANT: Think Like a Therapist
+const SIGNAL_ROUTER_GUIDELINES = `## IMPORTANT: Think Like a Therapist
 
 A therapist hearing "I feel anxious about starting my business" would think:
 
@@ -284,6 +305,12 @@ When confidence is low, still report the signal if you sense it. Better to flag
 
 ---
 
+## Any Language
+
+Users may write in any language. Judge the meaning, not the English wording: "Me siento inútil" has the same self-worth signal as "I feel useless". Keep framework ids and JSON keys in English.
+
+---
+
 ## Your Response Format
 
 Respond ONLY with valid JSON:
@@ -321,8 +348,10 @@ Positive messages have signal too. You're not looking for problems - you're look
 Trust your instincts. If you sense something about the person, there's signal.
 `;
 
+const PSYCHOLOGICAL_SIGNAL_ROUTER = SIGNAL_ROUTER_PREAMBLE + SIGNAL_ROUTER_LENSES + SIGNAL_ROUTER_GUIDELINES;
+
 // Simple regex filter for OBVIOUSLY non-psychological messages (saves LLM calls)
-const OBVIOUS_NO_SIGNAL_PATTERNS = [
+export const OBVIOUS_NO_SIGNAL_PATTERNS = [
   /^(hi|hello|hey|yo|sup)[\s!.?]*$/i,                    // Pure greetings
   /^(ok|okay|k|sure|yes|no|yeah|nah|yep|nope)[\s!.?]*$/i, // Simple acknowledgments
   /^(thanks|thank you|ty|thx)[\s!.?]*$/i,                 // Thanks
@@ -330,17 +359,194 @@ const OBVIOUS_NO_SIGNAL_PATTERNS = [
   /^(good morning|good night|gm|gn)[\s!.?]*$/i,           // Time greetings
   /^what time is it\??$/i,                                 // Time question
   /^what('s| is) the (weather|date|time)\??$/i,           // Factual questions
+  /^(hola|bonjour|salut|hallo|olá|oi|ciao)[\s!.?]*$/i,   // Greetings in other languages
+  /^(gracias|merci|danke|obrigad[oa]|grazie|bedankt)[\s!.?]*$/i, // Thanks in other languages
 ];
 
+/** Single-word greetings (any supported Latin-script language): skipped as a first message. */
+const PURE_GREETING = /^(hi|hello|hey|hola|bonjour|salut|hallo|olá|oi|ciao)$/i;
+
+/**
+ * Explicit statements of risk (first person, or an emergency happening now): a match is enough for
+ * the safety gate on its own. Checked before SAFETY_RISK_PATTERNS, each category with its
+ * translation for the message's language (LOCALIZED_HIGH_RISK_PATTERNS).
+ */
+const HIGH_CONFIDENCE_RISK_PATTERNS: Array<{ category: LocalizedSafetyCategory; pattern: RegExp }> = [
+  {
+    category: 'self_harm',
+    pattern:
+      /\b(i'?m suicidal|kill(ing)? myself|end(ing)? my (own )?life|take my (own )?life|(want|wanna|going|gonna|plan(ning)?) to (kill|hurt|harm|cut) myself|i (just )?(want|wanna) to die|i wish i (was|were) dead|better off dead|i don'?t want to (live|be alive) anymore|(been|started|keep) (cutting|harming|hurting) myself)\b/i,
+  },
+  {
+    category: 'harm_others',
+    pattern: /\bi('m| am)? (planning|going|gonna) to (stab|shoot|poison) (him|her|them)\b/i,
+  },
+  {
+    category: 'abuse',
+    pattern:
+      /\b(he|she|they|my (husband|wife|partner|boyfriend|girlfriend|ex|dad|father|mom|mother|stepdad|stepfather|parents?)) (hits|beats|beat|chokes|choked|strangled|raped|rapes|sexually assaulted|abuses|abused|is abusing|has been abusing) me\b|\bi('m| am| was) being (abused|beaten)\b/i,
+  },
+  {
+    category: 'medical',
+    pattern:
+      /\b(took|taken|swallowed) (too many|a (whole )?bottle of|all (of )?(my|the|his|her)) (pills|tablets|meds)\b|\bi overdosed\b|\b(he|she|they)('s| is| are) (not breathing|unconscious)\b/i,
+  },
+];
+
+/**
+ * High-risk language, checked in order (the first match is the category): the English pattern,
+ * then its translation for the message's language (localized-triggers.data.ts). A match alone is
+ * only a keyword hit: the safety gate acts on it when the router confirms a crisis.
+ */
+const SAFETY_RISK_PATTERNS: Array<{ category: LocalizedSafetyCategory; pattern: RegExp }> = [
+  { category: 'self_harm', pattern: /\b(suicid|kill(ing)? myself|end it all|want(ed)? to die|(harm|cut)(ing)? myself)/i },
+  { category: 'harm_others', pattern: /\b(kill|hurt) (him|her|them)\b/i },
+  { category: 'abuse', pattern: /\b(abus(e|ed|es|ing|ive)|violen(ce|t)|assault(ed|ing)?)\b/i },
+  { category: 'medical', pattern: /\b(overdos(e|ed|ing)|poison(ed|ing|ous)?|unconscious|not breathing)\b/i },
+];
+
+/** Classifier flag of every registry framework: set for the frameworks the router selected. */
+function frameworkFlags(selected: string[] = []): Record<ClassifierFlag, boolean> {
+  const flags: Record<ClassifierFlag, boolean> = {};
+  for (const framework of FRAMEWORK_REGISTRY) {
+    flags[framework.classifierFlag] = selected.includes(framework.id);
+  }
+  return flags;
+}
+
+/** Per-framework token usage of the latest analysis (debug trace). */
+export interface FrameworkTokenUsage {
+  framework: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Share of a batched call, apportioned by prompt section size (input) and result size (output) */
+  apportioned?: boolean;
+}
+
+export interface AnalysisTokenUsage {
+  mode: FrameworkAnalysisMode;
+  /** LLM calls the frameworks took (classification and synthesis not included) */
+  calls: number;
+  frameworks: FrameworkTokenUsage[];
+}
+
+/** One framework's result and the tokens its analysis took. */
+interface FrameworkRun {
+  result: any;
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+const BATCH_ANALYZER_PREAMBLE = `You are the Batched Framework Analyzer. Analyze the user's latest message (with the conversation for context) through EACH psychological framework below, independently of the others.
+
+Return ONE JSON object with one key per framework id (the word after "##"), each holding that framework's JSON result exactly as its instruction describes. Base every result only on what the conversation shows; use "unknown", low confidence or empty lists where there is no evidence.`;
+
+/** Output budget of a batched call: the frameworks' own limits added up, to at most this. */
+const BATCH_MAX_TOKENS = 4000;
+
+/**
+ * JSON Schema for one registry outputSchema field, from its expected-values description.
+ * `{ Name: expected, ... }` becomes an object with those properties; `object: key → number` a map.
+ */
+function fieldJsonSchema(expected: string): Record<string, unknown> {
+  if (expected.startsWith('string[]')) return { type: 'array', items: { type: 'string' }, description: expected };
+  if (expected === 'boolean') return { type: 'boolean' };
+  if (expected.startsWith('number')) return { type: 'number', description: expected };
+  if (expected.startsWith('object')) {
+    return { type: 'object', additionalProperties: { type: 'number' }, description: expected };
+  }
+  if (expected.startsWith('{')) {
+    const fields = expected
+      .replace(/^\{|\}$/g, '')
+      .split(',')
+      .map((field) => field.split(':').map((part) => part.trim()))
+      .filter(([name, type]) => name && type);
+    return {
+      type: 'object',
+      properties: Object.fromEntries(fields.map(([name, type]) => [name, fieldJsonSchema(type)])),
+      description: expected,
+    };
+  }
+  return { type: 'string', description: expected };
+}
+
+/** JSON Schema of one framework's result, from its registry outputSchema. */
+function frameworkJsonSchema(framework: FrameworkDescriptor): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(framework.outputSchema).map(([field, expected]) => [field, fieldJsonSchema(expected)]),
+    ),
+  };
+}
+
+/** Response schema of a single-framework analysis (separate mode). */
+function buildFrameworkResponseFormat(framework: FrameworkDescriptor): LLMResponseFormatJsonSchema {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: `${framework.id}_analysis`,
+      // Fields stay optional: a missing one falls back like in the batched call
+      strict: false,
+      schema: frameworkJsonSchema(framework),
+    },
+  };
+}
+
+/** Combined response schema of a batched analysis: one object property per framework id. */
+function buildBatchResponseFormat(frameworks: FrameworkDescriptor[]): LLMResponseFormatJsonSchema {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: 'batched_framework_analysis',
+      // Fields stay optional: a missing one is handled like in a single-framework call
+      strict: false,
+      schema: {
+        type: 'object',
+        properties: Object.fromEntries(frameworks.map((f) => [f.id, frameworkJsonSchema(f)])),
+        required: frameworks.map((f) => f.id),
+      },
+    },
+  };
+}
+
+/** Split `total` in proportion to `weights` (whole numbers that add up to total). */
+function apportion(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, b) => a + b, 0) || 1;
+  const shares = weights.map((w) => Math.floor((total * w) / sum));
+  shares[shares.length - 1] += total - shares.reduce((a, b) => a + b, 0);
+  return shares;
+}
+
+/** Result for a failed analyzer: the descriptor's parseFallback, or a module_error marker. */
+function failedResult(framework: FrameworkDescriptor, detail: Record<string, unknown>): any {
+  return framework.parseFallback ? { ...framework.parseFallback } : { module_error: true, ...detail };
+}
+
+/** Fill in plain_english_insight from the descriptor when the model left it out. */
+function completeResult(framework: FrameworkDescriptor, parsed: any): any {
+  if (!parsed.plain_english_insight && framework.describe) {
+    const insight = framework.describe(parsed);
+    if (insight) parsed.plain_english_insight = insight;
+  }
+  return parsed;
+}
+
 @Injectable()
 export class ParallelLLMService {
   private sessionCache = new Map<string, PsychologicalProfile>();
   private promptCache = new Map<string, string>();
+  /** Router classification of the latest message analyzed per session (read by ModelRouterService) */
+  private lastClassification = new Map<string, Classification>();
+  /** Frameworks chosen/skipped under the plan cap for the latest message per session (reported in the analysis event) */
+  private lastFrameworkSelection = new Map<string, FrameworkSelection>();
+  /** Per-framework token usage of the latest analysis per session (debug trace) */
+  private lastAnalysisTokens = new Map<string, AnalysisTokenUsage>();
 
   constructor(
     private configService: ConfigService,
     private llmOrchestrator: LLMOrchestratorService,
     private creditService: CreditService,
+    private longitudinalProfiles: LongitudinalProfileService,
   ) {}
 
   // Load and cache KB system prompts (verbatim). If file contains a JSON object
@@ -373,7 +579,7 @@ export class ParallelLLMService {
         if (parsed && parsed.role === 'system' && Array.isArray(parsed.content)) {
           prompt = parsed.content.join('\n');
         }
-      } catch (_) {
+      } catch {
         // Not JSON; use raw as-is
       }
       return prompt;
@@ -383,103 +589,58 @@ export class ParallelLLMService {
     }
   }
 
-  // Lightweight trigger detection for new theories
-  private detectExtraTheoryTriggers(message: string): {
-    hasAttachment: boolean;
-    hasEnneagram: boolean;
-    hasMBTI: boolean;
-    hasErikson: boolean;
-    hasGestalt: boolean;
-    hasBioPsych: boolean;
-  } {
-    const result = this.detectExtraTheoryTriggersWithMatches(message);
-    return result.flags;
-  }
-
-  // Detect extra theory triggers AND return matched keywords for debug display
-  private detectExtraTheoryTriggersWithMatches(message: string): {
-    flags: {
-      hasAttachment: boolean;
-      hasEnneagram: boolean;
-      hasMBTI: boolean;
-      hasErikson: boolean;
-      hasGestalt: boolean;
-      hasBioPsych: boolean;
-    };
-    matchedKeywords: {
-      attachment: string[];
-      enneagram: string[];
-      mbti: string[];
-      erikson: string[];
-      gestalt: string[];
-      bioPsych: string[];
-    };
+  /**
+   * Keyword hints per framework (registry triggerKeywords plus their translations) with the
+   * keywords that matched. Informational only (debug trace, cap ranking): the router decides which
+   * frameworks run.
+   */
+  detectTriggerKeywords(message: string): {
+    flags: Record<ClassifierFlag, boolean>;
+    matchedKeywords: Record<string, string[]>;
   } {
     const lower = message.toLowerCase();
-
-    // Define keyword arrays for each theory
-    const attachmentKeywords = ['please don\'t leave', 'leave me', 'abandon', 'need you', 'close', 'closeness', 'too close', 'space', 'independent', 'depend', 'trust', 'afraid of love', 'afraid of closeness'];
-    const enneagramKeywords = ['be right', 'be loved', 'be admired', 'unique', 'authentic', 'understand', 'protect energy', 'safe', 'support', 'freedom', 'happiness', 'control', 'independent', 'peace', 'harmony'];
-    const mbtiKeywords = ['i am an introvert', 'i am an extrovert', 'i am introverted', 'i am extroverted', 'ambivert', 'mbti', 'personality type', 'my type is', 'sensing type', 'intuitive type', 'thinking type', 'feeling type', 'judging type', 'perceiving type'];
-    const eriksonKeywords = ['who am i', 'purpose', 'identity', 'belong', 'trust', 'love', 'lonely', 'useless', 'meaningful', 'legacy', 'stuck', 'regret', 'life review'];
-    const gestaltKeywords = ['right now i feel', 'i notice', 'avoid', 'numb', 'joke', 'humor to avoid', 'go along', 'they make me feel', 'it\'s my fault', 'i shouldn\'t feel', 'i freeze', 'can\'t act'];
-    const bioPsychKeywords = ['sleep', 'slept', 'insomnia', 'tired', 'exhausted', 'fatigue', 'burnout', 'headache', 'pain', 'sick', 'ill', 'fever', 'period', 'pms', 'hormones', 'caffeine', 'coffee', 'alcohol', 'drunk', 'hungover', 'hungry', 'skipped meal', 'dehydrated', 'exercise', 'sedentary', 'sitting', 'heat', 'cold', 'noise', 'messy', 'crowded', 'overload', 'multitask', 'lonely', 'isolated', 'financial', 'money', 'debt', 'job', 'moving', 'breakup'];
-
-    // Find matched keywords for each category
-    const matchedAttachment = attachmentKeywords.filter(kw => lower.includes(kw));
-    const matchedEnneagram = enneagramKeywords.filter(kw => lower.includes(kw));
-    const matchedMBTI = mbtiKeywords.filter(kw => lower.includes(kw));
-    const matchedErikson = eriksonKeywords.filter(kw => lower.includes(kw));
-    const matchedGestalt = gestaltKeywords.filter(kw => lower.includes(kw));
-    const matchedBioPsych = bioPsychKeywords.filter(kw => lower.includes(kw));
-
-    return {
-      flags: {
-        hasAttachment: matchedAttachment.length > 0,
-        hasEnneagram: matchedEnneagram.length > 0,
-        hasMBTI: matchedMBTI.length > 0,
-        hasErikson: matchedErikson.length > 0,
-        hasGestalt: matchedGestalt.length > 0,
-        hasBioPsych: matchedBioPsych.length > 0,
-      },
-      matchedKeywords: {
-        attachment: matchedAttachment,
-        enneagram: matchedEnneagram,
-        mbti: matchedMBTI,
-        erikson: matchedErikson,
-        gestalt: matchedGestalt,
-        bioPsych: matchedBioPsych,
-      },
-    };
+    const flags: Record<ClassifierFlag, boolean> = {};
+    const matchedKeywords: Record<string, string[]> = {};
+    for (const framework of getActiveFrameworks()) {
+      const keywords = [...framework.triggerKeywords, ...getLocalizedTriggerKeywords(framework.id)];
+      const matched = keywords.filter((kw) => lower.includes(kw));
+      flags[framework.classifierFlag] = matched.length > 0;
+      matchedKeywords[framework.id] = matched;
+    }
+    return { flags, matchedKeywords };
   }
 
-  // Basic JSON parse with fallback extraction and optional retry helper can be added later
   /**
-   * Helper to extract token counts from LLM response usage object
+   * Local safety check (no LLM): flags high-risk language (English, or the patterns of the message's
+   * `language`) so crisis handling never depends on the router. `confidence` is 'high' for an
+   * explicit statement of risk, 'keyword' for a plain keyword hit (which needs the router's confirmation).
    */
-  private extractTokenUsage(usage: any): {
-    total: number;
-    input: number;
-    output: number;
+  detectSafetyRisk(message: string, language: string = DEFAULT_LANGUAGE): {
+    flag: 'none' | 'risk';
+    category?: string;
+    evidence?: string;
+    confidence?: 'high' | 'keyword';
   } {
-    if (!usage) {
-      return { total: 0, input: 0, output: 0 };
+    const risks = [
+      { confidence: 'high' as const, english: HIGH_CONFIDENCE_RISK_PATTERNS, localized: LOCALIZED_HIGH_RISK_PATTERNS },
+      { confidence: 'keyword' as const, english: SAFETY_RISK_PATTERNS, localized: LOCALIZED_SAFETY_PATTERNS },
+    ];
+    for (const { confidence, english, localized } of risks) {
+      for (const { category, pattern } of english) {
+        for (const candidate of [pattern, localized[language as LanguageCode]?.[category]]) {
+          const match = candidate && message.match(candidate);
+          if (match) return { flag: 'risk', category, evidence: match[0], confidence };
+        }
+      }
     }
-
-    // Handle different provider formats
-    const inputTokens = usage.prompt_tokens || usage.input_tokens || usage.totalTokens || 0;
-    const outputTokens = usage.completion_tokens || usage.output_tokens || 0;
-    const totalTokens = usage.total_tokens || (inputTokens + outputTokens);
-
-    return {
-      total: totalTokens,
-      input: inputTokens,
-      output: outputTokens,
-    };
+    return { flag: 'none' };
   }
 
+  // Basic JSON parse with fallback extraction and optional retry helper can be added later
   /**
-   * Wrapper for LLM calls that automatically tracks token usage
+   * Wrapper for LLM calls that automatically tracks token usage.
+   * `signal` aborts the call when the client that asked for the analysis has gone away;
+   * `userTier` keeps the model's fallbacks to those the user's plan includes.
    */
   private async callLLMWithTokenTracking(
     userId: string | undefined,
@@ -489,22 +650,46 @@ export class ParallelLLMService {
     options: any,
     callType: string,
     frameworkName: string | null = null,
-  ): Promise<{ response: any; tokens: number }> {
-    const response = await this.llmOrchestrator.generateResponse(selectedLLM, messages, options);
+    signal?: AbortSignal,
+    userTier?: UserTier,
+  ): Promise<{ response: LLMResponse; tokens: number }> {
+    // A cancelled call throws before anything is recorded (no tokens reported, nothing billed).
+    // Analysis queues behind user-facing replies when a provider is at its concurrency cap.
+    const response = await this.llmOrchestrator.generateResponse(selectedLLM, messages, {
+      ...options,
+      signal,
+      userTier,
+      priority: callType === 'classification' ? 'classification' : 'analysis',
+    });
     
-    // Extract token counts
-    const tokenUsage = this.extractTokenUsage(response.usage);
+    const totalTokens = await this.recordTokenUsage(userId, sessionId, selectedLLM, response, callType, frameworkName);
+    return { response, tokens: totalTokens };
+  }
+
+  /** Bill a response's tokens to the user (when there is one); returns the total. */
+  private async recordTokenUsage(
+    userId: string | undefined,
+    sessionId: string,
+    selectedLLM: string,
+    response: LLMResponse,
+    callType: string,
+    frameworkName: string | null,
+  ): Promise<number> {
+    // Normalized usage from the provider (same numbers the orchestrator priced)
+    const inputTokens = response.usage?.inputTokens || 0;
+    const outputTokens = response.usage?.outputTokens || 0;
+    const totalTokens = inputTokens + outputTokens;
     
     // Track token usage if userId is provided
-    if (userId && tokenUsage.total > 0) {
+    if (userId && totalTokens > 0) {
       try {
         await this.creditService.recordTokenUsage(
           userId,
           sessionId,
-          tokenUsage.total,
-          tokenUsage.input,
-          tokenUsage.output,
-          selectedLLM,
+          totalTokens,
+          inputTokens,
+          outputTokens,
+          response.modelId || selectedLLM,
           callType,
           frameworkName,
         );
@@ -514,7 +699,7 @@ export class ParallelLLMService {
       }
     }
     
-    return { response, tokens: tokenUsage.total };
+    return totalTokens;
   }
 
   private parseJsonSafe(text: string, fallback: any) {
@@ -531,7 +716,7 @@ export class ParallelLLMService {
     // Step 2: Try direct parse
     try {
       return JSON.parse(cleaned);
-    } catch (_) {
+    } catch {
       // Step 3: Try to extract first complete JSON object (handle nested braces)
       const start = cleaned.indexOf('{');
       if (start === -1) return fallback;
@@ -551,7 +736,7 @@ export class ParallelLLMService {
         const slice = cleaned.substring(start, end + 1);
         try {
           return JSON.parse(slice);
-        } catch (parseErr) {
+        } catch {
           console.warn('[parseJsonSafe] Failed to parse extracted JSON:', slice.substring(0, 200));
           return fallback;
         }
@@ -569,37 +754,18 @@ export class ParallelLLMService {
     selectedLLM: string,
     sessionId: string,
     userId?: string,
+    signal?: AbortSignal,
+    userTier?: UserTier,
   ): Promise<PsychologicalProfile['summaryForThisMessage'] | null> {
     // Extract plain_english_insight from each framework (generated by framework LLM)
     const frameworkInsights: string[] = [];
     const p = profile as any; // Cast to any to access plain_english_insight
     
-    if (p.bigFive?.plain_english_insight) {
-      frameworkInsights.push(`[BigFive Personality]: ${p.bigFive.plain_english_insight}`);
-    }
-    
-    if (p.dass?.plain_english_insight) {
-      frameworkInsights.push(`[DASS Emotional State]: ${p.dass.plain_english_insight}`);
-    }
-    
-    if (p.rse?.plain_english_insight) {
-      frameworkInsights.push(`[RSE Self-Esteem]: ${p.rse.plain_english_insight}`);
-    }
-    
-    if (p.crt?.plain_english_insight) {
-      frameworkInsights.push(`[CRT Thinking Style]: ${p.crt.plain_english_insight}`);
-    }
-    
-    if (p.darkTriad?.plain_english_insight) {
-      frameworkInsights.push(`[Dark Triad]: ${p.darkTriad.plain_english_insight}`);
-    }
-    
-    if (p.attachment?.plain_english_insight) {
-      frameworkInsights.push(`[Attachment]: ${p.attachment.plain_english_insight}`);
-    }
-    
-    if (p.enneagram?.plain_english_insight) {
-      frameworkInsights.push(`[Enneagram]: ${p.enneagram.plain_english_insight}`);
+    for (const framework of FRAMEWORK_REGISTRY) {
+      const insight = framework.synthesisLabel && p[framework.id]?.plain_english_insight;
+      if (insight) {
+        frameworkInsights.push(`[${framework.synthesisLabel}]: ${insight}`);
+      }
     }
 
     const system = `You are the Synthesis LLM. Your job is to combine the plain English insights from each psychological framework into ONE unified summary.
@@ -650,6 +816,8 @@ Output JSON only:
         { temperature: 0.1, max_tokens: 350 },
         'summary',
         null,
+        signal,
+        userTier,
       );
       return this.parseJsonSafe(res.content, null);
     } catch (e) {
@@ -661,6 +829,7 @@ Output JSON only:
   /**
    * Main analysis method - Smart Incremental with Option 2 (Accumulate Over Time)
    * Now respects framework caps and priority (personality > emotional > crisis)
+   * `signal` cancels the in-flight LLM calls; a cancelled analysis returns the cached profile untouched.
    */
   async analyze(
     message: string,
@@ -668,7 +837,13 @@ Output JSON only:
     sessionId: string,
     selectedLLM: string = 'gpt-4o',
     userId?: string, // User ID for credit checking and framework caps
+    signal?: AbortSignal,
+    userTier?: UserTier, // Only frameworks enabled for this tier run, capped by its plan (all enabled ones, uncapped, when omitted)
+    language: string = DEFAULT_LANGUAGE, // Detected language of the message: which translated safety patterns apply
   ): Promise<PsychologicalProfile | null> {
+    this.lastClassification.delete(sessionId);
+    this.lastFrameworkSelection.delete(sessionId);
+    this.lastAnalysisTokens.delete(sessionId);
     try {
       // SESSION ISOLATION: Ensure profile cache is properly isolated per session
       // Check if this looks like a fresh start (only current message or empty history)
@@ -686,21 +861,10 @@ Output JSON only:
       }
 
       // SAFETY GATE (first step): detect high-risk language
-      const riskPatterns = {
-        self_harm: /suicid|kill.*myself|end.*it.*all|want.*die|harm.*myself|cut.*myself/i,
-        harm_others: /kill (him|her|them)|hurt (him|her|them)/i,
-        abuse: /abuse(d)?|violence|assault/i,
-        medical: /overdose|poison|unconscious|not breathing/i,
-      };
-      let safety: PsychologicalProfile['safety'] = { flag: 'none' };
-      if (riskPatterns.self_harm.test(message)) safety = { flag: 'risk', category: 'self_harm' };
-      else if (riskPatterns.harm_others.test(message))
-        safety = { flag: 'risk', category: 'harm_others' };
-      else if (riskPatterns.abuse.test(message)) safety = { flag: 'risk', category: 'abuse' };
-      else if (riskPatterns.medical.test(message)) safety = { flag: 'risk', category: 'medical' };
+      const safety = this.detectSafetyRisk(message, language);
 
       // Quick greeting check (ONLY skip pure greetings)
-      const isPureGreeting = /^(hi|hello|hey)$/i.test(message.trim());
+      const isPureGreeting = PURE_GREETING.test(message.trim());
 
       if (history.length === 0 && isPureGreeting && safety.flag !== 'risk') {
         return null; // Skip analysis for pure greeting as first message
@@ -709,103 +873,101 @@ Output JSON only:
       // ALL messages go through the intelligent router (except obvious greetings handled above)
       // The intelligent router decides which frameworks to run based on understanding, not keywords
       let classification: any;
-      classification = await this.classifyMessage(message, history, selectedLLM, sessionId, userId);
+      classification = await this.classifyMessage(message, history, selectedLLM, sessionId, userId, signal);
+      if (signal?.aborted) {
+        return this.sessionCache.get(sessionId) || null;
+      }
 
-      // Safety override: If local check found crisis, ensure it's flagged
-      if (safety.flag === 'risk') {
+      // Safety override: an explicit statement of risk is a crisis whatever the router says
+      // (keyword-only hits are left to the router's judgement)
+      if (safety.flag === 'risk' && safety.confidence === 'high') {
         classification.hasCrisisIndicators = true;
         classification.urgency = 'critical';
       }
+      this.lastClassification.set(sessionId, classification);
 
-      // Check if any indicators found (including ALL frameworks - core AND extended)
+      // Check if any indicators found (crisis or any framework flag from the router)
       const hasAnyIndicators =
-        classification.hasCrisisIndicators ||
-        classification.hasEmotionalContent ||
-        classification.hasSelfWorthContent ||
-        classification.hasDarkTriadIndicators ||
-        classification.hasPersonalityIndicators ||
-        classification.hasCognitiveIndicators ||
-        // Extended frameworks - MUST be checked or they won't be called!
-        classification.hasAttachment ||
-        classification.hasEnneagram ||
-        classification.hasMBTI ||
-        classification.hasErikson ||
-        classification.hasGestalt ||
-        classification.hasBioPsych;
+        classification.hasCrisisIndicators || FRAMEWORK_REGISTRY.some((f) => classification[f.classifierFlag]);
 
       if (!hasAnyIndicators) {
         // No indicators → Return cached profile (if any)
         return this.sessionCache.get(sessionId) || null;
       }
 
-      // Build list of matched frameworks ONLY from what the router LLM returned
-      // NO additional keyword detection - trust the intelligent router's decision
-      const matchedFrameworks: string[] = [];
-
-      // Core frameworks (from router classification)
-      if (classification.hasPersonalityIndicators) matchedFrameworks.push('bigFive');
-      if (classification.hasDarkTriadIndicators) matchedFrameworks.push('darkTriad');
-      if (classification.hasEmotionalContent || classification.hasCrisisIndicators) matchedFrameworks.push('dass');
-      if (classification.hasSelfWorthContent) matchedFrameworks.push('rse');
-      if (classification.hasCognitiveIndicators) matchedFrameworks.push('crt');
-      
-      // Extended frameworks (from router classification ONLY - no keyword override)
-      if (classification.hasAttachment) matchedFrameworks.push('attachment');
-      if (classification.hasEnneagram) matchedFrameworks.push('enneagram');
-      if (classification.hasMBTI) matchedFrameworks.push('mbti');
-      if (classification.hasErikson) matchedFrameworks.push('erikson');
-      if (classification.hasGestalt) matchedFrameworks.push('gestalt');
-      if (classification.hasBioPsych) matchedFrameworks.push('bioPsych');
-
-      // Deduplicate (in case of any overlap)
-      const selectedFrameworks = [...new Set(matchedFrameworks)];
-
-      console.log(`🎯 [Framework] Running ${selectedFrameworks.length} frameworks: ${selectedFrameworks.join(', ')}`);
-
-      // Run selected analyses in parallel
-      const analysisPromises: Promise<any>[] = [];
-      const analysisTypes: string[] = [];
-
-      // Map framework names to their LLM calls (now with token tracking)
-      const frameworkCallMap: Record<string, () => Promise<any>> = {
-        dass: () => this.callLLMWithDASSKB(message, history, selectedLLM, sessionId, userId),
-        rse: () => this.callLLMWithRSEKB(message, history, selectedLLM, sessionId, userId),
-        bigFive: () => this.callLLMWithBigFiveKB(message, history, selectedLLM, sessionId, userId),
-        darkTriad: () => this.callLLMWithDarkTriadKB(message, history, selectedLLM, sessionId, userId),
-        crt: () => this.callLLMWithCRTKB(message, history, selectedLLM, sessionId, userId),
-        attachment: () => this.callLLMWithAttachmentKB(message, selectedLLM, sessionId, userId),
-        enneagram: () => this.callLLMWithEnneagramKB(message, selectedLLM, sessionId, userId),
-        mbti: () => this.callLLMWithMBTIKB(message, selectedLLM, sessionId, userId),
-        erikson: () => this.callLLMWithEriksonKB(message, selectedLLM, sessionId, userId),
-        gestalt: () => this.callLLMWithGestaltKB(message, selectedLLM, sessionId, userId),
-        bioPsych: () => this.callLLMWithBioPsychKB(message, selectedLLM, sessionId, userId),
-      };
+      // Frameworks the router selected (DASS also runs on crisis) - trust the router, no keyword override
+      const triggeredFrameworks = getActiveFrameworks(userTier).filter(
+        (f) => classification[f.classifierFlag] || (f.runOnCrisis && classification.hasCrisisIndicators),
+      );
 
-      // Execute only selected frameworks
-      for (const framework of selectedFrameworks) {
-        const callFn = frameworkCallMap[framework];
-        if (callFn) {
-          analysisPromises.push(callFn());
-          analysisTypes.push(framework);
+      // Plan cap: keep the most urgent/relevant ones (crisis/safety analyzers always run)
+      let selectedFrameworks = triggeredFrameworks;
+      if (userTier) {
+        const selection = selectFrameworksByPriority(
+          triggeredFrameworks.map((f) => f.id),
+          getFrameworkCapForTier(userTier),
+          { urgency: classification.urgency, keywordMatches: this.detectTriggerKeywords(message).matchedKeywords },
+        );
+        this.lastFrameworkSelection.set(sessionId, selection);
+        selectedFrameworks = selection.chosen.map((id) => triggeredFrameworks.find((f) => f.id === id)!);
+        if (selection.skipped.length > 0) {
+          console.log(
+            `✂️ [Framework] ${userTier} cap ${selection.cap}: skipped ${selection.skipped.join(', ')}`,
+          );
         }
       }
 
-      const results = await Promise.all(analysisPromises);
+      console.log(
+        `🎯 [Framework] Running ${selectedFrameworks.length} frameworks: ${selectedFrameworks.map((f) => f.id).join(', ')}`,
+      );
+
+      // Run selected analyses: in parallel, or in one batched call for tiers that batch
+      const mode: FrameworkAnalysisMode =
+        userTier && selectedFrameworks.length > 1 ? TIER_ANALYSIS_MODE[userTier] : 'separate';
+      const runs =
+        mode === 'batched'
+          ? await this.runFrameworksBatched(selectedFrameworks, message, history, selectedLLM, sessionId, userId, signal, userTier)
+          : await Promise.all(
+              selectedFrameworks.map((f) =>
+                this.runFramework(f, message, history, selectedLLM, sessionId, userId, signal, userTier),
+              ),
+            );
+      if (signal?.aborted) {
+        // Aborted analyzers come back as errors; don't cache a half-empty profile
+        console.log(`🛑 [Framework] Analysis cancelled for session ${sessionId}`);
+        return this.sessionCache.get(sessionId) || null;
+      }
+      const results = runs.map((run) => run.result);
+      this.lastAnalysisTokens.set(sessionId, {
+        mode,
+        calls: mode === 'batched' ? 1 : runs.length,
+        frameworks: runs.map((run, index) => ({
+          framework: selectedFrameworks[index].id,
+          ...run.usage,
+          ...(mode === 'batched' ? { apportioned: true } : {}),
+        })),
+      });
 
       // Build profile from results
       const newProfile: PsychologicalProfile = {};
       results.forEach((result, index) => {
-        const type = analysisTypes[index];
         if (result) {
-          newProfile[type] = result;
+          newProfile[selectedFrameworks[index].id] = result;
         }
       });
       // attach safety flag
       newProfile.safety = safety;
+      // This turn's results join the user's cross-session history
+      this.longitudinalProfiles.record(userId, sessionId, newProfile);
 
-      // Merge with cached profile (for historical accumulation)
+      // Merge with cached profile (for historical accumulation); frameworks may combine with their previous result
       const cachedProfile = this.sessionCache.get(sessionId) || {};
       const mergedProfile = { ...cachedProfile, ...newProfile };
+      for (const framework of selectedFrameworks) {
+        if (framework.merge && newProfile[framework.id]) {
+          mergedProfile[framework.id] = framework.merge(cachedProfile[framework.id], newProfile[framework.id]);
+        }
+      }
 
       // Build per-message summary (LLM JSON-only)
       // CRITICAL: Pass only NEW profile (this turn's analysis) to summary, not merged historical profile
@@ -818,6 +980,8 @@ Output JSON only:
           selectedLLM,
           sessionId,
           userId,
+          signal,
+          userTier,
         );
         if (summary) {
           mergedProfile.summaryForThisMessage = summary;
@@ -838,158 +1002,6 @@ Output JSON only:
     }
   }
 
-  /**
-   * HYBRID: Quick keyword pre-check before LLM classification (for speed/consistency)
-   */
-  private quickKeywordCheck(message: string): Partial<Classification> {
-    const result = this.quickKeywordCheckWithMatches(message);
-    return result.flags;
-  }
-
-  /**
-   * Quick keyword check that also returns the actual keywords that matched
-   * Used by debug endpoint to show exactly which words triggered each category
-   */
-  private quickKeywordCheckWithMatches(message: string): {
-    flags: Partial<Classification>;
-    matchedKeywords: {
-      crisis: string[];
-      personality: string[];
-      emotional: string[];
-      selfWorth: string[];
-      darkTriad: string[];
-      cognitive: string[];
-    };
-  } {
-    const lower = message.toLowerCase();
-
-    // Crisis keywords (highest priority)
-    const crisisKeywords = [
-      'suicide',
-      'suicidal',
-      'kill myself',
-      'want to die',
-      'end it all',
-      'self harm',
-      'hurt myself',
-      'better off dead',
-      'give up on everything',
-      'worthless',
-      'hopeless',
-      'nothing matters',
-    ];
-    const matchedCrisis = crisisKeywords.filter((kw) => lower.includes(kw));
-    const hasCrisisIndicators = matchedCrisis.length > 0;
-
-    // Personality trait keywords (Big Five related)
-    const personalityKeywords = [
-      'outgoing',
-      'shy',
-      'extroverted',
-      'introverted',
-      'organized',
-      'messy',
-      'disorganized',
-      'creative',
-      'conventional',
-      'anxious',
-      'calm',
-      'nervous',
-      'worried',
-      'kind',
-      'assertive',
-      'agreeable',
-      'competitive',
-      'open-minded',
-      'traditional',
-    ];
-    const matchedPersonality = personalityKeywords.filter((kw) => lower.includes(kw));
-    const hasPersonalityIndicators = matchedPersonality.length > 0;
-
-    // Emotional keywords
-    const emotionalKeywords = [
-      'sad',
-      'depressed',
-      'anxious',
-      'stressed',
-      'overwhelmed',
-      'scared',
-      'angry',
-      'frustrated',
-      'hopeless',
-      'lonely',
-      'tired',
-      'exhausted',
-    ];
-    const matchedEmotional = emotionalKeywords.filter((kw) => lower.includes(kw));
-    const hasEmotionalContent = matchedEmotional.length > 0;
-
-    // Self-worth keywords
-    const selfWorthKeywords = [
-      'not good enough',
-      'worthless',
-      'failure',
-      'useless',
-      'pathetic',
-      'hate myself',
-      "don't deserve",
-      "can't do anything",
-    ];
-    const matchedSelfWorth = selfWorthKeywords.filter((kw) => lower.includes(kw));
-    const hasSelfWorthContent = matchedSelfWorth.length > 0;
-
-    // Dark Triad keywords (manipulative, narcissistic, callous)
-    const darkTriadKeywords = [
-      'manipulate',
-      'control',
-      'use people',
-      'better than',
-      'superior',
-      "don't care about others",
-      'fake it',
-    ];
-    const matchedDarkTriad = darkTriadKeywords.filter((kw) => lower.includes(kw));
-    const hasDarkTriadIndicators = matchedDarkTriad.length > 0;
-
-    // Cognitive/thinking style keywords (System 1 vs System 2)
-    const cognitiveKeywords = [
-      'gut',
-      'instinct',
-      'intuition',
-      'impulsive',
-      'spontaneous',
-      'overthink',
-      'overanalyze',
-      'act first',
-      'think later',
-      'rational',
-      'logical',
-      'analyze everything',
-      'think too much',
-    ];
-    const matchedCognitive = cognitiveKeywords.filter((kw) => lower.includes(kw));
-    const hasCognitiveIndicators = matchedCognitive.length > 0;
-
-    return {
-      flags: {
-        hasCrisisIndicators,
-        hasPersonalityIndicators,
-        hasEmotionalContent,
-        hasSelfWorthContent,
-        hasDarkTriadIndicators,
-        hasCognitiveIndicators,
-      },
-      matchedKeywords: {
-        crisis: matchedCrisis,
-        personality: matchedPersonality,
-        emotional: matchedEmotional,
-        selfWorth: matchedSelfWorth,
-        darkTriad: matchedDarkTriad,
-        cognitive: matchedCognitive,
-      },
-    };
-  }
-
   /**
    * Classify message using INTELLIGENT ROUTER - LLM for all messages except obvious no-signal
    * This is the production router that uses human-like understanding
@@ -1000,6 +1012,7 @@ Output JSON only:
     selectedLLM: string,
     sessionId: string,
     userId?: string,
+    signal?: AbortSignal,
   ): Promise<Classification> {
     const trimmedMessage = message.trim();
 
@@ -1012,13 +1025,9 @@ Output JSON only:
       console.log('[ROUTER] Message is obviously non-psychological - skipping LLM');
       return {
         hasCrisisIndicators: false,
-        hasEmotionalContent: false,
-        hasSelfWorthContent: false,
-        hasDarkTriadIndicators: false,
-        hasPersonalityIndicators: false,
-        hasCognitiveIndicators: false,
+        ...frameworkFlags(),
         urgency: 'low',
-      };
+      } as Classification;
     }
 
     // =======================================================================
@@ -1050,6 +1059,7 @@ Respond with JSON only:`;
         { temperature: 0.0, max_tokens: 500 },
         'classification',
         null,
+        signal,
       );
 
       const llmResult = this.parseJsonSafe(response.content, {
@@ -1068,531 +1078,232 @@ Respond with JSON only:`;
       
       return {
         hasCrisisIndicators: frameworks.includes('crisis') || signalType.includes('crisis'),
-        hasEmotionalContent: frameworks.includes('dass'),  // FIXED: Only DASS, not bigFive
-        hasSelfWorthContent: frameworks.includes('rse'),
-        hasDarkTriadIndicators: frameworks.includes('darkTriad'),
-        hasPersonalityIndicators: frameworks.includes('bigFive'),
-        hasCognitiveIndicators: frameworks.includes('crt'),
-        hasAttachment: frameworks.includes('attachment'),
-        hasEnneagram: frameworks.includes('enneagram'),
-        hasMBTI: frameworks.includes('mbti'),
-        hasErikson: frameworks.includes('erikson'),
-        hasGestalt: frameworks.includes('gestalt'),
-        hasBioPsych: frameworks.includes('bioPsych'),
+        // Each flag maps ONLY to its own framework, no cross-contamination
+        ...frameworkFlags(frameworks),
         urgency: this.determineUrgency(llmResult, frameworks),
-      };
+      } as Classification;
     } catch (error) {
       console.error('[ROUTER] Error in intelligent classification:', error);
       // On error, be conservative - run only DASS (basic emotional check)
       return {
         hasCrisisIndicators: false,
-        hasEmotionalContent: true, // Only DASS
-        hasSelfWorthContent: false,
-        hasDarkTriadIndicators: false,
-        hasPersonalityIndicators: false, // Don't force BigFive
-        hasCognitiveIndicators: false,
-        hasAttachment: false,
-        hasEnneagram: false,
-        hasMBTI: false,
-        hasErikson: false,
-        hasGestalt: false,
-        hasBioPsych: false,
+        ...frameworkFlags(['dass']), // Don't force BigFive
         urgency: 'low',
-      };
+      } as Classification;
     }
   }
 
   /**
-   * Analyze personality using Big Five KB (with token tracking)
+   * Run one framework analyzer (registry descriptor): KB system prompt + instruction, token
+   * tracked under the framework id. Results without a plain_english_insight get the descriptor's
+   * fallback description. Failures return the descriptor's parseFallback, or a module_error
+   * marker the clean profile leaves out.
    */
-  private async callLLMWithBigFiveKB(
+  private async runFramework(
+    framework: FrameworkDescriptor,
     message: string,
     history: any[],
     selectedLLM: string,
     sessionId: string,
     userId?: string,
-  ): Promise<any> {
+    signal?: AbortSignal,
+    userTier?: UserTier,
+  ): Promise<FrameworkRun> {
+    const noUsage = { inputTokens: 0, outputTokens: 0 };
     try {
-      const sys = this.getKBPrompt('BIG5_Complete_Analysis.txt');
-      const { response } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          {
-            role: 'system',
-            content: sys,
-          },
-          {
-            role: 'user',
-            content: `Conversation:
-${history
-  .slice(-5)
-  .map((m) => `${m.role}: ${m.content}`)
-  .join('\n')}
-
-Latest: "${message}"
-
-Analyze Big Five traits. Return JSON:
-{
-  "openness": "high/medium/low",
-  "conscientiousness": "high/medium/low",
-  "extraversion": "high/medium/low",
-  "agreeableness": "high/medium/low",
-  "neuroticism": "high/medium/low",
-  "plain_english_insight": "One sentence summarizing personality findings, e.g. 'This person shows high anxiety/neuroticism when discussing business decisions, suggesting emotional sensitivity to uncertainty'"
-}`,
-          },
-        ],
-        { temperature: 0.0, max_tokens: 1000 },
-        'framework',
-        'bigFive',
-      );
+      const kb = this.getKBPrompt(framework.kbFile);
+      const { style, instruction } = framework.prompt;
+      let messages: Array<{ role: string; content: string }>;
+      if (style === 'systemAddition') {
+        messages = [
+          { role: 'system', content: `${kb}\n\n${instruction}` },
+          { role: 'user', content: message },
+        ];
+      } else if (style === 'quotedMessage') {
+        messages = [
+          { role: 'system', content: kb },
+          { role: 'user', content: `Message: "${message}"\n\n${instruction}` },
+        ];
+      } else {
+        const conversation = history
+          .slice(-5)
+          .map((m) => `${m.role}: ${m.content}`)
+          .join('\n');
+        messages = [
+          { role: 'system', content: kb },
+          { role: 'user', content: `Conversation:\n${conversation}\n\nLatest: "${message}"\n\n${instruction}` },
+        ];
+      }
 
-      return this.parseJsonSafe(response.content, { insights: [] });
-    } catch (error) {
-      console.error('Error in Big Five analysis:', error);
-      return { insights: [] };
+      const { response: res, parsed } = await this.generateFrameworkJson(selectedLLM, messages, {
+        temperature: 0.0,
+        max_tokens: framework.maxTokens,
+        response_format: buildFrameworkResponseFormat(framework),
+        signal,
+        userTier,
+        priority: 'analysis',
+      });
+      await this.recordTokenUsage(userId, sessionId, selectedLLM, res, 'framework', framework.id);
+      const usage = { inputTokens: res.usage?.inputTokens || 0, outputTokens: res.usage?.outputTokens || 0 };
+      if (!parsed || parsed.module_error) {
+        console.warn(`[${framework.name}] Failed to parse LLM response:`, res.content?.substring(0, 300));
+        return { result: failedResult(framework, { raw_response: res.content?.substring(0, 200) }), usage };
+      }
+      return { result: completeResult(framework, parsed), usage };
+    } catch (e) {
+      console.error(`Error in ${framework.name} analysis:`, e);
+      return { result: failedResult(framework, { error: e.message }), usage: noUsage };
     }
   }
 
   /**
-   * Analyze mental health using DASS-42 KB
+   * Batched mode: the frameworks' instructions without their KB prompts, in one call whose combined
+   * JSON schema has a property per framework, fanned back out into per-framework results. The call is billed once; its
+   * tokens are apportioned per framework for the debug trace. Frameworks missing from the reply get
+   * their parseFallback or a module_error marker, as in separate mode.
    */
-  private async callLLMWithDASSKB(
+  private async runFrameworksBatched(
+    frameworks: FrameworkDescriptor[],
     message: string,
     history: any[],
     selectedLLM: string,
     sessionId: string,
     userId?: string,
-  ): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('DASS42_Complete_Analysis.txt');
-      const { response } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          {
-            role: 'system',
-            content: sys,
-          },
-          {
-            role: 'user',
-            content: `Conversation:
-${history
-  .slice(-5)
-  .map((m) => `${m.role}: ${m.content}`)
-  .join('\n')}
-
-Latest: "${message}"
-
-Analyze for Depression, Anxiety, and Stress ONLY. Return JSON:
-
-CRITICAL DISTINCTIONS:
-- DEPRESSION = sadness, hopelessness, emptiness, "nothing matters", loss of interest in life
-- NOT DEPRESSION = self-doubt, "not good enough", low confidence, fear of failure (these are SELF-ESTEEM issues, not depression)
-- ANXIETY = fear, worry, nervousness, tension, dread about future
-- STRESS = overwhelmed, pressured, can't relax, too much to do
-
-If message shows self-doubt about ability (like "I'm not good enough"), mark depression as "normal" - that's a self-esteem issue, NOT depression.
-
-{
-  "depression": "normal/mild/moderate/severe/extremely_severe",
-  "anxiety": "normal/mild/moderate/severe/extremely_severe", 
-  "stress": "normal/mild/moderate/severe/extremely_severe",
-  "concerns": ["concern 1", "concern 2"],
-  "requiresCrisisResponse": true/false,
-  "plain_english_insight": "One sentence summarizing emotional state"
-}`,
-          },
-        ],
-        { temperature: 0.0, max_tokens: 1000 },
-        'framework',
-        'dass',
-      );
+    signal?: AbortSignal,
+    userTier?: UserTier,
+  ): Promise<FrameworkRun[]> {
+    const sections = frameworks.map((f) => `## ${f.id}: ${f.name} (${f.analyzes})\n${f.prompt.instruction}`);
+    const conversation = history
+      .slice(-5)
+      .map((m) => `${m.role}: ${m.content}`)
+      .join('\n');
+    const messages = [
+      { role: 'system', content: `${BATCH_ANALYZER_PREAMBLE}\n\n${sections.join('\n\n')}` },
+      { role: 'user', content: `Conversation:\n${conversation}\n\nLatest: "${message}"` },
+    ];
+    const options = {
+      temperature: 0.0,
+      max_tokens: Math.min(
+        frameworks.reduce((sum, f) => sum + f.maxTokens, 0),
+        BATCH_MAX_TOKENS,
+      ),
+      signal,
+      userTier,
+      priority: 'analysis' as const,
+    };
+    const label = frameworks.map((f) => f.id).join('+');
 
-      return this.parseJsonSafe(response.content, { concerns: [] });
-    } catch (error) {
-      console.error('Error in DASS analysis:', error);
-      return { concerns: [] };
+    let response: LLMResponse;
+    let parsed: any;
+    try {
+      ({ response, parsed } = await this.generateFrameworkJson(selectedLLM, messages, {
+        ...options,
+        response_format: buildBatchResponseFormat(frameworks),
+      }));
+      await this.recordTokenUsage(userId, sessionId, selectedLLM, response, 'framework', label);
+    } catch (e) {
+      console.error(`Error in batched analysis (${label}):`, e);
+      return frameworks.map((f) => ({
+        result: failedResult(f, { error: e.message }),
+        usage: { inputTokens: 0, outputTokens: 0 },
+      }));
     }
+
+    const results = frameworks.map((f) => {
+      const result = parsed?.[f.id];
+      if (!result || typeof result !== 'object' || result.module_error) {
+        console.warn(`[${f.name}] Missing from batched response:`, response.content?.substring(0, 300));
+        return failedResult(f, { raw_response: response.content?.substring(0, 200) });
+      }
+      return completeResult(f, result);
+    });
+    const inputShares = apportion(response.usage?.inputTokens || 0, sections.map((section) => section.length));
+    const outputShares = apportion(
+      response.usage?.outputTokens || 0,
+      results.map((result) => JSON.stringify(result).length),
+    );
+    console.log(
+      `📦 [Framework] Batched ${frameworks.length} frameworks in one call (${(response.usage?.inputTokens || 0) + (response.usage?.outputTokens || 0)} tokens)`,
+    );
+
+    return results.map((result, index) => ({
+      result,
+      usage: { inputTokens: inputShares[index], outputTokens: outputShares[index] },
+    }));
   }
 
   /**
-   * Analyze self-esteem using RSE KB
+   * Framework analyzer call through generateStructured (models without a schema mode get the schema
+   * in the prompt). A reply that still fails validation is billed all the same, so it is parsed
+   * leniently and whatever it got right is kept.
    */
-  private async callLLMWithRSEKB(
-    message: string,
-    history: any[],
+  private async generateFrameworkJson(
     selectedLLM: string,
-    sessionId: string,
-    userId?: string,
-  ): Promise<any> {
+    messages: any[],
+    options: LLMOptions & { response_format: LLMResponseFormatJsonSchema },
+  ): Promise<{ response: LLMResponse; parsed: any }> {
     try {
-      const sys = this.getKBPrompt('RSE_Complete_Analysis.txt');
-      const { response } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          {
-            role: 'system',
-            content: sys,
-          },
-          {
-            role: 'user',
-            content: `Conversation:
-${history
-  .slice(-5)
-  .map((m) => `${m.role}: ${m.content}`)
-  .join('\n')}
-
-Latest: "${message}"
-
-Analyze self-esteem. Return JSON:
-{
-  "level": "low/medium/high",
-  "indicators": ["indicator 1", "indicator 2"],
-  "plain_english_insight": "One sentence about self-worth, e.g. 'This person shows moderate self-esteem but expresses doubt about their ability to succeed in business'"
-}`,
-          },
-        ],
-        { temperature: 0.0, max_tokens: 1000 },
-        'framework',
-        'rse',
-      );
-
-      return this.parseJsonSafe(response.content, { indicators: [] });
-    } catch (error) {
-      console.error('Error in RSE analysis:', error);
-      return { indicators: [] };
+      const structured = await this.llmOrchestrator.generateStructured(selectedLLM, messages, options);
+      return { response: structured, parsed: structured.parsed };
+    } catch (e) {
+      if (!(e instanceof LLMStructuredOutputError)) throw e;
+      return { response: e.response, parsed: this.parseJsonSafe(e.response.content, null) };
     }
   }
 
   /**
-   * Analyze Dark Triad traits using Dark Triad KB
+   * Frameworks that run for a tier (every enabled one when no tier is given), as listed by
+   * GET /chat/frameworks.
    */
-  private async callLLMWithDarkTriadKB(
-    message: string,
-    history: any[],
-    selectedLLM: string,
-    sessionId: string,
-    userId?: string,
-  ): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('DarkTriad_Complete_Analysis.txt');
-      const { response } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          {
-            role: 'system',
-            content: sys,
-          },
-          {
-            role: 'user',
-            content: `Conversation:
-${history
-  .slice(-5)
-  .map((m) => `${m.role}: ${m.content}`)
-  .join('\n')}
-
-Latest: "${message}"
-
-Analyze Dark Triad traits. Return JSON:
-{
-  "machiavellianism": "high/medium/low/unknown",
-  "narcissism": "high/medium/low/unknown",
-  "psychopathy": "high/medium/low/unknown",
-  "plain_english_insight": "One sentence about manipulation/ego traits, e.g. 'No concerning Dark Triad indicators detected in this message'"
-}`,
-          },
-        ],
-        { temperature: 0.0, max_tokens: 1000 },
-        'framework',
-        'darkTriad',
-      );
-
-      return this.parseJsonSafe(response.content, { insights: [] });
-    } catch (error) {
-      console.error('Error in Dark Triad analysis:', error);
-      return { insights: [] };
-    }
+  listFrameworks(tier?: UserTier) {
+    return getActiveFrameworks(tier).map((f) => ({
+      id: f.id,
+      name: f.name,
+      analyzes: f.analyzes,
+      category: f.category,
+      priority: f.priority,
+      classifierFlag: f.classifierFlag,
+      kbFile: f.kbFile,
+      triggerKeywords: f.triggerKeywords,
+      outputSchema: f.outputSchema,
+      costClass: f.costClass,
+      enabledTiers: f.enabledTiers,
+      mergesAcrossTurns: !!f.merge,
+    }));
   }
 
   /**
-   * Analyze cognitive/thinking style using CRT KB
+   * Clear session cache
    */
-  private async callLLMWithCRTKB(
-    message: string,
-    history: any[],
-    selectedLLM: string,
-    sessionId: string,
-    userId?: string,
-  ): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('CRT_Complete_Analysis.txt');
-      const { response } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          {
-            role: 'system',
-            content: sys,
-          },
-          {
-            role: 'user',
-            content: `Conversation:
-${history
-  .slice(-5)
-  .map((m) => `${m.role}: ${m.content}`)
-  .join('\n')}
-
-Latest: "${message}"
-
-Analyze cognitive/thinking style. Return JSON:
-{
-  "thinkingStyle": "intuitive/balanced/analytical/unknown",
-  "systemPreference": "system1/mixed/system2/unknown",
-  "plain_english_insight": "One sentence about decision-making style, e.g. 'This person tends to trust gut feelings over analytical thinking when making decisions'"
-}`,
-          },
-        ],
-        { temperature: 0.0, max_tokens: 1000 },
-        'framework',
-        'crt',
-      );
-
-      return this.parseJsonSafe(response.content, { insights: [] });
-    } catch (error) {
-      console.error('Error in CRT analysis:', error);
-      return { insights: [] };
-    }
-  }
-
-  // New analyzers using KB system prompts (Attachment, Enneagram, MBTI, Erikson, Gestalt)
-  private async callLLMWithAttachmentKB(message: string, selectedLLM: string, sessionId: string, userId?: string): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('AttachmentStyleClassifier.txt');
-      const enhancedPrompt = `${sys}
-
-IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the attachment pattern detected.
-Example: "plain_english_insight": "This person shows anxious attachment patterns - seeking reassurance and fearing abandonment in relationships."`;
-
-      const { response: res } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          { role: 'system', content: enhancedPrompt },
-          { role: 'user', content: message },
-        ],
-        { temperature: 0.0, max_tokens: 800 },
-        'framework',
-        'attachment',
-      );
-      const parsed = this.parseJsonSafe(res.content, null);
-      if (!parsed || parsed.module_error) {
-        console.warn('[Attachment] Failed to parse LLM response:', res.content?.substring(0, 300));
-        return { module_error: true, raw_response: res.content?.substring(0, 200) };
-      }
-      // Generate plain_english_insight if LLM didn't include it
-      if (!parsed.plain_english_insight && parsed.Attachment_Style) {
-        parsed.plain_english_insight = `This person shows ${parsed.Attachment_Style} attachment patterns${parsed.Key_Indicators ? ` (indicators: ${parsed.Key_Indicators.slice(0,2).join(', ')})` : ''}.`;
-      }
-      return parsed;
-    } catch (e) {
-      console.error('Error in Attachment analysis:', e);
-      return { module_error: true, error: e.message };
-    }
-  }
-
-  private async callLLMWithEnneagramKB(message: string, selectedLLM: string, sessionId: string, userId?: string): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('Enneagram.txt');
-      // Add instruction for plain_english_insight
-      const enhancedPrompt = `${sys}
-
-IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing what this reveals about the person's core motivation.
-Example: "plain_english_insight": "This person appears driven by Type 3 achiever motivation - they fear being seen as worthless and are anxious about success in their new venture."`;
-
-      const { response: res } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          { role: 'system', content: enhancedPrompt },
-          { role: 'user', content: message },
-        ],
-        { temperature: 0.0, max_tokens: 800 },
-        'framework',
-        'enneagram',
-      );
-      const parsed = this.parseJsonSafe(res.content, null);
-      if (!parsed || parsed.module_error) {
-        console.warn('[Enneagram] Failed to parse LLM response:', res.content?.substring(0, 300));
-        return { module_error: true, raw_response: res.content?.substring(0, 200) };
-      }
-      // Generate plain_english_insight if LLM didn't include it
-      if (!parsed.plain_english_insight && parsed.Primary_Type) {
-        parsed.plain_english_insight = `This person shows Type ${parsed.Primary_Type} patterns${parsed.Core_Motivation ? ` (motivated by ${parsed.Core_Motivation})` : ''}${parsed.Core_Fear ? ` with underlying fear of ${parsed.Core_Fear}` : ''}.`;
-      }
-      return parsed;
-    } catch (e) {
-      console.error('Error in Enneagram analysis:', e);
-      return { module_error: true, error: e.message };
-    }
-  }
-
-  private async callLLMWithMBTIKB(message: string, selectedLLM: string, sessionId: string, userId?: string): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('MBTI.txt');
-      const { response: res } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          { role: 'system', content: sys },
-          {
-            role: 'user',
-            content: `Message: "${message}"\n\nAnalyze for MBTI type. Return JSON only:\n{"EI": "I/E/unknown", "SN": "S/N/unknown", "TF": "T/F/unknown", "JP": "J/P/unknown", "Confidence": {"EI": 0.7}, "Evidence": ["quote here"], "plain_english_insight": "One sentence summary of MBTI indicators detected"}`,
-          },
-        ],
-        { temperature: 0.0, max_tokens: 800 },
-        'framework',
-        'mbti',
-      );
-      const parsed = this.parseJsonSafe(res.content, null);
-      if (!parsed || parsed.module_error) {
-        console.warn('[MBTI] Failed to parse LLM response:', res.content?.substring(0, 300));
-        return { module_error: true, raw_response: res.content?.substring(0, 200) };
-      }
-      // Generate plain_english_insight if LLM didn't include it
-      if (!parsed.plain_english_insight) {
-        const mbtiType = `${parsed.EI || '?'}${parsed.SN || '?'}${parsed.TF || '?'}${parsed.JP || '?'}`;
-        parsed.plain_english_insight = `MBTI indicators suggest ${mbtiType !== '????' ? mbtiType : 'incomplete data'} tendencies${parsed.Evidence?.length ? ` based on: ${parsed.Evidence[0]}` : ''}.`;
-      }
-      return parsed;
-    } catch (e) {
-      console.error('Error in MBTI analysis:', e);
-      return { module_error: true, error: e.message };
-    }
-  }
-
-  private async callLLMWithEriksonKB(message: string, selectedLLM: string, sessionId: string, userId?: string): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('EPSI_CompleteAnalysis.txt');
-      const enhancedPrompt = `${sys}
-
-IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the developmental stage or life challenge detected.
-Example: "plain_english_insight": "This person appears to be navigating the Identity vs. Role Confusion stage, questioning who they are in this new business venture."`;
-
-      const { response: res } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          { role: 'system', content: enhancedPrompt },
-          { role: 'user', content: message },
-        ],
-        { temperature: 0.0, max_tokens: 800 },
-        'framework',
-        'erikson',
-      );
-      const parsed = this.parseJsonSafe(res.content, null);
-      if (!parsed || parsed.module_error) {
-        console.warn('[Erikson] Failed to parse LLM response:', res.content?.substring(0, 300));
-        return { module_error: true, raw_response: res.content?.substring(0, 200) };
-      }
-      // Generate plain_english_insight if LLM didn't include it
-      if (!parsed.plain_english_insight && parsed.Stage) {
-        parsed.plain_english_insight = `This person is navigating ${parsed.Stage}${parsed.Conflict ? ` (${parsed.Conflict})` : ''}.`;
-      }
-      return parsed;
-    } catch (e) {
-      console.error('Error in Erikson analysis:', e);
-      return { module_error: true, error: e.message };
-    }
+  clearSession(sessionId: string): void {
+    this.sessionCache.delete(sessionId);
+    this.lastClassification.delete(sessionId);
+    this.lastFrameworkSelection.delete(sessionId);
+    this.lastAnalysisTokens.delete(sessionId);
   }
 
-  private async callLLMWithGestaltKB(message: string, selectedLLM: string, sessionId: string, userId?: string): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('GestaltAwareness.txt');
-      const enhancedPrompt = `${sys}
-
-IMPORTANT ADDITION: After your analysis, add a "plain_english_insight" field with ONE sentence summarizing the awareness or unfinished business detected.
-Example: "plain_english_insight": "This person shows incomplete awareness - they feel the anxiety but haven't connected it to their underlying fear of failure."`;
-
-      const { response: res } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          { role: 'system', content: enhancedPrompt },
-          { role: 'user', content: message },
-        ],
-        { temperature: 0.0, max_tokens: 800 },
-        'framework',
-        'gestalt',
-      );
-      const parsed = this.parseJsonSafe(res.content, null);
-      if (!parsed || parsed.module_error) {
-        console.warn('[Gestalt] Failed to parse LLM response:', res.content?.substring(0, 300));
-        return { module_error: true, raw_response: res.content?.substring(0, 200) };
-      }
-      // Generate plain_english_insight if LLM didn't include it
-      if (!parsed.plain_english_insight && (parsed.Awareness_Level || parsed.Unfinished_Business)) {
-        parsed.plain_english_insight = `Gestalt analysis: ${parsed.Awareness_Level ? `Awareness level is ${parsed.Awareness_Level}` : ''}${parsed.Unfinished_Business ? `. Unfinished business: ${parsed.Unfinished_Business}` : ''}.`;
-      }
-      return parsed;
-    } catch (e) {
-      console.error('Error in Gestalt analysis:', e);
-      return { module_error: true, error: e.message };
-    }
+  /**
+   * Router classification of the message last passed to analyze() for this session
+   * (undefined when analysis was skipped, e.g. a first-message greeting)
+   */
+  getLastClassification(sessionId: string): Classification | undefined {
+    return this.lastClassification.get(sessionId);
   }
 
-  private async callLLMWithBioPsychKB(message: string, selectedLLM: string, sessionId: string, userId?: string): Promise<any> {
-    try {
-      const sys = this.getKBPrompt('Bio-PsychReasoner.txt');
-      const { response: res } = await this.callLLMWithTokenTracking(
-        userId,
-        sessionId,
-        selectedLLM,
-        [
-          { role: 'system', content: sys },
-          {
-            role: 'user',
-            content: `Message: "${message}"\n\nAnalyze for biological/lifestyle factors. Return JSON only:\n{"Possible_Factors": ["Sleep", "Nutrition", "Exercise", etc.], "Confidence_By_Factor": {"Sleep": 0.7}, "Evidence": ["quote here"], "Notes": "", "plain_english_insight": "One sentence about biological/lifestyle factors that might be contributing"}`,
-          },
-        ],
-        { temperature: 0.0, max_tokens: 800 },
-        'framework',
-        'bioPsych',
-      );
-      const parsed = this.parseJsonSafe(res.content, null);
-      if (!parsed || parsed.module_error) {
-        console.warn('[BioPsych] Failed to parse LLM response:', res.content?.substring(0, 300));
-        return { module_error: true, raw_response: res.content?.substring(0, 200) };
-      }
-      // Generate plain_english_insight if LLM didn't include it
-      if (!parsed.plain_english_insight && parsed.Possible_Factors?.length) {
-        parsed.plain_english_insight = `Biological factors to consider: ${parsed.Possible_Factors.join(', ')}${parsed.Notes ? `. ${parsed.Notes}` : ''}.`;
-      }
-      return parsed;
-    } catch (e) {
-      console.error('Error in BioPsych analysis:', e);
-      return { module_error: true, error: e.message };
-    }
+  /**
+   * Frameworks chosen and skipped under the plan's framework cap for the message last passed to
+   * analyze() (undefined when no tier was given or no framework was triggered)
+   */
+  getLastFrameworkSelection(sessionId: string): FrameworkSelection | undefined {
+    return this.lastFrameworkSelection.get(sessionId);
   }
 
   /**
-   * Clear session cache
+   * Analysis mode and per-framework token usage of the message last passed to analyze()
+   * (undefined when no framework ran)
    */
-  clearSession(sessionId: string): void {
-    this.sessionCache.delete(sessionId);
+  getLastAnalysisTokens(sessionId: string): AnalysisTokenUsage | undefined {
+    return this.lastAnalysisTokens.get(sessionId);
   }
 
   /**
@@ -1610,6 +1321,9 @@ Example: "plain_english_insight": "This person shows incomplete awareness - they
     meta: {
       method: 'obvious_no_signal' | 'intelligent_llm_router';
       tokenCount: number;
+      /** Provider-reported usage and cost of the router call (when the LLM was used). */
+      usage?: LLMTokenUsage;
+      costUSD?: number;
       llmUsed: boolean;
       llmModel?: string;
       llmPrompt?: string;
@@ -1635,17 +1349,7 @@ Example: "plain_english_insight": "This person shows incomplete awareness - they
       // Return empty classification - no frameworks will run
       const classification = {
         hasCrisisIndicators: false,
-        hasEmotionalContent: false,
-        hasSelfWorthContent: false,
-        hasDarkTriadIndicators: false,
-        hasPersonalityIndicators: false,
-        hasCognitiveIndicators: false,
-        hasAttachment: false,
-        hasEnneagram: false,
-        hasMBTI: false,
-        hasErikson: false,
-        hasGestalt: false,
-        hasBioPsych: false,
+        ...frameworkFlags(),
         urgency: 'low' as const,
         hasSignal: false,
       };
@@ -1724,36 +1428,16 @@ Respond with JSON only:`;
         // Map frameworks to old boolean flags for backward compatibility
         // IMPORTANT: Each flag maps ONLY to its own framework - no cross-contamination
         hasCrisisIndicators: frameworks.includes('crisis') || llmResult.signalType?.toLowerCase().includes('crisis'),
-        hasEmotionalContent: frameworks.includes('dass'),  // FIXED: Only DASS, not bigFive
-        hasSelfWorthContent: frameworks.includes('rse'),
-        hasDarkTriadIndicators: frameworks.includes('darkTriad'),
-        hasPersonalityIndicators: frameworks.includes('bigFive'),
-        hasCognitiveIndicators: frameworks.includes('crt'),
-        hasAttachment: frameworks.includes('attachment'),
-        hasEnneagram: frameworks.includes('enneagram'),
-        hasMBTI: frameworks.includes('mbti'),
-        hasErikson: frameworks.includes('erikson'),
-        hasGestalt: frameworks.includes('gestalt'),
-        hasBioPsych: frameworks.includes('bioPsych'),
+        ...frameworkFlags(frameworks),
         
         // Determine urgency based on signal type and frameworks
         urgency: this.determineUrgency(llmResult, frameworks),
       };
 
       // Build human-readable reasoning
-      const frameworkExplanations: Record<string, string> = {
-        bigFive: 'Personality traits detected (how they typically behave)',
-        dass: 'Current emotional state detected (how they feel now)',
-        rse: 'Self-worth content detected (how they value themselves)',
-        crt: 'Thinking style detected (how they make decisions)',
-        darkTriad: 'Manipulation/superiority patterns detected',
-        attachment: 'Relationship patterns detected (how they connect)',
-        enneagram: 'Core motivations/fears detected (what drives them)',
-        erikson: 'Life stage challenges detected (identity/meaning)',
-        gestalt: 'Awareness/avoidance patterns detected',
-        bioPsych: 'Physical/environmental factors detected',
-        mbti: 'Cognitive preferences detected',
-      };
+      const frameworkExplanations: Record<string, string> = Object.fromEntries(
+        FRAMEWORK_REGISTRY.map((f) => [f.id, f.routerExplanation]),
+      );
 
       const selectedFrameworkExplanations = frameworks
         .map(f => `• ${frameworkExplanations[f] || f}`)
@@ -1764,8 +1448,10 @@ Respond with JSON only:`;
         meta: {
           method: 'intelligent_llm_router',
           tokenCount: tokenApprox,
+          usage: response.usage,
+          costUSD: response.costUSD,
           llmUsed: true,
-          llmModel: 'gpt-4o-mini',
+          llmModel: response.modelId || 'gpt-4o-mini',
           llmPrompt,
           llmResponse: response.content,
           llmParsed: llmResult,
@@ -1795,17 +1481,7 @@ The intelligent router reads the message like a human therapist would - looking
         classification: {
           hasSignal: true, // Assume signal on error to be safe
           hasCrisisIndicators: false,
-          hasEmotionalContent: true, // Only DASS on error
-          hasSelfWorthContent: false,
-          hasDarkTriadIndicators: false,
-          hasPersonalityIndicators: false, // Don't force BigFive
-          hasCognitiveIndicators: false,
-          hasAttachment: false,
-          hasEnneagram: false,
-          hasMBTI: false,
-          hasErikson: false,
-          hasGestalt: false,
-          hasBioPsych: false,
+          ...frameworkFlags(['dass']), // Only DASS on error
           urgency: 'low' as const,
         },
         meta: {
@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface CircuitEntry {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  /** True while the single half-open probe request is in flight. */
+  probeInFlight: boolean;
+  lastError?: string;
+}
+
+/**
+ * Provider Circuit Breaker
+ *
+ * Tracks consecutive failures per LLM provider (openai, claude, deepseek, gemini).
+ * After LLM_CIRCUIT_FAILURE_THRESHOLD failures the circuit opens and the orchestrator
+ * skips that provider for LLM_CIRCUIT_COOLDOWN_MS. After the cooldown one probe request
+ * is let through (half-open): success closes the circuit, failure re-opens it.
+ */
+@Injectable()
+export class ProviderCircuitBreakerService {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private circuits = new Map<string, CircuitEntry>();
+
+  constructor(private configService: ConfigService) {
+    this.failureThreshold = parseInt(this.configService.get<string>('LLM_CIRCUIT_FAILURE_THRESHOLD') || '3', 10);
+    this.cooldownMs = parseInt(this.configService.get<string>('LLM_CIRCUIT_COOLDOWN_MS') || '30000', 10);
+  }
+
+  /**
+   * Whether a request to this provider may be attempted right now.
+   * Moves an open circuit to half-open once the cooldown has elapsed.
+   */
+  canRequest(provider: string): boolean {
+    const entry = this.getEntry(provider);
+    if (entry.state === 'closed') return true;
+
+    if (entry.state === 'open') {
+      if (entry.openedAt !== null && Date.now() - entry.openedAt >= this.cooldownMs) {
+        entry.state = 'half_open';
+        entry.probeInFlight = true;
+        console.log(`🔌 [CircuitBreaker] ${provider}: cooldown elapsed, sending probe (half-open)`);
+        return true;
+      }
+      return false;
+    }
+
+    // half_open: only one probe at a time
+    if (entry.probeInFlight) return false;
+    entry.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(provider: string): void {
+    const entry = this.getEntry(provider);
+    if (entry.state !== 'closed') {
+      console.log(`✅ [CircuitBreaker] ${provider}: recovered, circuit closed`);
+    }
+    entry.state = 'closed';
+    entry.consecutiveFailures = 0;
+    entry.openedAt = null;
+    entry.probeInFlight = false;
+    entry.lastError = undefined;
+  }
+
+  /**
+   * The request ended without an outcome (cancelled by the caller): frees the half-open probe slot
+   * so the next request can probe, without counting a success or a failure.
+   */
+  releaseProbe(provider: string): void {
+    this.getEntry(provider).probeInFlight = false;
+  }
+
+  recordFailure(provider: string, error?: unknown): void {
+    const entry = this.getEntry(provider);
+    entry.consecutiveFailures += 1;
+    entry.probeInFlight = false;
+    entry.lastError = error instanceof Error ? error.message : error !== undefined ? String(error) : undefined;
+
+    if (entry.state === 'half_open' || entry.consecutiveFailures >= this.failureThreshold) {
+      if (entry.state !== 'open') {
+        console.warn(
+          `🚫 [CircuitBreaker] ${provider}: circuit OPEN after ${entry.consecutiveFailures} failure(s) (cooldown ${this.cooldownMs}ms)`,
+        );
+      }
+      entry.state = 'open';
+      entry.openedAt = Date.now();
+    }
+  }
+
+  getState(provider: string): CircuitState {
+    return this.getEntry(provider).state;
+  }
+
+  /**
+   * Snapshot of all known circuits (for debug/monitoring).
+   */
+  getSnapshot(): Record<string, { state: CircuitState; consecutiveFailures: number; openedAt: string | null; lastError?: string }> {
+    const snapshot: Record<string, { state: CircuitState; consecutiveFailures: number; openedAt: string | null; lastError?: string }> = {};
+    for (const [provider, entry] of this.circuits.entries()) {
+      snapshot[provider] = {
+        state: entry.state,
+        consecutiveFailures: entry.consecutiveFailures,
+        openedAt: entry.openedAt !== null ? new Date(entry.openedAt).toISOString() : null,
+        lastError: entry.lastError,
+      };
+    }
+    return snapshot;
+  }
+
+  private getEntry(provider: string): CircuitEntry {
+    let entry = this.circuits.get(provider);
+    if (!entry) {
+      entry = { state: 'closed', consecutiveFailures: 0, openedAt: null, probeInFlight: false };
+      this.circuits.set(provider, entry);
+    }
+    return entry;
+  }
+}
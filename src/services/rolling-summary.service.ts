@@ -1,5 +1,7 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { LLMOrchestratorService } from './llm-orchestrator.service';
+import { TokenCounterService } from './token-counter.service';
 
 interface RollingSummaryCache {
   summary: string;
@@ -14,27 +16,37 @@ export class RollingSummaryService {
   // Configuration
   private readonly SUMMARY_TRIGGER_COUNT = 10; // Generate summary every N messages
   private readonly RECENT_MESSAGES_TO_KEEP = 10; // Keep last N messages in full
-  private readonly SUMMARY_MODEL = 'gpt-4o-mini'; // Cheap model for summaries
+  private readonly SUMMARY_MODEL: string; // Cheap model for summaries (ROLLING_SUMMARY_MODEL, default gpt-4o-mini)
   private readonly MAX_SUMMARY_TOKENS = 300; // Keep summaries concise
 
-  constructor(private readonly llmOrchestrator: LLMOrchestratorService) {}
+  constructor(
+    private readonly llmOrchestrator: LLMOrchestratorService,
+    private readonly configService: ConfigService,
+    private readonly tokenCounter: TokenCounterService,
+  ) {
+    this.SUMMARY_MODEL = this.configService.get<string>('ROLLING_SUMMARY_MODEL')?.trim() || 'gpt-4o-mini';
+  }
 
   /**
    * Get optimized history for LLM calls
    * Returns: rolling summary + recent messages (instead of full history)
+   * Recent messages are capped by count and by the tier's maxHistoryTokens, counted with
+   * modelId's tokenizer (the model the history is sent to); older messages go into the summary.
    */
   async getOptimizedHistory(
     sessionId: string,
     fullHistory: any[],
     tier: string = 'free',
+    modelId: string = this.SUMMARY_MODEL,
   ): Promise<{ summary: string | null; recentMessages: any[] }> {
     const historyLength = fullHistory.length;
     
     // Get tier-based limits
     const limits = this.getTierLimits(tier);
+    const keep = this.countRecentToKeep(fullHistory, limits, modelId);
     
     // If history is short, no need for summary
-    if (historyLength <= limits.recentMessagesToKeep) {
+    if (historyLength <= keep) {
       return {
         summary: null,
         recentMessages: fullHistory,
@@ -48,7 +60,7 @@ export class RollingSummaryService {
 
     if (needsUpdate) {
       // Messages to summarize (everything except recent ones)
-      const messagesToSummarize = fullHistory.slice(0, -limits.recentMessagesToKeep);
+      const messagesToSummarize = fullHistory.slice(0, historyLength - keep);
       
       if (messagesToSummarize.length > 0) {
         const summary = await this.generateSummary(messagesToSummarize, cached?.summary);
@@ -61,7 +73,7 @@ export class RollingSummaryService {
 
         console.log(`📝 [RollingSummary] Updated summary for session ${sessionId}`);
         console.log(`   - Summarized ${messagesToSummarize.length} old messages`);
-        console.log(`   - Keeping ${limits.recentMessagesToKeep} recent messages`);
+        console.log(`   - Keeping ${keep} recent messages`);
       }
     }
 
@@ -69,10 +81,31 @@ export class RollingSummaryService {
     const currentCache = this.summaryCache.get(sessionId);
     return {
       summary: currentCache?.summary || null,
-      recentMessages: fullHistory.slice(-limits.recentMessagesToKeep),
+      recentMessages: fullHistory.slice(historyLength - keep),
     };
   }
 
+  /**
+   * How many of the newest messages fit in the tier's message count and history token budget
+   * (always at least one, so the model sees the latest turn)
+   */
+  private countRecentToKeep(
+    fullHistory: any[],
+    limits: { recentMessagesToKeep: number; maxHistoryTokens: number },
+    modelId: string,
+  ): number {
+    const maxMessages = Math.min(limits.recentMessagesToKeep, fullHistory.length);
+    let tokens = 0;
+    for (let keep = 0; keep < maxMessages; keep++) {
+      tokens += this.tokenCounter.countMessages([fullHistory[fullHistory.length - 1 - keep]], modelId);
+      if (tokens > limits.maxHistoryTokens) {
+        console.log(`✂️ [RollingSummary] History over ${limits.maxHistoryTokens} tokens: keeping ${Math.max(1, keep)} recent messages`);
+        return Math.max(1, keep);
+      }
+    }
+    return maxMessages;
+  }
+
   /**
    * Generate a summary of conversation history
    */
@@ -104,7 +137,8 @@ ${existingSummary ? `Previous summary to incorporate:\n${existingSummary}` : ''}
         ],
         { 
           temperature: 0.3, 
-          max_tokens: this.MAX_SUMMARY_TOKENS 
+          max_tokens: this.MAX_SUMMARY_TOKENS,
+          priority: 'summary',
         },
       );
 
@@ -0,0 +1,166 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SafetyCategory } from '../config/crisis-resources';
+
+/** What made the gate fire: a local risk pattern or the router's crisis signal. */
+export interface SafetyEvidence {
+  /** 'pattern' for a high-confidence local match, 'keyword' for a keyword hit the router confirmed */
+  source: 'pattern' | 'keyword' | 'router';
+  detail: string;
+}
+
+/** The gate replaced the model's reply with the vetted crisis template. */
+export interface SafetyGateAuditEntry {
+  type: 'gate';
+  sessionId: string;
+  userId: string;
+  channel: 'chat' | 'guest';
+  category: SafetyCategory;
+  region: string;
+  evidence: SafetyEvidence[];
+  /** The user message that triggered the gate */
+  message: string;
+  /** Reply sent to the user */
+  output: string;
+  action: 'crisis_template';
+  /** Whether an escalation webhook was sent (its outcome is a separate `escalation` record) */
+  escalation: 'webhook' | 'none';
+}
+
+/** Outcome of the escalation webhook for a gate record. */
+export interface SafetyEscalationAuditEntry {
+  type: 'escalation';
+  /** id of the gate record */
+  refId: string;
+  sessionId: string;
+  status: 'delivered' | 'failed';
+  httpStatus?: number;
+  error?: string;
+}
+
+export type SafetyAuditEntry = SafetyGateAuditEntry | SafetyEscalationAuditEntry;
+
+export type SafetyAuditRecord = SafetyAuditEntry & {
+  id: string;
+  seq: number;
+  timestamp: string;
+  /** Hash of the previous record ('' for the first), so edits or deletions break the chain */
+  prevHash: string;
+  hash: string;
+};
+
+export interface SafetyAuditQuery {
+  type?: SafetyAuditEntry['type'];
+  sessionId?: string;
+  userId?: string;
+  category?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Safety Audit Service
+ *
+ * Append-only audit log of safety gate actions (SAFETY_AUDIT_PATH, default .usage-data/safety-audit.jsonl).
+ * Records are never updated or deleted: each one carries the hash of the previous record, and
+ * verify() reports the first record where the chain no longer matches.
+ */
+@Injectable()
+export class SafetyAuditService implements OnModuleInit {
+  private records: SafetyAuditRecord[] = [];
+  private filePath = '';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    this.filePath = path.resolve(
+      this.configService.get<string>('SAFETY_AUDIT_PATH')?.trim() ||
+        path.join(process.cwd(), '.usage-data', 'safety-audit.jsonl'),
+    );
+    try {
+      this.records = this.readFile().map((record) => Object.freeze(record));
+    } catch (e: any) {
+      this.records = [];
+      console.error(`❌ [SafetyAudit] Could not load ${this.filePath}: ${e.message}`);
+    }
+    const integrity = this.verify();
+    if (!integrity.valid) {
+      console.error(`❌ [SafetyAudit] Audit log hash chain broken at record ${integrity.brokenAt}`);
+    }
+    console.log(`🛟 [SafetyAudit] Loaded ${this.records.length} audit records from ${this.filePath}`);
+  }
+
+  append(entry: SafetyAuditEntry): SafetyAuditRecord {
+    const last = this.records[this.records.length - 1];
+    const unsigned = {
+      id: uuidv4(),
+      seq: (last?.seq ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      ...entry,
+      prevHash: last?.hash ?? '',
+    };
+    const record = Object.freeze({ ...unsigned, hash: hashRecord(unsigned) }) as SafetyAuditRecord;
+    this.records.push(record);
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (e: any) {
+      console.error(`❌ [SafetyAudit] Could not write audit record ${record.id}: ${e.message}`);
+    }
+    return record;
+  }
+
+  /** Matching records, newest first. */
+  query(filter: SafetyAuditQuery = {}): { total: number; records: SafetyAuditRecord[] } {
+    const matches = this.records.filter((r) => {
+      const time = new Date(r.timestamp).getTime();
+      return (
+        (!filter.type || r.type === filter.type) &&
+        (!filter.sessionId || r.sessionId === filter.sessionId) &&
+        (!filter.userId || (r.type === 'gate' && r.userId === filter.userId)) &&
+        (!filter.category || (r.type === 'gate' && r.category === filter.category)) &&
+        (!filter.since || time >= filter.since.getTime()) &&
+        (!filter.until || time <= filter.until.getTime())
+      );
+    });
+    const limit = Math.min(Math.max(filter.limit ?? 100, 1), 1000);
+    return { total: matches.length, records: matches.reverse().slice(0, limit) };
+  }
+
+  /** Re-read the log file and check its hash chain (brokenAt: seq of the first bad record, 0 if unreadable). */
+  verify(): { valid: boolean; records: number; brokenAt?: number } {
+    let onDisk: SafetyAuditRecord[];
+    try {
+      onDisk = this.readFile();
+    } catch {
+      return { valid: false, records: 0, brokenAt: 0 };
+    }
+    let prevHash = '';
+    for (const record of onDisk) {
+      const { hash, ...unsigned } = record;
+      if (record.prevHash !== prevHash || hashRecord(unsigned) !== hash) {
+        return { valid: false, records: onDisk.length, brokenAt: record.seq };
+      }
+      prevHash = hash;
+    }
+    return { valid: true, records: onDisk.length };
+  }
+
+  private readFile(): SafetyAuditRecord[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return fs
+      .readFileSync(this.filePath, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+}
+
+function hashRecord(unsigned: object): string {
+  return createHash('sha256').update(JSON.stringify(unsigned)).digest('hex');
+}
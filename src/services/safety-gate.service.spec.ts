@@ -0,0 +1,110 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SafetyAuditService } from './safety-audit.service';
+import { SafetyGateService } from './safety-gate.service';
+import { validateCrisisResources } from '../config/crisis-resources';
+import bundledResources from '../config/crisis-resources.data.json';
+
+describe('SafetyGateService', () => {
+  const auditFile = path.join(os.tmpdir(), `safety-audit-${process.pid}.jsonl`);
+  let env: Record<string, string | undefined>;
+  let audit: SafetyAuditService;
+  let gate: SafetyGateService;
+  const context = { sessionId: 'session-1', userId: 'user-1', channel: 'chat' as const, message: 'I want to end it all' };
+  const selfHarm = { safety: { flag: 'risk' as const, category: 'self_harm', evidence: 'end it all', confidence: 'high' as const } };
+
+  beforeEach(() => {
+    env = { SAFETY_AUDIT_PATH: auditFile };
+    const config = { get: jest.fn((key: string) => env[key]) } as unknown as ConfigService;
+    audit = new SafetyAuditService(config);
+    audit.onModuleInit();
+    gate = new SafetyGateService(config, audit);
+    gate.onModuleInit();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(auditFile)) fs.unlinkSync(auditFile);
+    jest.restoreAllMocks();
+  });
+
+  it('ships a valid crisis resources file', () => {
+    expect(validateCrisisResources(bundledResources)).toEqual([]);
+  });
+
+  it('answers risk with the vetted template and the region crisis lines, and audits it', () => {
+    const decision = gate.enforce({ ...context, region: 'gb' }, selfHarm)!;
+
+    expect(decision).toMatchObject({ category: 'self_harm', region: 'GB' });
+    expect(decision.response).toContain('- Emergency services: 999');
+    expect(decision.response).toContain('Samaritans: Call 116 123');
+    expect(decision.response).not.toContain('National Domestic Abuse Helpline');
+
+    const { records } = audit.query({ sessionId: 'session-1' });
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      id: decision.auditId,
+      type: 'gate',
+      message: 'I want to end it all',
+      output: decision.response,
+      action: 'crisis_template',
+      escalation: 'none',
+      evidence: [{ source: 'pattern', detail: 'self_harm: "end it all"' }],
+    });
+  });
+
+  it('falls back to the default region and fires on a critical router signal alone', () => {
+    const decision = gate.enforce({ ...context, region: 'XX' }, {
+      classification: { hasCrisisIndicators: true, urgency: 'critical' } as any,
+    })!;
+
+    expect(decision).toMatchObject({ category: 'crisis', region: 'INTL' });
+    expect(gate.enforce(context, { classification: { hasCrisisIndicators: true, urgency: 'high' } as any })).toBeNull();
+    expect(gate.enforce(context, { safety: { flag: 'none' } })).toBeNull();
+  });
+
+  it('only logs a keyword hit the router does not confirm', () => {
+    const keyword = { safety: { flag: 'risk' as const, category: 'abuse', evidence: 'abuse', confidence: 'keyword' as const } };
+    const message = 'We have substance abuse cases at work';
+
+    expect(gate.enforce({ ...context, message }, keyword)).toBeNull();
+    expect(gate.enforce({ ...context, message }, { ...keyword, classification: { hasCrisisIndicators: false, urgency: 'low' } as any })).toBeNull();
+    expect(audit.query({ sessionId: 'session-1' }).records).toHaveLength(0);
+
+    const confirmed = gate.enforce(context, { ...keyword, classification: { hasCrisisIndicators: true, urgency: 'critical' } as any })!;
+    expect(confirmed.category).toBe('abuse');
+    expect(audit.query({ sessionId: 'session-1' }).records[0]).toMatchObject({
+      evidence: [{ source: 'keyword' }, { source: 'router' }],
+    });
+  });
+
+  it('posts a signed escalation webhook and audits its outcome', async () => {
+    env.SAFETY_ESCALATION_WEBHOOK_URL = 'https://hooks.example.com/safety';
+    env.SAFETY_ESCALATION_WEBHOOK_SECRET = 'secret';
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({ ok: true, status: 200 } as Response);
+
+    const decision = gate.enforce(context, selfHarm)!;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://hooks.example.com/safety');
+    expect((init!.headers as Record<string, string>)['X-Safety-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(JSON.parse(init!.body as string)).toMatchObject({ auditId: decision.auditId, category: 'self_harm' });
+    expect(init!.body).not.toContain('I want to end it all');
+    expect(audit.query({ type: 'escalation' }).records[0]).toMatchObject({ refId: decision.auditId, status: 'delivered' });
+  });
+
+  it('detects edits to the audit log file', () => {
+    gate.enforce(context, selfHarm);
+    gate.enforce({ ...context, sessionId: 'session-2' }, selfHarm);
+    expect(audit.verify()).toEqual({ valid: true, records: 2 });
+
+    const lines = fs.readFileSync(auditFile, 'utf-8').trim().split('\n');
+    const first = JSON.parse(lines[0]);
+    first.output = 'edited';
+    fs.writeFileSync(auditFile, [JSON.stringify(first), lines[1]].join('\n') + '\n');
+
+    expect(audit.verify()).toEqual({ valid: false, records: 2, brokenAt: 1 });
+  });
+});
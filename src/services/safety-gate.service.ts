@@ -0,0 +1,210 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  BUNDLED_CRISIS_RESOURCES,
+  CrisisResourcesFile,
+  renderCrisisResponse,
+  SafetyCategory,
+  validateCrisisResources,
+} from '../config/crisis-resources';
+import { SafetyAuditRecord, SafetyAuditService, SafetyEvidence } from './safety-audit.service';
+import type { Classification } from './parallel-llm.service';
+
+/** Risk signals already computed for the message (local check and, for /chat, the router). */
+export interface SafetySignals {
+  safety?: { flag: 'none' | 'risk'; category?: string; evidence?: string; confidence?: 'high' | 'keyword' };
+  classification?: Classification;
+}
+
+export interface SafetyGateContext {
+  sessionId: string;
+  userId: string;
+  channel: 'chat' | 'guest';
+  message: string;
+  /** ISO 3166-1 alpha-2 code sent by the client */
+  region?: string;
+}
+
+export interface SafetyGateDecision {
+  category: SafetyCategory;
+  region: string;
+  /** Vetted reply to send instead of a generated one */
+  response: string;
+  auditId: string;
+}
+
+/**
+ * Safety Gate Service
+ *
+ * Runs before response generation. When the message shows risk (an explicit self-harm / harm to
+ * others / abuse / medical statement, or a critical crisis signal from the router, which also
+ * confirms a plain keyword hit), the reply is the vetted
+ * template for that category with the region's crisis lines (crisis-resources.data.json) instead of
+ * a model reply. Every intervention is written to the safety audit log and, when
+ * SAFETY_ESCALATION_WEBHOOK_URL is set, posted to the escalation webhook.
+ *
+ * A keyword hit the router does not confirm is only logged: words like "abuse" or "poison" are too
+ * common in ordinary messages to override the reply and page a responder on their own.
+ *
+ * SAFETY_GATE_ENABLED=false turns the gate off (risk is still flagged in the profile).
+ */
+@Injectable()
+export class SafetyGateService implements OnModuleInit {
+  private resources: CrisisResourcesFile = BUNDLED_CRISIS_RESOURCES;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly audit: SafetyAuditService,
+  ) {}
+
+  onModuleInit(): void {
+    const customPath = this.configService.get<string>('CRISIS_RESOURCES_PATH')?.trim();
+    const raw = customPath
+      ? existsSync(resolve(customPath))
+        ? JSON.parse(readFileSync(resolve(customPath), 'utf-8'))
+        : null
+      : BUNDLED_CRISIS_RESOURCES;
+    const errors = raw ? validateCrisisResources(raw) : [`File not found: ${customPath}`];
+    if (errors.length > 0) {
+      throw new Error(`Crisis resources ${customPath || 'crisis-resources.data.json'} are invalid: ${errors.join('; ')}`);
+    }
+    this.resources = raw;
+    console.log(
+      `🛟 [SafetyGate] ${this.isEnabled() ? 'ENABLED' : 'DISABLED'}, crisis resources v${this.resources.version} (${Object.keys(this.resources.regions).length} regions), escalation webhook ${this.getWebhookUrl() ? 'ON' : 'OFF'}`,
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.configService.get<string>('SAFETY_GATE_ENABLED') !== 'false';
+  }
+
+  /**
+   * Category and evidence when the signals show risk, else null: a high-confidence local match, or a
+   * critical crisis signal from the router (with the keyword hit it confirms, if any). Local patterns
+   * win over the router for the category.
+   */
+  detect(signals: SafetySignals): { category: SafetyCategory; evidence: SafetyEvidence[] } | null {
+    const evidence: SafetyEvidence[] = [];
+    let category: SafetyCategory | undefined;
+    const classification = signals.classification;
+    const routerConfirmed = !!classification?.hasCrisisIndicators && classification.urgency === 'critical';
+
+    if (signals.safety?.flag === 'risk' && (signals.safety.confidence === 'high' || routerConfirmed)) {
+      category = (signals.safety.category as SafetyCategory) || 'crisis';
+      evidence.push({
+        source: signals.safety.confidence === 'high' ? 'pattern' : 'keyword',
+        detail: `${category}${signals.safety.evidence ? `: "${signals.safety.evidence}"` : ''}`,
+      });
+    }
+    if (routerConfirmed) {
+      category = category || 'crisis';
+      evidence.push({ source: 'router', detail: `hasCrisisIndicators, urgency ${classification!.urgency}` });
+    }
+
+    return category ? { category, evidence } : null;
+  }
+
+  /**
+   * Apply the crisis protocol when the signals show risk: returns the vetted reply (already
+   * audited and escalated), or null when normal generation should go ahead.
+   */
+  enforce(context: SafetyGateContext, signals: SafetySignals): SafetyGateDecision | null {
+    if (!this.isEnabled()) return null;
+    const detected = this.detect(signals);
+    if (!detected) {
+      if (signals.safety?.flag === 'risk') {
+        console.log(
+          `🛟 [SafetyGate] Unconfirmed ${signals.safety.category} keyword "${signals.safety.evidence}" in session ${context.sessionId}: no intervention`,
+        );
+      }
+      return null;
+    }
+
+    const { region, response } = renderCrisisResponse(
+      this.resources,
+      detected.category,
+      context.region,
+      this.configService.get<string>('CRISIS_DEFAULT_REGION'),
+    );
+    const webhookUrl = this.getWebhookUrl();
+    const record = this.audit.append({
+      type: 'gate',
+      sessionId: context.sessionId,
+      userId: context.userId,
+      channel: context.channel,
+      category: detected.category,
+      region,
+      evidence: detected.evidence,
+      message: context.message,
+      output: response,
+      action: 'crisis_template',
+      escalation: webhookUrl ? 'webhook' : 'none',
+    });
+    console.log(`🛟 [SafetyGate] ${detected.category} risk in session ${context.sessionId}: crisis template (${region}), audit ${record.id}`);
+
+    if (webhookUrl) {
+      // Never holds up the reply; the outcome is audited when it arrives
+      void this.escalate(webhookUrl, record);
+    }
+    return { category: detected.category, region, response, auditId: record.id };
+  }
+
+  private getWebhookUrl(): string | undefined {
+    return this.configService.get<string>('SAFETY_ESCALATION_WEBHOOK_URL')?.trim() || undefined;
+  }
+
+  /**
+   * POST the intervention to the escalation webhook (no message text: responders look it up by
+   * auditId). Signed with SAFETY_ESCALATION_WEBHOOK_SECRET when set (X-Safety-Signature: sha256=<hex>).
+   */
+  private async escalate(url: string, record: SafetyAuditRecord): Promise<void> {
+    if (record.type !== 'gate') return;
+    const body = JSON.stringify({
+      event: 'safety.escalation',
+      auditId: record.id,
+      timestamp: record.timestamp,
+      sessionId: record.sessionId,
+      userId: record.userId,
+      channel: record.channel,
+      category: record.category,
+      region: record.region,
+      evidence: record.evidence,
+      action: record.action,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const secret = this.configService.get<string>('SAFETY_ESCALATION_WEBHOOK_SECRET');
+    if (secret) {
+      headers['X-Safety-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+      this.audit.append({
+        type: 'escalation',
+        refId: record.id,
+        sessionId: record.sessionId,
+        status: response.ok ? 'delivered' : 'failed',
+        httpStatus: response.status,
+      });
+      if (!response.ok) {
+        console.error(`❌ [SafetyGate] Escalation webhook returned ${response.status} for audit ${record.id}`);
+      }
+    } catch (error: any) {
+      this.audit.append({
+        type: 'escalation',
+        refId: record.id,
+        sessionId: record.sessionId,
+        status: 'failed',
+        error: error?.name === 'AbortError' ? 'timeout' : error?.message || String(error),
+      });
+      console.error(`❌ [SafetyGate] Escalation webhook failed for audit ${record.id}: ${error?.message}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { TokenCounterService } from './token-counter.service';
+
+describe('TokenCounterService', () => {
+  const counter = new TokenCounterService();
+
+  it('picks the tokenizer family from the model registry', () => {
+    expect(counter.getFamily('gpt-4o-mini')).toBe('o200k');
+    expect(counter.getFamily('gpt-3.5-turbo')).toBe('cl100k');
+    expect(counter.getFamily('claude-3-haiku')).toBe('claude');
+    expect(counter.getFamily('gemini-1.5-flash')).toBe('gemini');
+    expect(counter.getFamily('deepseek-chat')).toBe('cl100k');
+  });
+
+  it('matches tiktoken on plain English', () => {
+    // tiktoken cl100k: 2 and 10 tokens
+    expect(counter.countText('Hello world', 'gpt-4o')).toBe(2);
+    expect(counter.countText('The quick brown fox jumps over the lazy dog.', 'gpt-3.5-turbo')).toBe(10);
+  });
+
+  it('counts CJK text well above the chars/4 guess', () => {
+    const text = '我最近工作压力很大，晚上睡不好';
+    expect(counter.countText(text, 'gpt-3.5-turbo')).toBeGreaterThan(Math.ceil(text.length / 4) * 3);
+  });
+
+  it('adds per-message overhead and scales approximations for Claude', () => {
+    const messages = [
+      { role: 'system', content: 'You are a helpful coach.' },
+      { role: 'user', content: 'I keep procrastinating on my thesis.' },
+    ];
+    const openaiCount = counter.countMessages(messages, 'gpt-4o');
+    const contentOnly = messages.reduce((sum, m) => sum + counter.countText(m.content, 'gpt-4o'), 0);
+
+    expect(openaiCount).toBe(contentOnly + 2 * 3 + 3);
+    expect(counter.countMessages(messages, 'claude-3-haiku')).toBeGreaterThanOrEqual(openaiCount);
+    expect(counter.countMessages([], 'gpt-4o')).toBe(0);
+  });
+});
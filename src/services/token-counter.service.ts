@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { LLM_MODELS } from '../config/llm-models.config';
+import { resolveModelId } from '../config/model-registry';
+import { Tiktoken } from 'js-tiktoken/lite';
+
+/**
+ * Tokenizer a model's counts are based on. o200k (gpt-4o family) and cl100k (older OpenAI
+ * models, also used for DeepSeek and self-hosted models) are tiktoken's encodings; claude and
+ * gemini are approximations on top of the cl100k count.
+ */
+export type TokenizerFamily = 'o200k' | 'cl100k' | 'claude' | 'gemini';
+
+/** Claude and Gemini counts relative to cl100k (their tokenizers are not public). */
+const FAMILY_SCALE: Record<'claude' | 'gemini', number> = { claude: 1.1, gemini: 1.0 };
+
+/** Chat formatting tokens per message (role, separators), plus the priming of the reply. */
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+/** js-tiktoken rank files, loaded on first use (each is several MB). */
+const ENCODING_RANKS: Record<'o200k' | 'cl100k', string> = {
+  o200k: 'js-tiktoken/ranks/o200k_base',
+  cl100k: 'js-tiktoken/ranks/cl100k_base',
+};
+
+/**
+ * Token Counter
+ *
+ * Local token counts for prompts, per model family (no network): tiktoken's o200k_base and
+ * cl100k_base encodings (js-tiktoken, bundled ranks) for OpenAI-style models, the cl100k count
+ * scaled for Claude and Gemini. Used for tier input limits, pre-flight credit/budget checks,
+ * rolling summary trimming and the usage of cancelled streams.
+ */
+@Injectable()
+export class TokenCounterService {
+  private encoders = new Map<'o200k' | 'cl100k', Tiktoken>();
+
+  getFamily(modelId: string): TokenizerFamily {
+    const config = LLM_MODELS[resolveModelId(modelId)];
+    if (config?.provider === 'claude') return 'claude';
+    if (config?.provider === 'gemini') return 'gemini';
+    const model = (config?.model || modelId).toLowerCase();
+    return /^(gpt-4o|gpt-4\.1|gpt-5|o1|o3|o4)/.test(model) ? 'o200k' : 'cl100k';
+  }
+
+  countText(text: string, modelId: string): number {
+    if (!text) return 0;
+    const family = this.getFamily(modelId);
+    if (family === 'o200k' || family === 'cl100k') {
+      return this.getEncoder(family).encode(text).length;
+    }
+    return Math.ceil(this.getEncoder('cl100k').encode(text).length * FAMILY_SCALE[family]);
+  }
+
+  /**
+   * Prompt tokens for chat messages: every message's content (tool calls included) plus
+   * per-message formatting overhead.
+   */
+  countMessages(messages: any[], modelId: string): number {
+    if (messages.length === 0) return 0;
+    return messages.reduce((sum, message) => {
+      const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? '');
+      const toolCalls = message.toolCalls ? JSON.stringify(message.toolCalls) : '';
+      return sum + TOKENS_PER_MESSAGE + this.countText(content + toolCalls, modelId);
+    }, TOKENS_PER_REPLY);
+  }
+
+  private getEncoder(encoding: 'o200k' | 'cl100k'): Tiktoken {
+    let encoder = this.encoders.get(encoding);
+    if (!encoder) {
+      const ranks = require(ENCODING_RANKS[encoding]);
+      encoder = new Tiktoken(ranks.default ?? ranks);
+      this.encoders.set(encoding, encoder);
+    }
+    return encoder;
+  }
+}
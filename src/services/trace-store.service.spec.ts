@@ -0,0 +1,77 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TraceEntry, TraceStoreService } from './trace-store.service';
+
+describe('TraceStoreService', () => {
+  const traceFile = path.join(os.tmpdir(), `traces-${process.pid}.jsonl`);
+  let env: Record<string, string | undefined>;
+  let store: TraceStoreService;
+
+  const entry = (overrides: Partial<TraceEntry> = {}): TraceEntry => ({
+    messageId: 'message-1',
+    sessionId: 'session-1',
+    userId: 'user-1',
+    pipeline: 'chat',
+    userTier: 'pro',
+    message: 'I keep avoiding my manager',
+    selectedLLM: 'gpt-4o',
+    model: 'gpt-4o',
+    response: 'What are you afraid will happen if you talk to them?',
+    latencyMs: 1200,
+    ...overrides,
+  });
+
+  const createStore = () => {
+    const config = { get: jest.fn((key: string) => env[key]) } as unknown as ConfigService;
+    const created = new TraceStoreService(config);
+    created.onModuleInit();
+    return created;
+  };
+
+  beforeEach(() => {
+    env = { TRACE_STORE_PATH: traceFile, TRACE_SAMPLE_RATE: '1' };
+    store = createStore();
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(traceFile)) fs.unlinkSync(traceFile);
+  });
+
+  it('keeps nothing by default and samples whole sessions', () => {
+    env.TRACE_SAMPLE_RATE = undefined;
+    expect(store.record(entry())).toBeNull();
+
+    env.TRACE_SAMPLE_RATE = '0.5';
+    const sessions = Array.from({ length: 200 }, (_, i) => `session-${i}`);
+    const sampled = sessions.filter((id) => store.isSampled(id));
+    expect(sampled.length).toBeGreaterThan(60);
+    expect(sampled.length).toBeLessThan(140);
+    expect(sessions.filter((id) => store.isSampled(id))).toEqual(sampled);
+  });
+
+  it('persists traces and finds them by message, user, session and time range', () => {
+    store.record(entry());
+    store.record(entry({ messageId: 'message-2', sessionId: 'session-2', userId: 'user-2' }));
+    store.record(entry({ messageId: 'message-3' }));
+
+    const reloaded = createStore();
+    expect(reloaded.get('message-2')).toMatchObject({ sessionId: 'session-2', response: entry().response });
+    expect(reloaded.query({ userId: 'user-1' }).records.map((r) => r.messageId)).toEqual(['message-3', 'message-1']);
+    expect(reloaded.query({ sessionId: 'session-2' }).total).toBe(1);
+    expect(reloaded.query({ since: new Date(Date.now() + 60_000) }).total).toBe(0);
+    expect(reloaded.query({ limit: 1 })).toMatchObject({ total: 3, records: [{ messageId: 'message-3' }] });
+  });
+
+  it('drops traces past the retention window', () => {
+    const old = { id: 'old', timestamp: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(), ...entry({ messageId: 'old-message' }) };
+    fs.writeFileSync(traceFile, JSON.stringify(old) + '\n');
+    store = createStore();
+    store.record(entry());
+
+    expect(store.get('old-message')).toBeUndefined();
+    expect(fs.readFileSync(traceFile, 'utf-8')).not.toContain('old-message');
+    expect(store.query().total).toBe(1);
+  });
+});
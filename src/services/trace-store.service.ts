@@ -0,0 +1,170 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { FrameworkSelection } from '../config/subscription.config';
+import type { SafetyGateResult } from '../dto/chat.dto';
+import type { LLMFallbackReport, LLMRoutingDecision, LLMTokenUsage } from '../interfaces/llm-provider.interface';
+import type { AdvicePromptHashes } from './advice-generator.service';
+import type { AnalysisTokenUsage, Classification } from './parallel-llm.service';
+
+/** One processed /chat message: what support needs to explain the answer it got. */
+export interface TraceEntry {
+  /** Assistant message id in the backend (the id support sees in the conversation) */
+  messageId: string;
+  sessionId: string;
+  userId: string;
+  /** processMessage, processMessageWithStreaming or processMessageStream */
+  pipeline: 'chat' | 'chat-stream' | 'stream';
+  userTier: string;
+  message: string;
+  language?: string;
+  decisionIntelligenceMode?: boolean;
+  selectedLLM: string;
+  /** Model that answered ('safety-gate' when the crisis template replaced generation) */
+  model: string;
+  fallback?: LLMFallbackReport;
+  routing?: LLMRoutingDecision;
+  experiment?: { id: string; variant: string; promptVersions: Record<string, string | undefined> };
+  classification?: Classification;
+  /** Frameworks chosen and skipped under the plan cap */
+  frameworks?: FrameworkSelection;
+  /** Analysis mode and tokens per framework call */
+  analysisTokens?: AnalysisTokenUsage;
+  /** Tokens and cost of the reply call */
+  usage?: LLMTokenUsage | null;
+  costUSD?: number;
+  promptHashes?: AdvicePromptHashes;
+  safety?: SafetyGateResult;
+  response: string;
+  reasoning?: string;
+  /** Client disconnected mid-reply (response is the partial text) */
+  cancelled?: boolean;
+  latencyMs: number;
+}
+
+export type TraceRecord = TraceEntry & { id: string; timestamp: string };
+
+export interface TraceQuery {
+  userId?: string;
+  sessionId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Trace Store Service
+ *
+ * Keeps a trace of sampled production /chat turns (TRACE_STORE_PATH, default .usage-data/traces.jsonl):
+ * router classification, frameworks run, per-call tokens, prompt hashes, model, fallbacks, latency
+ * and the final response. Sampling is per session (TRACE_SAMPLE_RATE, 0-1, default 0 = off), so a
+ * sampled conversation is traced in full; records older than TRACE_RETENTION_DAYS (default 14) are
+ * pruned at startup and hourly while traces are written.
+ */
+@Injectable()
+export class TraceStoreService implements OnModuleInit {
+  private records: TraceRecord[] = [];
+  private filePath = '';
+  private lastPrune = 0;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit() {
+    this.filePath = path.resolve(
+      this.configService.get<string>('TRACE_STORE_PATH')?.trim() || path.join(process.cwd(), '.usage-data', 'traces.jsonl'),
+    );
+    try {
+      this.records = fs.existsSync(this.filePath)
+        ? fs
+            .readFileSync(this.filePath, 'utf-8')
+            .split('\n')
+            .filter((line) => line.trim())
+            .map((line) => JSON.parse(line))
+        : [];
+    } catch (e: any) {
+      this.records = [];
+      console.error(`❌ [TraceStore] Could not load ${this.filePath}: ${e.message}`);
+    }
+    this.prune();
+    console.log(
+      `🧾 [TraceStore] Sample rate ${this.getSampleRate()}, retention ${this.getRetentionDays()} days, ${this.records.length} traces in ${this.filePath}`,
+    );
+  }
+
+  getSampleRate(): number {
+    const rate = parseFloat(this.configService.get<string>('TRACE_SAMPLE_RATE') || '0');
+    return isNaN(rate) ? 0 : Math.min(Math.max(rate, 0), 1);
+  }
+
+  getRetentionDays(): number {
+    const days = parseInt(this.configService.get<string>('TRACE_RETENTION_DAYS') || '14', 10);
+    return isNaN(days) || days < 1 ? 14 : days;
+  }
+
+  /** Whether turns of this session are traced (stable for the session, so conversations stay whole). */
+  isSampled(sessionId: string): boolean {
+    const rate = this.getSampleRate();
+    if (rate <= 0) return false;
+    if (rate >= 1) return true;
+    const bucket = parseInt(createHash('sha256').update(sessionId).digest('hex').slice(0, 8), 16) / 0xffffffff;
+    return bucket < rate;
+  }
+
+  /** Store the trace when the session is sampled; returns the record, or null when not sampled. */
+  record(entry: TraceEntry): TraceRecord | null {
+    if (!this.isSampled(entry.sessionId)) return null;
+    if (Date.now() - this.lastPrune > PRUNE_INTERVAL_MS) this.prune();
+
+    const record: TraceRecord = { id: uuidv4(), timestamp: new Date().toISOString(), ...entry };
+    this.records.push(record);
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (e: any) {
+      console.error(`❌ [TraceStore] Could not write trace for message ${entry.messageId}: ${e.message}`);
+    }
+    return record;
+  }
+
+  /** Matching traces, newest first. */
+  query(filter: TraceQuery = {}): { total: number; records: TraceRecord[] } {
+    const matches = this.records.filter((r) => {
+      const time = new Date(r.timestamp).getTime();
+      return (
+        (!filter.userId || r.userId === filter.userId) &&
+        (!filter.sessionId || r.sessionId === filter.sessionId) &&
+        (!filter.since || time >= filter.since.getTime()) &&
+        (!filter.until || time <= filter.until.getTime())
+      );
+    });
+    const limit = Math.min(Math.max(filter.limit ?? 50, 1), 500);
+    return { total: matches.length, records: matches.reverse().slice(0, limit) };
+  }
+
+  /** Trace of one assistant message (or trace id). */
+  get(messageId: string): TraceRecord | undefined {
+    return this.records.find((r) => r.messageId === messageId || r.id === messageId);
+  }
+
+  /** Drop traces past the retention window (rewrites the file when any were dropped). */
+  private prune(): void {
+    this.lastPrune = Date.now();
+    const cutoff = Date.now() - this.getRetentionDays() * 24 * 60 * 60 * 1000;
+    const kept = this.records.filter((r) => new Date(r.timestamp).getTime() >= cutoff);
+    if (kept.length === this.records.length) return;
+
+    console.log(`🧾 [TraceStore] Pruned ${this.records.length - kept.length} traces older than ${this.getRetentionDays()} days`);
+    this.records = kept;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, kept.map((r) => JSON.stringify(r) + '\n').join(''), 'utf-8');
+    } catch (e: any) {
+      console.error(`❌ [TraceStore] Could not rewrite ${this.filePath}: ${e.message}`);
+    }
+  }
+}
@@ -5,11 +5,15 @@ import * as path from 'path';
 const STORE_DIR = path.join(process.cwd(), '.usage-data');
 const CREDIT_FILE = path.join(STORE_DIR, 'credit-usage.json');
 const BUDGET_FILE = path.join(STORE_DIR, 'budget-usage.json');
+const EXPERIMENT_FILE = path.join(STORE_DIR, 'experiment-outcomes.json');
+const LONGITUDINAL_FILE = path.join(STORE_DIR, 'longitudinal-profiles.json');
 
 @Injectable()
 export class UsageStoreService implements OnModuleInit {
   private creditData: Record<string, any> = {};
   private budgetData: Record<string, any> = {};
+  private experimentData: Record<string, any> = {};
+  private longitudinalData: Record<string, any> = {};
 
   onModuleInit() {
     if (!fs.existsSync(STORE_DIR)) {
@@ -17,7 +21,9 @@ export class UsageStoreService implements OnModuleInit {
     }
     this.creditData = this.loadFile(CREDIT_FILE);
     this.budgetData = this.loadFile(BUDGET_FILE);
-    console.log(`💾 [UsageStore] Loaded ${Object.keys(this.creditData).length} credit records, ${Object.keys(this.budgetData).length} budget records`);
+    this.experimentData = this.loadFile(EXPERIMENT_FILE);
+    this.longitudinalData = this.loadFile(LONGITUDINAL_FILE);
+    console.log(`💾 [UsageStore] Loaded ${Object.keys(this.creditData).length} credit records, ${Object.keys(this.budgetData).length} budget records, ${Object.keys(this.experimentData).length} experiment variant records, ${Object.keys(this.longitudinalData).length} longitudinal profiles`);
   }
 
   private loadFile(filePath: string): Record<string, any> {
@@ -76,4 +82,26 @@ export class UsageStoreService implements OnModuleInit {
   getAllBudgetKeys(): string[] {
     return Object.keys(this.budgetData);
   }
+
+  getExperimentRecord(key: string): any | undefined {
+    return this.experimentData[key];
+  }
+
+  setExperimentRecord(key: string, value: any): void {
+    this.experimentData[key] = value;
+    this.saveFile(EXPERIMENT_FILE, this.experimentData);
+  }
+
+  getAllExperimentKeys(): string[] {
+    return Object.keys(this.experimentData);
+  }
+
+  getLongitudinalRecord(key: string): any | undefined {
+    return this.longitudinalData[key];
+  }
+
+  setLongitudinalRecord(key: string, value: any): void {
+    this.longitudinalData[key] = value;
+    this.saveFile(LONGITUDINAL_FILE, this.longitudinalData);
+  }
 }